@@ -0,0 +1,172 @@
+// ============================================================================
+// SUMA — Dead Letter Admin (api/admin-dead-letters.ts)
+//
+// Lists, inspects and replays the messages whose processing gave up
+// (see src/services/dead-letters.ts):
+//   GET  ?status=pending&limit=50       → list (no payloads)
+//   GET  ?id=<uuid>                     → one dead letter, payload and stack
+//   POST { id, action: "replay", notify? } → runs it through the same
+//        pipeline as api/process-message.ts; with notify, the user first
+//        gets a "sorry, your message was processed late" notice
+//   POST { id, action: "discard" }      → marks it as not worth replaying
+//
+// Security: requires ADMIN_SECRET (Bearer header or ?secret). Unlike the
+// cron secret, there's no open mode: without ADMIN_SECRET every call is
+// rejected.
+// ============================================================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { DeadLetterStatus, PipelineStage } from "../src/types/index.js";
+import { loadConfig } from "../src/utils/config.js";
+import {
+    listDeadLetters,
+    getDeadLetter,
+    claimDeadLetter,
+    finishDeadLetterReplay,
+    discardDeadLetter,
+} from "../src/services/dead-letters.js";
+import {
+    claimMessageForReplay,
+    releaseMessageClaim,
+    markMessageProcessed,
+    markMessageError,
+} from "../src/services/idempotency.js";
+import { acquireUserLock, releaseUserLock } from "../src/services/message-ordering.js";
+import { sendSimpleText } from "../src/services/whatsapp.js";
+import { runClaimedMessage } from "./process-message.js";
+
+const STATUSES: DeadLetterStatus[] = ["pending", "replaying", "replayed", "discarded"];
+
+const LATE_NOTICE = "🙏 Perdón, tu mensaje se procesó tarde. Acá va la respuesta:";
+
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse,
+): Promise<void> {
+    console.log(`[SUMA] 🪦 admin-dead-letters hit: ${req.method}`);
+
+    if (req.method !== "POST" && req.method !== "GET") {
+        res.status(405).json({ error: "Method not allowed" });
+        return;
+    }
+
+    const adminSecret = process.env.ADMIN_SECRET;
+    const providedSecret = req.headers.authorization?.replace("Bearer ", "") ?? req.query?.secret;
+    if (!adminSecret || providedSecret !== adminSecret) {
+        console.error("[SUMA] ❌ Invalid admin secret");
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+    }
+
+    try {
+        if (req.method === "GET") {
+            const id = typeof req.query.id === "string" ? req.query.id : null;
+            if (id) {
+                const row = await getDeadLetter(id);
+                if (!row) {
+                    res.status(404).json({ error: "Dead letter not found" });
+                    return;
+                }
+                res.status(200).json({ status: "ok", deadLetter: row });
+                return;
+            }
+
+            const status = STATUSES.find((s) => s === req.query.status) ?? "pending";
+            const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+            const deadLetters = await listDeadLetters(status, limit);
+            res.status(200).json({ status: "ok", count: deadLetters.length, deadLetters });
+            return;
+        }
+
+        const body = (typeof req.body === "string" ? JSON.parse(req.body) : req.body) as
+            { id?: string; action?: string; notify?: boolean } | undefined;
+
+        if (!body?.id || (body.action !== "replay" && body.action !== "discard")) {
+            res.status(400).json({ error: "Expected { id, action: \"replay\" | \"discard\" }" });
+            return;
+        }
+
+        if (body.action === "discard") {
+            const discarded = await discardDeadLetter(body.id);
+            res.status(discarded ? 200 : 409).json(
+                discarded ? { status: "discarded", id: body.id } : { error: "Dead letter is not pending" },
+            );
+            return;
+        }
+
+        // ── Replay ─────────────────────────────────────────────────────
+        const row = await claimDeadLetter(body.id);
+        if (!row) {
+            res.status(409).json({ error: "Dead letter is not pending" });
+            return;
+        }
+
+        // The same gate as QStash deliveries, minus the attempt limit
+        const claim = await claimMessageForReplay(row.wamid, row.user_phone);
+        if (claim === "duplicate") {
+            await finishDeadLetterReplay(row, { status: "discarded" });
+            res.status(409).json({ error: "Message was already processed", id: row.id });
+            return;
+        }
+        if (claim === "in_progress") {
+            await finishDeadLetterReplay(row, { status: "pending", error: "Message is being processed" });
+            res.status(409).json({ error: "Message is being processed", id: row.id });
+            return;
+        }
+
+        // One message per user at a time, replays included
+        if (!(await acquireUserLock(row.user_phone, row.wamid))) {
+            await releaseMessageClaim(row.wamid);
+            await finishDeadLetterReplay(row, { status: "pending", error: "User has a message in flight" });
+            res.status(409).json({ error: "User has a message in flight, try again", id: row.id });
+            return;
+        }
+
+        const config = loadConfig();
+
+        if (body.notify) {
+            try {
+                await sendSimpleText({
+                    to: row.user_phone,
+                    phoneNumberId: config.WHATSAPP_PHONE_NUMBER_ID,
+                    apiToken: config.WHATSAPP_API_TOKEN,
+                    text: LATE_NOTICE,
+                });
+            } catch (err) {
+                // Outside the 24h window free-form text fails — replay anyway
+                console.warn(`[SUMA] ⚠️ Late notice to ${row.user_phone} failed:`, err instanceof Error ? err.message : err);
+            }
+        }
+
+        const progress: { stage: PipelineStage } = { stage: "session_window" };
+        try {
+            await runClaimedMessage(row.payload, config, progress);
+        } catch (err) {
+            const errorMsg = err instanceof Error ? err.message : String(err);
+            console.error(`[SUMA] ❌ Replay of ${row.wamid} failed at ${progress.stage}:`, errorMsg);
+
+            await markMessageError(row.wamid, errorMsg);
+            await finishDeadLetterReplay(row, { status: "pending", error: errorMsg });
+
+            res.status(500).json({ error: "Replay failed", stage: progress.stage, message: errorMsg, id: row.id });
+            return;
+        } finally {
+            await releaseUserLock(row.user_phone, row.wamid);
+        }
+
+        await markMessageProcessed(row.wamid);
+        await finishDeadLetterReplay(row, { status: "replayed" });
+
+        console.log(`[SUMA] 🔁 Dead letter ${row.id} (${row.wamid}) replayed`);
+        res.status(200).json({
+            status: "replayed",
+            id: row.id,
+            wamid: row.wamid,
+            processedAt: new Date().toISOString(),
+        });
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error("[SUMA] ❌ admin-dead-letters error:", errorMsg);
+        res.status(500).json({ error: "Dead letter operation failed" });
+    }
+}
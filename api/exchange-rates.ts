@@ -0,0 +1,83 @@
+// ============================================================================
+// SUMA — Exchange Rates Job + Admin Input (api/exchange-rates.ts)
+//
+// GET / POST (no body) → loads today's USD quotes from DolarAPI.
+//   Called by a QStash / Vercel cron schedule (a few times a day).
+// POST { rates: [{ rate_type, sell, buy?, rate_date?, currency? }] } → manual
+//   quotes entered by an admin; they take precedence over the job's quotes.
+//   An invalid quote gets a 400 naming it, and nothing is stored.
+//
+// Security: verifies CRON_SECRET (same as process-alerts).
+// Idempotent: one row per (currency, rate type, date, source).
+// ============================================================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+    syncExchangeRates,
+    upsertManualRates,
+    validateManualRate,
+} from "../src/services/exchange-rates.js";
+
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse,
+): Promise<void> {
+    console.log("[SUMA] 💱 exchange-rates hit");
+
+    if (req.method !== "POST" && req.method !== "GET") {
+        res.status(405).json({ error: "Method not allowed" });
+        return;
+    }
+
+    try {
+        // Verify cron secret (QStash, Vercel cron or admin)
+        const cronSecret = process.env.CRON_SECRET;
+        if (cronSecret) {
+            const authHeader = req.headers.authorization;
+            const querySecret = req.query?.secret;
+
+            const providedSecret = authHeader?.replace("Bearer ", "") ?? querySecret;
+
+            if (providedSecret !== cronSecret) {
+                console.error("[SUMA] ❌ Invalid cron secret");
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+        }
+
+        const manualRates = req.method === "POST" ? req.body?.rates : undefined;
+
+        if (manualRates !== undefined) {
+            if (!Array.isArray(manualRates) || manualRates.length === 0) {
+                res.status(400).json({ error: "rates must be a non-empty array" });
+                return;
+            }
+
+            // A bad quote is the caller's mistake: say which one, store none
+            for (const [index, rate] of manualRates.entries()) {
+                const invalid = validateManualRate(rate);
+                if (invalid) {
+                    res.status(400).json({ error: `rates[${index}]: ${invalid}` });
+                    return;
+                }
+            }
+
+            const stored = await upsertManualRates(manualRates);
+            res.status(200).json({ status: "ok", source: "manual", stored });
+            return;
+        }
+
+        const stored = await syncExchangeRates();
+
+        res.status(200).json({
+            status: "ok",
+            source: "job",
+            stored,
+            processedAt: new Date().toISOString(),
+        });
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error("[SUMA] ❌ exchange-rates error:", errorMsg);
+        res.status(500).json({ error: "Exchange rate update failed" });
+    }
+}
@@ -1,11 +1,11 @@
 // ============================================================================
 // SUMA — Subscription Alert Cron Worker (api/process-alerts.ts)
 //
-// Called by QStash cron schedule. Finds subscriptions with pending alerts
-// and sends renewal reminders via WhatsApp.
+// Called by QStash cron schedule. Creates the subscription reminders that
+// came due and sends them via WhatsApp (renewal or upcoming charge).
 //
 // Security: verifies CRON_SECRET to prevent unauthorized calls.
-// Idempotent: uses alert_sent flag — safe for QStash retries.
+// Idempotent: each reminder row is claimed before sending — safe for QStash retries.
 // ============================================================================
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
@@ -41,14 +41,16 @@ export default async function handler(
 
         const config = loadConfig();
 
-        const alertsSent = await processPendingAlerts(
+        const alerts = await processPendingAlerts(
             config.WHATSAPP_PHONE_NUMBER_ID,
             config.WHATSAPP_API_TOKEN,
         );
 
         res.status(200).json({
             status: "ok",
-            alertsSent,
+            alertsSent: alerts.sent,
+            alertsFailed: alerts.failed,
+            alertsSkipped: alerts.skipped,
             processedAt: new Date().toISOString(),
         });
     } catch (err) {
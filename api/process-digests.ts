@@ -0,0 +1,62 @@
+// ============================================================================
+// SUMA — Spending Digest Cron Worker (api/process-digests.ts)
+//
+// Called by a QStash / Vercel cron schedule (hourly, so each user gets
+// their digest at their chosen local hour). Sends the weekly and month-end
+// spending digests that are due.
+//
+// Security: verifies CRON_SECRET (same as process-alerts).
+// Idempotent: each digest row is claimed before sending — safe for retries.
+// ============================================================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { loadConfig } from "../src/utils/config.js";
+import { processDigests } from "../src/services/digests.js";
+
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse,
+): Promise<void> {
+    console.log("[SUMA] 🗓️ process-digests hit");
+
+    if (req.method !== "POST" && req.method !== "GET") {
+        res.status(405).json({ error: "Method not allowed" });
+        return;
+    }
+
+    try {
+        // Verify cron secret (QStash or Vercel cron)
+        const cronSecret = process.env.CRON_SECRET;
+        if (cronSecret) {
+            const authHeader = req.headers.authorization;
+            const querySecret = req.query?.secret;
+
+            const providedSecret = authHeader?.replace("Bearer ", "") ?? querySecret;
+
+            if (providedSecret !== cronSecret) {
+                console.error("[SUMA] ❌ Invalid cron secret");
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+        }
+
+        const config = loadConfig();
+
+        const digests = await processDigests(
+            config.WHATSAPP_PHONE_NUMBER_ID,
+            config.WHATSAPP_API_TOKEN,
+        );
+
+        res.status(200).json({
+            status: "ok",
+            digestsSent: digests.sent,
+            digestsFailed: digests.failed,
+            digestsSkipped: digests.skipped,
+            processedAt: new Date().toISOString(),
+        });
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error("[SUMA] ❌ process-digests error:", errorMsg);
+        res.status(500).json({ error: "Digest processing failed" });
+    }
+}
@@ -3,39 +3,77 @@
 //
 // Sección 3: Intent-based routing.
 //
-// This endpoint is called by QStash (not directly by Meta).
+// This endpoint is called by QStash (not directly by Meta); with the
+// Supabase or in-memory queue, handleMessageJob is called in-process instead.
 // Pipeline:
 //   1. Verify QStash signature
-//   2. Check idempotency (skip if already processed)
+//   2. Claim the message (skip if already processed, re-claim if it failed)
+//      and wait for the user's earlier messages (re-enqueued until its turn)
 //   3. Parse message → classify intent via type-specific parsers
-//   4. Route by intent: record | query | system_command | unknown
-//   5. Return 200 on success (or 5xx for QStash to retry)
+//   4. Route by intent: record | query | balance | system_command | unknown
+//   5. Return 200 on success (or 5xx for the queue to retry; the last failed
+//      attempt is dead-lettered for api/admin-dead-letters.ts to replay)
 // ============================================================================
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import type {
+    AccountType,
+    PipelineStage,
     QueuedMessagePayload,
     WhatsAppMessage,
     ParsedIntent,
     ChatMessage,
+    SubscriptionFrequency,
 } from "../src/types/index.js";
 import { loadConfig } from "../src/utils/config.js";
 import { verifyQStashSignature } from "../src/queue/qstash.js";
+import { getMessageQueue } from "../src/queue/message-queue.js";
+import { registerJobHandler, DEFAULT_QUEUE_RETRIES } from "../src/queue/jobs.js";
+import type { JobDelivery, JobResult } from "../src/queue/jobs.js";
 import {
     claimMessageId,
+    releaseMessageClaim,
     markMessageProcessed,
     markMessageError,
+    MAX_MESSAGE_ATTEMPTS,
 } from "../src/services/idempotency.js";
+import {
+    hasEarlierPendingMessage,
+    acquireUserLock,
+    releaseUserLock,
+    deferralDelaySeconds,
+    MAX_DEFERRALS,
+} from "../src/services/message-ordering.js";
+import { recordDeadLetter } from "../src/services/dead-letters.js";
 import { parseText, parseAudio, parseImage } from "../src/services/parsers/index.js";
 import type { ParseOptions } from "../src/services/parsers/index.js";
 import {
     upsertUser,
+    recordInboundMessage,
     getMonthlyTransactionCount,
+    softDeleteTransaction,
+    softDeleteBatch,
+    getUserBaseCurrency,
 } from "../src/services/transaction-repository.js";
 import {
     sendSimpleText,
     sendPostConfirmationButtons,
     sendAlertButtons,
+    sendAccountTypeList,
+    buildBalanceAdjustmentSummary,
+    buildBudgetSetReply,
+    buildBudgetAlert,
+    buildSavingsGoalReply,
+    buildSavingsProgress,
+    buildSubscriptionOverview,
+    buildSubscriptionUpdated,
+    buildReminderSettingsReply,
+    buildDigestSettingsReply,
+    buildTrialSavedReply,
+    sendSubscriptionList,
+    sendSubscriptionActions,
+    sendSubscriptionFrequencyButtons,
+    buildTrialKeptReply,
 } from "../src/services/whatsapp.js";
 import {
     scheduleAlert,
@@ -48,13 +86,35 @@ import {
     getPending,
     sendConfirmation,
     confirmAndSave,
+    assignAccountAndSave,
     startFieldCorrection,
     selectFieldToEdit,
     applyFieldCorrection,
+    selectBatchItem,
+    editBatchItem,
+    removeBatchItem,
+    parseAmountInput,
 } from "../src/services/confirmation-flow.js";
+import type { ConfirmResult } from "../src/services/confirmation-flow.js";
 import { getRecentHistory, saveMessage } from "../src/services/chat-memory.js";
+import { adjustAccountBalance } from "../src/services/balances.js";
+import { setBudget, checkBudgetAlerts } from "../src/services/budgets.js";
+import { upsertSavingsGoal, getSavingsProgress } from "../src/services/savings-goals.js";
+import { setReminderDays } from "../src/services/reminders.js";
+import { setDigestSettings } from "../src/services/digests.js";
+import {
+    getSubscriptionOverview,
+    getUserSubscription,
+    updateSubscriptionAmount,
+    updateSubscriptionFrequency,
+    pauseSubscription,
+    keepTrial,
+    FREQUENCIES,
+} from "../src/services/subscriptions.js";
+import { resolveDateReference } from "../src/utils/dates.js";
 import { getSupabaseClient } from "../src/lib/supabase.js";
 import { handleSalesFlow } from "../src/services/sales-flow.js";
+import { answerQuery } from "../src/services/query-engine.js";
 import type { IncomingMessage } from "node:http";
 
 // Diagnostic: if you don't see this in logs, the module failed to load
@@ -122,47 +182,152 @@ export default async function handler(
             return;
         }
 
-        // ── Step 2: Parse the payload ───────────────────────────────────
-        const payload: QueuedMessagePayload = JSON.parse(rawBody);
-        const { message: msg } = payload;
-        const userPhone = msg.from.replace(/^549/, "54");
+        // ── Step 2: Parse the payload and run it ───────────────────────
+        const payload = JSON.parse(rawBody) as QueuedMessagePayload;
+        const result = await handleMessageJob(payload, {
+            retried: Number(req.headers["upstash-retried"] ?? 0),
+        });
+        res.status(result.status).json(result.body);
+
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error(`[SUMA] ❌ Top-level error:`, errorMsg);
+        res.status(500).json({ error: "Processing failed" });
+    }
+}
 
-        // Extract WhatsApp profile name from contacts (if available)
-        const waProfileName = payload.contacts?.[0]?.profile?.name ?? null;
+// ---------------------------------------------------------------------------
+// Queue job — steps 3 to 5, whichever queue driver delivered the message
+// ---------------------------------------------------------------------------
 
-        console.log(`[SUMA] 📨 Message ${msg.id} from ${userPhone} (type: ${msg.type})`);
+/**
+ * Claims, orders and processes one queued message. QStash reaches it
+ * through the handler above; the Supabase and in-memory queues call it
+ * directly (registered below). A non-2xx result makes the queue retry.
+ */
+export async function handleMessageJob(
+    payload: QueuedMessagePayload,
+    delivery: JobDelivery,
+): Promise<JobResult> {
+    const config = loadConfig();
+    const { message: msg } = payload;
+    const userPhone = userPhoneOf(msg);
+    let claimed = false;
+    let locked = false;
+    const progress: { stage: PipelineStage } = { stage: "claim" };
+
+    console.log(`[SUMA] 📨 Message ${msg.id} from ${userPhone} (type: ${msg.type})`);
 
+    try {
         // ── Step 3: Idempotency check ──────────────────────────────────
-        const claimed = await claimMessageId(msg.id, userPhone);
-        if (!claimed) {
-            console.log(`[SUMA] ♻️ Duplicate message ${msg.id} — skipping`);
-            res.status(200).json({ status: "duplicate", wamid: msg.id });
-            return;
+        const messageAt = messageTimeOf(msg);
+        const claim = await claimMessageId(msg.id, userPhone, messageAt);
+        if (claim === "duplicate" || claim === "exhausted") {
+            console.log(`[SUMA] ♻️ Message ${msg.id} ${claim} — skipping`);
+            return { status: 200, body: { status: claim, wamid: msg.id } };
+        }
+        if (claim === "in_progress") {
+            // Non-2xx so the queue retries: by then it's completed, or the lease expired
+            return { status: 409, body: { status: claim, wamid: msg.id } };
+        }
+        claimed = true;
+
+        // ── Step 4: Wait for the user's earlier messages ───────────────
+        progress.stage = "ordering";
+        const deferrals = payload.deferrals ?? 0;
+        locked = !(await hasEarlierPendingMessage(userPhone, msg.id, messageAt))
+            && await acquireUserLock(userPhone, msg.id);
+
+        if (!locked && deferrals < MAX_DEFERRALS) {
+            const delaySeconds = deferralDelaySeconds(deferrals);
+            await releaseMessageClaim(msg.id);
+            await getMessageQueue(config).publish({
+                topic: "message",
+                payload: { ...payload, deferrals: deferrals + 1 },
+                delaySeconds,
+                deduplicationId: `${msg.id}:deferred:${deferrals + 1}`,
+            });
+            console.log(`[SUMA] ⏳ Message ${msg.id} waits for ${userPhone}'s earlier messages — re-enqueued in ${delaySeconds}s`);
+            return { status: 202, body: { status: "deferred", wamid: msg.id, deferrals: deferrals + 1 } };
+        }
+        if (!locked) {
+            console.warn(`[SUMA] ⚠️ Message ${msg.id} waited ${deferrals} times — processing out of turn`);
         }
 
-        // ── Step 4: Process the message ────────────────────────────────
-        await processMessage(msg, userPhone, config, waProfileName);
+        // ── Step 5: Process the message ────────────────────────────────
+        await runClaimedMessage(payload, config, progress);
         await markMessageProcessed(msg.id);
-        res.status(200).json({ status: "processed", wamid: msg.id });
+        return { status: 200, body: { status: "processed", wamid: msg.id } };
 
     } catch (err) {
         const errorMsg = err instanceof Error ? err.message : String(err);
-        console.error(`[SUMA] ❌ Top-level error:`, errorMsg);
-
-        // Try to mark error if we have a message ID
-        try {
-            const body = typeof req.body === "string" ? JSON.parse(req.body) : req.body;
-            if (body?.message?.id) {
-                await markMessageError(body.message.id, errorMsg);
+        console.error(`[SUMA] ❌ Message ${msg.id} failed at ${progress.stage}:`, errorMsg);
+
+        // Release the claim so the queue's retry processes the message again;
+        // on the last attempt, keep the whole message for an admin replay
+        if (claimed) {
+            const attempts = await markMessageError(msg.id, errorMsg);
+
+            if (attempts >= MAX_MESSAGE_ATTEMPTS || delivery.retried >= DEFAULT_QUEUE_RETRIES) {
+                await recordDeadLetter({
+                    payload,
+                    userPhone,
+                    stage: progress.stage,
+                    error: err,
+                    attempts,
+                });
             }
-        } catch {
-            // Can't extract message ID — just log
         }
 
-        res.status(500).json({ error: "Processing failed" });
+        return { status: 500, body: { error: "Processing failed" } };
+    } finally {
+        if (locked) {
+            await releaseUserLock(userPhone, msg.id);
+        }
     }
 }
 
+registerJobHandler("message", handleMessageJob);
+
+// ---------------------------------------------------------------------------
+// Pipeline for a claimed message (also replays of dead letters)
+// ---------------------------------------------------------------------------
+
+/** The user's phone as stored: Argentine mobiles drop the 9 after 54 */
+export function userPhoneOf(msg: WhatsAppMessage): string {
+    return msg.from.replace(/^549/, "54");
+}
+
+/** When the user sent the message (WhatsApp's timestamp is in seconds) */
+function messageTimeOf(msg: WhatsAppMessage): Date {
+    const sentAt = new Date(Number(msg.timestamp) * 1000);
+    return Number.isNaN(sentAt.getTime()) ? new Date() : sentAt;
+}
+
+/**
+ * Processes a message that was already claimed. Used by the handler above
+ * and by api/admin-dead-letters.ts to replay dead letters. `progress.stage`
+ * is kept up to date so a failure can say where it happened.
+ */
+export async function runClaimedMessage(
+    payload: QueuedMessagePayload,
+    config: ReturnType<typeof loadConfig>,
+    progress: { stage: PipelineStage } = { stage: "session_window" },
+): Promise<void> {
+    const { message: msg } = payload;
+    const userPhone = userPhoneOf(msg);
+
+    // Extract WhatsApp profile name from contacts (if available)
+    const waProfileName = payload.contacts?.[0]?.profile?.name ?? null;
+
+    // Any message from the user reopens the 24h session window
+    progress.stage = "session_window";
+    await recordInboundMessage(userPhone, messageTimeOf(msg));
+
+    progress.stage = "process";
+    await processMessage(msg, userPhone, config, waProfileName);
+}
+
 // ---------------------------------------------------------------------------
 // WhatsApp send params helper
 // ---------------------------------------------------------------------------
@@ -193,6 +358,16 @@ async function processMessage(
         apiToken: config.WHATSAPP_API_TOKEN,
     };
 
+    // Quick replies of template messages carry the same IDs as the
+    // interactive buttons, in button.payload
+    if (msg.type === "button" && msg.button?.payload) {
+        msg = {
+            ...msg,
+            type: "interactive",
+            interactive: { type: "button_reply", button_reply: { id: msg.button.payload, title: msg.button.text } },
+        };
+    }
+
     // ── PASO 1: Detectar si es respuesta interactiva (botones/listas) ───
     // Must be checked BEFORE extractContent, which returns null for interactive
     if (msg.type === "interactive") {
@@ -287,6 +462,15 @@ async function processMessage(
             await saveMessage(user.id, "system", "[alert_date_processed]");
             return;
         }
+
+        // ── PASO 5c: Nuevo monto / fecha de pausa de una suscripción ──
+        const subInput = lastSystem?.content?.match(/^\[awaiting_sub_(amount|pause):(.+)\]$/);
+        if (subInput) {
+            await handleSubscriptionInput(subInput[1] as "amount" | "pause", subInput[2], text, user.id, userPhone, sendParams);
+            await saveMessage(user.id, "user", text);
+            await saveMessage(user.id, "system", "[sub_input_processed]");
+            return;
+        }
     }
 
     // ── PASO 6: Onboarding — 3 escenarios según origen del usuario ─────
@@ -432,7 +616,7 @@ async function processMessage(
     // ── PASO 9: Routing por intent ──────────────────────────────────────
     switch (parsed.intent) {
         case "record_transaction": {
-            if (!parsed.transaction_data) {
+            if (!parsed.transaction_data || !parsed.transactions?.length) {
                 await sendSimpleText({
                     to: userPhone, ...sendParams,
                     text: "⚠️ No pude interpretar los datos. Probá de nuevo.",
@@ -440,7 +624,17 @@ async function processMessage(
                 await saveMessage(user.id, "assistant", "[Error: sin datos de transacción]");
                 break;
             }
-            await createPending(user.id, parsed.transaction_data, "transaction");
+            // "ayer" / "el viernes" / receipt date → local date in the user's timezone
+            for (const tx of parsed.transactions) {
+                tx.occurred_on = resolveDateReference(tx.date, user.timezone);
+            }
+
+            // Several movements in one message → one confirmation for all of them
+            if (parsed.transactions.length > 1) {
+                await createPending(user.id, { items: parsed.transactions, editing_index: null }, "batch");
+            } else {
+                await createPending(user.id, parsed.transaction_data, "transaction");
+            }
             const pendingRow = await getPending(user.id);
             await sendConfirmation(pendingRow!, userPhone, sendParams);
             await saveMessage(user.id, "assistant", "[Confirmación enviada]");
@@ -463,13 +657,139 @@ async function processMessage(
             break;
         }
 
-        case "query":
+        case "query": {
+            // Numbers always come from the ledger — reply_message is only a fallback
+            const queryData = parsed.query_data ?? {
+                topic: "summary",
+                period: "this_month",
+                month: null,
+                year: null,
+                category: null,
+                type: null,
+            };
+            // "mis suscripciones" → list to pick one and manage it
+            if (queryData.topic === "subscriptions") {
+                await sendSubscriptionManager(user.id, userPhone, sendParams);
+                break;
+            }
+            let answer: string;
+            try {
+                answer = await answerQuery(user.id, queryData);
+            } catch (err) {
+                console.error(`[SUMA] ❌ Query failed:`, err);
+                answer = "⚠️ No pude calcular tu resumen ahora. Probá de nuevo en un rato.";
+            }
             await sendSimpleText({
                 to: userPhone, ...sendParams,
-                text: parsed.reply_message || "📊 Las consultas financieras van a estar disponibles pronto.",
+                text: answer,
+            });
+            await saveMessage(user.id, "assistant", answer);
+            break;
+        }
+
+        case "balance_adjustment": {
+            if (!parsed.balance_data) {
+                await sendSimpleText({
+                    to: userPhone, ...sendParams,
+                    text: "⚠️ No entendí el saldo. Probá con algo como _\"tengo 45.000 en el banco\"_.",
+                });
+                await saveMessage(user.id, "assistant", "[Error: sin datos de saldo]");
+                break;
+            }
+            const adjustment = await adjustAccountBalance(
+                user.id,
+                parsed.balance_data.account,
+                parsed.balance_data.amount,
+                parsed.balance_data.currency,
+            );
+            const adjustmentText = buildBalanceAdjustmentSummary(adjustment);
+            if (adjustment.transactionId) {
+                await sendPostConfirmationButtons({
+                    to: userPhone, ...sendParams,
+                    summaryText: adjustmentText,
+                    transactionId: adjustment.transactionId,
+                });
+            } else {
+                await sendSimpleText({ to: userPhone, ...sendParams, text: adjustmentText });
+            }
+            await saveMessage(user.id, "assistant", adjustmentText);
+            break;
+        }
+
+        case "budget": {
+            if (!parsed.budget_data) {
+                await sendSimpleText({
+                    to: userPhone, ...sendParams,
+                    text: "⚠️ No entendí el presupuesto. Probá con algo como _\"presupuesto de comida 80.000\"_.",
+                });
+                await saveMessage(user.id, "assistant", "[Error: sin datos de presupuesto]");
+                break;
+            }
+            const budgetSaved = await setBudget(
+                user.id,
+                parsed.budget_data.category,
+                parsed.budget_data.amount,
+            );
+            const budgetText = buildBudgetSetReply({
+                category: parsed.budget_data.category,
+                amount: parsed.budget_data.amount,
+                saved: budgetSaved,
+                currency: user.baseCurrency,
             });
-            await saveMessage(user.id, "assistant", parsed.reply_message || "[Consulta]");
+            await sendSimpleText({ to: userPhone, ...sendParams, text: budgetText });
+            await saveMessage(user.id, "assistant", budgetText);
+            break;
+        }
+
+        case "savings_goal": {
+            if (!parsed.savings_goal_data || parsed.savings_goal_data.target_amount <= 0) {
+                await sendSimpleText({
+                    to: userPhone, ...sendParams,
+                    text: "⚠️ No entendí la meta. Probá con algo como _\"quiero ahorrar 500.000 para vacaciones en diciembre\"_.",
+                });
+                await saveMessage(user.id, "assistant", "[Error: sin datos de meta de ahorro]");
+                break;
+            }
+            const goalProgress = await upsertSavingsGoal(user.id, parsed.savings_goal_data);
+            const goalText = buildSavingsGoalReply(goalProgress, user.baseCurrency);
+            await sendSimpleText({ to: userPhone, ...sendParams, text: goalText });
+            await saveMessage(user.id, "assistant", goalText);
             break;
+        }
+
+        case "reminders": {
+            if (!parsed.reminder_data) {
+                await sendSimpleText({
+                    to: userPhone, ...sendParams,
+                    text: "⚠️ No entendí cuándo avisarte. Probá con algo como _\"avisame 7 días y 1 día antes de cada cobro\"_.",
+                });
+                await saveMessage(user.id, "assistant", "[Error: sin datos de recordatorios]");
+                break;
+            }
+            const reminderSettings = await setReminderDays(user.id, parsed.reminder_data);
+            const reminderText = reminderSettings
+                ? buildReminderSettingsReply(reminderSettings)
+                : `🤔 No encontré una suscripción activa llamada *${parsed.reminder_data.service_name}*. Mirá tus suscripciones con _"mis suscripciones"_.`;
+            await sendSimpleText({ to: userPhone, ...sendParams, text: reminderText });
+            await saveMessage(user.id, "assistant", reminderText);
+            break;
+        }
+
+        case "digest": {
+            if (!parsed.digest_data) {
+                await sendSimpleText({
+                    to: userPhone, ...sendParams,
+                    text: "⚠️ No entendí qué cambiar del resumen. Probá con algo como _\"mandame el resumen los viernes a las 20\"_.",
+                });
+                await saveMessage(user.id, "assistant", "[Error: sin datos de resumen]");
+                break;
+            }
+            const digestSettings = await setDigestSettings(user.id, parsed.digest_data);
+            const digestText = buildDigestSettingsReply(digestSettings);
+            await sendSimpleText({ to: userPhone, ...sendParams, text: digestText });
+            await saveMessage(user.id, "assistant", digestText);
+            break;
+        }
 
         case "system_command":
             if (parsed.reply_message === "undo") {
@@ -534,10 +854,9 @@ async function handleInteractiveReply(
         const confirmationId = replyId.replace("confirm_yes_", "");
 
         // Step 1: try to confirm and save the transaction
-        let result: { transactionId: string; summary: string; subscriptionId?: string; endDate?: string; serviceName?: string };
+        let result: ConfirmResult;
         try {
             result = await confirmAndSave(confirmationId, user.id);
-            console.log(`[SUMA] ✅ Transaction saved: ${result.transactionId}`);
         } catch (err) {
             console.error(`[SUMA] ❌ confirmAndSave failed:`, err);
             // Pending was already consumed (double-tap) or expired
@@ -548,44 +867,31 @@ async function handleInteractiveReply(
             return;
         }
 
-        // Step 2: If subscription with end_date → send alert buttons instead of undo
-        if (result.subscriptionId && result.endDate) {
-            try {
-                await sendAlertButtons({
-                    to: userPhone, ...sendParams,
-                    subscriptionId: result.subscriptionId,
-                    serviceName: result.serviceName!,
-                    endDate: result.endDate,
-                });
-            } catch (alertErr) {
-                console.error(`[SUMA] ⚠️ Alert buttons failed, falling back to text:`, alertErr);
-                await sendSimpleText({
-                    to: userPhone, ...sendParams,
-                    text: "✅ *Suscripción registrada correctamente.*\n\n" + result.summary,
-                });
-            }
-            await saveMessage(user.id, "user", "[Confirmó: Sí]");
-            await saveMessage(user.id, "assistant", "[Suscripción guardada — pregunta de alerta enviada]");
-            return;
-        }
+        await saveMessage(user.id, "user", "[Confirmó: Sí]");
+        await replyToConfirmResult(result, user.id, userPhone, sendParams);
+        return;
+    }
 
-        // Step 3: Regular transaction/subscription → send undo button
+    // ── Cuenta desconocida: crear con tipo elegido o usar la General ──
+    if (replyId.startsWith("acct_")) {
+        // Patrón: acct_{type|default}_{uuid}
+        const confirmationId = replyId.slice(-36);
+        const choice = replyId.slice(5, -(36 + 1)) as AccountType | "default";
+
+        let result: ConfirmResult;
         try {
-            await sendPostConfirmationButtons({
-                to: userPhone, ...sendParams,
-                summaryText: "✅ *Registrado*\n\n" + result.summary,
-                transactionId: result.transactionId,
-            });
-        } catch (sendErr) {
-            console.error(`[SUMA] ⚠️ Post-confirmation buttons failed, falling back to text:`, sendErr);
+            result = await assignAccountAndSave(confirmationId, user.id, choice);
+        } catch (err) {
+            console.error(`[SUMA] ❌ assignAccountAndSave failed:`, err);
             await sendSimpleText({
                 to: userPhone, ...sendParams,
-                text: "✅ *Registrado correctamente.*\n\n" + result.summary,
+                text: "⚠️ Ese movimiento ya fue procesado o expiró. Si necesitás registrar otro, escribilo de nuevo.",
             });
+            return;
         }
 
-        await saveMessage(user.id, "user", "[Confirmó: Sí]");
-        await saveMessage(user.id, "assistant", "[Transacción guardada]");
+        await saveMessage(user.id, "user", `[Eligió cuenta: ${choice}]`);
+        await replyToConfirmResult(result, user.id, userPhone, sendParams);
         return;
     }
 
@@ -620,6 +926,52 @@ async function handleInteractiveReply(
         return;
     }
 
+    // ── Lote: editar o quitar un movimiento ──
+    if (replyId.startsWith("item_edit_") || replyId.startsWith("item_del_")) {
+        // Patrón: item_{edit|del}_{index}_{uuid}
+        const confirmationId = replyId.slice(-36);
+        const [, action, index] = replyId.slice(0, -(36 + 1)).split("_");
+
+        try {
+            if (action === "edit") {
+                await editBatchItem(confirmationId, Number(index), userPhone, sendParams);
+            } else {
+                await removeBatchItem(confirmationId, Number(index), userPhone, sendParams);
+            }
+        } catch (err) {
+            console.error(`[SUMA] ❌ Batch item ${action} failed:`, err);
+            await sendSimpleText({
+                to: userPhone, ...sendParams,
+                text: "⚠️ Esos movimientos ya fueron procesados o expiraron. Si necesitás registrarlos, escribilos de nuevo.",
+            });
+            return;
+        }
+
+        await saveMessage(user.id, "user", `[${action === "edit" ? "Editar" : "Quitar"} movimiento ${Number(index) + 1}]`);
+        return;
+    }
+
+    // ── Lote: selección de movimiento ──
+    if (replyId.startsWith("item_")) {
+        // Patrón: item_{index}_{uuid}
+        const confirmationId = replyId.slice(-36);
+        const index = Number(replyId.slice(5, -(36 + 1)));
+
+        try {
+            await selectBatchItem(confirmationId, index, userPhone, sendParams);
+        } catch (err) {
+            console.error(`[SUMA] ❌ selectBatchItem failed:`, err);
+            await sendSimpleText({
+                to: userPhone, ...sendParams,
+                text: "⚠️ Esos movimientos ya fueron procesados o expiraron. Si necesitás registrarlos, escribilos de nuevo.",
+            });
+            return;
+        }
+
+        await saveMessage(user.id, "user", `[Seleccionó movimiento ${index + 1}]`);
+        return;
+    }
+
     // ── Selección de campo a corregir ──
     if (replyId.startsWith("field_")) {
         // Patrón: field_{fieldName}_{uuid}
@@ -631,6 +983,14 @@ async function handleInteractiveReply(
         return;
     }
 
+    // ── Undo post-confirmación (lote completo) ──
+    if (replyId.startsWith("undo_batch_")) {
+        const batchId = replyId.replace("undo_batch_", "");
+        await handleUndoBatch(user.id, batchId, userPhone, sendParams);
+        await saveMessage(user.id, "user", "[Deshizo lote de transacciones]");
+        return;
+    }
+
     // ── Undo post-confirmación ──
     if (replyId.startsWith("undo_")) {
         const transactionId = replyId.replace("undo_", "");
@@ -706,12 +1066,14 @@ async function handleInteractiveReply(
         const subId = replyId.replace("renew_", "");
         const renewed = await renewSubscription(subId);
         if (renewed) {
-            const endFormatted = renewed.end_date
-                ? `${String(new Date(renewed.end_date).getUTCDate()).padStart(2, "0")}/${String(new Date(renewed.end_date).getUTCMonth() + 1).padStart(2, "0")}/${new Date(renewed.end_date).getUTCFullYear()}`
-                : "indefinida";
+            const formatDate = (iso: string) =>
+                `${String(new Date(iso).getUTCDate()).padStart(2, "0")}/${String(new Date(iso).getUTCMonth() + 1).padStart(2, "0")}/${new Date(iso).getUTCFullYear()}`;
+            const detail = renewed.end_date
+                ? `📆 Nueva vigencia hasta: ${formatDate(renewed.end_date)}`
+                : `⏭️ Próximo cobro: ${formatDate(renewed.next_payment_at)}`;
             await sendSimpleText({
                 to: userPhone, ...sendParams,
-                text: `🔄 *Suscripción renovada:* ${renewed.service_name}\n📆 Nueva vigencia hasta: ${endFormatted}`,
+                text: `🔄 *Suscripción renovada:* ${renewed.service_name}\n${detail}`,
             });
         } else {
             await sendSimpleText({
@@ -731,7 +1093,7 @@ async function handleInteractiveReply(
         if (cancelled) {
             await sendSimpleText({
                 to: userPhone, ...sendParams,
-                text: "❌ Suscripción cancelada. Ya no vas a recibir recordatorios sobre ella.",
+                text: "❌ Suscripción cancelada. Ya no la voy a registrar ni te voy a mandar recordatorios.",
             });
         } else {
             await sendSimpleText({
@@ -743,6 +1105,316 @@ async function handleInteractiveReply(
         await saveMessage(user.id, "assistant", "[Suscripción cancelada]");
         return;
     }
+
+    // ── Prueba gratis por terminar: cancelar ──
+    if (replyId.startsWith("trial_cancel_")) {
+        const sub = await getUserSubscription(user.id, replyId.slice(-36));
+        const cancelled = sub ? await cancelSubscription(sub.id) : false;
+        const reply = cancelled
+            ? `❌ Listo, saqué la prueba de *${sub!.service_name}*. Acordate de darla de baja también en ${sub!.service_name} antes de que termine, así no te cobran.`
+            : "⚠️ No encontré esa prueba. Puede que ya esté cancelada.";
+        await sendSimpleText({ to: userPhone, ...sendParams, text: reply });
+        await saveMessage(user.id, "user", "[Canceló prueba gratis]");
+        await saveMessage(user.id, "assistant", reply);
+        return;
+    }
+
+    // ── Prueba gratis por terminar: quedársela ──
+    if (replyId.startsWith("trial_keep_")) {
+        const subId = replyId.slice(-36);
+        const kept = await keepTrial(user.id, subId);
+        if (!kept) {
+            await sendSimpleText({ to: userPhone, ...sendParams, text: "⚠️ No encontré esa prueba. Puede que ya esté cancelada." });
+            return;
+        }
+        await saveMessage(user.id, "user", `[Se quedó con la prueba de ${kept.service_name}]`);
+
+        // Sin precio todavía no hay nada que cobrar → pedirlo
+        if (Number(kept.amount) <= 0) {
+            await saveMessage(user.id, "system", `[awaiting_sub_amount:${subId}]`);
+            await sendSimpleText({
+                to: userPhone, ...sendParams,
+                text: `✅ Te quedás con *${kept.service_name}*. ¿Cuánto sale por mes? Escribí el monto (ej: 5.200).`,
+            });
+            return;
+        }
+
+        const reply = buildTrialKeptReply(kept);
+        await sendSimpleText({ to: userPhone, ...sendParams, text: reply });
+        await saveMessage(user.id, "assistant", reply);
+        return;
+    }
+
+    // ── Suscripción: cambiar monto / pausar → esperar el texto ──
+    if (replyId.startsWith("sub_amount_") || replyId.startsWith("sub_pause_")) {
+        const kind = replyId.startsWith("sub_amount_") ? "amount" : "pause";
+        const subId = replyId.slice(-36);
+        const sub = await getUserSubscription(user.id, subId);
+        if (!sub) {
+            await sendSimpleText({ to: userPhone, ...sendParams, text: "⚠️ No encontré esa suscripción. Puede que ya esté cancelada." });
+            return;
+        }
+        await saveMessage(user.id, "system", `[awaiting_sub_${kind}:${subId}]`);
+        await sendSimpleText({
+            to: userPhone, ...sendParams,
+            text: kind === "amount"
+                ? `✏️ ¿Cuánto sale ahora *${sub.service_name}*? Escribí el monto (ej: 5.200).`
+                : `⏸️ ¿Hasta qué fecha pausamos *${sub.service_name}*? Escribila como DD/MM/YYYY (ej: 01/03/2027).`,
+        });
+        await saveMessage(user.id, "user", `[Eligió: ${kind === "amount" ? "Cambiar monto" : "Pausar"} ${sub.service_name}]`);
+        return;
+    }
+
+    // ── Suscripción: cambiar frecuencia ──
+    if (replyId.startsWith("sub_freq_")) {
+        const sub = await getUserSubscription(user.id, replyId.slice(-36));
+        if (sub) {
+            await sendSubscriptionFrequencyButtons({ to: userPhone, ...sendParams, subscription: sub });
+        } else {
+            await sendSimpleText({ to: userPhone, ...sendParams, text: "⚠️ No encontré esa suscripción. Puede que ya esté cancelada." });
+        }
+        await saveMessage(user.id, "user", "[Eligió: Cambiar frecuencia]");
+        return;
+    }
+
+    if (replyId.startsWith("sub_setfreq_")) {
+        const frequency = replyId.split("_")[2] as SubscriptionFrequency;
+        const updated = FREQUENCIES.includes(frequency)
+            ? await updateSubscriptionFrequency(user.id, replyId.slice(-36), frequency)
+            : null;
+        const reply = updated
+            ? buildSubscriptionUpdated(updated)
+            : "⚠️ No pude cambiar la frecuencia. Puede que la suscripción ya esté cancelada.";
+        await sendSimpleText({ to: userPhone, ...sendParams, text: reply });
+        await saveMessage(user.id, "user", `[Eligió frecuencia: ${frequency}]`);
+        await saveMessage(user.id, "assistant", reply);
+        return;
+    }
+
+    // ── Suscripción elegida de la lista → acciones ──
+    if (replyId.startsWith("sub_")) {
+        const sub = await getUserSubscription(user.id, replyId.slice(-36));
+        if (sub) {
+            await sendSubscriptionActions({ to: userPhone, ...sendParams, subscription: sub });
+        } else {
+            await sendSimpleText({ to: userPhone, ...sendParams, text: "⚠️ No encontré esa suscripción. Puede que ya esté cancelada." });
+        }
+        await saveMessage(user.id, "user", `[Eligió suscripción: ${sub?.service_name ?? "?"}]`);
+        return;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Subscription manager
+// ---------------------------------------------------------------------------
+
+/**
+ * Replies to "mis suscripciones": the list with monthly and yearly totals,
+ * then an interactive list to pick one to manage.
+ */
+async function sendSubscriptionManager(
+    userId: string,
+    userPhone: string,
+    sendParams: SendParams,
+): Promise<void> {
+    try {
+        const overview = await getSubscriptionOverview(userId);
+        const text = buildSubscriptionOverview(overview);
+        await sendSimpleText({ to: userPhone, ...sendParams, text });
+        if (overview.items.length > 0) {
+            await sendSubscriptionList({
+                to: userPhone, ...sendParams,
+                subscriptions: overview.items.map((item) => item.subscription),
+            });
+        }
+        await saveMessage(userId, "assistant", text);
+    } catch (err) {
+        console.error(`[SUMA] ❌ Subscription list failed:`, err);
+        await sendSimpleText({
+            to: userPhone, ...sendParams,
+            text: "⚠️ No pude traer tus suscripciones ahora. Probá de nuevo en un rato.",
+        });
+    }
+}
+
+/**
+ * Applies the amount or pause date typed after "Cambiar monto" / "Pausar".
+ */
+async function handleSubscriptionInput(
+    kind: "amount" | "pause",
+    subscriptionId: string,
+    text: string,
+    userId: string,
+    userPhone: string,
+    sendParams: SendParams,
+): Promise<void> {
+    let reply: string;
+
+    try {
+        if (kind === "amount") {
+            const amount = parseAmountInput(text);
+            const updated = amount > 0 ? await updateSubscriptionAmount(userId, subscriptionId, amount) : null;
+            reply = updated
+                ? buildSubscriptionUpdated(updated)
+                : amount > 0
+                    ? "⚠️ No encontré esa suscripción. Puede que ya esté cancelada."
+                    : "⚠️ No entendí el monto. Elegí la suscripción de nuevo y escribilo como 5.200.";
+        } else {
+            const until = parseCustomDate(text);
+            const updated = until && until > new Date()
+                ? await pauseSubscription(userId, subscriptionId, until)
+                : null;
+            reply = updated
+                ? buildSubscriptionUpdated(updated)
+                : until && until > new Date()
+                    ? "⚠️ No encontré esa suscripción. Puede que ya esté cancelada."
+                    : "⚠️ No entendí la fecha (tiene que ser futura). Elegí la suscripción de nuevo y escribila como DD/MM/YYYY.";
+        }
+    } catch (err) {
+        console.error(`[SUMA] ❌ Subscription ${kind} update failed:`, err);
+        reply = "⚠️ No pude actualizar la suscripción. Intentá más tarde.";
+    }
+
+    await sendSimpleText({ to: userPhone, ...sendParams, text: reply });
+    await saveMessage(userId, "assistant", reply);
+}
+
+// ---------------------------------------------------------------------------
+// Post-confirmation messaging
+// ---------------------------------------------------------------------------
+
+/**
+ * Replies after confirmAndSave: asks for the account type when the account
+ * is unknown or for a missing field, explains why the data is invalid,
+ * confirms a free trial, offers an alert for subscriptions with end_date,
+ * or sends the undo button for everything else.
+ */
+async function replyToConfirmResult(
+    result: ConfirmResult,
+    userId: string,
+    userPhone: string,
+    sendParams: SendParams,
+): Promise<void> {
+    // Unknown account → ask which type of account to create
+    if (result.status === "needs_account") {
+        await sendAccountTypeList({
+            to: userPhone, ...sendParams,
+            confirmationId: result.confirmationId,
+            accountName: result.accountName,
+            suggestedType: result.suggestedType,
+        });
+        await saveMessage(userId, "assistant", `[Cuenta desconocida: ${result.accountName}]`);
+        return;
+    }
+
+    // Missing required field (transfer without destination) → ask for it
+    if (result.status === "missing_field") {
+        await selectFieldToEdit(result.confirmationId, result.field, userPhone, sendParams);
+        await saveMessage(userId, "assistant", `[Falta dato: ${result.field}]`);
+        return;
+    }
+
+    if (result.status === "invalid") {
+        await sendSimpleText({
+            to: userPhone, ...sendParams,
+            text: result.reason,
+        });
+        await saveMessage(userId, "assistant", result.reason);
+        return;
+    }
+
+    // Free trial → nothing charged yet, nothing to undo
+    if (result.status === "trial_saved") {
+        const text = buildTrialSavedReply({
+            serviceName: result.serviceName,
+            firstChargeDate: result.firstChargeDate,
+        });
+        await sendSimpleText({ to: userPhone, ...sendParams, text });
+        await saveMessage(userId, "assistant", text);
+        return;
+    }
+
+    console.log(`[SUMA] ✅ Transaction saved: ${result.transactionId}`);
+
+    // Subscription with end_date → send alert buttons instead of undo
+    if (result.subscriptionId && result.endDate) {
+        try {
+            await sendAlertButtons({
+                to: userPhone, ...sendParams,
+                subscriptionId: result.subscriptionId,
+                serviceName: result.serviceName!,
+                endDate: result.endDate,
+            });
+        } catch (alertErr) {
+            console.error(`[SUMA] ⚠️ Alert buttons failed, falling back to text:`, alertErr);
+            await sendSimpleText({
+                to: userPhone, ...sendParams,
+                text: "✅ *Suscripción registrada correctamente.*\n\n" + result.summary,
+            });
+        }
+        await saveMessage(userId, "assistant", "[Suscripción guardada — pregunta de alerta enviada]");
+        await sendBudgetAlerts(userId, userPhone, sendParams);
+        return;
+    }
+
+    // Regular transaction/subscription → send undo button
+    try {
+        await sendPostConfirmationButtons({
+            to: userPhone, ...sendParams,
+            summaryText: "✅ *Registrado*\n\n" + result.summary,
+            transactionId: result.transactionId,
+            batchId: result.batchId,
+        });
+    } catch (sendErr) {
+        console.error(`[SUMA] ⚠️ Post-confirmation buttons failed, falling back to text:`, sendErr);
+        await sendSimpleText({
+            to: userPhone, ...sendParams,
+            text: "✅ *Registrado correctamente.*\n\n" + result.summary,
+        });
+    }
+
+    await saveMessage(userId, "assistant", "[Transacción guardada]");
+    await sendBudgetAlerts(userId, userPhone, sendParams);
+
+    // Money set aside for a goal → show how far along it is
+    if (result.savingsGoalIds?.length) {
+        try {
+            const [progress, currency] = await Promise.all([
+                getSavingsProgress(userId, result.savingsGoalIds),
+                getUserBaseCurrency(userId),
+            ]);
+            const text = buildSavingsProgress(progress, currency);
+            await sendSimpleText({ to: userPhone, ...sendParams, text });
+            await saveMessage(userId, "assistant", text);
+        } catch (err) {
+            console.error(`[SUMA] ⚠️ Savings progress failed:`, err);
+        }
+    }
+}
+
+/**
+ * Warns the user when the save pushed a category budget past 80% or 100%.
+ * A failed check never affects the save that already happened.
+ */
+async function sendBudgetAlerts(
+    userId: string,
+    userPhone: string,
+    sendParams: SendParams,
+): Promise<void> {
+    try {
+        const [alerts, currency] = await Promise.all([
+            checkBudgetAlerts(userId),
+            getUserBaseCurrency(userId),
+        ]);
+
+        for (const alert of alerts) {
+            const text = buildBudgetAlert(alert, currency);
+            await sendSimpleText({ to: userPhone, ...sendParams, text });
+            await saveMessage(userId, "assistant", text);
+        }
+    } catch (err) {
+        console.error(`[SUMA] ⚠️ Budget check failed:`, err);
+    }
 }
 
 // ---------------------------------------------------------------------------
@@ -756,11 +1428,14 @@ async function handleUndo(
 ): Promise<void> {
     const supabase = getSupabaseClient();
 
+    // "The last record" is the last one saved (created_at), even if backdated.
+    // Installments saved before migration_016 carried future created_at values.
     const { data } = await supabase
         .from("transactions")
-        .select("id, description, amount, type")
+        .select("id, description, amount, type, installment_total")
         .eq("user_id", userId)
         .is("deleted_at", null)
+        .lte("created_at", new Date().toISOString())
         .order("created_at", { ascending: false })
         .limit(1)
         .single();
@@ -773,14 +1448,12 @@ async function handleUndo(
         return;
     }
 
-    await supabase
-        .from("transactions")
-        .update({ deleted_at: new Date().toISOString() })
-        .eq("id", data.id);
+    await softDeleteTransaction(userId, data.id);
 
+    const suffix = data.installment_total ? ` (${data.installment_total} cuotas)` : "";
     await sendSimpleText({
         to: phone, ...sendParams,
-        text: `✅ Deshice el último registro: ${data.description} $${data.amount}`,
+        text: `✅ Deshice el último registro: ${data.description} $${data.amount}${suffix}`,
     });
 }
 
@@ -790,16 +1463,14 @@ async function handleUndoById(
     phone: string,
     sendParams: SendParams,
 ): Promise<void> {
-    const supabase = getSupabaseClient();
-
-    const { error } = await supabase
-        .from("transactions")
-        .update({ deleted_at: new Date().toISOString() })
-        .eq("id", transactionId)
-        .eq("user_id", userId)
-        .is("deleted_at", null);
+    let deleted: number;
+    try {
+        deleted = await softDeleteTransaction(userId, transactionId);
+    } catch {
+        deleted = 0;
+    }
 
-    if (error) {
+    if (deleted === 0) {
         await sendSimpleText({
             to: phone, ...sendParams,
             text: "⚠️ No se pudo deshacer. Puede que ya fue eliminada.",
@@ -809,7 +1480,30 @@ async function handleUndoById(
 
     await sendSimpleText({
         to: phone, ...sendParams,
-        text: "✅ Transacción deshecha correctamente.",
+        text: deleted > 1
+            ? `✅ Compra deshecha correctamente (${deleted} cuotas).`
+            : "✅ Transacción deshecha correctamente.",
+    });
+}
+
+async function handleUndoBatch(
+    userId: string,
+    batchId: string,
+    phone: string,
+    sendParams: SendParams,
+): Promise<void> {
+    let deleted: number;
+    try {
+        deleted = await softDeleteBatch(userId, batchId);
+    } catch {
+        deleted = 0;
+    }
+
+    await sendSimpleText({
+        to: phone, ...sendParams,
+        text: deleted === 0
+            ? "⚠️ No se pudo deshacer. Puede que ya fueran eliminados."
+            : `✅ Deshice los movimientos de ese mensaje (${deleted}).`,
     });
 }
 
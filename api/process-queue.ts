@@ -0,0 +1,99 @@
+// ============================================================================
+// SUMA — Queue Poller (api/process-queue.ts)
+//
+// With QUEUE_DRIVER=supabase there is no QStash to deliver jobs: a cron
+// (every minute) calls this endpoint, which keeps polling queue_jobs for
+// POLL_BUDGET_MS and runs the due jobs through the same handlers as
+// api/process-message.ts and api/process-status.ts. It stops taking jobs
+// JOB_ALLOWANCE_MS before maxDuration, so the last one started can finish
+// instead of being killed and waiting out its lock. With any other driver
+// it does nothing.
+//
+// vercel.json declares no cron for it (Hobby crons run at most daily): like
+// the other crons, schedule it outside — a QStash schedule or any scheduler
+// that sends CRON_SECRET — every minute. Without one, queued jobs never run.
+//
+// Security: verifies CRON_SECRET (same as process-alerts).
+// Idempotent: each job is claimed before it runs — overlapping polls are safe.
+// ============================================================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { loadConfig } from "../src/utils/config.js";
+import { runQueuedJobs } from "../src/queue/supabase-queue.js";
+// Registers the job handlers
+import "./process-message.js";
+import "./process-status.js";
+
+/** The function's maxDuration in vercel.json */
+const MAX_DURATION_MS = 60 * 1000;
+
+/** Time left for the last job started: a message with its Gemini calls and replies */
+const JOB_ALLOWANCE_MS = 35 * 1000;
+
+/** How long one call keeps taking new jobs */
+const POLL_BUDGET_MS = MAX_DURATION_MS - JOB_ALLOWANCE_MS;
+
+/** Wait between polls that found nothing due */
+const IDLE_MS = 1000;
+
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse,
+): Promise<void> {
+    console.log("[SUMA] 📮 process-queue hit");
+
+    if (req.method !== "POST" && req.method !== "GET") {
+        res.status(405).json({ error: "Method not allowed" });
+        return;
+    }
+
+    try {
+        // Verify cron secret (QStash or Vercel cron)
+        const cronSecret = process.env.CRON_SECRET;
+        if (cronSecret) {
+            const authHeader = req.headers.authorization;
+            const querySecret = req.query?.secret;
+
+            const providedSecret = authHeader?.replace("Bearer ", "") ?? querySecret;
+
+            if (providedSecret !== cronSecret) {
+                console.error("[SUMA] ❌ Invalid cron secret");
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+        }
+
+        const config = loadConfig();
+        if (config.QUEUE_DRIVER !== "supabase") {
+            res.status(200).json({ status: "skipped", driver: config.QUEUE_DRIVER });
+            return;
+        }
+
+        const totals = { done: 0, retried: 0, failed: 0 };
+        const deadline = new Date(Date.now() + POLL_BUDGET_MS);
+
+        while (Date.now() < deadline.getTime()) {
+            const batch = await runQueuedJobs(new Date(), deadline);
+            totals.done += batch.done;
+            totals.retried += batch.retried;
+            totals.failed += batch.failed;
+
+            if (batch.done + batch.retried + batch.failed === 0) {
+                await new Promise((resolve) => setTimeout(resolve, IDLE_MS));
+            }
+        }
+
+        console.log(`[SUMA] 📮 Queue: ${totals.done} done, ${totals.retried} retried, ${totals.failed} failed`);
+        res.status(200).json({
+            status: "ok",
+            jobsDone: totals.done,
+            jobsRetried: totals.retried,
+            jobsFailed: totals.failed,
+            processedAt: new Date().toISOString(),
+        });
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error("[SUMA] ❌ process-queue error:", errorMsg);
+        res.status(500).json({ error: "Queue processing failed" });
+    }
+}
@@ -0,0 +1,107 @@
+// ============================================================================
+// SUMA — Delivery Status Worker (api/process-status.ts)
+//
+// Receives the status events api/webhook.ts queued (sent, delivered, read,
+// failed) and records them against the outbound message log. A failed
+// reminder goes back to pending so the alerts cron retries it. QStash calls
+// this endpoint; the Supabase and in-memory queues call handleStatusJob.
+//
+// Security: verifies the QStash signature (same as process-message).
+// Idempotent: each (wamid, status) event is stored once — safe for retries.
+// ============================================================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { QueuedStatusPayload } from "../src/types/index.js";
+import { loadConfig } from "../src/utils/config.js";
+import { verifyQStashSignature } from "../src/queue/qstash.js";
+import { registerJobHandler } from "../src/queue/jobs.js";
+import type { JobResult } from "../src/queue/jobs.js";
+import { recordDeliveryStatus } from "../src/services/message-log.js";
+import { retryFailedReminder } from "../src/services/alerts.js";
+import type { IncomingMessage } from "node:http";
+
+/** Reads the raw request body (exact bytes QStash signed) */
+function getRawBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+        req.on("error", reject);
+    });
+}
+
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse,
+): Promise<void> {
+    if (req.method !== "POST") {
+        res.status(405).json({ error: "Method not allowed" });
+        return;
+    }
+
+    try {
+        const config = loadConfig();
+
+        const rawBody = await getRawBody(req);
+        const signature = req.headers["upstash-signature"] as string | undefined;
+
+        if (!signature) {
+            res.status(401).json({ error: "Missing QStash signature" });
+            return;
+        }
+
+        const isValid = await verifyQStashSignature(
+            signature,
+            rawBody,
+            config.QSTASH_CURRENT_SIGNING_KEY,
+            config.QSTASH_NEXT_SIGNING_KEY,
+        );
+
+        if (!isValid) {
+            console.error("[SUMA] ❌ Invalid QStash signature — rejecting");
+            res.status(401).json({ error: "Invalid signature" });
+            return;
+        }
+
+        const result = await handleStatusJob(JSON.parse(rawBody) as QueuedStatusPayload);
+        res.status(result.status).json(result.body);
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error("[SUMA] ❌ process-status error:", errorMsg);
+        res.status(500).json({ error: "Status processing failed" });
+    }
+}
+
+/** Records one status event; throws so the queue retries */
+export async function handleStatusJob({ status }: QueuedStatusPayload): Promise<JobResult> {
+    console.log(`[SUMA] 📬 Status ${status.status} for ${status.id}`);
+
+    const message = await recordDeliveryStatus(status);
+
+    // Also on a repeated event: the retry is guarded by the reminder's
+    // status, so a crash between the two steps doesn't lose it
+    let retried = false;
+    if (status.status === "failed") {
+        const error = status.errors?.[0];
+        retried = await retryFailedReminder(
+            status.id,
+            error ? `${error.code} ${error.title}` : "failed",
+        );
+    }
+
+    return {
+        status: 200,
+        body: {
+            status: message ? "recorded" : "duplicate",
+            wamid: status.id,
+            retried,
+        },
+    };
+}
+
+registerJobHandler("status", handleStatusJob);
+
+// Disable Vercel's body parser for raw body signature verification
+export const config = {
+    api: { bodyParser: false },
+};
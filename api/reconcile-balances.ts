@@ -0,0 +1,84 @@
+// ============================================================================
+// SUMA — Balance Reconciliation Cron Worker (api/reconcile-balances.ts)
+//
+// Called by QStash cron schedule (daily). First applies the installments
+// that fell due to their accounts, then compares accounts.balance
+// (maintained by trigger) against the balance recomputed from the ledger
+// and reports drift, plus the movements in another currency that couldn't
+// be converted into their account's. Pass ?fix=true to overwrite drifting
+// balances with the ledger value.
+//
+// Security: verifies CRON_SECRET to prevent unauthorized calls.
+// Idempotent: each installment is applied once; otherwise read-only unless
+// fix=true, which converges to the ledger.
+// ============================================================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+    applyDueTransactions,
+    findUnconvertedTransactions,
+    reconcileBalances,
+} from "../src/services/balances.js";
+
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse,
+): Promise<void> {
+    console.log("[SUMA] ⚖️ reconcile-balances hit");
+
+    if (req.method !== "POST" && req.method !== "GET") {
+        res.status(405).json({ error: "Method not allowed" });
+        return;
+    }
+
+    try {
+        // Verify cron secret (QStash or Vercel cron)
+        const cronSecret = process.env.CRON_SECRET;
+        if (cronSecret) {
+            const authHeader = req.headers.authorization;
+            const querySecret = req.query?.secret;
+
+            const providedSecret = authHeader?.replace("Bearer ", "") ?? querySecret;
+
+            if (providedSecret !== cronSecret) {
+                console.error("[SUMA] ❌ Invalid cron secret");
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+        }
+
+        const fix = req.query?.fix === "true";
+        const installmentsApplied = await applyDueTransactions();
+        const drifts = await reconcileBalances({ fix });
+        const unconverted = await findUnconvertedTransactions();
+
+        res.status(200).json({
+            status: "ok",
+            installmentsApplied,
+            driftCount: drifts.length,
+            fixed: fix,
+            drifts: drifts.map((d) => ({
+                accountId: d.account_id,
+                userId: d.user_id,
+                account: d.account_name,
+                stored: Number(d.stored_balance),
+                calculated: Number(d.calculated_balance),
+                drift: Number(d.drift),
+            })),
+            unconvertedCount: unconverted.length,
+            unconverted: unconverted.map((u) => ({
+                transactionId: u.transaction_id,
+                userId: u.user_id,
+                account: u.account_name,
+                accountCurrency: u.account_currency,
+                currency: u.currency,
+                amount: Number(u.amount),
+            })),
+            processedAt: new Date().toISOString(),
+        });
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error("[SUMA] ❌ reconcile-balances error:", errorMsg);
+        res.status(500).json({ error: "Balance reconciliation failed" });
+    }
+}
@@ -0,0 +1,60 @@
+// ============================================================================
+// SUMA — Savings Goal Nudge Cron Worker (api/savings-nudges.ts)
+//
+// Called by a QStash / Vercel cron schedule (daily). Sends each user with
+// open savings goals a monthly message with how much to save per month to
+// reach them on time.
+//
+// Security: verifies CRON_SECRET (same as process-alerts).
+// Idempotent: last_nudge_at is claimed before sending — safe for retries.
+// ============================================================================
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { loadConfig } from "../src/utils/config.js";
+import { processSavingsNudges } from "../src/services/savings-goals.js";
+
+export default async function handler(
+    req: VercelRequest,
+    res: VercelResponse,
+): Promise<void> {
+    console.log("[SUMA] 🐷 savings-nudges hit");
+
+    if (req.method !== "POST" && req.method !== "GET") {
+        res.status(405).json({ error: "Method not allowed" });
+        return;
+    }
+
+    try {
+        // Verify cron secret (QStash or Vercel cron)
+        const cronSecret = process.env.CRON_SECRET;
+        if (cronSecret) {
+            const authHeader = req.headers.authorization;
+            const querySecret = req.query?.secret;
+
+            const providedSecret = authHeader?.replace("Bearer ", "") ?? querySecret;
+
+            if (providedSecret !== cronSecret) {
+                console.error("[SUMA] ❌ Invalid cron secret");
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+        }
+
+        const config = loadConfig();
+
+        const nudgesSent = await processSavingsNudges(
+            config.WHATSAPP_PHONE_NUMBER_ID,
+            config.WHATSAPP_API_TOKEN,
+        );
+
+        res.status(200).json({
+            status: "ok",
+            nudgesSent,
+            processedAt: new Date().toISOString(),
+        });
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error("[SUMA] ❌ savings-nudges error:", errorMsg);
+        res.status(500).json({ error: "Savings nudge processing failed" });
+    }
+}
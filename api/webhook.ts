@@ -3,9 +3,11 @@
 //
 // This endpoint does THREE things and nothing more:
 //   1. GET  → WhatsApp verification challenge (handshake)
-//   2. POST → Validate HMAC signature → Enqueue messages in QStash → Return 200
+//   2. POST → Validate HMAC signature → Enqueue messages (QStash by default) → Return 200
 //
 // All heavy processing happens in api/process-message.ts (async worker).
+// Delivery status events (sent/delivered/read/failed) are queued for
+// api/process-status.ts.
 // This guarantees we respond to Meta within ~200ms, preventing retries.
 // ============================================================================
 
@@ -13,10 +15,11 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
 import type {
   WhatsAppWebhookBody,
   QueuedMessagePayload,
+  QueuedStatusPayload,
 } from "../src/types/index.js";
 import { loadConfig } from "../src/utils/config.js";
 import { validateWebhookSignature } from "../src/lib/hmac.js";
-import { publishToQStash } from "../src/queue/qstash.js";
+import { getMessageQueue } from "../src/queue/message-queue.js";
 import type { IncomingMessage } from "node:http";
 
 /** Reads the entire request body as a raw string from the stream */
@@ -79,26 +82,27 @@ async function handleIncomingWebhook(
   }
 
   const items = extractMessageItems(body);
+  const statuses = extractStatusItems(body);
 
-  if (items.length === 0) {
+  if (items.length === 0 && statuses.length === 0) {
     res.status(200).json({ status: "no_messages" });
     return;
   }
 
-  // ── Step 3: Enqueue in QStash THEN return 200 ──────────────────────
+  // ── Step 3: Enqueue (QStash by default) THEN return 200 ──────────────
   // QStash publish is fast (~50ms), safe to do before responding.
   // Vercel Hobby kills the function immediately after res.send().
-  const targetUrl = "https://suma-webhook.vercel.app/api/process-message";
+  // Oldest first: the worker also waits for each user's earlier messages
+  // (message-ordering.ts), but it can only wait for the ones it has seen
+  items.sort((a, b) => Number(a.message.timestamp) - Number(b.message.timestamp));
+
+  const queue = getMessageQueue(config);
 
   const enqueueResults = await Promise.allSettled(
     items.map(async (item) => {
-      const result = await publishToQStash({
-        qstashToken: config.QSTASH_TOKEN,
-        targetUrl,
-        payload: item,
-      });
+      const result = await queue.publish({ topic: "message", payload: item });
       console.log(
-        `[SUMA] 📤 Queued ${item.message.id} → QStash ${result.messageId}`
+        `[SUMA] 📤 Queued ${item.message.id} → ${config.QUEUE_DRIVER} ${result.messageId}`
       );
       return result;
     })
@@ -112,7 +116,16 @@ async function handleIncomingWebhook(
     );
   }
 
-  res.status(200).json({ status: "queued", count: items.length });
+  const statusResults = await Promise.allSettled(
+    statuses.map((item) => queue.publish({ topic: "status", payload: item }))
+  );
+
+  const failedStatuses = statusResults.filter((r) => r.status === "rejected").length;
+  if (failedStatuses > 0) {
+    console.error(`[SUMA] ❌ Failed to queue ${failedStatuses}/${statuses.length} status events`);
+  }
+
+  res.status(200).json({ status: "queued", count: items.length, statuses: statuses.length });
 }
 
 // ---------------------------------------------------------------------------
@@ -127,7 +140,7 @@ function extractMessageItems(body: WhatsAppWebhookBody): MessageItem[] {
 
   for (const entry of body.entry ?? []) {
     for (const change of entry.changes ?? []) {
-      // Ignore status updates (delivered, read, etc.)
+      // Status updates are extracted separately (extractStatusItems)
       if (change.field !== "messages") continue;
 
       const messages = change.value?.messages;
@@ -150,6 +163,34 @@ function extractMessageItems(body: WhatsAppWebhookBody): MessageItem[] {
   return items;
 }
 
+// ---------------------------------------------------------------------------
+// Extract delivery status events (what happened to messages we sent)
+// ---------------------------------------------------------------------------
+
+function extractStatusItems(body: WhatsAppWebhookBody): QueuedStatusPayload[] {
+  const items: QueuedStatusPayload[] = [];
+  const now = new Date().toISOString();
+
+  for (const entry of body.entry ?? []) {
+    for (const change of entry.changes ?? []) {
+      if (change.field !== "messages") continue;
+
+      for (const status of change.value?.statuses ?? []) {
+        items.push({
+          status,
+          metadata: {
+            phone_number_id: change.value.metadata.phone_number_id,
+            display_phone_number: change.value.metadata.display_phone_number,
+          },
+          receivedAt: now,
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
 // ---------------------------------------------------------------------------
 // Route handler
 // ---------------------------------------------------------------------------
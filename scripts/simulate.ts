@@ -0,0 +1,145 @@
+// ============================================================================
+// SUMA — Local WhatsApp simulator (npm run simulate)
+//
+// Chat with the bot from the terminal: what you type goes in as a signed
+// webhook, the worker runs in-process and its replies are printed as a
+// transcript. Reads .env.local / .env like `vercel dev`; only Supabase (and
+// GEMINI_API_KEY for AI parsing) has to be real.
+//
+//   npm run simulate -- [--phone 5491122334455] [--name Ana] [--verbose]
+// ============================================================================
+
+import { existsSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { parseArgs } from "node:util";
+import type { SimulatorTurn } from "../src/simulator/simulator.js";
+
+const HELP = `
+  <text>                   Send a text message
+  /audio <file>            Send a voice note (.ogg, .mp3, .m4a, ...)
+  /image <file> [caption]  Send a photo (.jpg, .png, .webp)
+  /tap <n>                 Tap option [n] of the latest message with options
+  /transcript              Print the whole chat again
+  /help                    Show this help
+  /quit                    Exit
+`;
+
+for (const file of [".env.local", ".env"]) {
+    if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const { values: args } = parseArgs({
+    options: {
+        phone: { type: "string" },
+        name: { type: "string" },
+        verbose: { type: "boolean", default: false },
+    },
+});
+
+// The pipeline logs every step (from module load on, hence the imports
+// below); without --verbose only errors get through
+const log = console.log;
+if (!args.verbose) {
+    console.log = () => { };
+    console.warn = () => { };
+}
+
+const { createSimulator, DEFAULT_SIMULATED_USER } = await import("../src/simulator/simulator.js");
+const { renderEntry } = await import("../src/simulator/transcript.js");
+
+const simulator = createSimulator({
+    phone: args.phone ?? DEFAULT_SIMULATED_USER.phone,
+    name: args.name ?? DEFAULT_SIMULATED_USER.name,
+});
+
+function printTurn(turn: SimulatorTurn): void {
+    for (const reply of turn.replies) {
+        log(renderEntry(reply));
+    }
+    if (turn.replies.length === 0) {
+        log("       │ (no reply)");
+    }
+
+    const failed = turn.jobs.filter((job) => job.status >= 300);
+    if (failed.length > 0) {
+        log(`⚠️  ${failed.length} job(s) failed: ${failed.map((job) => job.status).join(", ")}`);
+    }
+}
+
+async function runCommand(line: string): Promise<boolean> {
+    const [command, ...rest] = line.split(/\s+/);
+
+    switch (command) {
+        case "/quit":
+        case "/exit":
+            return false;
+
+        case "/help":
+            log(HELP);
+            return true;
+
+        case "/transcript":
+            simulator.transcript.forEach((entry) => log(renderEntry(entry)));
+            return true;
+
+        case "/audio":
+        case "/image": {
+            const [file, ...caption] = rest;
+            if (!file) {
+                log(`Usage: ${command} <file>${command === "/image" ? " [caption]" : ""}`);
+                return true;
+            }
+            printTurn(await simulator.sendFile(file, caption.join(" ") || undefined));
+            return true;
+        }
+
+        case "/tap": {
+            const options = simulator.pendingOptions();
+            const option = options[Number(rest[0]) - 1];
+            if (!option) {
+                log(options.length > 0
+                    ? `Pick an option from 1 to ${options.length}`
+                    : "Nothing to tap yet");
+                return true;
+            }
+            log(renderEntry({ from: "user", id: "", text: `▸ ${option.label}`, options: [] }));
+            printTurn(await simulator.tap(option));
+            return true;
+        }
+
+        default:
+            if (command.startsWith("/")) {
+                log(`Unknown command ${command} — /help lists them`);
+                return true;
+            }
+            printTurn(await simulator.sendText(line));
+            return true;
+    }
+}
+
+async function main(): Promise<void> {
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    log(`[SUMA] 🧪 Simulator — chatting as ${simulator.user.name} (+${simulator.user.phone}). /help for commands.`);
+
+    rl.setPrompt("› ");
+    rl.prompt();
+
+    try {
+        for await (const input of rl) {
+            const line = input.trim();
+            if (line) {
+                try {
+                    if (!(await runCommand(line))) break;
+                } catch (err) {
+                    log(`❌ ${err instanceof Error ? err.message : String(err)}`);
+                }
+            }
+            rl.prompt();
+        }
+    } finally {
+        rl.close();
+        simulator.close();
+    }
+}
+
+main().then(() => process.exit(0));
@@ -0,0 +1,95 @@
+// ============================================================================
+// Queue Jobs — What goes through the queue and who handles it
+//
+// Two topics: inbound messages (api/process-message.ts) and delivery status
+// events (api/process-status.ts). Each worker registers its handler here at
+// load time; the drivers that run jobs in-process (supabase-queue.ts,
+// memory-queue.ts) call it directly, while QStash delivers over HTTP to the
+// same handler.
+// ============================================================================
+
+import type { QueuedMessagePayload, QueuedStatusPayload } from "../types/index.js";
+
+export type QueueTopic = "message" | "status";
+
+export interface QueuePayloads {
+    message: QueuedMessagePayload;
+    status: QueuedStatusPayload;
+}
+
+/** A job to publish. Jobs with the same deduplication ID are only queued once */
+export type QueueJob = {
+    [T in QueueTopic]: {
+        topic: T;
+        payload: QueuePayloads[T];
+        /** Seconds before the first delivery */
+        delaySeconds?: number;
+        /** Defaults to the WhatsApp message / status event ID */
+        deduplicationId?: string;
+    };
+}[QueueTopic];
+
+/** The HTTP-like outcome of a job: non-2xx statuses are retried */
+export interface JobResult {
+    status: number;
+    body: Record<string, unknown>;
+}
+
+/** How many times the job was already retried (QStash's Upstash-Retried) */
+export interface JobDelivery {
+    retried: number;
+}
+
+export type JobHandler<T extends QueueTopic> = (
+    payload: QueuePayloads[T],
+    delivery: JobDelivery,
+) => Promise<JobResult>;
+
+export interface MessageQueue {
+    publish(job: QueueJob): Promise<{ messageId: string }>;
+}
+
+/** Retries after the first delivery fails, in every driver */
+export const DEFAULT_QUEUE_RETRIES = 3;
+
+/** Same WhatsApp message or status event → same ID, so repeats are dropped */
+export function deduplicationId(job: QueueJob): string {
+    if (job.deduplicationId) return job.deduplicationId;
+    return job.topic === "message"
+        ? job.payload.message.id
+        : `${job.payload.status.id}:${job.payload.status.status}`;
+}
+
+// ---------------------------------------------------------------------------
+// Handler registry
+// ---------------------------------------------------------------------------
+
+const handlers: { [T in QueueTopic]?: JobHandler<T> } = {};
+
+export function registerJobHandler<T extends QueueTopic>(topic: T, handler: JobHandler<T>): void {
+    (handlers as Record<T, JobHandler<T>>)[topic] = handler;
+}
+
+/**
+ * Runs a job with its topic's handler. A handler that throws counts as a
+ * 500, so drivers only have to look at the status.
+ */
+export async function runJob(job: Pick<QueueJob, "topic" | "payload">, delivery: JobDelivery): Promise<JobResult> {
+    const handler = handlers[job.topic] as JobHandler<QueueTopic> | undefined;
+    if (!handler) {
+        throw new Error(`No handler registered for queue topic "${job.topic}"`);
+    }
+
+    try {
+        return await handler(job.payload, delivery);
+    } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error(`[SUMA] ❌ ${job.topic} job failed:`, errorMsg);
+        return { status: 500, body: { error: errorMsg } };
+    }
+}
+
+/** Whether a job result counts as done (2xx) */
+export function isJobDone(result: JobResult): boolean {
+    return result.status >= 200 && result.status < 300;
+}
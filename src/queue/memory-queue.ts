@@ -0,0 +1,89 @@
+// ============================================================================
+// In-memory Queue — For tests and local runs
+//
+// Jobs wait in an array until drain() runs them in-process, through the
+// same handlers QStash would call. Delays don't wait in real time: they only
+// order the jobs (a deferred message runs after the ones queued before it
+// is due). Failed jobs are retried up to DEFAULT_QUEUE_RETRIES times, like
+// in the other drivers.
+// ============================================================================
+
+import type { JobResult, MessageQueue, QueueJob } from "./jobs.js";
+import { DEFAULT_QUEUE_RETRIES, deduplicationId, isJobDone, runJob } from "./jobs.js";
+
+export interface MemoryJob {
+    id: string;
+    job: QueueJob;
+    runAt: number;      // Virtual time: publish order plus delay
+    retried: number;
+}
+
+export interface MemoryQueue extends MessageQueue {
+    /** Jobs waiting to run, soonest first */
+    readonly jobs: MemoryJob[];
+    /** Results of the jobs run so far, in order */
+    readonly results: Array<{ job: QueueJob; result: JobResult }>;
+    /** Runs jobs (and the ones they publish) until none are left; returns how many ran */
+    drain(): Promise<number>;
+}
+
+/** Virtual milliseconds between two publishes, so delays keep their meaning */
+const TICK_MS = 1;
+
+export function createMemoryQueue(): MemoryQueue {
+    const jobs: MemoryJob[] = [];
+    const results: Array<{ job: QueueJob; result: JobResult }> = [];
+    const seen = new Set<string>();
+    let clock = 0;
+    let counter = 0;
+
+    function schedule(entry: MemoryJob): void {
+        const index = jobs.findIndex((j) => j.runAt > entry.runAt);
+        if (index === -1) jobs.push(entry);
+        else jobs.splice(index, 0, entry);
+    }
+
+    return {
+        jobs,
+        results,
+
+        async publish(job) {
+            const dedupId = deduplicationId(job);
+            counter++;
+            const id = `mem-${counter}`;
+
+            if (seen.has(dedupId)) {
+                console.log(`[SUMA] ♻️ Memory queue dropped repeated job ${dedupId}`);
+                return { messageId: id };
+            }
+            seen.add(dedupId);
+
+            clock += TICK_MS;
+            schedule({ id, job, runAt: clock + (job.delaySeconds ?? 0) * 1000, retried: 0 });
+            return { messageId: id };
+        },
+
+        async drain() {
+            let ran = 0;
+
+            while (jobs.length > 0) {
+                const entry = jobs.shift()!;
+                clock = Math.max(clock, entry.runAt);
+
+                const result = await runJob(entry.job, { retried: entry.retried });
+                results.push({ job: entry.job, result });
+                ran++;
+
+                if (!isJobDone(result)) {
+                    if (entry.retried < DEFAULT_QUEUE_RETRIES) {
+                        schedule({ ...entry, runAt: clock + TICK_MS, retried: entry.retried + 1 });
+                    } else {
+                        console.warn(`[SUMA] ⚠️ Memory queue gave up on ${entry.id} (${result.status})`);
+                    }
+                }
+            }
+
+            return ran;
+        },
+    };
+}
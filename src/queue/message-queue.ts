@@ -0,0 +1,43 @@
+// ============================================================================
+// Message Queue — Picks the queue driver from config
+//
+// QUEUE_DRIVER selects where api/webhook.ts (and the deferrals of
+// api/process-message.ts) publish jobs:
+//   - qstash   (default): QStash delivers them over HTTP to WORKER_BASE_URL
+//   - supabase: the queue_jobs table, run by the api/process-queue.ts poller
+//   - memory:   in-process, run with drain() — tests and local runs only
+//               (loadConfig refuses it on a deployment)
+//
+// setMessageQueue swaps the queue outright (e.g. a memory queue the caller
+// keeps a handle to).
+// ============================================================================
+
+import type { AppConfig } from "../types/index.js";
+import type { MessageQueue } from "./jobs.js";
+import { createQStashQueue } from "./qstash.js";
+import { createSupabaseQueue } from "./supabase-queue.js";
+import { createMemoryQueue } from "./memory-queue.js";
+
+let queue: MessageQueue | null = null;
+
+export function getMessageQueue(config: AppConfig): MessageQueue {
+    if (!queue) {
+        switch (config.QUEUE_DRIVER) {
+            case "supabase":
+                queue = createSupabaseQueue();
+                break;
+            case "memory":
+                queue = createMemoryQueue();
+                break;
+            default:
+                queue = createQStashQueue(config);
+        }
+        console.log(`[SUMA] 📮 Message queue: ${config.QUEUE_DRIVER}`);
+    }
+    return queue;
+}
+
+/** Replaces the queue every publisher uses (null goes back to QUEUE_DRIVER) */
+export function setMessageQueue(next: MessageQueue | null): void {
+    queue = next;
+}
@@ -1,47 +1,58 @@
 // ============================================================================
 // Upstash QStash — Publish & Verify
 //
-// Handles enqueuing messages to QStash and verifying incoming requests
-// from QStash (signature validation on the worker side).
+// The QStash driver of the message queue (see message-queue.ts): publishes
+// jobs to QStash, which delivers them over HTTP to the worker endpoints at
+// WORKER_BASE_URL, and verifies those requests on the worker side
+// (signature validation).
 // ============================================================================
 
 import { Receiver } from "@upstash/qstash";
-import type { QueuedMessagePayload } from "../types/index.js";
+import type { AppConfig } from "../types/index.js";
+import type { MessageQueue, QueueJob, QueueTopic } from "./jobs.js";
+import { DEFAULT_QUEUE_RETRIES, deduplicationId } from "./jobs.js";
 
-const QSTASH_PUBLISH_URL = "https://qstash-us-east-1.upstash.io/v2/publish/";
+/** Worker endpoint of each topic, under WORKER_BASE_URL */
+const WORKER_PATHS: Record<QueueTopic, string> = {
+    message: "/api/process-message",
+    status: "/api/process-status",
+};
 
 // ---------------------------------------------------------------------------
 // Publish a message to the worker endpoint via QStash
 // ---------------------------------------------------------------------------
 
 interface PublishOptions {
+    qstashUrl: string;
     qstashToken: string;
     targetUrl: string;
-    payload: QueuedMessagePayload;
-    /** Number of automatic retries QStash will perform on failure (default: 3) */
+    job: QueueJob;
+    /** Number of automatic retries QStash will perform on failure (default: DEFAULT_QUEUE_RETRIES) */
     retries?: number;
 }
 
 /**
- * Publishes a message to QStash, which will deliver it to the target URL.
+ * Publishes a job to QStash, which will deliver it to the target URL.
  * QStash handles retries with exponential backoff automatically.
  */
 export async function publishToQStash({
+    qstashUrl,
     qstashToken,
     targetUrl,
-    payload,
-    retries = 3,
+    job,
+    retries = DEFAULT_QUEUE_RETRIES,
 }: PublishOptions): Promise<{ messageId: string }> {
-    const res = await fetch(`${QSTASH_PUBLISH_URL}${targetUrl}`, {
+    const res = await fetch(`${qstashUrl}/v2/publish/${targetUrl}`, {
         method: "POST",
         headers: {
             Authorization: `Bearer ${qstashToken}`,
             "Content-Type": "application/json",
             "Upstash-Retries": String(retries),
             // Dedup based on WhatsApp message ID (QStash dedup window = 24h)
-            "Upstash-Deduplication-Id": payload.message.id,
+            "Upstash-Deduplication-Id": deduplicationId(job),
+            ...(job.delaySeconds ? { "Upstash-Delay": `${job.delaySeconds}s` } : {}),
         },
-        body: JSON.stringify(payload),
+        body: JSON.stringify(job.payload),
     });
 
     if (!res.ok) {
@@ -55,6 +66,20 @@ export async function publishToQStash({
     return data;
 }
 
+/** The QStash driver: each job is an HTTP delivery to its worker endpoint */
+export function createQStashQueue(
+    config: Pick<AppConfig, "QSTASH_URL" | "QSTASH_TOKEN" | "WORKER_BASE_URL">,
+): MessageQueue {
+    return {
+        publish: (job) => publishToQStash({
+            qstashUrl: config.QSTASH_URL,
+            qstashToken: config.QSTASH_TOKEN,
+            targetUrl: `${config.WORKER_BASE_URL}${WORKER_PATHS[job.topic]}`,
+            job,
+        }),
+    };
+}
+
 // ---------------------------------------------------------------------------
 // Verify incoming QStash request signatures (worker side)
 // ---------------------------------------------------------------------------
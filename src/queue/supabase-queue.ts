@@ -0,0 +1,148 @@
+// ============================================================================
+// Supabase Queue — Jobs in a Postgres table, run by a polling worker
+//
+// For deployments without QStash (local development against Supabase,
+// preview deployments): publish inserts a row in queue_jobs, and
+// api/process-queue.ts polls the due ones and runs them in-process through
+// the same handlers QStash would call. Nothing runs the jobs until an
+// external scheduler calls that poller every minute (see its header).
+//
+// Each job is claimed with a conditional update and a lock that expires, so
+// overlapping pollers never run it twice and a poller that dies doesn't
+// strand it. Failures are retried with exponential backoff, up to
+// DEFAULT_QUEUE_RETRIES times.
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type { MessageQueue, QueueJob } from "./jobs.js";
+import { DEFAULT_QUEUE_RETRIES, deduplicationId, isJobDone, runJob } from "./jobs.js";
+
+/** How long a claimed job belongs to its poller */
+const LOCK_MS = 90 * 1000;
+
+/** Backoff of the nth retry: 5s → 20s → 80s */
+const RETRY_BASE_MS = 5 * 1000;
+
+/** Jobs claimed per poll */
+const BATCH_SIZE = 10;
+
+interface QueueJobRow {
+    id: string;
+    topic: QueueJob["topic"];
+    payload: QueueJob["payload"];
+    attempts: number;
+}
+
+export function createSupabaseQueue(): MessageQueue {
+    return {
+        async publish(job) {
+            const supabase = getSupabaseClient();
+            const runAt = new Date(Date.now() + (job.delaySeconds ?? 0) * 1000);
+
+            const { data, error } = await supabase
+                .from("queue_jobs")
+                .upsert(
+                    {
+                        topic: job.topic,
+                        payload: job.payload,
+                        dedup_key: deduplicationId(job),
+                        run_at: runAt.toISOString(),
+                    },
+                    { onConflict: "dedup_key", ignoreDuplicates: true },
+                )
+                .select("id");
+
+            if (error) {
+                throw new Error(`Queue publish failed: ${error.message}`);
+            }
+
+            return { messageId: (data?.[0]?.id as string | undefined) ?? deduplicationId(job) };
+        },
+    };
+}
+
+/**
+ * Claims a due job: queued with run_at reached, or running with an expired
+ * lock (its poller died). Returns null when another poller got it first.
+ */
+async function claimJob(id: string, attempts: number, now: Date): Promise<QueueJobRow | null> {
+    const supabase = getSupabaseClient();
+
+    const { data } = await supabase
+        .from("queue_jobs")
+        .update({
+            status: "running",
+            attempts: attempts + 1,
+            locked_until: new Date(now.getTime() + LOCK_MS).toISOString(),
+        })
+        .eq("id", id)
+        .eq("attempts", attempts)
+        .neq("status", "done")
+        .select("id, topic, payload, attempts");
+
+    return data && data.length > 0 ? data[0] as QueueJobRow : null;
+}
+
+/**
+ * Runs the jobs that are due at `now`, oldest first. Called in a loop by
+ * api/process-queue.ts. No job is started after `startBefore`: the ones
+ * left stay queued for the next poll.
+ */
+export async function runQueuedJobs(
+    now: Date = new Date(),
+    startBefore: Date | null = null,
+): Promise<{ done: number; retried: number; failed: number }> {
+    const supabase = getSupabaseClient();
+    const result = { done: 0, retried: 0, failed: 0 };
+
+    const { data: due, error } = await supabase
+        .from("queue_jobs")
+        .select("id, attempts")
+        .or(`and(status.eq.queued,run_at.lte.${now.toISOString()}),and(status.eq.running,locked_until.lt.${now.toISOString()})`)
+        .order("run_at", { ascending: true })
+        .limit(BATCH_SIZE);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to fetch queued jobs:", error);
+        throw new Error(`Failed to fetch queued jobs: ${error.message}`);
+    }
+
+    for (const row of due ?? []) {
+        if (startBefore && Date.now() >= startBefore.getTime()) break;
+
+        const job = await claimJob(row.id, row.attempts, now);
+        if (!job) continue;
+
+        const jobResult = await runJob(job, { retried: job.attempts - 1 });
+
+        if (isJobDone(jobResult)) {
+            await supabase
+                .from("queue_jobs")
+                .update({ status: "done", locked_until: null, finished_at: new Date().toISOString() })
+                .eq("id", job.id);
+            result.done++;
+            continue;
+        }
+
+        const lastError = JSON.stringify(jobResult.body).slice(0, 500);
+
+        if (job.attempts > DEFAULT_QUEUE_RETRIES) {
+            await supabase
+                .from("queue_jobs")
+                .update({ status: "failed", locked_until: null, last_error: lastError, finished_at: new Date().toISOString() })
+                .eq("id", job.id);
+            result.failed++;
+            console.warn(`[SUMA] ⚠️ Queue job ${job.id} (${job.topic}) failed after ${job.attempts} attempts`);
+            continue;
+        }
+
+        const retryAt = new Date(Date.now() + RETRY_BASE_MS * Math.pow(4, job.attempts - 1));
+        await supabase
+            .from("queue_jobs")
+            .update({ status: "queued", locked_until: null, last_error: lastError, run_at: retryAt.toISOString() })
+            .eq("id", job.id);
+        result.retried++;
+    }
+
+    return result;
+}
@@ -0,0 +1,191 @@
+// ============================================================================
+// Account Resolver — Maps the parsed account name to a real account row
+//
+// The LLM returns free text ("MercadoPago", "la tarjeta", "mp", "Galicia").
+// Resolution order against the user's accounts:
+//   1. Exact name (accent/case-insensitive)
+//   2. Known aliases ("mp" → MercadoPago, "visa" → Tarjeta de crédito)
+//   3. Generic type word when the user has a single account of that type
+//   4. Substring and small edit distance (typos)
+// When nothing matches, the caller offers to create a new account.
+// ============================================================================
+
+import type { AccountRow, AccountType, Currency } from "../types/index.js";
+import { createAccount, getUserAccounts } from "./transaction-repository.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AccountMatch =
+    | { matched: true; account: AccountRow }
+    | { matched: false; suggestedName: string; suggestedType: AccountType };
+
+// ---------------------------------------------------------------------------
+// Aliases — canonical name + type for common Argentine payment methods
+// ---------------------------------------------------------------------------
+
+const ACCOUNT_ALIASES: Array<{ canonical: string; type: AccountType; aliases: string[] }> = [
+    { canonical: "Efectivo", type: "cash", aliases: ["efectivo", "cash", "billete", "billetes", "plata", "contado"] },
+    { canonical: "MercadoPago", type: "digital_wallet", aliases: ["mercadopago", "mercado pago", "mp", "mercado"] },
+    { canonical: "Ualá", type: "digital_wallet", aliases: ["uala"] },
+    { canonical: "Naranja X", type: "digital_wallet", aliases: ["naranja x", "naranjax"] },
+    { canonical: "Tarjeta de crédito", type: "credit_card", aliases: ["tarjeta", "tarjeta de credito", "credito", "visa", "mastercard", "master", "amex"] },
+    { canonical: "Banco", type: "bank", aliases: ["banco", "debito", "tarjeta de debito", "cuenta bancaria", "transferencia bancaria", "cbu"] },
+];
+
+const TYPE_KEYWORDS: Array<{ type: AccountType; keywords: string[] }> = [
+    { type: "credit_card", keywords: ["tarjeta", "credito", "visa", "master", "amex", "cabal"] },
+    { type: "digital_wallet", keywords: ["mercado", "mp", "uala", "naranja", "lemon", "modo", "personal pay", "billetera", "wallet", "prex"] },
+    { type: "bank", keywords: ["banco", "bank", "debito", "galicia", "santander", "nacion", "provincia", "bbva", "macro", "hsbc", "icbc", "brubank", "ciudad", "patagonia"] },
+];
+
+// ---------------------------------------------------------------------------
+// String helpers
+// ---------------------------------------------------------------------------
+
+/** Lowercases, strips accents and punctuation, and drops leading articles */
+export function normalizeAccountName(name: string): string {
+    return name
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9 ]/g, " ")
+        .replace(/^(con|la|el|mi|de)\s+/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+    const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = prev[0];
+        prev[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = prev[j];
+            prev[j] = Math.min(
+                prev[j] + 1,
+                prev[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+            diagonal = above;
+        }
+    }
+    return prev[b.length];
+}
+
+function findAliasGroup(normalized: string) {
+    return ACCOUNT_ALIASES.find((group) => group.aliases.includes(normalized));
+}
+
+/**
+ * Infers the account type from its name ("Banco Galicia" → bank).
+ * Defaults to cash when nothing looks like a bank, card or wallet.
+ */
+export function inferAccountType(name: string): AccountType {
+    const normalized = normalizeAccountName(name);
+    const alias = findAliasGroup(normalized);
+    if (alias) return alias.type;
+
+    const words = normalized.split(" ");
+    for (const { type, keywords } of TYPE_KEYWORDS) {
+        if (keywords.some((kw) => kw.includes(" ") ? normalized.includes(kw) : words.includes(kw))) {
+            return type;
+        }
+    }
+    return "cash";
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Matches a parsed account name against the user's accounts (pure function).
+ * An empty name resolves to the default account when there is one.
+ */
+export function matchAccount(accounts: AccountRow[], rawName: string): AccountMatch {
+    const wanted = normalizeAccountName(rawName ?? "");
+    const defaultAccount = accounts.find((a) => a.is_default);
+    const named = accounts.map((account) => ({ account, key: normalizeAccountName(account.name) }));
+
+    if (!wanted) {
+        return defaultAccount
+            ? { matched: true, account: defaultAccount }
+            : { matched: false, suggestedName: "Efectivo", suggestedType: "cash" };
+    }
+
+    // 1. Exact name
+    const exact = named.find((n) => n.key === wanted);
+    if (exact) return { matched: true, account: exact.account };
+
+    // 2. Alias group ("mp" ↔ "MercadoPago")
+    const alias = findAliasGroup(wanted);
+    if (alias) {
+        const byAlias = named.find((n) =>
+            alias.aliases.includes(n.key) || n.key === normalizeAccountName(alias.canonical),
+        );
+        if (byAlias) return { matched: true, account: byAlias.account };
+    }
+
+    // 3. Generic type word ("tarjeta", "efectivo") → the only account of that type
+    if (alias) {
+        const ofType = accounts.filter((a) => a.type === alias.type);
+        if (ofType.length === 1) return { matched: true, account: ofType[0] };
+    }
+
+    // 4a. Substring ("galicia" ↔ "Banco Galicia")
+    if (wanted.length >= 3) {
+        const partial = named.filter((n) => n.key.includes(wanted) || (n.key.length >= 3 && wanted.includes(n.key)));
+        if (partial.length === 1) return { matched: true, account: partial[0].account };
+    }
+
+    // 4b. Typos ("mercadopgo")
+    if (wanted.length >= 4) {
+        const tolerance = wanted.length >= 8 ? 2 : 1;
+        const close = named
+            .map((n) => ({ ...n, distance: levenshtein(n.key, wanted) }))
+            .filter((n) => n.distance <= tolerance)
+            .sort((a, b) => a.distance - b.distance);
+        if (close.length > 0) return { matched: true, account: close[0].account };
+    }
+
+    return {
+        matched: false,
+        suggestedName: alias?.canonical ?? rawName.trim(),
+        suggestedType: alias?.type ?? inferAccountType(rawName),
+    };
+}
+
+/**
+ * Resolves the parsed account name for a user against their stored accounts.
+ */
+export async function resolveAccount(userId: string, rawName: string): Promise<AccountMatch> {
+    const accounts = await getUserAccounts(userId);
+    const match = matchAccount(accounts, rawName);
+
+    console.log(
+        match.matched
+            ? `[SUMA] 🏦 Account "${rawName}" → ${match.account.name} (${match.account.id.slice(0, 8)})`
+            : `[SUMA] 🏦 Account "${rawName}" not found — suggesting ${match.suggestedName} (${match.suggestedType})`,
+    );
+
+    return match;
+}
+
+/**
+ * Resolves the parsed account name, creating the account when the user has
+ * none by that name. A new account holds `currency` (the one the user is
+ * moving money in) and is of `type`, or the type inferred from its name.
+ */
+export async function resolveOrCreateAccount(
+    userId: string,
+    rawName: string,
+    currency: Currency,
+    type?: AccountType,
+): Promise<AccountRow> {
+    const match = await resolveAccount(userId, rawName);
+    if (match.matched) return match.account;
+
+    return createAccount(userId, match.suggestedName, type ?? match.suggestedType, currency);
+}
@@ -1,23 +1,66 @@
 // ============================================================================
 // Alerts Service — Schedule and process subscription renewal reminders
 //
-// - scheduleAlert: saves alert_date on a subscription row
+// - scheduleAlert: adds a one-off reminder on a date picked by the user
 // - getFirstBusinessDay: calculates the first weekday of a given month
-// - processPendingAlerts: called by cron, sends reminders via WhatsApp
-// - renewSubscription: extends end_date by original duration
+// - processPendingAlerts: called by cron, sends due reminders via WhatsApp
+// - processSubscriptionCharges: called by cron, posts each due charge
+// - renewSubscription: starts a new term (fixed-term) or reactivates (open-ended)
 // - cancelSubscription: marks is_active=false, sets cancelled_at
 // ============================================================================
 
 import { getSupabaseClient } from "../lib/supabase.js";
-import { sendRenewalReminder } from "./whatsapp.js";
-import type { SubscriptionRow } from "../types/index.js";
+import {
+    sendRenewalReminder,
+    sendChargeReminder,
+    sendTrialReminder,
+    sendSubscriptionCharged,
+} from "./whatsapp.js";
+import { convertToBase, pickRateType } from "./exchange-rates.js";
+import { createDueReminders, scheduleCustomReminder, cancelPendingReminders } from "./reminders.js";
+import { nextOccurrence, isPastTerm, renewalDates } from "../utils/recurrence.js";
+import type {
+    AccountType,
+    Currency,
+    OutboundKind,
+    ReminderRunResult,
+    SubscriptionReminderRow,
+    SubscriptionRow,
+} from "../types/index.js";
+
+/** Most periods a single run posts for one subscription (catch-up after downtime) */
+const MAX_CHARGES_PER_RUN = 12;
+
+/** Sends tried per reminder before it is marked as failed */
+const MAX_REMINDER_ATTEMPTS = 3;
+
+type DueSubscription = Pick<
+    SubscriptionRow,
+    "service_name" | "amount" | "currency" | "next_payment_at" | "end_date" | "is_active" | "cancelled_at" | "is_trial" | "trial_ends_at"
+>;
+
+type DueUser = { phone: string; subscription_status: string; last_inbound_at: string | null };
+
+/** Date a reminder of this kind is about, as the subscription stands now */
+function currentTargetOf(sub: DueSubscription, kind: SubscriptionReminderRow["kind"]): number | null {
+    const date = kind === "trial"
+        ? (sub.is_trial ? sub.trial_ends_at : null)
+        : kind === "renewal" ? sub.end_date : sub.next_payment_at;
+    return date ? new Date(date).getTime() : null;
+}
+
+/** Supabase returns a joined row as an object or a one-item array */
+function one<T>(joined: T | T[] | null): T | null {
+    return Array.isArray(joined) ? joined[0] ?? null : joined;
+}
 
 // ---------------------------------------------------------------------------
 // Schedule an alert for a subscription
 // ---------------------------------------------------------------------------
 
 /**
- * Saves alert_date on the subscription and resets alert_sent to false.
+ * Schedules a one-off reminder on `alertDate` (on top of the user's
+ * reminder days) about the end of the subscription's term.
  */
 export async function scheduleAlert(
     subscriptionId: string,
@@ -25,19 +68,18 @@ export async function scheduleAlert(
 ): Promise<void> {
     const supabase = getSupabaseClient();
 
-    const { error } = await supabase
+    const { data: sub, error } = await supabase
         .from("subscriptions")
-        .update({
-            alert_date: alertDate.toISOString(),
-            alert_sent: false,
-        })
-        .eq("id", subscriptionId);
+        .select("id, user_id, end_date, next_payment_at")
+        .eq("id", subscriptionId)
+        .single();
 
-    if (error) {
+    if (error || !sub) {
         console.error(`[SUMA] ❌ Failed to schedule alert for sub ${subscriptionId}:`, error);
-        throw new Error(`Failed to schedule alert: ${error.message}`);
+        throw new Error(`Failed to schedule alert: ${error?.message ?? "subscription not found"}`);
     }
 
+    await scheduleCustomReminder(sub, alertDate);
     console.log(`[SUMA] 🔔 Alert scheduled for sub ${subscriptionId.slice(0, 8)} on ${alertDate.toISOString().split("T")[0]}`);
 }
 
@@ -80,92 +122,399 @@ export function getDefaultAlertDate(endDate: string): Date {
 // ---------------------------------------------------------------------------
 
 /**
- * Finds all subscriptions with alert_date <= now, alert_sent = false,
- * is_active = true, and whose user has subscription_status = 'active'.
- * Sends renewal reminders via WhatsApp and marks alert_sent = true.
+ * Creates the reminders that came due (see reminders.ts) and sends every
+ * pending one whose remind_at has passed. When several reminders about the
+ * same date are due at once (the 7-day one of a subscription added 2 days
+ * before its charge), only the closest is sent and the rest are skipped.
  *
- * Returns the number of alerts sent.
+ * Each reminder is claimed before sending, so it goes out exactly once;
+ * a failed send goes back to pending until MAX_REMINDER_ATTEMPTS, then
+ * stays as failed with its last error. Reminders about a date that moved
+ * (charged, renewed, paused) or a cancelled subscription are dropped.
  */
 export async function processPendingAlerts(
     phoneNumberId: string,
     apiToken: string,
+    now: Date = new Date(),
+): Promise<ReminderRunResult> {
+    const supabase = getSupabaseClient();
+    const result: ReminderRunResult = { sent: 0, failed: 0, skipped: 0 };
+
+    await createDueReminders(now);
+
+    const { data, error } = await supabase
+        .from("subscription_reminders")
+        .select("*, subscriptions(service_name, amount, currency, next_payment_at, end_date, is_active, cancelled_at, is_trial, trial_ends_at), users(phone, subscription_status, last_inbound_at)")
+        .eq("status", "pending")
+        .lte("remind_at", now.toISOString())
+        .order("remind_at", { ascending: false });
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to fetch pending alerts:", error);
+        throw new Error(`Failed to fetch pending alerts: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+        console.log("[SUMA] 🔔 No pending alerts to process");
+        return result;
+    }
+
+    // Latest remind_at first → the first reminder seen for a date is the closest one
+    const seen = new Set<string>();
+
+    for (const row of data) {
+        const reminder = row as SubscriptionReminderRow;
+        const sub = one(row.subscriptions as DueSubscription | DueSubscription[] | null);
+        const user = one(row.users as DueUser | DueUser[] | null);
+
+        try {
+            const key = `${reminder.subscription_id}:${new Date(reminder.target_date).getTime()}`;
+            const current = sub && sub.is_active && !sub.cancelled_at
+                && currentTargetOf(sub, reminder.kind) === new Date(reminder.target_date).getTime();
+
+            const superseded = seen.has(key);
+            if (superseded || !current || user?.subscription_status !== "active") {
+                await supabase
+                    .from("subscription_reminders")
+                    .update({ status: superseded ? "skipped" : "cancelled" })
+                    .eq("id", reminder.id)
+                    .eq("status", "pending");
+                result.skipped++;
+                continue;
+            }
+            seen.add(key);
+
+            // Claim the reminder (idempotency guard)
+            const attempts = reminder.attempts + 1;
+            const { data: claimed } = await supabase
+                .from("subscription_reminders")
+                .update({ status: "sent", sent_at: now.toISOString(), attempts })
+                .eq("id", reminder.id)
+                .eq("status", "pending")
+                .select("id");
+
+            if (!claimed || claimed.length === 0) continue;
+
+            let wamid: string | null;
+            try {
+                if (reminder.kind === "trial") {
+                    wamid = await sendTrialReminder({
+                        to: user.phone,
+                        phoneNumberId,
+                        apiToken,
+                        lastInboundAt: user.last_inbound_at,
+                        subscriptionId: reminder.subscription_id,
+                        serviceName: sub.service_name,
+                        amount: Number(sub.amount),
+                        currency: sub.currency as Currency,
+                        firstChargeDate: reminder.target_date,
+                    });
+                } else if (reminder.kind === "renewal") {
+                    wamid = await sendRenewalReminder({
+                        to: user.phone,
+                        phoneNumberId,
+                        apiToken,
+                        lastInboundAt: user.last_inbound_at,
+                        subscriptionId: reminder.subscription_id,
+                        serviceName: sub.service_name,
+                        endDate: reminder.target_date,
+                    });
+                } else {
+                    wamid = await sendChargeReminder({
+                        to: user.phone,
+                        phoneNumberId,
+                        apiToken,
+                        lastInboundAt: user.last_inbound_at,
+                        subscriptionId: reminder.subscription_id,
+                        serviceName: sub.service_name,
+                        amount: Number(sub.amount),
+                        currency: sub.currency as Currency,
+                        chargeDate: reminder.target_date,
+                        daysBefore: reminder.days_before,
+                    });
+                }
+            } catch (sendErr) {
+                const gaveUp = attempts >= MAX_REMINDER_ATTEMPTS;
+                await supabase
+                    .from("subscription_reminders")
+                    .update({
+                        status: gaveUp ? "failed" : "pending",
+                        sent_at: null,
+                        last_error: sendErr instanceof Error ? sendErr.message : String(sendErr),
+                    })
+                    .eq("id", reminder.id);
+                if (gaveUp) result.failed++;
+                throw sendErr;
+            }
+
+            // Its delivery status comes back by wamid (retryFailedReminder).
+            // A "failed" status may beat this write: then the retry finds the
+            // reminder through the outbound log and it's no longer "sent"
+            if (wamid) {
+                await supabase
+                    .from("subscription_reminders")
+                    .update({ wamid })
+                    .eq("id", reminder.id)
+                    .eq("status", "sent");
+            }
+
+            result.sent++;
+            console.log(`[SUMA] 🔔 Alert sent for sub ${reminder.subscription_id.slice(0, 8)} (${sub.service_name}, ${reminder.kind})`);
+        } catch (err) {
+            console.error(`[SUMA] ❌ Failed to process alert ${reminder.id}:`, err);
+            // Continue with next reminder — don't block batch on one failure
+        }
+    }
+
+    console.log(`[SUMA] 🔔 Alerts: ${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped (${data.length} due)`);
+    return result;
+}
+
+/** Outbound message kind that carries each kind of reminder */
+const REMINDER_MESSAGE_KIND: Record<SubscriptionReminderRow["kind"], OutboundKind> = {
+    charge: "charge_reminder",
+    renewal: "renewal_reminder",
+    trial: "trial_reminder",
+};
+
+/**
+ * The sent reminder a message carried. Its wamid is stored right after the
+ * send, so a status that arrives first is matched through the outbound log:
+ * the latest sent reminder of that kind, for the subscription the message
+ * refers to, still without a wamid.
+ */
+async function findSentReminder(wamid: string): Promise<{ id: string; attempts: number } | null> {
+    const supabase = getSupabaseClient();
+
+    const { data: reminder } = await supabase
+        .from("subscription_reminders")
+        .select("id, attempts")
+        .eq("wamid", wamid)
+        .eq("status", "sent")
+        .maybeSingle();
+
+    if (reminder) return reminder;
+
+    const { data: message } = await supabase
+        .from("outbound_messages")
+        .select("kind, subscription_id")
+        .eq("wamid", wamid)
+        .maybeSingle();
+
+    const kind = (Object.keys(REMINDER_MESSAGE_KIND) as SubscriptionReminderRow["kind"][])
+        .find((k) => REMINDER_MESSAGE_KIND[k] === message?.kind);
+    if (!kind || !message?.subscription_id) return null;
+
+    const { data: unlinked } = await supabase
+        .from("subscription_reminders")
+        .select("id, attempts")
+        .eq("subscription_id", message.subscription_id)
+        .eq("kind", kind)
+        .eq("status", "sent")
+        .is("wamid", null)
+        .order("sent_at", { ascending: false })
+        .limit(1);
+
+    return unlinked?.[0] ?? null;
+}
+
+/**
+ * WhatsApp reported that the message carrying a reminder failed: the
+ * reminder goes back to pending so the next run sends it again, or to
+ * failed after MAX_REMINDER_ATTEMPTS. No-op when the message wasn't a
+ * reminder. Returns true when a reminder was updated.
+ */
+export async function retryFailedReminder(wamid: string, error: string): Promise<boolean> {
+    const supabase = getSupabaseClient();
+
+    const reminder = await findSentReminder(wamid);
+    if (!reminder) return false;
+
+    const gaveUp = reminder.attempts >= MAX_REMINDER_ATTEMPTS;
+    const { data: updated } = await supabase
+        .from("subscription_reminders")
+        .update({
+            status: gaveUp ? "failed" : "pending",
+            sent_at: null,
+            wamid: null,
+            last_error: error,
+        })
+        .eq("id", reminder.id)
+        .eq("status", "sent")
+        .select("id");
+
+    if (!updated || updated.length === 0) return false;
+
+    console.log(`[SUMA] 🔁 Reminder ${String(reminder.id).slice(0, 8)} not delivered (${error}) → ${gaveUp ? "failed" : "retry"}`);
+    return true;
+}
+
+// ---------------------------------------------------------------------------
+// Recurring charges (called by cron job)
+// ---------------------------------------------------------------------------
+
+/**
+ * Posts the expense for every active subscription whose next_payment_at has
+ * passed, advances next_payment_at by its frequency and notifies the user
+ * with an undo button. Missed periods are caught up one by one.
+ *
+ * Idempotent per period: transactions has a unique (subscription_id,
+ * subscription_period), so a retried run never charges the same period
+ * twice, and next_payment_at only moves if nobody moved it first.
+ * Stops at end_date (the subscription is marked inactive) or cancelled_at.
+ *
+ * Returns the number of charges posted.
+ */
+export async function processSubscriptionCharges(
+    phoneNumberId: string,
+    apiToken: string,
+    now: Date = new Date(),
 ): Promise<number> {
     const supabase = getSupabaseClient();
-    const now = new Date().toISOString();
 
-    // Fetch subscriptions with pending alerts
     const { data: subs, error } = await supabase
         .from("subscriptions")
-        .select("id, user_id, service_name, end_date, amount, currency, frequency")
+        .select("id, user_id, account_id, service_name, amount, currency, frequency, next_payment_at, end_date, anchor_day, category_id, accounts(type)")
         .eq("is_active", true)
-        .eq("alert_sent", false)
-        .not("alert_date", "is", null)
-        .lte("alert_date", now);
+        .is("cancelled_at", null)
+        .gt("amount", 0) // A trial kept without a price has nothing to charge yet
+        .lte("next_payment_at", now.toISOString());
 
     if (error) {
-        console.error("[SUMA] ❌ Failed to fetch pending alerts:", error);
-        throw new Error(`Failed to fetch pending alerts: ${error.message}`);
+        console.error("[SUMA] ❌ Failed to fetch due subscriptions:", error);
+        throw new Error(`Failed to fetch due subscriptions: ${error.message}`);
     }
 
     if (!subs || subs.length === 0) {
-        console.log("[SUMA] 🔔 No pending alerts to process");
+        console.log("[SUMA] 💳 No subscription charges due");
         return 0;
     }
 
-    let sent = 0;
+    let charged = 0;
 
     for (const sub of subs) {
         try {
-            // Verify user has active subscription status
             const { data: user } = await supabase
                 .from("users")
-                .select("phone, subscription_status")
+                .select("phone, subscription_status, base_currency, last_inbound_at")
                 .eq("id", sub.user_id)
                 .single();
 
             if (!user || user.subscription_status !== "active") {
-                console.log(`[SUMA] ⏭️ Skipping alert for sub ${sub.id}: user not active`);
+                console.log(`[SUMA] ⏭️ Skipping charge for sub ${sub.id}: user not active`);
                 continue;
             }
 
-            // Send the reminder
-            await sendRenewalReminder({
-                to: user.phone,
-                phoneNumberId,
-                apiToken,
-                subscriptionId: sub.id,
-                serviceName: sub.service_name,
-                endDate: sub.end_date!,
-            });
-
-            // Mark as sent (idempotency guard)
-            await supabase
-                .from("subscriptions")
-                .update({ alert_sent: true })
-                .eq("id", sub.id)
-                .eq("alert_sent", false); // Double-check to prevent races
-
-            sent++;
-            console.log(`[SUMA] 🔔 Alert sent for sub ${sub.id.slice(0, 8)} (${sub.service_name})`);
+            const joined = sub.accounts as { type: AccountType } | { type: AccountType }[] | null;
+            const accountType = (Array.isArray(joined) ? joined[0]?.type : joined?.type) ?? "cash";
+            let paymentAt = sub.next_payment_at as string;
+
+            for (let i = 0; i < MAX_CHARGES_PER_RUN && new Date(paymentAt) <= now; i++) {
+                // Fixed-term subscription over → stop charging
+                if (isPastTerm(new Date(paymentAt), sub.end_date)) {
+                    await supabase
+                        .from("subscriptions")
+                        .update({ is_active: false })
+                        .eq("id", sub.id);
+                    console.log(`[SUMA] 🏁 Subscription ${sub.id.slice(0, 8)} reached its end_date`);
+                    break;
+                }
+
+                const dueDate = new Date(paymentAt);
+                const conversion = await convertToBase(
+                    Number(sub.amount),
+                    sub.currency as Currency,
+                    (user.base_currency ?? "ARS") as Currency,
+                    pickRateType(accountType),
+                    dueDate,
+                );
+                if (!conversion) {
+                    console.warn(`[SUMA] ⚠️ No exchange rate for sub ${sub.id.slice(0, 8)}, retrying next run`);
+                    break;
+                }
+
+                // Unique (subscription_id, subscription_period) → a retry can't double-charge
+                const { data: tx, error: txError } = await supabase
+                    .from("transactions")
+                    .insert({
+                        user_id: sub.user_id,
+                        type: "expense",
+                        amount: Number(sub.amount),
+                        currency: sub.currency,
+                        exchange_rate: conversion.exchangeRate,
+                        rate_type: conversion.rateType,
+                        amount_base: conversion.amountBase,
+                        description: sub.service_name,
+                        category_id: sub.category_id,
+                        account_id: sub.account_id,
+                        is_recurrent: true,
+                        subscription_id: sub.id,
+                        subscription_period: paymentAt.slice(0, 10),
+                        occurred_at: paymentAt,
+                        raw_message: null,
+                    })
+                    .select("id")
+                    .single();
+
+                if (txError && txError.code !== "23505") {
+                    throw new Error(`Failed to post charge: ${txError.message}`);
+                }
+
+                // Advance only from the value we read (another run may have moved it)
+                const nextPayment = nextOccurrence(dueDate, sub.frequency, sub.anchor_day).toISOString();
+                const { data: moved } = await supabase
+                    .from("subscriptions")
+                    .update({ next_payment_at: nextPayment, is_trial: false })
+                    .eq("id", sub.id)
+                    .eq("next_payment_at", paymentAt)
+                    .select("id");
+
+                if (tx) {
+                    charged++;
+                    console.log(`[SUMA] 💳 Charged sub ${sub.id.slice(0, 8)} (${sub.service_name}) for ${paymentAt.slice(0, 10)}`);
+
+                    await sendSubscriptionCharged({
+                        to: user.phone,
+                        phoneNumberId,
+                        apiToken,
+                        lastInboundAt: user.last_inbound_at,
+                        transactionId: tx.id as string,
+                        serviceName: sub.service_name,
+                        amount: Number(sub.amount),
+                        currency: sub.currency as Currency,
+                        chargedAt: paymentAt,
+                        nextPaymentAt: nextPayment,
+                    });
+                } else {
+                    console.log(`[SUMA] ⏭️ Sub ${sub.id.slice(0, 8)} already charged for ${paymentAt.slice(0, 10)}`);
+                }
+
+                if (!moved || moved.length === 0) break;
+                paymentAt = nextPayment;
+            }
         } catch (err) {
-            console.error(`[SUMA] ❌ Failed to process alert for sub ${sub.id}:`, err);
+            console.error(`[SUMA] ❌ Failed to charge sub ${sub.id}:`, err);
             // Continue with next subscription — don't block batch on one failure
         }
     }
 
-    console.log(`[SUMA] 🔔 Processed ${sent}/${subs.length} alerts`);
-    return sent;
+    console.log(`[SUMA] 💳 Posted ${charged} subscription charges (${subs.length} due)`);
+    return charged;
 }
 
 // ---------------------------------------------------------------------------
-// Renew a subscription (extend end_date)
+// Renew a subscription
 // ---------------------------------------------------------------------------
 
 /**
- * Extends the subscription by recalculating end_date from the current end_date
- * using the original frequency-based duration. Resets alert fields.
+ * Renews a subscription with calendar-aware dates (see renewalDates):
+ * a fixed-term one gets a new term of the same length, an open-ended one
+ * is reactivated with its next charge from today on. Resets alert fields.
  */
-export async function renewSubscription(subscriptionId: string): Promise<SubscriptionRow | null> {
+export async function renewSubscription(
+    subscriptionId: string,
+    now: Date = new Date(),
+): Promise<SubscriptionRow | null> {
     const supabase = getSupabaseClient();
 
     const { data: sub, error: fetchError } = await supabase
@@ -179,27 +528,15 @@ export async function renewSubscription(subscriptionId: string): Promise<Subscri
         return null;
     }
 
-    const subscription = sub as SubscriptionRow;
-
-    if (!subscription.end_date) {
-        console.log(`[SUMA] ⚠️ Cannot renew indefinite subscription ${subscriptionId}`);
-        return null;
-    }
-
-    // Calculate new end_date: old end_date + same duration
-    const oldEnd = new Date(subscription.end_date);
-    const start = new Date(subscription.next_payment_at);
-    const durationMs = oldEnd.getTime() - start.getTime();
-    const newEnd = new Date(oldEnd.getTime() + durationMs);
+    const renewed = renewalDates(sub as SubscriptionRow, now);
 
     const { data: updated, error: updateError } = await supabase
         .from("subscriptions")
         .update({
-            end_date: newEnd.toISOString(),
-            next_payment_at: oldEnd.toISOString(), // Old end becomes new start
-            alert_date: null,
-            alert_sent: false,
+            end_date: renewed.endDate?.toISOString() ?? null,
+            next_payment_at: renewed.nextPaymentAt.toISOString(),
             cancelled_at: null,
+            paused_until: null,
             is_active: true,
         })
         .eq("id", subscriptionId)
@@ -211,7 +548,7 @@ export async function renewSubscription(subscriptionId: string): Promise<Subscri
         return null;
     }
 
-    console.log(`[SUMA] 🔄 Subscription ${subscriptionId.slice(0, 8)} renewed until ${newEnd.toISOString().split("T")[0]}`);
+    console.log(`[SUMA] 🔄 Subscription ${subscriptionId.slice(0, 8)} renewed: next ${renewed.nextPaymentAt.toISOString().split("T")[0]}, until ${renewed.endDate?.toISOString().split("T")[0] ?? "open-ended"}`);
     return updated as SubscriptionRow;
 }
 
@@ -230,7 +567,6 @@ export async function cancelSubscription(subscriptionId: string): Promise<boolea
         .update({
             is_active: false,
             cancelled_at: new Date().toISOString(),
-            alert_date: null,
         })
         .eq("id", subscriptionId);
 
@@ -239,6 +575,8 @@ export async function cancelSubscription(subscriptionId: string): Promise<boolea
         return false;
     }
 
+    await cancelPendingReminders([subscriptionId]);
+
     console.log(`[SUMA] ❌ Subscription ${subscriptionId.slice(0, 8)} cancelled`);
     return true;
 }
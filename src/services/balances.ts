@@ -0,0 +1,178 @@
+// ============================================================================
+// Balances — Stored account balances, adjustments and reconciliation
+//
+// accounts.balance is maintained by the transactions_balance trigger
+// (migration_015) on insert, undo (deleted_at) and edit, so it always moves
+// together with the ledger. Future-dated rows (later installments) wait
+// until they fall due (migration_033). This module covers the rest:
+//   - adjustAccountBalance: "tengo 45.000 en el banco" → adjustment entry
+//   - applyDueTransactions: job that applies the installments that fell due
+//   - reconcileBalances: job that compares stored vs. recomputed balances
+//   - findUnconvertedTransactions: movements the trigger couldn't convert
+//     into their account's currency (they don't move its balance)
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type {
+    AccountBalanceRow,
+    BalanceAdjustment,
+    Currency,
+    UnconvertedTransactionRow,
+} from "../types/index.js";
+import {
+    getUserBaseCurrency,
+    insertTransaction,
+} from "./transaction-repository.js";
+import { resolveOrCreateAccount } from "./account-resolver.js";
+import { convertToBase, pickRateType } from "./exchange-rates.js";
+
+const ADJUSTMENT_DESCRIPTION = "Ajuste de saldo";
+
+// ---------------------------------------------------------------------------
+// Adjustments
+// ---------------------------------------------------------------------------
+
+/**
+ * Sets an account's real balance by posting the difference as an adjustment
+ * entry (income if it went up, expense if it went down, is_adjustment = true).
+ * Adjustments move the balance but are left out of spending reports.
+ * An unknown account name is created with the inferred type and the
+ * currency the user gave (ARS when none), since the user is telling us it
+ * exists and how much it holds.
+ */
+export async function adjustAccountBalance(
+    userId: string,
+    rawAccount: string,
+    realBalance: number,
+    statedCurrency: Currency | null = null,
+): Promise<BalanceAdjustment> {
+    const account = await resolveOrCreateAccount(userId, rawAccount, statedCurrency ?? "ARS");
+
+    const previousBalance = Number(account.balance);
+    const delta = Math.round((realBalance - previousBalance) * 100) / 100;
+
+    if (delta === 0) {
+        return { account, previousBalance, newBalance: realBalance, delta, transactionId: null };
+    }
+
+    const currency = account.currency as Currency;
+    const amount = Math.abs(delta);
+    const baseCurrency = await getUserBaseCurrency(userId);
+    const conversion = await convertToBase(amount, currency, baseCurrency, pickRateType(account.type));
+
+    // The trigger updates accounts.balance in the same statement
+    const saved = await insertTransaction({
+        user_id: userId,
+        type: delta > 0 ? "income" : "expense",
+        amount,
+        currency,
+        exchange_rate: conversion?.exchangeRate ?? null,
+        rate_type: conversion?.rateType ?? null,
+        amount_base: conversion?.amountBase ?? null,
+        description: ADJUSTMENT_DESCRIPTION,
+        category_id: null,
+        account_id: account.id,
+        is_recurrent: false,
+        is_adjustment: true,
+        raw_message: null,
+    });
+
+    console.log(`[SUMA] ⚖️ Balance adjusted: ${account.name} ${previousBalance} → ${realBalance} (${delta > 0 ? "+" : ""}${delta}) for user ${userId.slice(0, 8)}`);
+
+    return { account, previousBalance, newBalance: realBalance, delta, transactionId: saved.id! };
+}
+
+// ---------------------------------------------------------------------------
+// Installments falling due
+// ---------------------------------------------------------------------------
+
+/**
+ * Applies to the balances the future-dated rows whose date has come (the
+ * next installment of each purchase). Returns how many were applied.
+ */
+export async function applyDueTransactions(): Promise<number> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase.rpc("apply_due_transactions");
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to apply due transactions:", error);
+        throw new Error(`Failed to apply due transactions: ${error.message}`);
+    }
+
+    const applied = Number(data ?? 0);
+    if (applied > 0) {
+        console.log(`[SUMA] 💳 Applied ${applied} installments that fell due`);
+    }
+    return applied;
+}
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+// ---------------------------------------------------------------------------
+
+/**
+ * Compares every account's stored balance against the balance recomputed
+ * from the ledger (v_account_balances) and returns the accounts that drift.
+ * With `fix`, the stored balance is overwritten with the recomputed one.
+ */
+export async function reconcileBalances(
+    options: { fix?: boolean } = {},
+): Promise<AccountBalanceRow[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("v_account_balances")
+        .select("*")
+        .neq("drift", 0);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to read account balances:", error);
+        throw new Error(`Failed to read account balances: ${error.message}`);
+    }
+
+    const drifts = (data ?? []) as AccountBalanceRow[];
+
+    for (const row of drifts) {
+        console.warn(`[SUMA] ⚠️ Balance drift on ${row.account_name} (${row.account_id.slice(0, 8)}): stored ${row.stored_balance}, ledger ${row.calculated_balance}, drift ${row.drift}`);
+
+        if (options.fix) {
+            const { error: fixError } = await supabase
+                .from("accounts")
+                .update({ balance: row.calculated_balance })
+                .eq("id", row.account_id);
+
+            if (fixError) {
+                console.error(`[SUMA] ❌ Failed to fix balance for ${row.account_id.slice(0, 8)}:`, fixError);
+            }
+        }
+    }
+
+    console.log(`[SUMA] ⚖️ Reconciliation done: ${drifts.length} accounts with drift${options.fix ? " (fixed)" : ""}`);
+    return drifts;
+}
+
+/**
+ * Lists the movements posted to an account in another currency that have no
+ * rate to convert them (v_unconverted_transactions). The balance trigger
+ * leaves them out of that account's balance, and so does the recomputed
+ * one, so they never show up as drift.
+ */
+export async function findUnconvertedTransactions(): Promise<UnconvertedTransactionRow[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("v_unconverted_transactions")
+        .select("*");
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to read unconverted transactions:", error);
+        throw new Error(`Failed to read unconverted transactions: ${error.message}`);
+    }
+
+    const rows = (data ?? []) as UnconvertedTransactionRow[];
+    for (const row of rows) {
+        console.warn(`[SUMA] ⚠️ Unconverted ${row.currency} movement ${row.transaction_id.slice(0, 8)} on ${row.account_name} (${row.account_currency})`);
+    }
+    return rows;
+}
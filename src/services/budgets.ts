@@ -0,0 +1,196 @@
+// ============================================================================
+// Budgets — Monthly spending limits per category
+//
+// "presupuesto de comida 80.000" sets a budget that applies every month, in
+// the user's base currency. Spend-to-date is the sum of this month's
+// expenses in the category (amount_base, by occurred_at in the user's
+// timezone). After each save the bot warns once at 80% and once at 100%.
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type { BudgetAlert, BudgetStatus, PeriodSummaryRow } from "../types/index.js";
+import { getUserTimezone, resolveCategoryId } from "./transaction-repository.js";
+import { getZonedParts, zonedTimeToUtc } from "../utils/dates.js";
+
+/** Warning levels, highest first */
+const THRESHOLDS = [100, 80] as const;
+
+/** Current calendar month in the user's timezone: [from, to) and "YYYY-MM-01" */
+function currentMonth(now: Date, timezone: string): { from: Date; to: Date; key: string } {
+    const { year, month } = getZonedParts(now, timezone);
+    return {
+        from: zonedTimeToUtc(year, month, 1, 0, 0, timezone),
+        to: month === 12
+            ? zonedTimeToUtc(year + 1, 1, 1, 0, 0, timezone)
+            : zonedTimeToUtc(year, month + 1, 1, 0, 0, timezone),
+        key: `${year}-${String(month).padStart(2, "0")}-01`,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Set / remove
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates or updates the monthly budget for a category. Changing the amount
+ * resets this month's warnings, so the new limit is checked from scratch.
+ * An amount of 0 removes the budget. Returns false if there was nothing to remove.
+ */
+export async function setBudget(
+    userId: string,
+    categoryName: string,
+    amount: number,
+): Promise<boolean> {
+    const supabase = getSupabaseClient();
+    const categoryId = await resolveCategoryId(categoryName.toLowerCase(), userId);
+
+    if (amount <= 0) {
+        const { data, error } = await supabase
+            .from("budgets")
+            .delete()
+            .eq("user_id", userId)
+            .eq("category_id", categoryId)
+            .select("id");
+
+        if (error) {
+            console.error("[SUMA] ❌ Failed to remove budget:", error);
+            throw new Error(`Failed to remove budget: ${error.message}`);
+        }
+
+        console.log(`[SUMA] 🎯 Budget removed: ${categoryName} for user ${userId.slice(0, 8)}`);
+        return (data?.length ?? 0) > 0;
+    }
+
+    const { error } = await supabase
+        .from("budgets")
+        .upsert({
+            user_id: userId,
+            category_id: categoryId,
+            amount,
+            alerted_month: null,
+            alerted_threshold: 0,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: "user_id,category_id" });
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to save budget:", error);
+        throw new Error(`Failed to save budget: ${error.message}`);
+    }
+
+    console.log(`[SUMA] 🎯 Budget set: ${categoryName} ${amount} for user ${userId.slice(0, 8)}`);
+    return true;
+}
+
+// ---------------------------------------------------------------------------
+// Spend-to-date
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns every budget of the user with this month's spend, sorted by how
+ * much of it is used (most used first).
+ */
+export async function getBudgetStatus(
+    userId: string,
+    now: Date = new Date(),
+): Promise<BudgetStatus[]> {
+    const supabase = getSupabaseClient();
+    const timezone = await getUserTimezone(userId);
+    const period = currentMonth(now, timezone);
+
+    const { data: budgets, error } = await supabase
+        .from("budgets")
+        .select("id, category_id, amount, categories(name)")
+        .eq("user_id", userId);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to read budgets:", error);
+        throw new Error(`Failed to read budgets: ${error.message}`);
+    }
+
+    if (!budgets || budgets.length === 0) return [];
+
+    // Summed in SQL (migration_034): a row limit would undercount busy months
+    const { data: totals, error: txError } = await supabase.rpc("period_summary", {
+        p_user_id: userId,
+        p_from: period.from.toISOString(),
+        p_to: period.to.toISOString(),
+    });
+
+    if (txError) {
+        console.error("[SUMA] ❌ Failed to read budget spending:", txError);
+        throw new Error(`Failed to read budget spending: ${txError.message}`);
+    }
+
+    const spentByCategory = new Map<string, number>();
+    for (const row of (totals ?? []) as PeriodSummaryRow[]) {
+        if (row.transaction_type !== "expense" || !row.category_id) continue;
+        spentByCategory.set(row.category_id, Number(row.total_amount));
+    }
+
+    return budgets
+        .map((b) => {
+            const joined = b.categories as { name: string } | { name: string }[] | null;
+            const budget = Number(b.amount);
+            const spent = Math.round((spentByCategory.get(b.category_id as string) ?? 0) * 100) / 100;
+            return {
+                budgetId: b.id as string,
+                categoryId: b.category_id as string,
+                category: (Array.isArray(joined) ? joined[0]?.name : joined?.name) ?? "sin categoría",
+                budget,
+                spent,
+                remaining: Math.round((budget - spent) * 100) / 100,
+                percent: Math.round((spent / budget) * 100),
+            };
+        })
+        .sort((a, b) => b.percent - a.percent);
+}
+
+// ---------------------------------------------------------------------------
+// Threshold warnings
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks the user's budgets after a save and returns the thresholds crossed
+ * for the first time this month. Each warning is claimed with a conditional
+ * update, so two saves racing each other never send the same warning twice.
+ */
+export async function checkBudgetAlerts(
+    userId: string,
+    now: Date = new Date(),
+): Promise<BudgetAlert[]> {
+    const statuses = await getBudgetStatus(userId, now);
+    if (statuses.length === 0) return [];
+
+    const supabase = getSupabaseClient();
+    const timezone = await getUserTimezone(userId);
+    const monthKey = currentMonth(now, timezone).key;
+
+    const alerts: BudgetAlert[] = [];
+
+    for (const status of statuses) {
+        const threshold = THRESHOLDS.find((t) => status.percent >= t);
+        if (!threshold) continue;
+
+        const { data, error } = await supabase
+            .from("budgets")
+            .update({ alerted_month: monthKey, alerted_threshold: threshold })
+            .eq("id", status.budgetId)
+            .or(`alerted_month.is.null,alerted_month.neq.${monthKey},alerted_threshold.lt.${threshold}`)
+            .select("id");
+
+        if (error) {
+            console.error(`[SUMA] ⚠️ Failed to claim budget alert for ${status.category}:`, error);
+            continue;
+        }
+
+        if (data && data.length > 0) {
+            alerts.push({ status, threshold });
+        }
+    }
+
+    if (alerts.length > 0) {
+        console.log(`[SUMA] 🎯 Budget alerts for user ${userId.slice(0, 8)}: ${alerts.map((a) => `${a.status.category} ${a.status.percent}%`).join(", ")}`);
+    }
+
+    return alerts;
+}
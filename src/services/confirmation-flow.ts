@@ -5,22 +5,45 @@
 // Uses pending_confirmations table + WhatsApp interactive messages.
 // ============================================================================
 
+import { randomUUID } from "node:crypto";
 import { getSupabaseClient } from "../lib/supabase.js";
 import type {
+    AccountType,
+    Currency,
+    ParsedTransactionBatch,
     ParsedTransactionData,
     ParsedSubscription,
     PendingConfirmationRow,
+    TransactionRow,
 } from "../types/index.js";
 import {
     ensureDefaultAccount,
+    getAccount,
     resolveCategoryId,
     insertTransaction,
+    insertTransactions,
+    getUserBaseCurrency,
+    getUserTimezone,
 } from "./transaction-repository.js";
+import { resolveAccount, resolveOrCreateAccount } from "./account-resolver.js";
+import { convertToBase, pickRateType } from "./exchange-rates.js";
+import {
+    DEFAULT_TIMEZONE,
+    localDateToInstant,
+    localToday,
+    parseDateInput,
+} from "../utils/dates.js";
+import { buildInstallmentPlan } from "./installments.js";
+import { findSavingsGoal } from "./savings-goals.js";
+import { nextOccurrence } from "../utils/recurrence.js";
 import {
     sendConfirmationButtons,
     sendFieldSelectionList,
+    sendBatchItemList,
+    sendBatchItemActions,
     sendSimpleText,
     buildTransactionSummary,
+    buildBatchSummary,
     buildSubscriptionSummary,
     buildFieldList,
     buildSubscriptionFieldList,
@@ -35,19 +58,83 @@ interface SendParams {
     apiToken: string;
 }
 
+/** Successful save of a pending confirmation */
+export interface SavedResult {
+    status: "saved";
+    transactionId: string;
+    summary: string;
+    subscriptionId?: string;
+    endDate?: string;
+    serviceName?: string;
+    /** Set when several transactions were saved together (undo_batch_) */
+    batchId?: string;
+    /** Savings goals that received money (progress reply) */
+    savingsGoalIds?: string[];
+}
+
+/**
+ * The parsed account doesn't match any of the user's accounts.
+ * The pending confirmation is kept so the user can pick an account type.
+ */
+export interface NeedsAccountResult {
+    status: "needs_account";
+    confirmationId: string;
+    accountName: string;
+    suggestedType: AccountType;
+}
+
+/**
+ * A required field is missing (e.g. the destination of a transfer).
+ * The caller asks the user for it through the field correction flow.
+ */
+export interface MissingFieldResult {
+    status: "missing_field";
+    confirmationId: string;
+    field: string;
+}
+
+/** The pending data can't be saved as-is; `reason` is shown to the user */
+export interface InvalidResult {
+    status: "invalid";
+    reason: string;
+}
+
+/**
+ * A free trial was registered: nothing is charged yet, so there is no
+ * transaction to undo. A reminder comes before the trial converts.
+ */
+export interface TrialSavedResult {
+    status: "trial_saved";
+    subscriptionId: string;
+    serviceName: string;
+    firstChargeDate: string;
+    summary: string;
+}
+
+export type ConfirmResult =
+    | SavedResult
+    | TrialSavedResult
+    | NeedsAccountResult
+    | MissingFieldResult
+    | InvalidResult;
+
 // ---------------------------------------------------------------------------
 // Field correction prompts
 // ---------------------------------------------------------------------------
 
 const FIELD_PROMPTS: Record<string, string> = {
-    type: "¿Es ingreso, egreso o transferencia?",
+    type: "¿Es ingreso, egreso, transferencia o ahorro?",
     amount: "¿Cuál es el monto correcto?",
     currency: "¿Pesos (ARS) o dólares (USD)?",
     account: "¿De qué cuenta? (Efectivo, Banco, MercadoPago, Tarjeta)",
+    destination_account: "¿A qué cuenta va la transferencia? (Efectivo, Banco, MercadoPago…)",
     description: "¿Cuál es la descripción correcta?",
     category: "¿Qué categoría le ponemos?",
     service_name: "¿Cuál es el nombre del servicio?",
     frequency: "¿Con qué frecuencia? (semanal, mensual, anual)",
+    installments: "¿En cuántas cuotas? (1 = un solo pago)",
+    savings_goal: "¿Para qué meta es? (ej: vacaciones)",
+    occurred_on: "¿Qué día fue? (hoy, ayer, el viernes, 12/03)",
 };
 
 // ---------------------------------------------------------------------------
@@ -60,8 +147,8 @@ const FIELD_PROMPTS: Record<string, string> = {
  */
 export async function createPending(
     userId: string,
-    data: ParsedTransactionData | ParsedSubscription,
-    confirmationType: "transaction" | "subscription",
+    data: ParsedTransactionData | ParsedSubscription | ParsedTransactionBatch,
+    confirmationType: PendingConfirmationRow["confirmation_type"],
 ): Promise<string> {
     const supabase = getSupabaseClient();
 
@@ -125,6 +212,18 @@ export async function sendConfirmation(
     phone: string,
     sendParams: SendParams,
 ): Promise<void> {
+    if (pending.confirmation_type === "batch") {
+        await sendConfirmationButtons({
+            to: phone,
+            phoneNumberId: sendParams.phoneNumberId,
+            apiToken: sendParams.apiToken,
+            summaryText: buildBatchSummary((pending.transaction_data as ParsedTransactionBatch).items),
+            confirmationId: pending.id,
+            labels: { confirm: "✅ Confirmar todo", correct: "✏️ Editar / quitar" },
+        });
+        return;
+    }
+
     const summaryText = pending.confirmation_type === "subscription"
         ? buildSubscriptionSummary(pending.transaction_data as ParsedSubscription)
         : buildTransactionSummary(pending.transaction_data as ParsedTransactionData);
@@ -144,12 +243,13 @@ export async function sendConfirmation(
 
 /**
  * Confirms a pending transaction: persists to DB and removes the pending record.
- * Returns the transaction ID, a summary string, and subscription details if applicable.
+ * Returns the transaction ID, a summary string, and subscription details if applicable,
+ * or "needs_account" when the transaction's account has to be created first.
  */
 export async function confirmAndSave(
     confirmationId: string,
     userId: string,
-): Promise<{ transactionId: string; summary: string; subscriptionId?: string; endDate?: string; serviceName?: string }> {
+): Promise<ConfirmResult> {
     const supabase = getSupabaseClient();
 
     const { data: row, error } = await supabase
@@ -169,71 +269,290 @@ export async function confirmAndSave(
         return await saveTransaction(pending, userId, supabase);
     }
 
+    if (pending.confirmation_type === "batch") {
+        return await saveBatch(pending, userId, supabase);
+    }
+
     return await saveSubscription(pending, userId, supabase);
 }
 
-async function saveTransaction(
-    pending: PendingConfirmationRow,
+type NewTransactionRow = Omit<TransactionRow, "id" | "created_at">;
+
+/** Why a parsed transaction can't be saved yet */
+type SaveProblem = NeedsAccountResult | MissingFieldResult | InvalidResult;
+
+/**
+ * Resolves accounts, date, exchange rate and category for one parsed
+ * transaction and builds the rows to insert (one per installment).
+ * Resolved account IDs are written back into `data`, so the caller can
+ * persist them when a problem has to be sorted out first.
+ */
+async function prepareTransaction(
+    data: ParsedTransactionData,
     userId: string,
-    supabase: ReturnType<typeof getSupabaseClient>,
-): Promise<{ transactionId: string; summary: string }> {
-    const data = pending.transaction_data as ParsedTransactionData;
+    confirmationId: string,
+    timezone: string,
+    batchId: string | null,
+): Promise<NewTransactionRow[] | SaveProblem> {
+    const isTransfer = data.type === "transfer";
+
+    // Resolve the parsed account name unless it was already assigned
+    if (!data.account_id) {
+        const match = await resolveAccount(userId, data.account);
+        if (!match.matched) {
+            return {
+                status: "needs_account",
+                confirmationId,
+                accountName: match.suggestedName,
+                suggestedType: match.suggestedType,
+            };
+        }
+        data.account_id = match.account.id;
+        data.account = match.account.name;
+    }
 
-    const [accountId, categoryId] = await Promise.all([
-        ensureDefaultAccount(userId),
-        resolveCategoryId(data.category, userId),
-    ]);
+    // Transfers also need the destination (chk_transfer_dest)
+    if (isTransfer && !data.destination_account_id) {
+        if (!data.destination_account?.trim()) {
+            return { status: "missing_field", confirmationId, field: "destination_account" };
+        }
 
-    const saved = await insertTransaction({
+        const match = await resolveAccount(userId, data.destination_account);
+        if (!match.matched) {
+            return {
+                status: "needs_account",
+                confirmationId,
+                accountName: match.suggestedName,
+                suggestedType: match.suggestedType,
+            };
+        }
+        data.destination_account_id = match.account.id;
+        data.destination_account = match.account.name;
+    }
+
+    if (isTransfer && data.account_id === data.destination_account_id) {
+        return {
+            status: "invalid",
+            reason: `⚠️ El origen y el destino son la misma cuenta (*${data.account}*). Tocá _"No, corregir"_ y cambiá el destino.`,
+        };
+    }
+
+    // Local date the user gave ("ayer", receipt date) → instant in their timezone
+    const occurredAt = localDateToInstant(data.occurred_on ?? localToday(timezone), timezone);
+
+    // Convert to the user's base currency with that day's quote (stored on the row)
+    const conversion = await convertForUser(userId, data.amount, data.currency ?? "ARS", data.account_id!, occurredAt);
+    if (!conversion) {
+        return { status: "invalid", reason: NO_RATE_REASON };
+    }
+
+    // Transfers between own accounts don't carry a category
+    const categoryId = isTransfer ? null : await resolveCategoryId(data.category, userId);
+
+    // Savings go to the goal the user named (or their only goal)
+    if (data.type === "savings" && !data.savings_goal_id) {
+        const goal = await findSavingsGoal(userId, data.savings_goal);
+        if (goal) {
+            data.savings_goal_id = goal.id;
+            data.savings_goal = goal.name;
+        }
+    }
+
+    const base = {
         user_id: userId,
         type: data.type,
-        amount: data.amount,
+        currency: data.currency ?? "ARS",
+        exchange_rate: conversion.exchangeRate,
+        rate_type: conversion.rateType,
         description: data.description,
         category_id: categoryId,
-        account_id: accountId,
+        account_id: data.account_id!,
+        destination_account_id: isTransfer ? data.destination_account_id : null,
+        savings_goal_id: data.type === "savings" ? data.savings_goal_id ?? null : null,
         is_recurrent: false,
+        batch_id: batchId,
         raw_message: null,
-    });
+    };
+
+    // Purchase in installments → one row per month sharing a group ID
+    if (data.installments && data.installments > 1 && data.type === "expense") {
+        const groupId = randomUUID();
+        const plan = buildInstallmentPlan(data.amount, data.installments, occurredAt, timezone);
+
+        return plan.map((item) => ({
+            ...base,
+            amount: item.amount,
+            amount_base: Math.round(item.amount * conversion.exchangeRate * 100) / 100,
+            installment_current: item.number,
+            installment_total: item.total,
+            installment_group_id: groupId,
+            occurred_at: item.date.toISOString(),
+        }));
+    }
+
+    return [{
+        ...base,
+        amount: data.amount,
+        amount_base: conversion.amountBase,
+        occurred_at: occurredAt.toISOString(),
+    }];
+}
+
+async function saveTransaction(
+    pending: PendingConfirmationRow,
+    userId: string,
+    supabase: ReturnType<typeof getSupabaseClient>,
+): Promise<ConfirmResult> {
+    const data = pending.transaction_data as ParsedTransactionData;
+    const timezone = await getUserTimezone(userId);
+
+    const prepared = await prepareTransaction(data, userId, pending.id, timezone, null);
+    if (!Array.isArray(prepared)) {
+        // Keep resolved accounts so assignAccountAndSave knows whose turn it is
+        await updatePendingData(pending.id, data);
+        return prepared;
+    }
+
+    const rows = await insertTransactions(prepared);
 
     await supabase
         .from("pending_confirmations")
         .delete()
         .eq("id", pending.id);
 
-    console.log(`[SUMA] 💾 Transaction confirmed: ${saved.id} for user ${userId.slice(0, 8)}`);
+    const first = rows.find((r) => (r.installment_current ?? 1) === 1) ?? rows[0];
+    console.log(rows.length > 1
+        ? `[SUMA] 💾 Installment purchase confirmed: ${rows.length} cuotas (group ${first.installment_group_id?.slice(0, 8)}) for user ${userId.slice(0, 8)}`
+        : `[SUMA] 💾 Transaction confirmed: ${first.id} for user ${userId.slice(0, 8)}`);
 
     return {
-        transactionId: saved.id!,
+        status: "saved",
+        transactionId: first.id!,
         summary: buildTransactionSummary(data),
+        savingsGoalIds: savingsGoalIdsOf(rows),
     };
 }
 
+/**
+ * Saves every item of a batch in a single insert (all or nothing).
+ * The first item that needs attention (unknown account, missing field,
+ * invalid data) stops the save and becomes the batch's editing_index.
+ */
+async function saveBatch(
+    pending: PendingConfirmationRow,
+    userId: string,
+    supabase: ReturnType<typeof getSupabaseClient>,
+): Promise<ConfirmResult> {
+    const batch = pending.transaction_data as ParsedTransactionBatch;
+    const timezone = await getUserTimezone(userId);
+    const batchId = randomUUID();
+    const rows: NewTransactionRow[] = [];
+
+    for (const [index, item] of batch.items.entries()) {
+        const prepared = await prepareTransaction(item, userId, pending.id, timezone, batchId);
+        if (!Array.isArray(prepared)) {
+            await updatePendingData(pending.id, { ...batch, editing_index: index });
+            return prepared.status === "invalid"
+                ? { ...prepared, reason: `*${index + 1}. ${item.description}* — ${prepared.reason}` }
+                : prepared;
+        }
+        rows.push(...prepared);
+    }
+
+    const saved = await insertTransactions(rows);
+
+    await supabase
+        .from("pending_confirmations")
+        .delete()
+        .eq("id", pending.id);
+
+    console.log(`[SUMA] 💾 Batch confirmed: ${batch.items.length} transactions (${saved.length} rows, batch ${batchId.slice(0, 8)}) for user ${userId.slice(0, 8)}`);
+
+    return {
+        status: "saved",
+        transactionId: saved[0].id!,
+        summary: buildBatchSummary(batch.items),
+        batchId,
+        savingsGoalIds: savingsGoalIdsOf(saved),
+    };
+}
+
+/** Distinct savings goals the saved rows went to */
+function savingsGoalIdsOf(rows: TransactionRow[]): string[] {
+    return [...new Set(rows.map((r) => r.savings_goal_id).filter((id): id is string => !!id))];
+}
+
+const NO_RATE_REASON = "⚠️ Todavía no tengo la cotización del dólar para convertir este movimiento. Probá de nuevo en un rato.";
+
+/**
+ * Converts an amount to the user's base currency. Dollar charges on a
+ * credit card (by the account's stored type) use the "tarjeta" quote;
+ * everything else uses MEP.
+ * Returns null when a conversion is needed but no quote is loaded.
+ */
+async function convertForUser(
+    userId: string,
+    amount: number,
+    currency: Currency,
+    accountId: string,
+    at: Date = new Date(),
+) {
+    const [baseCurrency, account] = await Promise.all([
+        getUserBaseCurrency(userId),
+        getAccount(userId, accountId),
+    ]);
+    return convertToBase(amount, currency, baseCurrency, pickRateType(account?.type), at);
+}
+
+/**
+ * Overwrites the transaction_data of a pending confirmation.
+ */
+async function updatePendingData(
+    confirmationId: string,
+    data: ParsedTransactionData | ParsedSubscription | ParsedTransactionBatch,
+): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+        .from("pending_confirmations")
+        .update({ transaction_data: data })
+        .eq("id", confirmationId);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to update pending confirmation:", error);
+        throw new Error(`Failed to update pending confirmation: ${error.message}`);
+    }
+}
+
 async function saveSubscription(
     pending: PendingConfirmationRow,
     userId: string,
     supabase: ReturnType<typeof getSupabaseClient>,
-): Promise<{ transactionId: string; summary: string; subscriptionId?: string; endDate?: string; serviceName?: string }> {
+): Promise<SavedResult | TrialSavedResult | InvalidResult> {
     const data = pending.transaction_data as ParsedSubscription;
 
-    const [accountId, categoryId] = await Promise.all([
-        ensureDefaultAccount(userId),
+    // Subscriptions use the matched account, or the default one when unknown
+    const [accountMatch, categoryId] = await Promise.all([
+        resolveAccount(userId, data.account),
         resolveCategoryId("suscripcion", userId),
     ]);
+    const accountId = accountMatch.matched
+        ? accountMatch.account.id
+        : await ensureDefaultAccount(userId);
 
-    // Save as recurring expense transaction
-    const saved = await insertTransaction({
-        user_id: userId,
-        type: "expense",
-        amount: data.amount,
-        description: data.service_name,
-        category_id: categoryId,
-        account_id: accountId,
-        is_recurrent: true,
-        raw_message: null,
-    });
+    if (data.trial_days && data.first_charge_date) {
+        return saveTrial(pending, data, userId, accountId, categoryId, supabase);
+    }
 
-    // Also insert into subscriptions table (with end_date if present)
-    const nextPayment = data.start_date || new Date().toISOString();
+    const conversion = await convertForUser(userId, data.amount, data.currency, accountId);
+    if (!conversion) {
+        return { status: "invalid", reason: NO_RATE_REASON };
+    }
+
+    // Insert into subscriptions table (with end_date if present).
+    // This confirmation pays the first period, so the next charge is one
+    // period after the start (api/process-charges.ts posts it when due).
+    const startDate = data.start_date || new Date().toISOString().split("T")[0];
     const insertData: Record<string, unknown> = {
         user_id: userId,
         account_id: accountId,
@@ -241,7 +560,9 @@ async function saveSubscription(
         amount: data.amount,
         currency: data.currency,
         frequency: data.frequency,
-        next_payment_at: nextPayment,
+        next_payment_at: nextOccurrence(new Date(startDate), data.frequency).toISOString(),
+        anchor_day: new Date(startDate).getUTCDate(),
+        term_months: data.duration_months || null,
         category_id: categoryId,
     };
 
@@ -256,9 +577,27 @@ async function saveSubscription(
         .single();
 
     if (subError) {
-        console.error("[SUMA] ⚠️ Failed to insert subscription (transaction saved):", subError);
+        console.error("[SUMA] ⚠️ Failed to insert subscription (saving transaction anyway):", subError);
     }
 
+    // Save as recurring expense transaction, linked to its first period
+    const saved = await insertTransaction({
+        user_id: userId,
+        type: "expense",
+        amount: data.amount,
+        currency: data.currency,
+        exchange_rate: conversion.exchangeRate,
+        rate_type: conversion.rateType,
+        amount_base: conversion.amountBase,
+        description: data.service_name,
+        category_id: categoryId,
+        account_id: accountId,
+        is_recurrent: true,
+        subscription_id: (subRow?.id as string | undefined) ?? null,
+        subscription_period: subRow ? startDate.slice(0, 10) : null,
+        raw_message: null,
+    });
+
     await supabase
         .from("pending_confirmations")
         .delete()
@@ -268,6 +607,7 @@ async function saveSubscription(
     console.log(`[SUMA] 💾 Subscription confirmed: ${saved.id} (sub: ${subscriptionId?.slice(0, 8) ?? "N/A"}) for user ${userId.slice(0, 8)}`);
 
     return {
+        status: "saved",
         transactionId: saved.id!,
         summary: buildSubscriptionSummary(data),
         subscriptionId: subscriptionId ?? undefined,
@@ -276,6 +616,126 @@ async function saveSubscription(
     };
 }
 
+/**
+ * Registers a free trial: the subscription starts charging on
+ * first_charge_date, and nothing is paid now, so no transaction is saved.
+ */
+async function saveTrial(
+    pending: PendingConfirmationRow,
+    data: ParsedSubscription,
+    userId: string,
+    accountId: string,
+    categoryId: string | null,
+    supabase: ReturnType<typeof getSupabaseClient>,
+): Promise<TrialSavedResult | InvalidResult> {
+    const firstCharge = new Date(data.first_charge_date!);
+
+    const { data: subRow, error } = await supabase
+        .from("subscriptions")
+        .insert({
+            user_id: userId,
+            account_id: accountId,
+            service_name: data.service_name,
+            amount: data.amount,
+            currency: data.currency,
+            frequency: data.frequency,
+            next_payment_at: firstCharge.toISOString(),
+            anchor_day: firstCharge.getUTCDate(),
+            term_months: data.duration_months || null,
+            end_date: data.end_date,
+            category_id: categoryId,
+            is_trial: true,
+            trial_ends_at: firstCharge.toISOString(),
+        })
+        .select("id")
+        .single();
+
+    if (error || !subRow) {
+        console.error("[SUMA] ❌ Failed to insert trial subscription:", error);
+        return { status: "invalid", reason: "⚠️ No pude guardar la prueba gratis. Intentá de nuevo en un rato." };
+    }
+
+    await supabase
+        .from("pending_confirmations")
+        .delete()
+        .eq("id", pending.id);
+
+    console.log(`[SUMA] 🆓 Trial registered: ${data.service_name} until ${data.first_charge_date} (sub: ${String(subRow.id).slice(0, 8)}) for user ${userId.slice(0, 8)}`);
+
+    return {
+        status: "trial_saved",
+        subscriptionId: subRow.id as string,
+        serviceName: data.service_name,
+        firstChargeDate: data.first_charge_date!,
+        summary: buildSubscriptionSummary(data),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Account assignment (unknown account → create or use default)
+// ---------------------------------------------------------------------------
+
+/**
+ * Assigns an account to a pending transaction whose account didn't match,
+ * then saves it. `choice` is the type for a new account named after the
+ * parsed one, or "default" to fall back to the user's default account.
+ * The source account is resolved first; once it has an ID, the choice
+ * applies to the destination of a transfer. In a batch, it applies to the
+ * item being edited (the one that stopped the save).
+ */
+export async function assignAccountAndSave(
+    confirmationId: string,
+    userId: string,
+    choice: AccountType | "default",
+): Promise<ConfirmResult> {
+    const supabase = getSupabaseClient();
+
+    const { data: row, error } = await supabase
+        .from("pending_confirmations")
+        .select("*")
+        .eq("id", confirmationId)
+        .gt("expires_at", new Date().toISOString())
+        .single();
+
+    if (error || !row) {
+        throw new Error("Confirmación expirada");
+    }
+
+    const pending = row as PendingConfirmationRow;
+    const batch = pending.confirmation_type === "batch"
+        ? pending.transaction_data as ParsedTransactionBatch
+        : null;
+    const itemIndex = batch?.editing_index ?? 0;
+    const data = batch ? batch.items[itemIndex] : pending.transaction_data as ParsedTransactionData;
+    const isDestination = !!data.account_id && data.type === "transfer";
+    const parsedName = isDestination ? data.destination_account ?? "" : data.account;
+
+    let accountId: string;
+    let accountName: string;
+
+    if (choice === "default") {
+        accountId = await ensureDefaultAccount(userId);
+        // The user may have renamed it: show what the movement is saved to
+        accountName = (await getAccount(userId, accountId))?.name ?? "General";
+    } else {
+        // Re-resolve: the account may have been created in the meantime.
+        // A new one holds the currency the money moved in ("50 USD con Wise")
+        const account = await resolveOrCreateAccount(userId, parsedName, data.currency ?? "ARS", choice);
+        accountId = account.id;
+        accountName = account.name;
+    }
+
+    const updated: ParsedTransactionData = isDestination
+        ? { ...data, destination_account: accountName, destination_account_id: accountId }
+        : { ...data, account: accountName, account_id: accountId };
+
+    await updatePendingData(confirmationId, batch
+        ? { ...batch, items: batch.items.map((item, i) => (i === itemIndex ? updated : item)) }
+        : updated);
+
+    return confirmAndSave(confirmationId, userId);
+}
+
 // ---------------------------------------------------------------------------
 // Field correction flow
 // ---------------------------------------------------------------------------
@@ -301,6 +761,19 @@ export async function startFieldCorrection(
     }
 
     const pending = row as PendingConfirmationRow;
+
+    // Batches: pick the item first, then its field
+    if (pending.confirmation_type === "batch") {
+        await sendBatchItemList({
+            to: phone,
+            phoneNumberId: sendParams.phoneNumberId,
+            apiToken: sendParams.apiToken,
+            confirmationId,
+            items: (pending.transaction_data as ParsedTransactionBatch).items,
+        });
+        return;
+    }
+
     const fields = pending.confirmation_type === "subscription"
         ? buildSubscriptionFieldList(pending.transaction_data as ParsedSubscription)
         : buildFieldList(pending.transaction_data as ParsedTransactionData);
@@ -376,10 +849,35 @@ export async function applyFieldCorrection(
     }
 
     // Parse the new value according to the field type
-    const parsedValue = parseFieldValue(fieldName, newValue);
+    // Dates are relative to the user's calendar ("ayer")
+    const timezone = fieldName === "occurred_on"
+        ? await getUserTimezone(pending.user_id)
+        : DEFAULT_TIMEZONE;
+    const parsedValue = parseFieldValue(fieldName, newValue, timezone);
+
+    // Update the transaction_data with the corrected value.
+    // A new account name must be resolved again on confirmation.
+    // In a batch, the correction applies to the item being edited.
+    const applyTo = <T extends object>(data: T): T => ({
+        ...data,
+        [fieldName]: parsedValue,
+        ...(fieldName === "account" ? { account_id: null } : {}),
+        ...(fieldName === "destination_account" ? { destination_account_id: null } : {}),
+        ...(fieldName === "savings_goal" ? { savings_goal_id: null } : {}),
+        ...(fieldName === "amount" || fieldName === "installments" ? { installment_amount: null } : {}),
+    });
 
-    // Update the transaction_data with the corrected value
-    const updatedData = { ...pending.transaction_data, [fieldName]: parsedValue };
+    let updatedData: ParsedTransactionData | ParsedSubscription | ParsedTransactionBatch;
+    if (pending.confirmation_type === "batch") {
+        const batch = pending.transaction_data as ParsedTransactionBatch;
+        updatedData = {
+            ...batch,
+            items: batch.items.map((item, i) => (i === batch.editing_index ? applyTo(item) : item)),
+            editing_index: null,
+        };
+    } else {
+        updatedData = applyTo(pending.transaction_data as ParsedTransactionData | ParsedSubscription);
+    }
 
     const { error: updateError } = await supabase
         .from("pending_confirmations")
@@ -399,37 +897,181 @@ export async function applyFieldCorrection(
     // Re-send the confirmation with updated data
     const updatedPending: PendingConfirmationRow = {
         ...pending,
-        transaction_data: updatedData as ParsedTransactionData | ParsedSubscription,
+        transaction_data: updatedData,
         field_editing: null,
     };
 
     await sendConfirmation(updatedPending, phone, sendParams);
 }
 
+// ---------------------------------------------------------------------------
+// Batch items (several transactions in one message)
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetches a pending batch and checks that the item index exists.
+ */
+async function getPendingBatch(
+    confirmationId: string,
+    index: number,
+): Promise<{ pending: PendingConfirmationRow; batch: ParsedTransactionBatch }> {
+    const supabase = getSupabaseClient();
+
+    const { data: row, error } = await supabase
+        .from("pending_confirmations")
+        .select("*")
+        .eq("id", confirmationId)
+        .gt("expires_at", new Date().toISOString())
+        .single();
+
+    if (error || !row) {
+        throw new Error("Confirmación expirada");
+    }
+
+    const pending = row as PendingConfirmationRow;
+    const batch = pending.transaction_data as ParsedTransactionBatch;
+
+    if (pending.confirmation_type !== "batch" || !batch.items[index]) {
+        throw new Error("Movimiento no encontrado");
+    }
+
+    return { pending, batch };
+}
+
+/**
+ * The user picked an item of the batch: asks whether to edit or remove it.
+ */
+export async function selectBatchItem(
+    confirmationId: string,
+    index: number,
+    phone: string,
+    sendParams: SendParams,
+): Promise<void> {
+    const { batch } = await getPendingBatch(confirmationId, index);
+
+    await sendBatchItemActions({
+        to: phone,
+        phoneNumberId: sendParams.phoneNumberId,
+        apiToken: sendParams.apiToken,
+        confirmationId,
+        index,
+        item: batch.items[index],
+    });
+}
+
+/**
+ * Marks an item of the batch as the one being edited and shows its fields.
+ * The field correction flow then applies to that item only.
+ */
+export async function editBatchItem(
+    confirmationId: string,
+    index: number,
+    phone: string,
+    sendParams: SendParams,
+): Promise<void> {
+    const { batch } = await getPendingBatch(confirmationId, index);
+
+    await updatePendingData(confirmationId, { ...batch, editing_index: index });
+
+    await sendFieldSelectionList({
+        to: phone,
+        phoneNumberId: sendParams.phoneNumberId,
+        apiToken: sendParams.apiToken,
+        confirmationId,
+        fields: buildFieldList(batch.items[index]),
+    });
+
+    console.log(`[SUMA] ✏️ Editing batch item ${index + 1} of ${confirmationId.slice(0, 8)}`);
+}
+
+/**
+ * Removes an item from the batch and re-sends the confirmation.
+ * Removing the last item discards the whole pending confirmation.
+ */
+export async function removeBatchItem(
+    confirmationId: string,
+    index: number,
+    phone: string,
+    sendParams: SendParams,
+): Promise<void> {
+    const { pending, batch } = await getPendingBatch(confirmationId, index);
+    const items = batch.items.filter((_, i) => i !== index);
+
+    if (items.length === 0) {
+        const supabase = getSupabaseClient();
+        await supabase
+            .from("pending_confirmations")
+            .delete()
+            .eq("id", confirmationId);
+
+        await sendSimpleText({
+            to: phone,
+            phoneNumberId: sendParams.phoneNumberId,
+            apiToken: sendParams.apiToken,
+            text: "🗑️ Listo, no queda ningún movimiento para registrar.",
+        });
+        return;
+    }
+
+    const updated: ParsedTransactionBatch = { items, editing_index: null };
+    await updatePendingData(confirmationId, updated);
+
+    console.log(`[SUMA] 🗑️ Removed batch item ${index + 1} of ${confirmationId.slice(0, 8)} (${items.length} left)`);
+
+    // A single remaining item still goes through the batch flow (same buttons)
+    await sendConfirmation({ ...pending, transaction_data: updated }, phone, sendParams);
+}
+
+/**
+ * Parses an amount typed by the user in Argentine format: 15.000,50 → 15000.50.
+ * Returns 0 if there's no number.
+ */
+export function parseAmountInput(rawValue: string): number {
+    const normalized = rawValue
+        .replace(/[^0-9.,]/g, "")   // strip non-numeric except . and ,
+        .replace(/\./g, "")          // remove thousand separators
+        .replace(",", ".");           // convert decimal comma to dot
+    const num = parseFloat(normalized);
+    return isNaN(num) ? 0 : num;
+}
+
 /**
  * Parses a user-provided value into the correct type for a given field.
  */
-function parseFieldValue(fieldName: string, rawValue: string): string | number {
+function parseFieldValue(
+    fieldName: string,
+    rawValue: string,
+    timezone: string = DEFAULT_TIMEZONE,
+): string | number {
     const value = rawValue.trim();
 
     switch (fieldName) {
-        case "amount": {
-            // Argentine format: 15.000,50 → 15000.50
-            const normalized = value
-                .replace(/[^0-9.,]/g, "")   // strip non-numeric except . and ,
-                .replace(/\./g, "")          // remove thousand separators
-                .replace(",", ".");           // convert decimal comma to dot
-            const num = parseFloat(normalized);
-            return isNaN(num) ? 0 : num;
-        }
+        case "amount":
+            return parseAmountInput(value);
 
         case "type": {
             const lower = value.toLowerCase();
             if (lower.includes("ingreso") || lower.includes("cobr")) return "income";
             if (lower.includes("transfer")) return "transfer";
+            if (lower.includes("ahorr")) return "savings";
             return "expense";
         }
 
+        case "currency": {
+            const lower = value.toLowerCase();
+            if (/usd|d[oó]lar|u\$s|us\$|verde/.test(lower)) return "USD";
+            return "ARS";
+        }
+
+        case "occurred_on":
+            // Unrecognized input falls back to today
+            return parseDateInput(value, timezone) ?? localToday(timezone);
+
+        case "installments": {
+            const num = parseInt(value.replace(/[^0-9]/g, ""), 10);
+            return isNaN(num) || num <= 1 ? 0 : num;
+        }
+
         case "frequency": {
             const lower = value.toLowerCase();
             if (lower.includes("semanal") || lower.includes("week")) return "weekly";
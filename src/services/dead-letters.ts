@@ -0,0 +1,158 @@
+// ============================================================================
+// Dead Letters — Messages whose processing gave up
+//
+// When a message fails its last attempt (MAX_MESSAGE_ATTEMPTS in
+// idempotency.ts, or QStash's last retry), api/process-message.ts stores it
+// here whole: the QueuedMessagePayload, the pipeline stage that failed, the
+// error and its stack. api/admin-dead-letters.ts lists them and replays them
+// through the same pipeline.
+//
+// A replay claims the row (pending → replaying) with a conditional update,
+// so two admins replaying at once never process the message twice.
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type {
+    DeadLetterRow,
+    DeadLetterStatus,
+    PipelineStage,
+    QueuedMessagePayload,
+} from "../types/index.js";
+
+/** Listed per page by the admin endpoint */
+const DEFAULT_LIST_LIMIT = 50;
+
+/**
+ * Stores a message that gave up. A message dead-lettered again (a replayed
+ * one that failed in a later delivery) is updated back to pending.
+ * Never throws: the worker is already failing, this must not hide why.
+ */
+export async function recordDeadLetter(params: {
+    payload: QueuedMessagePayload;
+    userPhone: string;
+    stage: PipelineStage;
+    error: unknown;
+    attempts: number;
+}): Promise<void> {
+    const supabase = getSupabaseClient();
+    const err = params.error instanceof Error ? params.error : null;
+
+    const { error } = await supabase
+        .from("dead_letter_messages")
+        .upsert(
+            {
+                wamid: params.payload.message.id,
+                user_phone: params.userPhone,
+                payload: params.payload,
+                stage: params.stage,
+                error: err?.message ?? String(params.error),
+                stack: err?.stack ?? null,
+                attempts: params.attempts,
+                status: "pending",
+            },
+            { onConflict: "wamid" },
+        );
+
+    if (error) {
+        console.error(`[SUMA] ❌ Failed to dead-letter message ${params.payload.message.id}:`, error);
+        return;
+    }
+
+    console.warn(`[SUMA] 🪦 Message ${params.payload.message.id} dead-lettered at ${params.stage} after ${params.attempts} attempts`);
+}
+
+/** Dead letters by status, newest first */
+export async function listDeadLetters(
+    status: DeadLetterStatus = "pending",
+    limit: number = DEFAULT_LIST_LIMIT,
+): Promise<Array<Omit<DeadLetterRow, "payload" | "stack">>> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("dead_letter_messages")
+        .select("id, wamid, user_phone, stage, error, attempts, status, replay_count, replay_error, created_at, replayed_at")
+        .eq("status", status)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to list dead letters:", error);
+        throw new Error(`Failed to list dead letters: ${error.message}`);
+    }
+
+    return (data ?? []) as Array<Omit<DeadLetterRow, "payload" | "stack">>;
+}
+
+/** A dead letter with its payload and stack, or null if it doesn't exist */
+export async function getDeadLetter(id: string): Promise<DeadLetterRow | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("dead_letter_messages")
+        .select("*")
+        .eq("id", id)
+        .maybeSingle();
+
+    if (error) {
+        console.error(`[SUMA] ❌ Failed to fetch dead letter ${id}:`, error);
+        throw new Error(`Failed to fetch dead letter: ${error.message}`);
+    }
+
+    return data as DeadLetterRow | null;
+}
+
+/**
+ * Claims a pending dead letter for replay. Returns null when it isn't
+ * pending (already replayed, discarded, or being replayed by someone else).
+ */
+export async function claimDeadLetter(id: string): Promise<DeadLetterRow | null> {
+    const supabase = getSupabaseClient();
+
+    const { data } = await supabase
+        .from("dead_letter_messages")
+        .update({ status: "replaying" })
+        .eq("id", id)
+        .eq("status", "pending")
+        .select("*");
+
+    return data && data.length > 0 ? data[0] as DeadLetterRow : null;
+}
+
+/**
+ * Records how a replay ended: replayed, back to pending with the error, or
+ * discarded (e.g. the message turned out to be processed already).
+ */
+export async function finishDeadLetterReplay(
+    row: Pick<DeadLetterRow, "id" | "replay_count">,
+    outcome: { status: "replayed" | "discarded" } | { status: "pending"; error: string },
+): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+        .from("dead_letter_messages")
+        .update({
+            status: outcome.status,
+            replay_count: row.replay_count + 1,
+            replay_error: outcome.status === "pending" ? outcome.error.slice(0, 500) : null,
+            ...(outcome.status === "replayed" ? { replayed_at: new Date().toISOString() } : {}),
+        })
+        .eq("id", row.id);
+
+    if (error) {
+        console.error(`[SUMA] ❌ Failed to update dead letter ${row.id}:`, error);
+    }
+}
+
+/** Marks a dead letter as not worth replaying */
+export async function discardDeadLetter(id: string): Promise<boolean> {
+    const supabase = getSupabaseClient();
+
+    const { data } = await supabase
+        .from("dead_letter_messages")
+        .update({ status: "discarded" })
+        .eq("id", id)
+        .eq("status", "pending")
+        .select("id");
+
+    return !!data && data.length > 0;
+}
@@ -0,0 +1,293 @@
+// ============================================================================
+// Digests — Proactive weekly and month-end spending summaries
+//
+// Every active user gets, unless they opt out by chat:
+//   - A weekly digest of the last 7 days, on their chosen weekday
+//   - A month-end digest of the month that just ended, on the 1st
+// Both from their chosen local hour on, with totals by type, top categories,
+// biggest expenses, the comparison with the period before and the
+// subscription charges coming up.
+//
+// Each digest is a row in digest_sends, unique per (user, kind, period),
+// claimed before sending: cron retries and overlapping runs never send the
+// same digest twice. processDigests is called by api/process-digests.ts.
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type {
+    Currency,
+    DigestKind,
+    DigestRunResult,
+    DigestSendRow,
+    DigestSettings,
+    ParsedDigestSettings,
+    SpendingDigest,
+} from "../types/index.js";
+import { getLargestExpenses, getPeriodSummary } from "./transaction-repository.js";
+import { getUpcomingCharges } from "./subscriptions.js";
+import { MONTH_NAMES } from "./query-engine.js";
+import { sendSpendingDigest } from "./whatsapp.js";
+import { DEFAULT_TIMEZONE, getZonedParts, zonedTimeToUtc } from "../utils/dates.js";
+
+/** Send attempts before a digest is given up */
+const MAX_DIGEST_ATTEMPTS = 3;
+
+/** Biggest expenses listed in a digest */
+const BIGGEST_EXPENSES = 3;
+
+/** How far ahead upcoming charges are listed, per kind */
+const UPCOMING_DAYS: Record<DigestKind, number> = { weekly: 7, monthly: 30 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Summarized period of a digest, as UTC instants of local midnights */
+export interface DigestPeriod {
+    from: Date;            // inclusive
+    to: Date;              // exclusive
+    previousFrom: Date;    // [previousFrom, from) is the period compared against
+    periodStart: string;   // Local "YYYY-MM-DD" of `from` — the idempotency key
+    label: string;
+}
+
+// ---------------------------------------------------------------------------
+// Periods
+// ---------------------------------------------------------------------------
+
+/** "YYYY-MM-DD" of a local calendar day (day and month may overflow) */
+function localDate(year: number, month: number, day: number): string {
+    return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/** "DD/MM" of a local calendar day (day may overflow) */
+function shortDate(year: number, month: number, day: number): string {
+    const [, m, d] = localDate(year, month, day).split("-");
+    return `${d}/${m}`;
+}
+
+/**
+ * The period a digest of this kind covers if it is due at `now`, or null
+ * when it isn't: weekly digests are due on the user's weekday and cover the
+ * 7 days before it; month-end digests are due on the 1st and cover the month
+ * before. Both only from the user's hour on, in their timezone.
+ */
+export function digestPeriod(
+    kind: DigestKind,
+    settings: Pick<DigestSettings, "digest_weekday" | "digest_hour">,
+    now: Date = new Date(),
+    timezone: string = DEFAULT_TIMEZONE,
+): DigestPeriod | null {
+    const { year, month, day, weekday, hour } = getZonedParts(now, timezone);
+    if (hour < settings.digest_hour) return null;
+
+    if (kind === "weekly") {
+        if (weekday !== settings.digest_weekday) return null;
+        return {
+            from: zonedTimeToUtc(year, month, day - 7, 0, 0, timezone),
+            to: zonedTimeToUtc(year, month, day, 0, 0, timezone),
+            previousFrom: zonedTimeToUtc(year, month, day - 14, 0, 0, timezone),
+            periodStart: localDate(year, month, day - 7),
+            label: `semana del ${shortDate(year, month, day - 7)} al ${shortDate(year, month, day - 1)}`,
+        };
+    }
+
+    if (day !== 1) return null;
+    const start = new Date(Date.UTC(year, month - 2, 1));
+    return {
+        from: zonedTimeToUtc(year, month - 1, 1, 0, 0, timezone),
+        to: zonedTimeToUtc(year, month, 1, 0, 0, timezone),
+        previousFrom: zonedTimeToUtc(year, month - 2, 1, 0, 0, timezone),
+        periodStart: localDate(year, month - 1, 1),
+        label: `${MONTH_NAMES[start.getUTCMonth()]} ${start.getUTCFullYear()}`,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Content
+// ---------------------------------------------------------------------------
+
+/** Gathers what a digest shows for the period, in the user's base currency */
+export async function getSpendingDigest(
+    userId: string,
+    kind: DigestKind,
+    period: DigestPeriod,
+    currency: Currency,
+    now: Date = new Date(),
+): Promise<SpendingDigest> {
+    const [totals, previousTotals, biggestExpenses, upcomingCharges] = await Promise.all([
+        getPeriodSummary(userId, period.from, period.to),
+        getPeriodSummary(userId, period.previousFrom, period.from),
+        getLargestExpenses(userId, period.from, period.to, BIGGEST_EXPENSES),
+        getUpcomingCharges(userId, now, new Date(now.getTime() + UPCOMING_DAYS[kind] * DAY_MS)),
+    ]);
+
+    return { kind, label: period.label, currency, totals, previousTotals, biggestExpenses, upcomingCharges };
+}
+
+// ---------------------------------------------------------------------------
+// Sending (called by cron job)
+// ---------------------------------------------------------------------------
+
+/**
+ * Claims the digest of a user, kind and period. A new row is claimed by
+ * inserting it; an existing one only if its last send failed and attempts
+ * are left. Returns null when someone else already sent or is sending it.
+ */
+async function claimDigest(
+    userId: string,
+    kind: DigestKind,
+    periodStart: string,
+): Promise<DigestSendRow | null> {
+    const supabase = getSupabaseClient();
+
+    const { data: inserted } = await supabase
+        .from("digest_sends")
+        .upsert(
+            { user_id: userId, kind, period_start: periodStart },
+            { onConflict: "user_id,kind,period_start", ignoreDuplicates: true },
+        )
+        .select("*");
+
+    if (inserted && inserted.length > 0) return inserted[0] as DigestSendRow;
+
+    const { data: existing } = await supabase
+        .from("digest_sends")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("kind", kind)
+        .eq("period_start", periodStart)
+        .maybeSingle();
+
+    const row = existing as DigestSendRow | null;
+    if (!row || row.status !== "failed" || row.attempts >= MAX_DIGEST_ATTEMPTS) return null;
+
+    const { data: retried } = await supabase
+        .from("digest_sends")
+        .update({ status: "sending", attempts: row.attempts + 1 })
+        .eq("id", row.id)
+        .eq("status", "failed")
+        .eq("attempts", row.attempts)
+        .select("*");
+
+    return retried && retried.length > 0 ? retried[0] as DigestSendRow : null;
+}
+
+/**
+ * Sends the weekly and month-end digests that are due at `now` to every
+ * active user who has them on. Digests with nothing to show (no movements
+ * and no upcoming charges) are marked skipped instead of sent.
+ */
+export async function processDigests(
+    phoneNumberId: string,
+    apiToken: string,
+    now: Date = new Date(),
+): Promise<DigestRunResult> {
+    const supabase = getSupabaseClient();
+    const result: DigestRunResult = { sent: 0, failed: 0, skipped: 0 };
+
+    const { data: users, error } = await supabase
+        .from("users")
+        .select("id, phone, timezone, base_currency, last_inbound_at, digest_weekly, digest_monthly, digest_weekday, digest_hour")
+        .eq("subscription_status", "active")
+        .or("digest_weekly.eq.true,digest_monthly.eq.true");
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to fetch users for digests:", error);
+        throw new Error(`Failed to fetch users for digests: ${error.message}`);
+    }
+
+    for (const user of users ?? []) {
+        const kinds: DigestKind[] = [];
+        if (user.digest_weekly) kinds.push("weekly");
+        if (user.digest_monthly) kinds.push("monthly");
+
+        for (const kind of kinds) {
+            const period = digestPeriod(kind, user as DigestSettings, now, user.timezone ?? DEFAULT_TIMEZONE);
+            if (!period) continue;
+
+            const claimed = await claimDigest(user.id, kind, period.periodStart);
+            if (!claimed) continue;
+
+            try {
+                const digest = await getSpendingDigest(user.id, kind, period, (user.base_currency ?? "ARS") as Currency, now);
+
+                if (digest.totals.length === 0 && digest.upcomingCharges.length === 0) {
+                    await supabase
+                        .from("digest_sends")
+                        .update({ status: "skipped" })
+                        .eq("id", claimed.id);
+                    result.skipped++;
+                    continue;
+                }
+
+                await sendSpendingDigest({
+                    to: user.phone,
+                    phoneNumberId,
+                    apiToken,
+                    lastInboundAt: user.last_inbound_at,
+                    digest,
+                });
+
+                await supabase
+                    .from("digest_sends")
+                    .update({ status: "sent", sent_at: new Date().toISOString(), last_error: null })
+                    .eq("id", claimed.id);
+
+                result.sent++;
+                console.log(`[SUMA] 🗓️ ${kind} digest (${period.periodStart}) sent to ${String(user.id).slice(0, 8)}`);
+            } catch (err) {
+                const errorMsg = err instanceof Error ? err.message : String(err);
+                console.error(`[SUMA] ❌ Failed to send ${kind} digest to ${String(user.id).slice(0, 8)}:`, errorMsg);
+
+                await supabase
+                    .from("digest_sends")
+                    .update({ status: "failed", last_error: errorMsg })
+                    .eq("id", claimed.id);
+
+                result.failed++;
+                // Continue with next user — don't block batch on one failure
+            }
+        }
+    }
+
+    console.log(`[SUMA] 🗓️ Digests: ${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped`);
+    return result;
+}
+
+// ---------------------------------------------------------------------------
+// Settings by chat
+// ---------------------------------------------------------------------------
+
+/**
+ * Saves the digest settings the user asked for; fields left null keep
+ * their value. Out-of-range weekdays and hours are ignored.
+ */
+export async function setDigestSettings(
+    userId: string,
+    settings: ParsedDigestSettings,
+): Promise<DigestSettings> {
+    const supabase = getSupabaseClient();
+    const changes: Partial<DigestSettings> = {};
+
+    if (settings.weekly !== null) changes.digest_weekly = settings.weekly;
+    if (settings.monthly !== null) changes.digest_monthly = settings.monthly;
+
+    const weekday = settings.weekday !== null ? Math.round(settings.weekday) : null;
+    if (weekday !== null && weekday >= 1 && weekday <= 7) changes.digest_weekday = weekday;
+
+    const hour = settings.hour !== null ? Math.round(settings.hour) : null;
+    if (hour !== null && hour >= 0 && hour <= 23) changes.digest_hour = hour;
+
+    const query = Object.keys(changes).length > 0
+        ? supabase.from("users").update(changes).eq("id", userId).select("digest_weekly, digest_monthly, digest_weekday, digest_hour")
+        : supabase.from("users").select("digest_weekly, digest_monthly, digest_weekday, digest_hour").eq("id", userId);
+
+    const { data, error } = await query.single();
+
+    if (error || !data) {
+        console.error("[SUMA] ❌ Failed to save digest settings:", error);
+        throw new Error(`Failed to save digest settings: ${error?.message ?? "user not found"}`);
+    }
+
+    console.log(`[SUMA] 🗓️ Digest settings for ${userId.slice(0, 8)}: ${JSON.stringify(data)}`);
+    return data as DigestSettings;
+}
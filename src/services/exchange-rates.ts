@@ -0,0 +1,241 @@
+// ============================================================================
+// Exchange Rates — ARS/USD quotes and conversion to the user's base currency
+//
+// - syncExchangeRates: job that loads today's quotes from DolarAPI
+// - upsertManualRates: admin input (wins over the job for the same date)
+// - convertToBase: amount + currency → rate, rate type, amount in base
+//
+// Rates are stored as ARS per 1 USD (venta). Each transaction keeps the
+// rate it was converted with, so reports don't move when quotes change.
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type {
+    AccountType,
+    Currency,
+    ExchangeRateRow,
+    RateType,
+} from "../types/index.js";
+
+const DOLAR_API_URL = "https://dolarapi.com/v1/dolares";
+
+/** DolarAPI "casa" → our rate type */
+const DOLAR_API_CASAS: Record<string, RateType> = {
+    oficial: "oficial",
+    bolsa: "mep",
+    blue: "blue",
+    tarjeta: "tarjeta",
+};
+
+/** Fallback order when the preferred quote hasn't been loaded */
+const RATE_FALLBACKS: Record<RateType, RateType[]> = {
+    tarjeta: ["tarjeta", "oficial", "mep", "blue"],
+    mep: ["mep", "blue", "oficial", "tarjeta"],
+    blue: ["blue", "mep", "oficial", "tarjeta"],
+    oficial: ["oficial", "mep", "tarjeta", "blue"],
+};
+
+export const RATE_TYPES: RateType[] = ["oficial", "mep", "blue", "tarjeta"];
+
+// ---------------------------------------------------------------------------
+// Rate lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Picks the quote that applies to a payment: dollar charges on a credit
+ * card settle at the "tarjeta" rate; everything else uses MEP.
+ */
+export function pickRateType(accountType: AccountType | null | undefined): RateType {
+    return accountType === "credit_card" ? "tarjeta" : "mep";
+}
+
+/**
+ * Gets the most recent stored quote for a currency (ARS per unit) on or
+ * before `at`, trying fallbacks if the preferred rate type is missing.
+ * Returns null when no quote has been loaded at all.
+ */
+export async function getLatestRate(
+    currency: Currency,
+    rateType: RateType,
+    at: Date = new Date(),
+): Promise<{ rate: number; rateType: RateType } | null> {
+    const supabase = getSupabaseClient();
+    const day = at.toISOString().split("T")[0];
+
+    for (const candidate of RATE_FALLBACKS[rateType]) {
+        const { data } = await supabase
+            .from("exchange_rates")
+            .select("sell")
+            .eq("currency", currency)
+            .eq("base_currency", "ARS")
+            .eq("rate_type", candidate)
+            .lte("rate_date", day)
+            .order("rate_date", { ascending: false })
+            .order("source", { ascending: false }) // "manual" before "job"
+            .limit(1)
+            .single();
+
+        if (data) return { rate: Number(data.sell), rateType: candidate };
+    }
+
+    return null;
+}
+
+/**
+ * Converts an amount to the user's base currency using the stored quotes.
+ * Returns null when a conversion is needed but no quote is available.
+ */
+export async function convertToBase(
+    amount: number,
+    currency: Currency,
+    baseCurrency: Currency,
+    rateType: RateType,
+    at: Date = new Date(),
+): Promise<{ exchangeRate: number; rateType: RateType | null; amountBase: number } | null> {
+    if (currency === baseCurrency) {
+        return { exchangeRate: 1, rateType: null, amountBase: amount };
+    }
+
+    // Quotes are stored against ARS: USD→ARS uses the rate, ARS→USD its inverse
+    const foreign = currency === "ARS" ? baseCurrency : currency;
+    const quote = await getLatestRate(foreign, rateType, at);
+    if (!quote) return null;
+
+    const exchangeRate = currency === "ARS" ? 1 / quote.rate : quote.rate;
+
+    return {
+        exchangeRate: Math.round(exchangeRate * 1e6) / 1e6,
+        rateType: quote.rateType,
+        amountBase: Math.round(amount * exchangeRate * 100) / 100,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Loading quotes (job + manual admin input)
+// ---------------------------------------------------------------------------
+
+async function upsertRates(rows: ExchangeRateRow[]): Promise<number> {
+    if (rows.length === 0) return 0;
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("exchange_rates")
+        .upsert(rows, { onConflict: "currency,base_currency,rate_type,rate_date,source" })
+        .select("id");
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to store exchange rates:", error);
+        throw new Error(`Failed to store exchange rates: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+}
+
+/**
+ * Loads today's USD quotes from DolarAPI (oficial, MEP, blue, tarjeta).
+ * Safe to run several times a day: the row for each date is overwritten.
+ * Returns the number of quotes stored.
+ */
+export async function syncExchangeRates(now: Date = new Date()): Promise<number> {
+    const res = await fetch(DOLAR_API_URL);
+
+    if (!res.ok) {
+        const errBody = await res.text();
+        throw new Error(`DolarAPI request failed (${res.status}): ${errBody}`);
+    }
+
+    const quotes = (await res.json()) as Array<{ casa: string; compra: number | null; venta: number | null }>;
+    const rateDate = now.toISOString().split("T")[0];
+
+    const rows: ExchangeRateRow[] = quotes
+        .filter((q) => DOLAR_API_CASAS[q.casa] && q.venta)
+        .map((q) => ({
+            currency: "USD",
+            base_currency: "ARS",
+            rate_type: DOLAR_API_CASAS[q.casa],
+            buy: q.compra,
+            sell: q.venta!,
+            rate_date: rateDate,
+            source: "job",
+        }));
+
+    const stored = await upsertRates(rows);
+    console.log(`[SUMA] 💱 Exchange rates synced: ${stored} quotes for ${rateDate}`);
+    return stored;
+}
+
+export interface ManualRateInput {
+    currency?: string;
+    rate_type: RateType;
+    sell: number;
+    buy?: number | null;
+    rate_date?: string;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Checks one manual quote from an admin request. Returns why it's invalid,
+ * or null if it can be stored.
+ */
+export function validateManualRate(rate: unknown): string | null {
+    if (!rate || typeof rate !== "object") return "each rate must be an object";
+
+    const r = rate as Record<string, unknown>;
+    if (r.currency !== undefined && r.currency !== "USD") {
+        return `currency must be USD (quotes are ARS per 1 USD), got ${JSON.stringify(r.currency)}`;
+    }
+    if (!RATE_TYPES.includes(r.rate_type as RateType)) {
+        return `rate_type must be one of ${RATE_TYPES.join(", ")}, got ${JSON.stringify(r.rate_type)}`;
+    }
+    if (!isPositiveNumber(r.sell)) {
+        return `sell must be a number greater than 0, got ${JSON.stringify(r.sell)}`;
+    }
+    if (r.buy !== undefined && r.buy !== null && !isPositiveNumber(r.buy)) {
+        return `buy must be a number greater than 0, got ${JSON.stringify(r.buy)}`;
+    }
+    if (r.rate_date !== undefined) {
+        // Round trip: rejects days a month doesn't have ("2026-02-30")
+        const day = typeof r.rate_date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(r.rate_date)
+            ? new Date(`${r.rate_date}T00:00:00Z`)
+            : null;
+        const valid = day !== null && !Number.isNaN(day.getTime()) && day.toISOString().startsWith(r.rate_date as string);
+        if (!valid) return `rate_date must be a YYYY-MM-DD date, got ${JSON.stringify(r.rate_date)}`;
+    }
+    return null;
+}
+
+/**
+ * Stores quotes entered manually by an admin. Manual rows live alongside
+ * the job's rows for the same date and take precedence on lookup.
+ * Throws on a quote that doesn't pass validateManualRate.
+ */
+export async function upsertManualRates(
+    rates: ManualRateInput[],
+    now: Date = new Date(),
+): Promise<number> {
+    const today = now.toISOString().split("T")[0];
+
+    const rows: ExchangeRateRow[] = rates.map((r) => {
+        const invalid = validateManualRate(r);
+        if (invalid) {
+            throw new Error(`Invalid rate: ${invalid}`);
+        }
+        return {
+            currency: "USD",
+            base_currency: "ARS",
+            rate_type: r.rate_type,
+            buy: r.buy ?? null,
+            sell: r.sell,
+            rate_date: r.rate_date ?? today,
+            source: "manual",
+        };
+    });
+
+    const stored = await upsertRates(rows);
+    console.log(`[SUMA] 💱 Manual exchange rates stored: ${stored}`);
+    return stored;
+}
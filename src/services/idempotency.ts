@@ -3,41 +3,198 @@
 //
 // Uses the processed_messages table to track WhatsApp message IDs (wamid).
 // If Meta retries a webhook and QStash dedup misses it, this is the final gate.
+//
+// A claim is a lease: the worker that claims a message owns it until
+// lease_expires_at. Only completed messages are skipped as duplicates — a
+// message whose processing failed, or whose worker died holding the lease,
+// is claimed again by the next QStash retry (up to MAX_MESSAGE_ATTEMPTS).
+// Messages that give up go to the dead-letter store (dead-letters.ts), whose
+// replays claim them with claimMessageForReplay.
 // ============================================================================
 
 import { getSupabaseClient } from "../lib/supabase.js";
+import type { MessageClaim } from "../types/index.js";
+
+/** Longer than process-message's maxDuration (60s), so a live worker never loses it */
+const LEASE_MS = 90 * 1000;
+
+/** Processing attempts before a message is given up: the first delivery plus QStash's 3 retries */
+export const MAX_MESSAGE_ATTEMPTS = 4;
+
+function leaseExpiry(now: Date): string {
+    return new Date(now.getTime() + LEASE_MS).toISOString();
+}
 
 /**
  * Attempts to claim a message ID for processing.
- * Uses INSERT with ON CONFLICT DO NOTHING — if the row already exists,
- * the insert silently succeeds with 0 rows affected.
  *
- * @returns true if this is the first time we see this message (safe to process)
- * @returns false if the message was already claimed (skip)
+ * The first claim inserts the row. When it already exists, the message is
+ * claimed again only if its last attempt failed or its lease expired, with
+ * a conditional update on the attempt count so two retries racing for it
+ * can't both win.
+ *
+ * @returns "claimed" if this worker should process the message
+ * @returns "duplicate" if it was already completed (skip)
+ * @returns "in_progress" if another worker holds a live lease (retry later)
+ * @returns "exhausted" if it failed MAX_MESSAGE_ATTEMPTS times (give up)
  */
 export async function claimMessageId(
     wamid: string,
-    userPhone: string
-): Promise<boolean> {
+    userPhone: string,
+    messageAt: Date,
+    now: Date = new Date(),
+): Promise<MessageClaim> {
     const supabase = getSupabaseClient();
 
-    const { data, error } = await supabase
+    const { error } = await supabase
         .from("processed_messages")
-        .insert({ wamid, user_phone: userPhone })
-        .select("wamid")
+        .insert({
+            wamid,
+            user_phone: userPhone,
+            message_at: messageAt.toISOString(),
+            status: "processing",
+            attempts: 1,
+            lease_expires_at: leaseExpiry(now),
+        });
+
+    if (!error) return "claimed";
+
+    // 23505 = unique_violation → message already exists
+    if (error.code !== "23505") {
+        // Unexpected error — let it bubble up so QStash retries
+        throw new Error(`Idempotency check failed: ${error.message}`);
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+        .from("processed_messages")
+        .select("status, attempts, lease_expires_at")
+        .eq("wamid", wamid)
         .single();
 
+    if (fetchError || !existing) {
+        throw new Error(`Idempotency check failed: ${fetchError?.message ?? "claim not found"}`);
+    }
+
+    if (existing.status === "completed") {
+        console.log(`[SUMA] ⏭️ Duplicate message skipped: ${wamid}`);
+        return "duplicate";
+    }
+
+    const leaseExpired = !existing.lease_expires_at || new Date(existing.lease_expires_at) <= now;
+    if (existing.status === "processing" && !leaseExpired) {
+        console.log(`[SUMA] ⏳ Message ${wamid} is being processed by another worker`);
+        return "in_progress";
+    }
+
+    if (existing.attempts >= MAX_MESSAGE_ATTEMPTS) {
+        console.warn(`[SUMA] ⚠️ Message ${wamid} gave up after ${existing.attempts} attempts`);
+        return "exhausted";
+    }
+
+    const { data: reclaimed, error: reclaimError } = await supabase
+        .from("processed_messages")
+        .update({
+            status: "processing",
+            attempts: existing.attempts + 1,
+            lease_expires_at: leaseExpiry(now),
+            updated_at: now.toISOString(),
+        })
+        .eq("wamid", wamid)
+        .eq("attempts", existing.attempts)
+        .neq("status", "completed")
+        .select("wamid");
+
+    if (reclaimError) {
+        throw new Error(`Idempotency check failed: ${reclaimError.message}`);
+    }
+
+    if (!reclaimed || reclaimed.length === 0) {
+        console.log(`[SUMA] ⏳ Message ${wamid} was re-claimed by another worker`);
+        return "in_progress";
+    }
+
+    console.log(`[SUMA] 🔁 Message ${wamid} re-claimed (attempt ${existing.attempts + 1}/${MAX_MESSAGE_ATTEMPTS})`);
+    return "claimed";
+}
+
+/**
+ * Gives a claimed message back without it counting as an attempt, for when
+ * it has to wait its turn (message-ordering.ts). The lease ends now, so the
+ * re-enqueued delivery can claim it right away.
+ */
+export async function releaseMessageClaim(wamid: string): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { data: existing } = await supabase
+        .from("processed_messages")
+        .select("attempts")
+        .eq("wamid", wamid)
+        .eq("status", "processing")
+        .maybeSingle();
+
+    if (!existing) return;
+
+    const { error } = await supabase
+        .from("processed_messages")
+        .update({
+            attempts: Math.max(existing.attempts - 1, 0),
+            lease_expires_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq("wamid", wamid)
+        .eq("status", "processing")
+        .eq("attempts", existing.attempts);
+
     if (error) {
-        // 23505 = unique_violation → message already exists
-        if (error.code === "23505") {
-            console.log(`[SUMA] ⏭️ Duplicate message skipped: ${wamid}`);
-            return false;
-        }
-        // Unexpected error — let it bubble up so QStash retries
+        console.error(`[SUMA] Failed to release claim of message: ${wamid}`, error);
+    }
+}
+
+/**
+ * Claims a dead-lettered message for an admin replay, past the attempt
+ * limit. Completed messages ("duplicate") and live leases ("in_progress")
+ * are still refused, so a replay never runs next to — or after — a
+ * successful QStash delivery.
+ */
+export async function claimMessageForReplay(
+    wamid: string,
+    userPhone: string,
+    now: Date = new Date(),
+): Promise<Exclude<MessageClaim, "exhausted">> {
+    const supabase = getSupabaseClient();
+    const lease = { status: "processing", lease_expires_at: leaseExpiry(now), updated_at: now.toISOString() };
+
+    // The row may be gone (processed_messages is cleaned up after 7 days)
+    const { error } = await supabase
+        .from("processed_messages")
+        .insert({ wamid, user_phone: userPhone, attempts: 1, ...lease });
+
+    if (!error) return "claimed";
+    if (error.code !== "23505") {
         throw new Error(`Idempotency check failed: ${error.message}`);
     }
 
-    return !!data;
+    const { data, error: claimError } = await supabase
+        .from("processed_messages")
+        .update(lease)
+        .eq("wamid", wamid)
+        .neq("status", "completed")
+        .or(`status.eq.failed,lease_expires_at.is.null,lease_expires_at.lt.${now.toISOString()}`)
+        .select("wamid");
+
+    if (claimError) {
+        throw new Error(`Idempotency check failed: ${claimError.message}`);
+    }
+
+    if (data && data.length > 0) return "claimed";
+
+    const { data: existing } = await supabase
+        .from("processed_messages")
+        .select("status")
+        .eq("wamid", wamid)
+        .maybeSingle();
+
+    return existing?.status === "completed" ? "duplicate" : "in_progress";
 }
 
 /**
@@ -48,7 +205,13 @@ export async function markMessageProcessed(wamid: string): Promise<void> {
 
     const { error } = await supabase
         .from("processed_messages")
-        .update({ processed: true })
+        .update({
+            processed: true,
+            status: "completed",
+            lease_expires_at: null,
+            error: null,
+            updated_at: new Date().toISOString(),
+        })
         .eq("wamid", wamid);
 
     if (error) {
@@ -58,20 +221,32 @@ export async function markMessageProcessed(wamid: string): Promise<void> {
 }
 
 /**
- * Records an error against a message (for debugging failed processing).
+ * Records an error against a message and releases its lease, so the next
+ * QStash retry can claim it again. Returns the attempts made so far (0 if
+ * unknown).
  */
 export async function markMessageError(
     wamid: string,
     errorMessage: string
-): Promise<void> {
+): Promise<number> {
     const supabase = getSupabaseClient();
 
-    const { error } = await supabase
+    const { data, error } = await supabase
         .from("processed_messages")
-        .update({ error: errorMessage.slice(0, 500) })
-        .eq("wamid", wamid);
+        .update({
+            status: "failed",
+            error: errorMessage.slice(0, 500),
+            lease_expires_at: null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq("wamid", wamid)
+        .neq("status", "completed")
+        .select("attempts");
 
     if (error) {
         console.error(`[SUMA] Failed to record error for message: ${wamid}`, error);
+        return 0;
     }
+
+    return (data?.[0]?.attempts as number | undefined) ?? 0;
 }
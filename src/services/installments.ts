@@ -0,0 +1,117 @@
+// ============================================================================
+// Installments — Purchases paid "en cuotas"
+//
+// A purchase in N installments is saved as N expense rows sharing an
+// installment_group_id, one per month starting on the purchase date
+// (occurred_at), numbered with installment_current / installment_total.
+// Future rows are what the user still owes ("¿cuántas cuotas me quedan?").
+// ============================================================================
+
+import type {
+    InstallmentPlanItem,
+    InstallmentsOutlook,
+    RemainingInstallments,
+} from "../types/index.js";
+import { getFutureInstallments } from "./transaction-repository.js";
+import { DEFAULT_TIMEZONE, getZonedParts, zonedTimeToUtc } from "../utils/dates.js";
+
+// ---------------------------------------------------------------------------
+// Plan calculation
+// ---------------------------------------------------------------------------
+
+/**
+ * Adds calendar months to a date in the user's timezone, clamping the day
+ * to the end of the target month (Jan 31 + 1 month → Feb 28/29) and keeping
+ * the local time of day.
+ */
+function addMonthsClamped(date: Date, months: number, timezone: string): Date {
+    if (months === 0) return new Date(date.getTime());
+
+    const local = getZonedParts(date, timezone);
+    const monthIndex = local.month - 1 + months;
+    const year = local.year + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+    const target = zonedTimeToUtc(year, month, Math.min(local.day, lastDay), local.hour, local.minute, timezone);
+    // Zoned parts stop at minutes: carry over the seconds
+    return new Date(target.getTime() + (date.getTime() % 60000));
+}
+
+/**
+ * Splits a total into monthly installments starting at `start`, one per
+ * calendar month in the user's timezone.
+ * Amounts are rounded to cents; the last installment absorbs the remainder
+ * so the plan always adds up to the exact total.
+ */
+export function buildInstallmentPlan(
+    totalAmount: number,
+    installments: number,
+    start: Date = new Date(),
+    timezone: string = DEFAULT_TIMEZONE,
+): InstallmentPlanItem[] {
+    const each = Math.round((totalAmount / installments) * 100) / 100;
+    const plan: InstallmentPlanItem[] = [];
+
+    for (let i = 0; i < installments; i++) {
+        const isLast = i === installments - 1;
+        plan.push({
+            number: i + 1,
+            total: installments,
+            amount: isLast
+                ? Math.round((totalAmount - each * (installments - 1)) * 100) / 100
+                : each,
+            date: addMonthsClamped(start, i, timezone),
+        });
+    }
+
+    return plan;
+}
+
+// ---------------------------------------------------------------------------
+// Remaining installments
+// ---------------------------------------------------------------------------
+
+/**
+ * Groups the user's future installment rows by purchase (soonest first)
+ * and by month, with the total still committed (in the base currency).
+ */
+export async function getInstallmentsOutlook(
+    userId: string,
+    now: Date = new Date(),
+): Promise<InstallmentsOutlook> {
+    const rows = await getFutureInstallments(userId, now);
+    const groups = new Map<string, RemainingInstallments>();
+    const months = new Map<string, number>();
+    let totalCommitted = 0;
+
+    for (const row of rows) {
+        const groupId = row.installment_group_id!;
+        const amount = Number(row.amount_base ?? row.amount);
+        const entry = groups.get(groupId) ?? {
+            groupId,
+            description: row.description,
+            installmentTotal: row.installment_total ?? 0,
+            remaining: 0,
+            remainingAmount: 0,
+            nextDate: row.occurred_at!,
+        };
+
+        entry.remaining += 1;
+        entry.remainingAmount += amount;
+        if (row.occurred_at! < entry.nextDate) entry.nextDate = row.occurred_at!;
+        groups.set(groupId, entry);
+
+        const month = row.occurred_at!.slice(0, 7);
+        months.set(month, (months.get(month) ?? 0) + amount);
+        totalCommitted += amount;
+    }
+
+    return {
+        purchases: [...groups.values()].sort((a, b) => a.nextDate.localeCompare(b.nextDate)),
+        monthly: [...months.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([month, total]) => ({ month, total })),
+        totalCommitted,
+    };
+}
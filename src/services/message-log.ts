@@ -0,0 +1,150 @@
+// ============================================================================
+// Message Log — What we sent and what happened to it
+//
+// Every message the bot sends (whatsapp.ts and sales-flow.ts) is logged in
+// outbound_messages: recipient, payload, the records it is about and the
+// wamid the API returns — or the error when the API rejected it. WhatsApp
+// then reports its delivery by webhook (sent → delivered → read, or
+// failed), which api/process-status.ts applies here with
+// recordDeliveryStatus.
+//
+// Events can arrive out of order (a "read" before its "delivered"): each
+// one fills its own timestamp, and the status only moves forward.
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type {
+    DeliveryStatus,
+    OutboundKind,
+    OutboundMessageRow,
+    OutboundRefs,
+    WhatsAppStatus,
+} from "../types/index.js";
+
+/** Order of the statuses; failed and rejected are final */
+const STATUS_RANK: Record<OutboundMessageRow["status"], number> = {
+    accepted: 0,
+    sent: 1,
+    delivered: 2,
+    read: 3,
+    failed: 4,
+    rejected: 4,
+};
+
+const TIMESTAMP_COLUMN: Record<DeliveryStatus, keyof OutboundMessageRow> = {
+    sent: "sent_at",
+    delivered: "delivered_at",
+    read: "read_at",
+    failed: "failed_at",
+};
+
+/**
+ * Logs a message sent to the API: accepted with its wamid, or rejected with
+ * the error. Never throws: the log being down must not change the outcome
+ * of the send.
+ */
+export async function recordOutboundMessage(params: {
+    wamid: string | null;
+    recipient: string;
+    kind: OutboundKind;
+    body: Record<string, unknown>;
+    refs?: OutboundRefs;
+    error?: string;
+}): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+        .from("outbound_messages")
+        .insert({
+            wamid: params.wamid,
+            recipient: params.recipient,
+            kind: params.kind,
+            message_type: typeof params.body.type === "string" ? params.body.type : null,
+            payload: params.body,
+            transaction_id: params.refs?.transaction_id ?? null,
+            subscription_id: params.refs?.subscription_id ?? null,
+            confirmation_id: params.refs?.confirmation_id ?? null,
+            status: params.error ? "rejected" : "accepted",
+            error: params.error ?? null,
+        });
+
+    if (error) {
+        console.error(`[SUMA] ⚠️ Failed to log outbound message to ${params.recipient}:`, error);
+    }
+}
+
+/**
+ * Stores a status event and moves the message's status forward. Statuses
+ * for messages that weren't logged get a row of kind "unknown".
+ *
+ * Returns the message as it stands after the event, or null when the event
+ * was already recorded (a retry of the same webhook).
+ */
+export async function recordDeliveryStatus(status: WhatsAppStatus): Promise<OutboundMessageRow | null> {
+    const supabase = getSupabaseClient();
+    const occurredAt = new Date(Number(status.timestamp) * 1000);
+    const at = Number.isNaN(occurredAt.getTime()) ? new Date().toISOString() : occurredAt.toISOString();
+    const error = status.errors?.[0];
+
+    const { data: event, error: eventError } = await supabase
+        .from("message_status_events")
+        .upsert(
+            {
+                wamid: status.id,
+                status: status.status,
+                error_code: error?.code ?? null,
+                error_title: error?.title ?? null,
+                occurred_at: at,
+            },
+            { onConflict: "wamid,status", ignoreDuplicates: true },
+        )
+        .select("id");
+
+    if (eventError) {
+        console.error(`[SUMA] ❌ Failed to store status event for ${status.id}:`, eventError);
+        throw new Error(`Failed to store status event: ${eventError.message}`);
+    }
+
+    if (!event || event.length === 0) {
+        console.log(`[SUMA] ♻️ Status ${status.status} for ${status.id} already recorded`);
+        return null;
+    }
+
+    await supabase
+        .from("outbound_messages")
+        .upsert(
+            { wamid: status.id, recipient: status.recipient_id, kind: "unknown" },
+            { onConflict: "wamid", ignoreDuplicates: true },
+        );
+
+    // The timestamp of this status, whatever the current one is
+    await supabase
+        .from("outbound_messages")
+        .update({ [TIMESTAMP_COLUMN[status.status]]: at })
+        .eq("wamid", status.id);
+
+    // The status itself only moves forward
+    const lower = (Object.keys(STATUS_RANK) as OutboundMessageRow["status"][])
+        .filter((s) => STATUS_RANK[s] < STATUS_RANK[status.status]);
+
+    await supabase
+        .from("outbound_messages")
+        .update({
+            status: status.status,
+            ...(error ? { error_code: error.code, error_title: error.title } : {}),
+        })
+        .eq("wamid", status.id)
+        .in("status", lower);
+
+    const { data: message } = await supabase
+        .from("outbound_messages")
+        .select("*")
+        .eq("wamid", status.id)
+        .single();
+
+    if (status.status === "failed") {
+        console.warn(`[SUMA] ⚠️ Message ${status.id} (${message?.kind ?? "?"}) failed: ${error?.code ?? "?"} ${error?.title ?? ""}`);
+    }
+
+    return (message as OutboundMessageRow | null) ?? null;
+}
@@ -0,0 +1,115 @@
+// ============================================================================
+// Message Ordering — One message per user at a time, oldest first
+//
+// Every message is queued in QStash on its own, so two quick messages from
+// the same user ("gasté 5000", "no, 6000") could run at the same time or
+// the wrong way round, racing on pending_confirmations. Before processing,
+// api/process-message.ts waits for its turn:
+//
+//   - No earlier message (by WhatsApp timestamp) of the user may be
+//     unfinished in processed_messages
+//   - It must take the user's lock in user_message_locks, which expires on
+//     its own if the worker dies holding it
+//
+// A message that isn't up yet is re-enqueued with a growing delay, up to
+// MAX_DEFERRALS times; after that it goes ahead anyway, so a stuck message
+// delays the ones after it but never loses them.
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { MAX_MESSAGE_ATTEMPTS } from "./idempotency.js";
+
+/** Same as the claim lease: longer than process-message's maxDuration */
+const LOCK_MS = 90 * 1000;
+
+/** Earlier messages older than this don't hold later ones back */
+const ORDER_WINDOW_MS = 10 * 60 * 1000;
+
+/** Re-enqueues before a message stops waiting */
+export const MAX_DEFERRALS = 5;
+
+/** Delay of the nth re-enqueue: 2s → 4s → 8s → 16s → 32s */
+export function deferralDelaySeconds(deferrals: number): number {
+    return 2 * Math.pow(2, deferrals);
+}
+
+/**
+ * Whether the user has an earlier message that isn't finished: being
+ * processed, or failed with retries left.
+ */
+export async function hasEarlierPendingMessage(
+    userPhone: string,
+    wamid: string,
+    messageAt: Date,
+): Promise<boolean> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("processed_messages")
+        .select("wamid")
+        .eq("user_phone", userPhone)
+        .neq("wamid", wamid)
+        .lt("message_at", messageAt.toISOString())
+        .gte("message_at", new Date(messageAt.getTime() - ORDER_WINDOW_MS).toISOString())
+        .or(`status.eq.processing,and(status.eq.failed,attempts.lt.${MAX_MESSAGE_ATTEMPTS})`)
+        .limit(1);
+
+    if (error) {
+        throw new Error(`Message ordering check failed: ${error.message}`);
+    }
+
+    return !!data && data.length > 0;
+}
+
+/**
+ * Takes the user's lock for a message. Returns false while another message
+ * holds it and its lock hasn't expired.
+ */
+export async function acquireUserLock(
+    userPhone: string,
+    wamid: string,
+    now: Date = new Date(),
+): Promise<boolean> {
+    const supabase = getSupabaseClient();
+    const lockedUntil = new Date(now.getTime() + LOCK_MS).toISOString();
+
+    const { error } = await supabase
+        .from("user_message_locks")
+        .insert({ user_phone: userPhone, holder: wamid, locked_until: lockedUntil });
+
+    if (!error) return true;
+
+    // 23505 = unique_violation → someone holds (or held) the lock
+    if (error.code !== "23505") {
+        throw new Error(`User lock failed: ${error.message}`);
+    }
+
+    const { data, error: takeError } = await supabase
+        .from("user_message_locks")
+        .update({ holder: wamid, locked_until: lockedUntil })
+        .eq("user_phone", userPhone)
+        .lt("locked_until", now.toISOString())
+        .select("user_phone");
+
+    if (takeError) {
+        throw new Error(`User lock failed: ${takeError.message}`);
+    }
+
+    return !!data && data.length > 0;
+}
+
+/** Releases the user's lock, if this message still holds it */
+export async function releaseUserLock(userPhone: string, wamid: string): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+        .from("user_message_locks")
+        .delete()
+        .eq("user_phone", userPhone)
+        .eq("holder", wamid);
+
+    if (error) {
+        // Non-critical: the lock expires on its own
+        console.error(`[SUMA] Failed to release lock of ${userPhone}:`, error);
+    }
+}
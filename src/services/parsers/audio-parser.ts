@@ -13,7 +13,7 @@
 
 import type { ParsedIntent } from "../../types/index.js";
 import { GoogleGenAI } from "@google/genai";
-import { downloadWhatsAppMedia } from "../whatsapp-media.js";
+import { downloadWhatsAppMedia } from "../whatsapp-client.js";
 import { parseText } from "./text-parser.js";
 import type { ParseOptions } from "./shared.js";
 
@@ -12,7 +12,7 @@
 
 import type { ParsedIntent } from "../../types/index.js";
 import { GoogleGenAI } from "@google/genai";
-import { downloadWhatsAppMedia } from "../whatsapp-media.js";
+import { downloadWhatsAppMedia } from "../whatsapp-client.js";
 import { parseText } from "./text-parser.js";
 import type { ParseOptions } from "./shared.js";
 
@@ -27,7 +27,7 @@ const IMAGE_EXTRACTION_PROMPT = `Analizá esta imagen. Si es un ticket, recibo,
 - Extraé el comercio o descripción
 - Extraé la fecha si es visible
 - Extraé el medio de pago si es visible
-Respondé en formato natural, por ejemplo: "Gastó 5000 en Carrefour con tarjeta de débito"
+Respondé en formato natural, por ejemplo: "Gastó 5000 en Carrefour con tarjeta de débito el 12/03/2026"
 
 Si NO es un ticket/recibo, describí brevemente qué se ve en la imagen.
 Solo texto, sin formato ni markdown.`;
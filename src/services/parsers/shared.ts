@@ -7,8 +7,10 @@
 import type {
     ParsedIntent,
     ParsedSubscription,
+    ParsedTransactionData,
     ChatMessage,
 } from "../../types/index.js";
+import { termEndDate } from "../../utils/recurrence.js";
 
 // ---------------------------------------------------------------------------
 // Parse options — context injected into the prompt
@@ -25,42 +27,110 @@ export interface ParseOptions {
 // Gemini Structured Output Schema
 // ---------------------------------------------------------------------------
 
-export const TRANSACTION_RESPONSE_SCHEMA = {
+/** One income / expense / transfer / savings. A message may contain several. */
+const TRANSACTION_ITEM_SCHEMA = {
     type: "OBJECT",
     properties: {
-        intent: {
+        type: {
             type: "STRING",
-            enum: ["record_transaction", "subscription", "query", "system_command", "unknown"],
-            description: "Classified intent of the user message",
+            enum: ["income", "expense", "transfer", "savings"],
+            description: "Type of financial transaction",
         },
-        transaction_data: {
-            type: "OBJECT",
-            description: "Only populated when intent is record_transaction",
+        amount: {
+            type: "NUMBER",
+            description: "Transaction amount as a positive number",
+        },
+        currency: {
+            type: "STRING",
+            enum: ["ARS", "USD"],
+            description: "Currency of the amount. USD if the user says dólares/USD/u$s/verdes, ARS otherwise",
+        },
+        description: {
+            type: "STRING",
+            description: "Brief description of the transaction",
+        },
+        category: {
+            type: "STRING",
+            description: "Inferred category (comida, transporte, supermercado, entretenimiento, salud, educacion, servicios, ropa, sueldo, freelance, regalo, alquiler_cobrado, venta, dividendos, reembolso, ahorro, otros, otros_ingresos)",
+        },
+        account: {
+            type: "STRING",
+            description: "Payment method or account (Efectivo, MercadoPago, Banco, Tarjeta). For transfers, the source account",
+        },
+        destination_account: {
+            type: "STRING",
+            description: "Only for transfers: the account that receives the money. null otherwise",
+            nullable: true,
+        },
+        savings_goal: {
+            type: "STRING",
+            description: "Only for savings: the goal the money is set aside for ('aparté 20.000 para vacaciones' → 'vacaciones'). null otherwise",
             nullable: true,
+        },
+        installments: {
+            type: "NUMBER",
+            description: "Number of installments if paid in cuotas ('en 12 cuotas' → 12). 0 if not mentioned",
+            nullable: true,
+        },
+        installment_amount: {
+            type: "NUMBER",
+            description: "Amount of each installment if the user says it ('6 cuotas de 5000' → 5000). 0 if not mentioned",
+            nullable: true,
+        },
+        date: {
+            type: "OBJECT",
+            description: "Day the transaction happened, as the user (or the receipt) says it. kind 'today' if not mentioned",
             properties: {
-                type: {
+                kind: {
                     type: "STRING",
-                    enum: ["income", "expense", "transfer"],
-                    description: "Type of financial transaction",
+                    enum: ["today", "yesterday", "days_ago", "weekday", "date"],
+                    description: "today (default), yesterday ('ayer'), days_ago ('hace 3 días', 'anteayer' = 2), weekday ('el viernes'), date (explicit day/month)",
                 },
-                amount: {
+                days_ago: {
                     type: "NUMBER",
-                    description: "Transaction amount as a positive number",
+                    description: "Only for kind days_ago",
+                    nullable: true,
                 },
-                description: {
-                    type: "STRING",
-                    description: "Brief description of the transaction",
+                weekday: {
+                    type: "NUMBER",
+                    description: "Only for kind weekday: 1=lunes, 2=martes, 3=miércoles, 4=jueves, 5=viernes, 6=sábado, 7=domingo",
+                    nullable: true,
                 },
-                category: {
-                    type: "STRING",
-                    description: "Inferred category (comida, transporte, supermercado, entretenimiento, salud, educacion, servicios, ropa, sueldo, freelance, regalo, alquiler_cobrado, venta, dividendos, reembolso, otros, otros_ingresos)",
+                day: {
+                    type: "NUMBER",
+                    description: "Only for kind date: day of month",
+                    nullable: true,
                 },
-                account: {
-                    type: "STRING",
-                    description: "Payment method or account (Efectivo, MercadoPago, Banco, Tarjeta)",
+                month: {
+                    type: "NUMBER",
+                    description: "Only for kind date: month 1-12",
+                    nullable: true,
+                },
+                year: {
+                    type: "NUMBER",
+                    description: "Only for kind date, and only if the year is explicit",
+                    nullable: true,
                 },
             },
-            required: ["type", "amount", "description", "category", "account"],
+            required: ["kind", "days_ago", "weekday", "day", "month", "year"],
+        },
+    },
+    required: ["type", "amount", "currency", "description", "category", "account", "destination_account", "savings_goal", "installments", "installment_amount", "date"],
+};
+
+export const TRANSACTION_RESPONSE_SCHEMA = {
+    type: "OBJECT",
+    properties: {
+        intent: {
+            type: "STRING",
+            enum: ["record_transaction", "subscription", "query", "balance_adjustment", "budget", "savings_goal", "reminders", "digest", "system_command", "unknown"],
+            description: "Classified intent of the user message",
+        },
+        transactions: {
+            type: "ARRAY",
+            description: "Only populated when intent is record_transaction: one item per transaction mentioned in the message (max 10)",
+            nullable: true,
+            items: TRANSACTION_ITEM_SCHEMA,
         },
         subscription_data: {
             type: "OBJECT",
@@ -98,15 +168,170 @@ export const TRANSACTION_RESPONSE_SCHEMA = {
                     description: "Duration in months if specified (e.g. '6 meses' → 6, '1 año' → 12). 0 if not mentioned.",
                     nullable: true,
                 },
+                trial_days: {
+                    type: "NUMBER",
+                    description: "Free-trial length in days if the user is on a trial ('30 días gratis' → 30, 'una semana de prueba' → 7, 'un mes gratis' → 30). 0 if not a trial.",
+                    nullable: true,
+                },
+            },
+            required: ["service_name", "amount", "currency", "frequency", "account", "start_date", "duration_months", "trial_days"],
+        },
+        query_data: {
+            type: "OBJECT",
+            description: "Only populated when intent is query",
+            nullable: true,
+            properties: {
+                topic: {
+                    type: "STRING",
+                    enum: ["summary", "installments", "budget", "savings", "subscriptions"],
+                    description: "What the user is asking about: spending summary, remaining installments (cuotas), how their budgets are going, savings goals progress, or their list of subscriptions",
+                },
+                period: {
+                    type: "STRING",
+                    enum: ["today", "yesterday", "this_week", "last_week", "this_month", "last_month", "specific_month", "this_year"],
+                    description: "Period the question refers to (default this_month)",
+                },
+                month: {
+                    type: "NUMBER",
+                    description: "Month number 1-12, only when period is specific_month",
+                    nullable: true,
+                },
+                year: {
+                    type: "NUMBER",
+                    description: "Year, only when period is specific_month and the user says it",
+                    nullable: true,
+                },
+                category: {
+                    type: "STRING",
+                    description: "Category to filter by, if the user asks about one (same list as transactions)",
+                    nullable: true,
+                },
+                type: {
+                    type: "STRING",
+                    enum: ["income", "expense", "transfer", "savings"],
+                    description: "Transaction type to filter by, if the user asks only about income or expenses",
+                    nullable: true,
+                },
+            },
+            required: ["topic", "period", "month", "year", "category", "type"],
+        },
+        balance_data: {
+            type: "OBJECT",
+            description: "Only populated when intent is balance_adjustment",
+            nullable: true,
+            properties: {
+                account: {
+                    type: "STRING",
+                    description: "Account whose real balance the user states (Efectivo, MercadoPago, Banco, Tarjeta)",
+                },
+                amount: {
+                    type: "NUMBER",
+                    description: "The real balance the user says the account has (can be 0)",
+                },
+                currency: {
+                    type: "STRING",
+                    enum: ["ARS", "USD"],
+                    description: "Currency of the balance, only if the user says it (dólares/USD → USD, pesos → ARS)",
+                    nullable: true,
+                },
             },
-            required: ["service_name", "amount", "currency", "frequency", "account", "start_date", "duration_months"],
+            required: ["account", "amount", "currency"],
+        },
+        budget_data: {
+            type: "OBJECT",
+            description: "Only populated when intent is budget",
+            nullable: true,
+            properties: {
+                category: {
+                    type: "STRING",
+                    description: "Category the monthly budget is for (same list as transactions)",
+                },
+                amount: {
+                    type: "NUMBER",
+                    description: "Monthly budget amount. 0 if the user wants to remove the budget",
+                },
+            },
+            required: ["category", "amount"],
+        },
+        savings_goal_data: {
+            type: "OBJECT",
+            description: "Only populated when intent is savings_goal",
+            nullable: true,
+            properties: {
+                name: {
+                    type: "STRING",
+                    description: "Short name of what the user is saving for ('vacaciones', 'auto', 'fondo de emergencia')",
+                },
+                target_amount: {
+                    type: "NUMBER",
+                    description: "Amount the user wants to reach",
+                },
+                target_month: {
+                    type: "NUMBER",
+                    description: "Month 1-12 the user wants to reach it by ('en diciembre' → 12). null if not mentioned",
+                    nullable: true,
+                },
+                target_year: {
+                    type: "NUMBER",
+                    description: "Year, only if the user says it",
+                    nullable: true,
+                },
+            },
+            required: ["name", "target_amount", "target_month", "target_year"],
+        },
+        reminder_data: {
+            type: "OBJECT",
+            description: "Only populated when intent is reminders",
+            nullable: true,
+            properties: {
+                service_name: {
+                    type: "STRING",
+                    description: "Subscription the setting is for ('Netflix'). null if it applies to every subscription",
+                    nullable: true,
+                },
+                days_before: {
+                    type: "ARRAY",
+                    description: "Days before each charge to send a reminder (0 = the same day). Empty if the user wants no reminders; null to go back to the defaults",
+                    nullable: true,
+                    items: { type: "NUMBER" },
+                },
+            },
+            required: ["service_name", "days_before"],
+        },
+        digest_data: {
+            type: "OBJECT",
+            description: "Only populated when intent is digest. Fields the user doesn't mention are null",
+            nullable: true,
+            properties: {
+                weekly: {
+                    type: "BOOLEAN",
+                    description: "true to receive the weekly digest, false to stop it",
+                    nullable: true,
+                },
+                monthly: {
+                    type: "BOOLEAN",
+                    description: "true to receive the month-end digest, false to stop it",
+                    nullable: true,
+                },
+                weekday: {
+                    type: "NUMBER",
+                    description: "Day for the weekly digest: 1 = lunes … 7 = domingo",
+                    nullable: true,
+                },
+                hour: {
+                    type: "NUMBER",
+                    description: "Local hour 0-23 to receive digests ('a las 8 de la noche' → 20)",
+                    nullable: true,
+                },
+            },
+            required: ["weekly", "monthly", "weekday", "hour"],
         },
         reply_message: {
             type: "STRING",
             description: "Friendly reply in Argentine Spanish for non-transaction intents, or a confirmation hint",
         },
     },
-    required: ["intent", "transaction_data", "subscription_data", "reply_message"],
+    required: ["intent", "transactions", "subscription_data", "query_data", "balance_data", "budget_data", "savings_goal_data", "reminder_data", "digest_data", "reply_message"],
 };
 
 // ---------------------------------------------------------------------------
@@ -121,31 +346,74 @@ Sos el copiloto financiero del usuario: cercano, confiable y con humor sutil arg
 ═══ CLASIFICACIÓN DE INTENTS ═══
 Analizá cada mensaje y clasificalo en UNA intención:
 
-1. "record_transaction" → Registrar ingreso, gasto o transferencia.
-   - Extraé: tipo (income/expense/transfer), monto, descripción, categoría, cuenta.
+1. "record_transaction" → Registrar ingreso, gasto, transferencia o ahorro.
+   - Extraé: tipo (income/expense/transfer/savings), monto, descripción, categoría, cuenta.
+   - Varios movimientos en un mensaje ("gasté 5000 en el super y 2000 en el kiosco", un audio con los gastos del día) → un elemento por movimiento en transactions, en el orden en que los dice. Un solo movimiento → transactions con un único elemento.
    - Cobró/le pagaron/facturó/entró plata → "income". Gastó/pagó/compró → "expense". Transfirió/movió entre cuentas → "transfer".
    - Sin cuenta mencionada → "Efectivo". Sin claridad ingreso/egreso → elegí el más probable.
-   - Categorías: comida, transporte, supermercado, entretenimiento, salud, educacion, servicios, ropa, sueldo, freelance, regalo, alquiler_cobrado, venta, dividendos, reembolso, otros, otros_ingresos.
+   - Cuotas: "en 6 cuotas de 5000" → installments 6, installment_amount 5000, amount 30000 (total). "12 cuotas sin interés" de 120000 → installments 12, amount 120000, installment_amount 0. Sin cuotas → installments 0, installment_amount 0.
+   - Ahorro: "aparté/guardé/ahorré 20.000 para vacaciones" → "savings", category "ahorro", savings_goal "vacaciones" (sin meta nombrada → null). account = de dónde sale la plata. Si no es ahorro, savings_goal null.
+   - Transferencia: account = cuenta de origen, destination_account = cuenta de destino ("pasé 10000 del banco a MP" → account "Banco", destination_account "MercadoPago"). category "otros". Si no es transferencia, destination_account null.
+   - Categorías: comida, transporte, supermercado, entretenimiento, salud, educacion, servicios, ropa, sueldo, freelance, regalo, alquiler_cobrado, venta, dividendos, reembolso, ahorro, otros, otros_ingresos.
    - Monto SIEMPRE positivo. "5.000,50"=5000.50, "5k"=5000, "250 lucas"=250000.
+   - Moneda: "dólares"/"USD"/"u$s"/"verdes" → currency "USD" (amount en dólares, sin convertir). Si no dice → "ARS".
+   - Fecha: NO calcules fechas, solo clasificá lo que dice. Sin fecha → date.kind "today". "ayer" → "yesterday". "anteayer" → days_ago 2. "hace 3 días" → days_ago 3. "el viernes" → weekday 5. "el 12/03" o fecha de un ticket → kind "date" con day/month (year solo si aparece).
 
 2. "subscription" → Suscripción o servicio recurrente (Netflix, Spotify, gym, etc.).
    - Extraé: servicio, monto, frecuencia (monthly default), cuenta, start_date (hoy ISO default), duration_months.
    - Monto 0 si no lo dice.
    - duration_months: si el usuario menciona duración ("por 6 meses", "durante un año", "3 meses"), extraé el número de meses (1 año = 12). Si no menciona duración, poné 0.
+   - Prueba gratis: "tengo 30 días gratis de Max", "arranqué la prueba de Spotify de un mes" → trial_days (30; un mes = 30; una semana = 7), amount = lo que va a costar (0 si no lo dice). NO calcules la fecha del primer cobro. Sin prueba → trial_days 0.
+   - Ver, pausar, editar o cancelar sus suscripciones NO es subscription, es query con topic "subscriptions".
+
+3. "query" → Pregunta sobre sus finanzas ("¿cuánto gasté este mes?", "¿cuánto gasté en comida en marzo?", "resumen de la semana pasada").
+   - Extraé: topic "summary", period, month/year si nombra un mes, category y type si filtra.
+   - "¿cuántas cuotas me quedan?"/"¿qué cuotas tengo?" → topic "installments" (period this_month).
+   - "¿cómo voy con el presupuesto?"/"¿cuánto me queda de comida?" → topic "budget" (period this_month, category si nombra una).
+   - "¿cómo voy con el ahorro?"/"¿cuánto llevo para las vacaciones?" → topic "savings" (period this_month).
+   - "mis suscripciones"/"¿cuánto pago de suscripciones?"/"quiero cancelar Netflix" → topic "subscriptions" (period this_month).
+   - "este mes"/"resumen" → this_month. "el mes pasado" → last_month. "marzo" → specific_month con month=3.
+   - "hoy" → today. "ayer" → yesterday. "esta semana" → this_week. "la semana pasada" → last_week. "este año" → this_year.
+   - "¿cuánto gasté?" → type expense. "¿cuánto cobré/gané?" → type income. Si no filtra, null.
+   - NUNCA inventes montos: los números los calcula el sistema. reply_message es solo un fallback breve.
+
+4. "balance_adjustment" → El usuario dice cuánto TIENE en una cuenta, no un movimiento ("tengo 45.000 en el banco", "en MP me quedan 3200", "en efectivo tengo 0").
+   - Extraé: account (sin cuenta → "Efectivo"), amount = saldo real y currency solo si la dice ("tengo 300 dólares en Wise" → USD; si no, null).
+   - No confundir con gastos/ingresos: "gasté"/"cobré" son record_transaction; "tengo"/"me quedan" en una cuenta es balance_adjustment.
+
+5. "budget" → Fijar un presupuesto mensual para una categoría ("presupuesto de comida 80.000", "quiero gastar máximo 50k en salidas por mes").
+   - Extraé: category (misma lista que transacciones) y amount mensual. "sacá el presupuesto de comida" → amount 0.
+   - Preguntar cómo va el presupuesto NO es budget, es query con topic "budget".
+
+6. "savings_goal" → Crear o cambiar una meta de ahorro ("quiero ahorrar 500.000 para vacaciones en diciembre", "mi meta para el auto es 2 palos").
+   - Extraé: name corto, target_amount, target_month (1-12) y target_year si los dice. NO calcules fechas.
+   - Apartar plata para una meta NO es savings_goal, es record_transaction con type "savings".
+
+7. "reminders" → Configurar cuándo avisar antes de los cobros de suscripciones ("avisame 7 días antes, 1 día antes y el mismo día", "de Netflix avisame solo el día anterior", "no me avises de Spotify").
+   - Extraé: days_before (lista de días antes del cobro; "el mismo día" = 0, "una semana antes" = 7) y service_name si nombra una suscripción (si no, null = para todas).
+   - "no me avises" → days_before []. "volvé a los avisos normales de Netflix" → days_before null.
 
-3. "query" → Pregunta sobre finanzas. Respondé con personalidad en reply_message.
+8. "digest" → Configurar los resúmenes automáticos semanal y mensual ("mandame el resumen los viernes a las 20", "no quiero el resumen mensual", "activá el resumen semanal").
+   - Extraé: weekly / monthly (true = quiere recibirlo, false = no), weekday (1=lunes … 7=domingo) y hour (0-23). Lo que no menciona → null.
+   - Pedir un resumen ahora ("¿cuánto gasté esta semana?") NO es digest, es query.
 
-4. "system_command" → Acción: "ayuda"→explicá brevemente; "deshacer"/"borrar el último"→reply "undo"; otros→respondé útilmente.
+9. "system_command" → Acción: "ayuda"→explicá brevemente; "deshacer"/"borrar el último"→reply "undo"; otros→respondé útilmente.
 
-5. "unknown" → Sin relación con finanzas. Redirigí a finanzas con humor sutil (ver sección TONO).
+10. "unknown" → Sin relación con finanzas. Redirigí a finanzas con humor sutil (ver sección TONO).
 
 ═══ REGLAS DE STRUCTURED OUTPUT ═══
 - Audio incomprensible → "unknown", pedí que repita.
 - Foto de ticket/recibo → extraé total como "expense".
-- transaction_data null si intent ≠ "record_transaction".
+- transactions null si intent ≠ "record_transaction".
 - subscription_data null si intent ≠ "subscription".
+- query_data null si intent ≠ "query".
+- balance_data null si intent ≠ "balance_adjustment".
+- budget_data null si intent ≠ "budget".
+- savings_goal_data null si intent ≠ "savings_goal".
+- reminder_data null si intent ≠ "reminders".
+- digest_data null si intent ≠ "digest".
 - reply_message siempre con valor.
-- La personalidad va SOLO en reply_message, NUNCA afecta transaction_data ni subscription_data.
+- La personalidad va SOLO en reply_message, NUNCA afecta transactions ni subscription_data.
 
 ═══ PERSONALIDAD Y TONO ═══
 Ajustá el tono según el contexto:
@@ -203,16 +471,72 @@ export function buildContextMessage(message: string, options?: ParseOptions): st
 // Post-processing — enforces nullability and validates parsed output
 // ---------------------------------------------------------------------------
 
+/** WhatsApp lists hold up to 10 rows — one per item in the batch editor */
+export const MAX_TRANSACTIONS_PER_MESSAGE = 10;
+
+/**
+ * Normalizes one parsed transaction: currency defaults to ARS, only savings
+ * carry a goal, and installments 0/1 mean a single payment
+ * ("N cuotas de X" → total = N × X).
+ */
+function normalizeTransaction(tx: ParsedTransactionData): ParsedTransactionData {
+    if (tx.currency !== "USD") {
+        tx.currency = "ARS";
+    }
+
+    if (tx.type !== "savings") {
+        tx.savings_goal = null;
+    }
+
+    if (!tx.installments || tx.installments <= 1 || tx.type !== "expense") {
+        tx.installments = null;
+        tx.installment_amount = null;
+    } else {
+        tx.installments = Math.round(tx.installments);
+        if (tx.installment_amount && tx.installment_amount > 0) {
+            tx.amount = tx.installment_amount * tx.installments;
+        } else {
+            tx.installment_amount = null;
+        }
+    }
+
+    return tx;
+}
+
 export function postProcessIntent(parsed: ParsedIntent): ParsedIntent {
     // Enforce nullability rules
     if (parsed.intent !== "record_transaction") {
-        parsed.transaction_data = null;
+        parsed.transactions = null;
     }
 
     if (parsed.intent !== "subscription") {
         parsed.subscription_data = null;
     }
 
+    if (parsed.intent !== "query") {
+        parsed.query_data = null;
+    }
+
+    if (parsed.intent !== "balance_adjustment") {
+        parsed.balance_data = null;
+    }
+
+    if (parsed.intent !== "budget") {
+        parsed.budget_data = null;
+    }
+
+    if (parsed.intent !== "savings_goal") {
+        parsed.savings_goal_data = null;
+    }
+
+    if (parsed.intent !== "reminders") {
+        parsed.reminder_data = null;
+    }
+
+    if (parsed.intent !== "digest") {
+        parsed.digest_data = null;
+    }
+
     // Add required `intent` field to subscription_data (not in Gemini schema)
     if (parsed.intent === "subscription" && parsed.subscription_data) {
         const sub = parsed.subscription_data as ParsedSubscription;
@@ -223,18 +547,37 @@ export function postProcessIntent(parsed: ParsedIntent): ParsedIntent {
             sub.duration_months = null;
         }
 
-        // Calculate end_date from start_date + duration_months
-        if (sub.duration_months && sub.start_date) {
-            const start = new Date(sub.start_date);
-            start.setMonth(start.getMonth() + sub.duration_months);
-            sub.end_date = start.toISOString().split("T")[0];
+        // Free trial: the first charge comes trial_days after the start
+        if (!sub.trial_days || sub.trial_days <= 0) {
+            sub.trial_days = null;
+            sub.first_charge_date = null;
+        } else {
+            const start = new Date(sub.start_date || new Date().toISOString().split("T")[0]);
+            sub.trial_days = Math.round(sub.trial_days);
+            sub.first_charge_date = new Date(start.getTime() + sub.trial_days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+        }
+
+        // Calculate end_date from start_date + duration_months (calendar months);
+        // after a trial, the paid term starts at the first charge
+        const termStart = sub.first_charge_date ?? sub.start_date;
+        if (sub.duration_months && termStart) {
+            sub.end_date = termEndDate(new Date(termStart), sub.duration_months).toISOString().split("T")[0];
         } else {
             sub.end_date = null;
         }
     }
 
+    // Normalize each transaction; drop the ones without a valid amount
+    const transactions = (parsed.transactions ?? [])
+        .map(normalizeTransaction)
+        .filter((tx) => tx.amount > 0)
+        .slice(0, MAX_TRANSACTIONS_PER_MESSAGE);
+
+    parsed.transactions = parsed.intent === "record_transaction" ? transactions : null;
+    parsed.transaction_data = parsed.transactions?.[0] ?? null;
+
     // Validate amount for transactions
-    if (parsed.transaction_data && parsed.transaction_data.amount <= 0) {
+    if (parsed.intent === "record_transaction" && transactions.length === 0) {
         return {
             intent: "unknown",
             transaction_data: null,
@@ -0,0 +1,202 @@
+// ============================================================================
+// Query Engine — Real answers for the "query" intent
+//
+// The LLM only classifies WHAT the user asks (topic, period, category, type).
+// Dates are resolved here (in the user's timezone, by occurred_at) and
+// numbers come from the ledger, never from the model:
+//   - Calendar months → v_monthly_summary view
+//   - Other periods (days, weeks, year) → transactions aggregated in code
+//   - Remaining installments → future installment rows
+//   - Budgets → this month's spend per budgeted category
+//   - Savings → progress of each savings goal
+//   - Subscriptions → active subscriptions, normalized per month and year
+// ============================================================================
+
+import type { ParsedQuery, CategoryTotal } from "../types/index.js";
+import {
+    getMonthlySummary,
+    getPeriodSummary,
+    getUserBaseCurrency,
+    getUserTimezone,
+} from "./transaction-repository.js";
+import { DEFAULT_TIMEZONE, getZonedParts, zonedTimeToUtc } from "../utils/dates.js";
+import { getInstallmentsOutlook } from "./installments.js";
+import { getBudgetStatus } from "./budgets.js";
+import { getSavingsProgress } from "./savings-goals.js";
+import { getSubscriptionOverview } from "./subscriptions.js";
+import {
+    buildQuerySummary,
+    buildInstallmentsSummary,
+    buildBudgetSummary,
+    buildSavingsProgress,
+    buildSubscriptionOverview,
+} from "./whatsapp.js";
+
+// ---------------------------------------------------------------------------
+// Period resolution
+// ---------------------------------------------------------------------------
+
+export const MONTH_NAMES = [
+    "enero", "febrero", "marzo", "abril", "mayo", "junio",
+    "julio", "agosto", "septiembre", "octubre", "noviembre", "diciembre",
+];
+
+export interface ResolvedPeriod {
+    from: Date;            // inclusive
+    to: Date;              // exclusive
+    label: string;         // "marzo 2026", "la semana pasada"
+    month: { year: number; month: number } | null; // calendar month → served from v_monthly_summary
+}
+
+/** Midnight of a local calendar day, as a UTC instant (day may overflow) */
+function localMidnight(year: number, month: number, day: number, timezone: string): Date {
+    const normalized = new Date(Date.UTC(year, month - 1, day));
+    return zonedTimeToUtc(
+        normalized.getUTCFullYear(),
+        normalized.getUTCMonth() + 1,
+        normalized.getUTCDate(),
+        0,
+        0,
+        timezone,
+    );
+}
+
+function monthRange(year: number, month: number, timezone: string): ResolvedPeriod {
+    const normalized = new Date(Date.UTC(year, month - 1, 1));
+    const y = normalized.getUTCFullYear();
+    const m = normalized.getUTCMonth() + 1;
+    return {
+        from: localMidnight(y, m, 1, timezone),
+        to: localMidnight(y, m + 1, 1, timezone),
+        label: `${MONTH_NAMES[m - 1]} ${y}`,
+        month: { year: y, month: m },
+    };
+}
+
+/**
+ * Converts the parsed period into a concrete [from, to) range, using the
+ * user's local calendar. Weeks start on Monday. A named month in the future
+ * (e.g. "diciembre" asked in March) refers to the previous year.
+ */
+export function resolveQueryPeriod(
+    query: ParsedQuery,
+    now: Date = new Date(),
+    timezone: string = DEFAULT_TIMEZONE,
+): ResolvedPeriod {
+    const local = getZonedParts(now, timezone);
+    const { year, month, day } = local;
+    const day0 = (offset: number) => localMidnight(year, month, day + offset, timezone);
+
+    switch (query.period) {
+        case "today":
+            return { from: day0(0), to: day0(1), label: "hoy", month: null };
+
+        case "yesterday":
+            return { from: day0(-1), to: day0(0), label: "ayer", month: null };
+
+        case "this_week": {
+            const monday = 1 - local.weekday; // days back to Monday
+            return { from: day0(monday), to: day0(monday + 7), label: "esta semana", month: null };
+        }
+
+        case "last_week": {
+            const monday = 1 - local.weekday;
+            return { from: day0(monday - 7), to: day0(monday), label: "la semana pasada", month: null };
+        }
+
+        case "last_month":
+            return monthRange(year, month - 1, timezone);
+
+        case "specific_month": {
+            const requested = query.month && query.month >= 1 && query.month <= 12
+                ? query.month
+                : month;
+            const requestedYear = query.year ?? (requested > month ? year - 1 : year);
+            return monthRange(requestedYear, requested, timezone);
+        }
+
+        case "this_year":
+            return {
+                from: localMidnight(year, 1, 1, timezone),
+                to: localMidnight(year + 1, 1, 1, timezone),
+                label: `${year}`,
+                month: null,
+            };
+
+        case "this_month":
+        default:
+            return monthRange(year, month, timezone);
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Answers a financial question with real totals from the user's ledger,
+ * in the user's base currency. Returns the reply text ready to send via WhatsApp.
+ */
+export async function answerQuery(
+    userId: string,
+    query: ParsedQuery,
+    now: Date = new Date(),
+): Promise<string> {
+    const [currency, timezone] = await Promise.all([
+        getUserBaseCurrency(userId),
+        getUserTimezone(userId),
+    ]);
+
+    if (query.topic === "installments") {
+        const outlook = await getInstallmentsOutlook(userId, now);
+        console.log(`[SUMA] 💳 Installments query for ${userId.slice(0, 8)}: ${outlook.purchases.length} purchases`);
+        return buildInstallmentsSummary(outlook, currency);
+    }
+
+    if (query.topic === "budget") {
+        let statuses = await getBudgetStatus(userId, now);
+        if (query.category) {
+            const wanted = query.category.toLowerCase();
+            const filtered = statuses.filter((s) => s.category.toLowerCase() === wanted);
+            statuses = filtered.length > 0 ? filtered : statuses;
+        }
+        console.log(`[SUMA] 🎯 Budget query for ${userId.slice(0, 8)}: ${statuses.length} budgets`);
+        return buildBudgetSummary(statuses, currency);
+    }
+
+    if (query.topic === "savings") {
+        const progress = await getSavingsProgress(userId, undefined, now);
+        console.log(`[SUMA] 🐷 Savings query for ${userId.slice(0, 8)}: ${progress.length} goals`);
+        return buildSavingsProgress(progress, currency);
+    }
+
+    if (query.topic === "subscriptions") {
+        const overview = await getSubscriptionOverview(userId, now);
+        console.log(`[SUMA] 🔄 Subscriptions query for ${userId.slice(0, 8)}: ${overview.items.length} active`);
+        return buildSubscriptionOverview(overview);
+    }
+
+    const period = resolveQueryPeriod(query, now, timezone);
+
+    let totals: CategoryTotal[] = period.month
+        ? await getMonthlySummary(userId, period.month.year, period.month.month)
+        : await getPeriodSummary(userId, period.from, period.to);
+
+    if (query.type) {
+        totals = totals.filter((t) => t.type === query.type);
+    }
+
+    if (query.category) {
+        const wanted = query.category.toLowerCase();
+        totals = totals.filter((t) => t.category.toLowerCase() === wanted);
+    }
+
+    console.log(`[SUMA] 📊 Query for ${userId.slice(0, 8)}: ${period.label} (${totals.length} groups)`);
+
+    return buildQuerySummary({
+        label: period.label,
+        totals,
+        category: query.category,
+        currency,
+    });
+}
@@ -0,0 +1,278 @@
+// ============================================================================
+// Reminders — When to warn about upcoming subscription dates
+//
+// Each subscription gets N reminders before its next charge (or before its
+// fixed term ends, when that comes first): e.g. 7 days before, the day
+// before and the same day. The days come from the user's defaults
+// (users.reminder_days) unless the subscription overrides them
+// (subscriptions.reminder_days), both set by chat. A free trial gets a
+// single reminder TRIAL_REMINDER_DAYS before it converts to paid.
+//
+// A row in subscription_reminders is created when a reminder comes due and
+// tracks its delivery; the unique (subscription_id, target_date,
+// days_before) means each one exists — and is sent — only once.
+// processPendingAlerts (alerts.ts) sends them.
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type {
+    ParsedReminderSettings,
+    SubscriptionReminderRow,
+    SubscriptionRow,
+} from "../types/index.js";
+import { isPastTerm } from "../utils/recurrence.js";
+import { DEFAULT_TIMEZONE, getZonedParts, zonedTimeToUtc } from "../utils/dates.js";
+
+/** Mirrors the users.reminder_days column default */
+export const DEFAULT_REMINDER_DAYS = [1];
+
+/** Farthest a reminder can be from its date, and how many per subscription */
+const MAX_DAYS_BEFORE = 60;
+const MAX_REMINDERS = 5;
+
+/** Days before a free trial converts to paid that the user is warned */
+export const TRIAL_REMINDER_DAYS = 2;
+
+/** Local time reminders are sent at */
+const REMIND_HOUR = 9;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Dates
+// ---------------------------------------------------------------------------
+
+/**
+ * What the next reminders are about: the end of a free trial, the next
+ * charge, or the end of a fixed term when the next charge would already
+ * fall outside it.
+ */
+export function upcomingTarget(
+    sub: Pick<SubscriptionRow, "next_payment_at" | "end_date"> & Partial<Pick<SubscriptionRow, "is_trial" | "trial_ends_at">>,
+): { kind: SubscriptionReminderRow["kind"]; date: Date } {
+    if (sub.is_trial && sub.trial_ends_at) {
+        return { kind: "trial", date: new Date(sub.trial_ends_at) };
+    }
+
+    const nextPayment = new Date(sub.next_payment_at);
+    return sub.end_date && isPastTerm(nextPayment, sub.end_date)
+        ? { kind: "renewal", date: new Date(sub.end_date) }
+        : { kind: "charge", date: nextPayment };
+}
+
+/**
+ * When to send the reminder `daysBefore` days before `target`: at
+ * REMIND_HOUR on that local day, and never after the target itself.
+ */
+export function reminderTime(
+    target: Date,
+    daysBefore: number,
+    timezone: string = DEFAULT_TIMEZONE,
+): Date {
+    const local = getZonedParts(target, timezone);
+    const remindAt = zonedTimeToUtc(local.year, local.month, local.day - daysBefore, REMIND_HOUR, 0, timezone);
+    return remindAt < target ? remindAt : new Date(target.getTime() - HOUR_MS);
+}
+
+/** Whole days in range, no repeats, farthest first */
+export function normalizeReminderDays(days: number[]): number[] {
+    const valid = days
+        .map((d) => Math.round(d))
+        .filter((d) => Number.isFinite(d) && d >= 0 && d <= MAX_DAYS_BEFORE);
+    return [...new Set(valid)].sort((a, b) => b - a).slice(0, MAX_REMINDERS);
+}
+
+// ---------------------------------------------------------------------------
+// Creating due reminders (called by processPendingAlerts)
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the reminder rows that are due by `now` for every active
+ * subscription. Rows that already exist (sent or not) are left alone, so
+ * running this on every cron tick never duplicates a reminder.
+ *
+ * Returns the number of rows created.
+ */
+export async function createDueReminders(now: Date = new Date()): Promise<number> {
+    const supabase = getSupabaseClient();
+
+    const { data: subs, error } = await supabase
+        .from("subscriptions")
+        .select("id, user_id, next_payment_at, end_date, reminder_days, is_trial, trial_ends_at, users(reminder_days, timezone)")
+        .eq("is_active", true)
+        .is("cancelled_at", null);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to fetch subscriptions for reminders:", error);
+        throw new Error(`Failed to fetch subscriptions for reminders: ${error.message}`);
+    }
+
+    const rows: Array<Partial<SubscriptionReminderRow>> = [];
+
+    for (const sub of subs ?? []) {
+        const joined = sub.users as { reminder_days: number[] | null; timezone: string | null }
+            | { reminder_days: number[] | null; timezone: string | null }[]
+            | null;
+        const user = Array.isArray(joined) ? joined[0] : joined;
+
+        const target = upcomingTarget(sub);
+        if (target.date <= now) continue;
+
+        const days = target.kind === "trial"
+            ? [TRIAL_REMINDER_DAYS]
+            : (sub.reminder_days as number[] | null) ?? user?.reminder_days ?? DEFAULT_REMINDER_DAYS;
+        for (const daysBefore of days) {
+            const remindAt = reminderTime(target.date, daysBefore, user?.timezone ?? DEFAULT_TIMEZONE);
+            if (remindAt > now) continue;
+
+            rows.push({
+                subscription_id: sub.id as string,
+                user_id: sub.user_id as string,
+                kind: target.kind,
+                target_date: target.date.toISOString(),
+                days_before: daysBefore,
+                remind_at: remindAt.toISOString(),
+            });
+        }
+    }
+
+    if (rows.length === 0) return 0;
+
+    const { data, error: insertError } = await supabase
+        .from("subscription_reminders")
+        .upsert(rows, { onConflict: "subscription_id,target_date,days_before", ignoreDuplicates: true })
+        .select("id");
+
+    if (insertError) {
+        console.error("[SUMA] ❌ Failed to create reminders:", insertError);
+        throw new Error(`Failed to create reminders: ${insertError.message}`);
+    }
+
+    const created = data?.length ?? 0;
+    if (created > 0) {
+        console.log(`[SUMA] 🔔 Created ${created} due reminders`);
+    }
+    return created;
+}
+
+/**
+ * Schedules a one-off reminder on a date picked by the user ("Elegir fecha"
+ * or "Sí, recordame" after saving a fixed-term subscription), about the end
+ * of its term.
+ */
+export async function scheduleCustomReminder(
+    subscription: Pick<SubscriptionRow, "id" | "user_id" | "end_date" | "next_payment_at">,
+    remindAt: Date,
+): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    const { error } = await supabase
+        .from("subscription_reminders")
+        .insert({
+            subscription_id: subscription.id,
+            user_id: subscription.user_id,
+            kind: subscription.end_date ? "renewal" : "charge",
+            target_date: subscription.end_date ?? subscription.next_payment_at,
+            days_before: null,
+            remind_at: remindAt.toISOString(),
+        });
+
+    if (error) {
+        console.error(`[SUMA] ❌ Failed to schedule reminder for sub ${subscription.id}:`, error);
+        throw new Error(`Failed to schedule reminder: ${error.message}`);
+    }
+}
+
+/** Drops the reminders of a subscription that were not sent yet */
+export async function cancelPendingReminders(subscriptionIds: string[]): Promise<void> {
+    if (subscriptionIds.length === 0) return;
+
+    const supabase = getSupabaseClient();
+    await supabase
+        .from("subscription_reminders")
+        .update({ status: "cancelled" })
+        .in("subscription_id", subscriptionIds)
+        .eq("status", "pending");
+}
+
+// ---------------------------------------------------------------------------
+// Settings by chat
+// ---------------------------------------------------------------------------
+
+/** Lowercase, no accents — "Netflix " and "netflíx" match */
+function normalizeName(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Saves the reminder days the user asked for: their defaults when no
+ * subscription is named, or an override for that subscription (null days
+ * removes the override). Returns null when the subscription isn't found.
+ */
+export async function setReminderDays(
+    userId: string,
+    settings: ParsedReminderSettings,
+): Promise<{ serviceName: string | null; days: number[]; usesDefaults: boolean } | null> {
+    const supabase = getSupabaseClient();
+    const days = settings.days_before ? normalizeReminderDays(settings.days_before) : null;
+
+    if (!settings.service_name?.trim()) {
+        const reminderDays = days ?? DEFAULT_REMINDER_DAYS;
+        const { error } = await supabase
+            .from("users")
+            .update({ reminder_days: reminderDays })
+            .eq("id", userId);
+
+        if (error) {
+            console.error("[SUMA] ❌ Failed to save reminder defaults:", error);
+            throw new Error(`Failed to save reminder defaults: ${error.message}`);
+        }
+
+        console.log(`[SUMA] 🔔 Reminder defaults for ${userId.slice(0, 8)}: [${reminderDays.join(", ")}]`);
+        return { serviceName: null, days: reminderDays, usesDefaults: true };
+    }
+
+    const { data: subs } = await supabase
+        .from("subscriptions")
+        .select("id, service_name")
+        .eq("user_id", userId)
+        .eq("is_active", true)
+        .is("cancelled_at", null);
+
+    const wanted = normalizeName(settings.service_name);
+    const sub = (subs ?? []).find((s) => normalizeName(s.service_name) === wanted)
+        ?? (subs ?? []).find((s) => normalizeName(s.service_name).includes(wanted) || wanted.includes(normalizeName(s.service_name)));
+    if (!sub) return null;
+
+    const { error } = await supabase
+        .from("subscriptions")
+        .update({ reminder_days: days })
+        .eq("id", sub.id);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to save reminder override:", error);
+        throw new Error(`Failed to save reminder override: ${error.message}`);
+    }
+
+    if (days) {
+        console.log(`[SUMA] 🔔 Reminders for sub ${String(sub.id).slice(0, 8)}: [${days.join(", ")}]`);
+        return { serviceName: sub.service_name as string, days, usesDefaults: false };
+    }
+
+    const { data: user } = await supabase
+        .from("users")
+        .select("reminder_days")
+        .eq("id", userId)
+        .single();
+
+    console.log(`[SUMA] 🔔 Reminders for sub ${String(sub.id).slice(0, 8)} back to defaults`);
+    return {
+        serviceName: sub.service_name as string,
+        days: (user?.reminder_days as number[] | null) ?? DEFAULT_REMINDER_DAYS,
+        usesDefaults: true,
+    };
+}
@@ -10,6 +10,7 @@
 import type { WhatsAppMessage, UserInfo, SaleStage } from "../types/index.js";
 import { getSupabaseClient } from "../lib/supabase.js";
 import { sendSimpleText } from "./whatsapp.js";
+import { createWhatsAppClient } from "./whatsapp-client.js";
 import { saveMessage } from "./chat-memory.js";
 import { upsertUser } from "./transaction-repository.js";
 
@@ -101,32 +102,14 @@ async function updateSaleStage(
 // WhatsApp interactive message senders for sales
 // ---------------------------------------------------------------------------
 
-const WA_API_BASE = "https://graph.facebook.com/v21.0";
-
+/** Sends one sales message through the shared client, logged as kind "sales" */
 async function callWhatsAppAPI(params: {
     phoneNumberId: string;
     apiToken: string;
     to: string;
     body: Record<string, unknown>;
 }): Promise<void> {
-    const url = `${WA_API_BASE}/${params.phoneNumberId}/messages`;
-    const res = await fetch(url, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${params.apiToken}`,
-        },
-        body: JSON.stringify({
-            messaging_product: "whatsapp",
-            to: params.to,
-            ...params.body,
-        }),
-    });
-    if (!res.ok) {
-        const errBody = await res.text();
-        console.error(`[SUMA:SALES] ❌ WhatsApp API error (${res.status}):`, errBody);
-        throw new Error(`WhatsApp send failed: ${res.status}`);
-    }
+    await createWhatsAppClient(params).send(params.to, params.body, { kind: "sales" });
 }
 
 /** Sends the initial pitch with 3 buttons */
@@ -0,0 +1,338 @@
+// ============================================================================
+// Savings Goals — Targets for money set aside ("savings" transactions)
+//
+// "quiero ahorrar 500.000 para vacaciones en diciembre" creates a goal;
+// "aparté 20.000 para vacaciones" is a savings transaction linked to it.
+// Progress is the sum of the goal's savings transactions (amount_base),
+// and a monthly nudge tells the user how much to save per month to get
+// there on time (processSavingsNudges, called by api/savings-nudges.ts).
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type {
+    Currency,
+    ParsedSavingsGoal,
+    SavingsGoalProgress,
+    SavingsGoalRow,
+} from "../types/index.js";
+import { getZonedParts, DEFAULT_TIMEZONE } from "../utils/dates.js";
+import { getUserTimezone } from "./transaction-repository.js";
+import { sendSavingsNudge } from "./whatsapp.js";
+
+/** At most one nudge per goal in this many days */
+const NUDGE_INTERVAL_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Target date
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves the month the user gave ("en diciembre") to the last day of that
+ * month. A month already past this year means next year; no month at all
+ * means one year from now.
+ */
+export function resolveTargetDate(
+    month: number | null,
+    year: number | null,
+    timezone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date(),
+): string {
+    const today = getZonedParts(now, timezone);
+    const hasMonth = !!month && month >= 1 && month <= 12;
+
+    const targetMonth = hasMonth ? month! : today.month;
+    let targetYear = year && hasMonth ? (year < 100 ? year + 2000 : year) : today.year;
+    if (!hasMonth) targetYear += 1;
+
+    // A month already past can't be a target: take its next occurrence
+    while (targetYear * 12 + targetMonth < today.year * 12 + today.month) {
+        targetYear += 1;
+    }
+
+    const lastDay = new Date(Date.UTC(targetYear, targetMonth, 0)).getUTCDate();
+    return `${targetYear}-${String(targetMonth).padStart(2, "0")}-${String(lastDay).padStart(2, "0")}`;
+}
+
+/** Calendar months from now until the target date, counting the current one */
+function monthsUntil(targetDate: string, timezone: string, now: Date): number {
+    const today = getZonedParts(now, timezone);
+    const [year, month] = targetDate.split("-").map(Number);
+    return Math.max((year - today.year) * 12 + (month - today.month) + 1, 1);
+}
+
+// ---------------------------------------------------------------------------
+// Goals
+// ---------------------------------------------------------------------------
+
+/** Lowercase, no accents — "Vacaciones " and "vacaciónes" match */
+function normalizeName(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "");
+}
+
+async function getActiveGoals(userId: string): Promise<SavingsGoalRow[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("savings_goals")
+        .select("*")
+        .eq("user_id", userId)
+        .is("cancelled_at", null)
+        .order("target_date", { ascending: true });
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to read savings goals:", error);
+        throw new Error(`Failed to read savings goals: ${error.message}`);
+    }
+
+    return (data ?? []) as SavingsGoalRow[];
+}
+
+/**
+ * Finds the goal a savings transaction belongs to: exact name first, then
+ * partial ("vaca" → "vacaciones"). Without a name, the user's only goal.
+ * Returns null when there's no clear match.
+ */
+export async function findSavingsGoal(
+    userId: string,
+    name: string | null | undefined,
+): Promise<SavingsGoalRow | null> {
+    const goals = await getActiveGoals(userId);
+
+    if (!name?.trim()) {
+        return goals.length === 1 ? goals[0] : null;
+    }
+
+    const wanted = normalizeName(name);
+    return goals.find((g) => normalizeName(g.name) === wanted)
+        ?? goals.find((g) => normalizeName(g.name).includes(wanted) || wanted.includes(normalizeName(g.name)))
+        ?? null;
+}
+
+/**
+ * Creates a savings goal, or updates the target of an active goal with the
+ * same name. Returns its progress so the reply can show the monthly plan.
+ */
+export async function upsertSavingsGoal(
+    userId: string,
+    parsed: ParsedSavingsGoal,
+    now: Date = new Date(),
+): Promise<SavingsGoalProgress> {
+    const supabase = getSupabaseClient();
+    const timezone = await getUserTimezone(userId);
+    const targetDate = resolveTargetDate(parsed.target_month, parsed.target_year, timezone, now);
+    const name = parsed.name.trim().toLowerCase();
+
+    const existing = (await getActiveGoals(userId))
+        .find((g) => normalizeName(g.name) === normalizeName(name));
+
+    const { data, error } = existing
+        ? await supabase
+            .from("savings_goals")
+            .update({ target_amount: parsed.target_amount, target_date: targetDate, achieved_at: null })
+            .eq("id", existing.id)
+            .select("*")
+            .single()
+        : await supabase
+            .from("savings_goals")
+            .insert({
+                user_id: userId,
+                name,
+                target_amount: parsed.target_amount,
+                target_date: targetDate,
+            })
+            .select("*")
+            .single();
+
+    if (error || !data) {
+        console.error("[SUMA] ❌ Failed to save savings goal:", error);
+        throw new Error(`Failed to save savings goal: ${error?.message}`);
+    }
+
+    console.log(`[SUMA] 🐷 Savings goal ${existing ? "updated" : "created"}: ${name} ${parsed.target_amount} by ${targetDate} for user ${userId.slice(0, 8)}`);
+
+    const [progress] = await buildProgress([data as SavingsGoalRow], timezone, now);
+    return progress;
+}
+
+// ---------------------------------------------------------------------------
+// Progress
+// ---------------------------------------------------------------------------
+
+/**
+ * Sums the savings transactions of each goal and computes what's left.
+ * Goals that just reached their target get achieved_at stamped.
+ */
+async function buildProgress(
+    goals: SavingsGoalRow[],
+    timezone: string,
+    now: Date,
+): Promise<SavingsGoalProgress[]> {
+    if (goals.length === 0) return [];
+
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("transactions")
+        .select("savings_goal_id, amount, amount_base")
+        .eq("type", "savings")
+        .in("savings_goal_id", goals.map((g) => g.id))
+        .is("deleted_at", null);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to read savings transactions:", error);
+        throw new Error(`Failed to read savings: ${error.message}`);
+    }
+
+    const savedByGoal = new Map<string, number>();
+    for (const row of data ?? []) {
+        const key = row.savings_goal_id as string;
+        savedByGoal.set(key, (savedByGoal.get(key) ?? 0) + Number(row.amount_base ?? row.amount));
+    }
+
+    const progress: SavingsGoalProgress[] = [];
+
+    for (const goal of goals) {
+        const target = Number(goal.target_amount);
+        const saved = Math.round((savedByGoal.get(goal.id) ?? 0) * 100) / 100;
+        const remaining = Math.max(Math.round((target - saved) * 100) / 100, 0);
+        const monthsLeft = monthsUntil(goal.target_date, timezone, now);
+
+        if (remaining === 0 && !goal.achieved_at) {
+            goal.achieved_at = now.toISOString();
+            await supabase
+                .from("savings_goals")
+                .update({ achieved_at: goal.achieved_at })
+                .eq("id", goal.id)
+                .is("achieved_at", null);
+        }
+
+        progress.push({
+            goal,
+            saved,
+            remaining,
+            percent: Math.min(Math.round((saved / target) * 100), 100),
+            monthsLeft,
+            monthlyNeeded: Math.ceil(remaining / monthsLeft),
+        });
+    }
+
+    return progress;
+}
+
+/**
+ * Progress of the user's active goals (or only `goalIds`), closest deadline first.
+ */
+export async function getSavingsProgress(
+    userId: string,
+    goalIds?: string[],
+    now: Date = new Date(),
+): Promise<SavingsGoalProgress[]> {
+    const [goals, timezone] = await Promise.all([
+        getActiveGoals(userId),
+        getUserTimezone(userId),
+    ]);
+
+    const selected = goalIds ? goals.filter((g) => goalIds.includes(g.id)) : goals;
+    return buildProgress(selected, timezone, now);
+}
+
+// ---------------------------------------------------------------------------
+// Monthly nudge (called by cron job)
+// ---------------------------------------------------------------------------
+
+/**
+ * Sends each active user one message with the goals that are still open,
+ * showing how much to save per month to stay on track. A goal is nudged at
+ * most once every NUDGE_INTERVAL_DAYS, counted from its creation; the slot
+ * is claimed before sending, so retries never send it twice.
+ *
+ * Returns the number of messages sent.
+ */
+export async function processSavingsNudges(
+    phoneNumberId: string,
+    apiToken: string,
+    now: Date = new Date(),
+): Promise<number> {
+    const supabase = getSupabaseClient();
+    const cutoff = new Date(now.getTime() - NUDGE_INTERVAL_DAYS * DAY_MS).toISOString();
+
+    const { data, error } = await supabase
+        .from("savings_goals")
+        .select("*")
+        .is("cancelled_at", null)
+        .is("achieved_at", null)
+        .gte("target_date", now.toISOString().slice(0, 10))
+        .or(`last_nudge_at.lt.${cutoff},and(last_nudge_at.is.null,created_at.lt.${cutoff})`);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to fetch savings goals to nudge:", error);
+        throw new Error(`Failed to fetch savings goals: ${error.message}`);
+    }
+
+    const goals = (data ?? []) as SavingsGoalRow[];
+    if (goals.length === 0) {
+        console.log("[SUMA] 🐷 No savings goals to nudge");
+        return 0;
+    }
+
+    const byUser = new Map<string, SavingsGoalRow[]>();
+    for (const goal of goals) {
+        byUser.set(goal.user_id, [...(byUser.get(goal.user_id) ?? []), goal]);
+    }
+
+    let sent = 0;
+
+    for (const [userId, userGoals] of byUser) {
+        try {
+            const { data: user } = await supabase
+                .from("users")
+                .select("phone, subscription_status, timezone, base_currency, last_inbound_at")
+                .eq("id", userId)
+                .single();
+
+            if (!user || user.subscription_status !== "active") {
+                console.log(`[SUMA] ⏭️ Skipping savings nudge for ${userId.slice(0, 8)}: user not active`);
+                continue;
+            }
+
+            // Claim the nudge slot (idempotency guard)
+            const { data: claimed } = await supabase
+                .from("savings_goals")
+                .update({ last_nudge_at: now.toISOString() })
+                .in("id", userGoals.map((g) => g.id))
+                .or(`last_nudge_at.is.null,last_nudge_at.lt.${cutoff}`)
+                .select("*");
+
+            const claimedGoals = (claimed ?? []) as SavingsGoalRow[];
+            if (claimedGoals.length === 0) continue;
+
+            const progress = (await buildProgress(claimedGoals, user.timezone ?? DEFAULT_TIMEZONE, now))
+                .filter((p) => p.remaining > 0);
+            if (progress.length === 0) continue;
+
+            await sendSavingsNudge({
+                to: user.phone,
+                phoneNumberId,
+                apiToken,
+                lastInboundAt: user.last_inbound_at,
+                progress,
+                currency: (user.base_currency ?? "ARS") as Currency,
+            });
+
+            sent++;
+            console.log(`[SUMA] 🐷 Savings nudge sent to ${userId.slice(0, 8)} (${progress.length} goals)`);
+        } catch (err) {
+            console.error(`[SUMA] ❌ Failed to nudge savings goals for ${userId.slice(0, 8)}:`, err);
+            // Continue with next user — don't block batch on one failure
+        }
+    }
+
+    console.log(`[SUMA] 🐷 Sent ${sent}/${byUser.size} savings nudges`);
+    return sent;
+}
@@ -0,0 +1,253 @@
+// ============================================================================
+// Subscriptions — Conversational subscription manager
+//
+// "mis suscripciones" lists the user's active subscriptions with amount and
+// next charge. Picking one offers: edit the amount, change the frequency,
+// pause until a date, or cancel (cancelSubscription in alerts.ts). A free
+// trial is kept or cancelled from the warning sent before it converts.
+//
+// Totals are normalized to a month and a year in the user's base currency,
+// whatever each subscription's frequency and currency.
+// ============================================================================
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import type {
+    AccountType,
+    Currency,
+    SubscriptionFrequency,
+    SubscriptionListItem,
+    SubscriptionOverview,
+    SubscriptionRow,
+    UpcomingCharge,
+} from "../types/index.js";
+import { getUserBaseCurrency } from "./transaction-repository.js";
+import { convertToBase, pickRateType } from "./exchange-rates.js";
+import { occurrenceOnOrAfter } from "../utils/recurrence.js";
+
+/** Charges per month for each frequency (a year has 52 weeks) */
+const MONTHLY_FACTOR: Record<SubscriptionFrequency, number> = {
+    weekly: 52 / 12,
+    monthly: 1,
+    annual: 1 / 12,
+};
+
+export const FREQUENCIES = Object.keys(MONTHLY_FACTOR) as SubscriptionFrequency[];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ---------------------------------------------------------------------------
+// List + totals
+// ---------------------------------------------------------------------------
+
+/**
+ * Active subscriptions of the user (soonest charge first) with their cost
+ * per month in the base currency. Subscriptions without a quote for their
+ * currency are listed but left out of the totals.
+ */
+export async function getSubscriptionOverview(
+    userId: string,
+    now: Date = new Date(),
+): Promise<SubscriptionOverview> {
+    const supabase = getSupabaseClient();
+
+    const [{ data, error }, currency] = await Promise.all([
+        supabase
+            .from("subscriptions")
+            .select("*, accounts(type)")
+            .eq("user_id", userId)
+            .eq("is_active", true)
+            .is("cancelled_at", null)
+            .order("next_payment_at", { ascending: true }),
+        getUserBaseCurrency(userId),
+    ]);
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to read subscriptions:", error);
+        throw new Error(`Failed to read subscriptions: ${error.message}`);
+    }
+
+    const items: SubscriptionListItem[] = [];
+    const unconverted: string[] = [];
+    let monthlyTotal = 0;
+
+    for (const row of data ?? []) {
+        const { accounts: joined, ...subscription } = row;
+        const account = joined as { type: AccountType } | { type: AccountType }[] | null;
+        const accountType = Array.isArray(account) ? account[0]?.type : account?.type;
+
+        const sub = subscription as SubscriptionRow;
+        const factor = MONTHLY_FACTOR[sub.frequency as SubscriptionFrequency] ?? 1;
+        const conversion = await convertToBase(
+            Number(sub.amount),
+            sub.currency as Currency,
+            currency,
+            pickRateType(accountType),
+            now,
+        );
+
+        const monthlyBase = conversion ? round2(conversion.amountBase * factor) : null;
+        if (monthlyBase === null) {
+            unconverted.push(sub.service_name);
+        } else {
+            monthlyTotal += monthlyBase;
+        }
+
+        items.push({ subscription: sub, monthlyBase });
+    }
+
+    return {
+        items,
+        monthlyTotal: round2(monthlyTotal),
+        yearlyTotal: round2(monthlyTotal * 12),
+        currency,
+        unconverted,
+    };
+}
+
+/** Charges of the user's active subscriptions due in [from, to), soonest first */
+export async function getUpcomingCharges(
+    userId: string,
+    from: Date,
+    to: Date,
+): Promise<UpcomingCharge[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("subscriptions")
+        .select("service_name, amount, currency, next_payment_at")
+        .eq("user_id", userId)
+        .eq("is_active", true)
+        .is("cancelled_at", null)
+        .gt("amount", 0)
+        .gte("next_payment_at", from.toISOString())
+        .lt("next_payment_at", to.toISOString())
+        .order("next_payment_at", { ascending: true });
+
+    if (error) {
+        console.error("[SUMA] ❌ Failed to read upcoming charges:", error);
+        throw new Error(`Failed to read upcoming charges: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => ({
+        service_name: row.service_name as string,
+        amount: Number(row.amount),
+        currency: row.currency as Currency,
+        date: row.next_payment_at as string,
+    }));
+}
+
+/**
+ * One active subscription of the user. Null if it doesn't exist, belongs to
+ * someone else or was cancelled — button IDs come from old messages too.
+ */
+export async function getUserSubscription(
+    userId: string,
+    subscriptionId: string,
+): Promise<SubscriptionRow | null> {
+    const supabase = getSupabaseClient();
+
+    const { data } = await supabase
+        .from("subscriptions")
+        .select("*")
+        .eq("id", subscriptionId)
+        .eq("user_id", userId)
+        .is("cancelled_at", null)
+        .maybeSingle();
+
+    return (data as SubscriptionRow | null) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Edits
+// ---------------------------------------------------------------------------
+
+async function updateSubscription(
+    userId: string,
+    subscriptionId: string,
+    changes: Partial<SubscriptionRow>,
+): Promise<SubscriptionRow | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("subscriptions")
+        .update(changes)
+        .eq("id", subscriptionId)
+        .eq("user_id", userId)
+        .is("cancelled_at", null)
+        .select("*")
+        .maybeSingle();
+
+    if (error) {
+        console.error(`[SUMA] ❌ Failed to update subscription ${subscriptionId.slice(0, 8)}:`, error);
+        throw new Error(`Failed to update subscription: ${error.message}`);
+    }
+
+    return (data as SubscriptionRow | null) ?? null;
+}
+
+/** New amount for the next charges (past charges are not touched) */
+export async function updateSubscriptionAmount(
+    userId: string,
+    subscriptionId: string,
+    amount: number,
+): Promise<SubscriptionRow | null> {
+    const updated = await updateSubscription(userId, subscriptionId, { amount });
+    if (updated) {
+        console.log(`[SUMA] ✏️ Subscription ${subscriptionId.slice(0, 8)} amount → ${amount}`);
+    }
+    return updated;
+}
+
+/** New frequency; the next charge date stays, later ones follow the new period */
+export async function updateSubscriptionFrequency(
+    userId: string,
+    subscriptionId: string,
+    frequency: SubscriptionFrequency,
+): Promise<SubscriptionRow | null> {
+    const updated = await updateSubscription(userId, subscriptionId, { frequency });
+    if (updated) {
+        console.log(`[SUMA] ✏️ Subscription ${subscriptionId.slice(0, 8)} frequency → ${frequency}`);
+    }
+    return updated;
+}
+
+/**
+ * Keeps a free trial: it becomes a regular subscription whose first charge
+ * is the day the trial ends (next_payment_at already points there).
+ */
+export async function keepTrial(
+    userId: string,
+    subscriptionId: string,
+): Promise<SubscriptionRow | null> {
+    const updated = await updateSubscription(userId, subscriptionId, { is_trial: false });
+    if (updated) {
+        console.log(`[SUMA] 🆓 Trial ${subscriptionId.slice(0, 8)} kept, first charge ${updated.next_payment_at.slice(0, 10)}`);
+    }
+    return updated;
+}
+
+/**
+ * Pauses a subscription until `until`: the charges that fall inside the
+ * pause are skipped, so next_payment_at moves to the first period on or
+ * after that date and charges resume from there on their own.
+ */
+export async function pauseSubscription(
+    userId: string,
+    subscriptionId: string,
+    until: Date,
+): Promise<SubscriptionRow | null> {
+    const sub = await getUserSubscription(userId, subscriptionId);
+    if (!sub) return null;
+
+    const nextPayment = occurrenceOnOrAfter(new Date(sub.next_payment_at), until, sub.frequency, sub.anchor_day);
+
+    const updated = await updateSubscription(userId, subscriptionId, {
+        paused_until: until.toISOString(),
+        next_payment_at: nextPayment.toISOString(),
+    });
+
+    if (updated) {
+        console.log(`[SUMA] ⏸️ Subscription ${subscriptionId.slice(0, 8)} paused until ${until.toISOString().slice(0, 10)}`);
+    }
+    return updated;
+}
@@ -7,10 +7,17 @@
 import { getSupabaseClient } from "../lib/supabase.js";
 import type {
     TransactionRow,
+    TransactionType,
     AccountRow,
+    AccountType,
+    Currency,
     UserInfo,
     OnboardingSource,
+    CategoryTotal,
+    PeriodSummaryRow,
+    DigestExpense,
 } from "../types/index.js";
+import { DEFAULT_TIMEZONE, getZonedParts, zonedTimeToUtc } from "../utils/dates.js";
 
 // ---------------------------------------------------------------------------
 // User operations
@@ -45,7 +52,7 @@ export async function upsertUser(
     // Step 1: Try to find existing user
     const { data: existing } = await supabase
         .from("users")
-        .select("id, name, is_subscribed, subscription_status, email, sale_stage, sale_attempts")
+        .select("id, name, is_subscribed, subscription_status, email, sale_stage, sale_attempts, base_currency, timezone")
         .eq("phone", phone)
         .single();
 
@@ -71,14 +78,16 @@ export async function upsertUser(
             onboardingSource,
             saleStage: existing.sale_stage ?? null,
             saleAttempts: existing.sale_attempts ?? 0,
+            baseCurrency: existing.base_currency ?? "ARS",
+            timezone: existing.timezone ?? DEFAULT_TIMEZONE,
         };
     }
 
     // Step 2: User doesn't exist — create new
     const { data: created, error: insertError } = await supabase
         .from("users")
-        .insert({ phone, name: name ?? null })
-        .select("id, name, is_subscribed, subscription_status, email, sale_stage, sale_attempts")
+        .insert({ phone, name: name ?? null, last_inbound_at: new Date().toISOString() })
+        .select("id, name, is_subscribed, subscription_status, email, sale_stage, sale_attempts, base_currency, timezone")
         .single();
 
     if (insertError) {
@@ -101,9 +110,61 @@ export async function upsertUser(
         onboardingSource,
         saleStage: created.sale_stage ?? null,
         saleAttempts: created.sale_attempts ?? 0,
+        baseCurrency: created.base_currency ?? "ARS",
+        timezone: created.timezone ?? DEFAULT_TIMEZONE,
     };
 }
 
+/**
+ * Records when the user last wrote to us: free-form messages can only be
+ * sent within 24h of it (see isSessionOpen in whatsapp.ts). Never moves
+ * backwards, so a late retry of an old message doesn't shrink the window.
+ */
+export async function recordInboundMessage(phone: string, at: Date): Promise<void> {
+    const supabase = getSupabaseClient();
+    const iso = at.toISOString();
+
+    const { error } = await supabase
+        .from("users")
+        .update({ last_inbound_at: iso })
+        .eq("phone", phone)
+        .or(`last_inbound_at.is.null,last_inbound_at.lt.${iso}`);
+
+    if (error) {
+        console.error("[SUMA] ⚠️ Failed to record inbound message time:", error);
+    }
+}
+
+/**
+ * Returns the currency the user's reports are consolidated in (default ARS).
+ */
+export async function getUserBaseCurrency(userId: string): Promise<Currency> {
+    const supabase = getSupabaseClient();
+
+    const { data } = await supabase
+        .from("users")
+        .select("base_currency")
+        .eq("id", userId)
+        .single();
+
+    return (data?.base_currency as Currency | undefined) ?? "ARS";
+}
+
+/**
+ * Returns the user's IANA timezone (default Buenos Aires).
+ */
+export async function getUserTimezone(userId: string): Promise<string> {
+    const supabase = getSupabaseClient();
+
+    const { data } = await supabase
+        .from("users")
+        .select("timezone")
+        .eq("id", userId)
+        .single();
+
+    return (data?.timezone as string | undefined) ?? DEFAULT_TIMEZONE;
+}
+
 // ---------------------------------------------------------------------------
 // Category operations
 // ---------------------------------------------------------------------------
@@ -230,6 +291,49 @@ export async function ensureDefaultAccount(userId: string): Promise<string> {
     return created!.id as string;
 }
 
+/**
+ * Creates a new (non-default) account for a user.
+ * If an account with the same name already exists, returns that one instead.
+ */
+export async function createAccount(
+    userId: string,
+    name: string,
+    type: AccountType,
+    currency: Currency = "ARS",
+): Promise<AccountRow> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("accounts")
+        .insert({
+            user_id: userId,
+            name,
+            type,
+            currency,
+            is_default: false,
+        })
+        .select("*")
+        .single();
+
+    if (error) {
+        // uq_user_account_name: the account already exists (double-tap or race)
+        if (error.code === "23505") {
+            const { data: existing } = await supabase
+                .from("accounts")
+                .select("*")
+                .eq("user_id", userId)
+                .eq("name", name)
+                .single();
+
+            if (existing) return existing as AccountRow;
+        }
+        throw new Error(`Failed to create account "${name}": ${error.message}`);
+    }
+
+    console.log(`[SUMA] 🏦 Account created: ${name} (${type}) for user ${userId.slice(0, 8)}`);
+    return data as AccountRow;
+}
+
 /**
  * Lists all accounts for a user.
  */
@@ -250,6 +354,26 @@ export async function getUserAccounts(userId: string): Promise<AccountRow[]> {
     return data as AccountRow[];
 }
 
+/**
+ * Gets one of a user's accounts by ID, or null if it doesn't exist.
+ */
+export async function getAccount(userId: string, accountId: string): Promise<AccountRow | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("accounts")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("id", accountId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to fetch account: ${error.message}`);
+    }
+
+    return data as AccountRow | null;
+}
+
 // ---------------------------------------------------------------------------
 // Transaction operations
 // ---------------------------------------------------------------------------
@@ -278,27 +402,294 @@ export async function insertTransaction(
 }
 
 /**
- * Counts transactions for a user in the current month.
- * Excludes soft-deleted transactions (deleted_at IS NOT NULL).
+ * Inserts several transactions in a single statement (all or nothing),
+ * e.g. the installments of one purchase, each with its own occurred_at.
+ * Returns the inserted rows.
  */
-export async function getMonthlyTransactionCount(userId: string): Promise<number> {
+export async function insertTransactions(
+    transactions: Array<Omit<TransactionRow, "id" | "created_at">>
+): Promise<TransactionRow[]> {
     const supabase = getSupabaseClient();
 
-    // date_trunc('month', now()) en Supabase se logra con un filtro manual
-    const now = new Date();
-    const firstOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
+    const { data, error } = await supabase
+        .from("transactions")
+        .insert(transactions)
+        .select();
+
+    if (error) {
+        console.error("[SUMA] Supabase bulk transaction insert error:", error);
+        throw new Error(`Failed to save transactions: ${error.message}`);
+    }
+
+    return data as TransactionRow[];
+}
 
-    const { count, error } = await supabase
+/**
+ * Lists installment rows due after `from` (not yet charged), oldest first.
+ * Excludes soft-deleted transactions.
+ */
+export async function getFutureInstallments(
+    userId: string,
+    from: Date,
+): Promise<TransactionRow[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
         .from("transactions")
-        .select("id", { count: "exact", head: true })
+        .select("*")
+        .eq("user_id", userId)
+        .not("installment_group_id", "is", null)
+        .gt("occurred_at", from.toISOString())
+        .is("deleted_at", null)
+        .order("occurred_at", { ascending: true });
+
+    if (error) {
+        console.error("[SUMA] Failed to fetch future installments:", error);
+        throw new Error(`Failed to fetch installments: ${error.message}`);
+    }
+
+    return data as TransactionRow[];
+}
+
+/**
+ * Soft-deletes a transaction (undo) by setting deleted_at.
+ * Installment purchases are undone as a whole: every row sharing the
+ * installment_group_id is deleted too.
+ * Returns the number of rows deleted (0 if it was already deleted).
+ */
+export async function softDeleteTransaction(
+    userId: string,
+    transactionId: string,
+): Promise<number> {
+    const supabase = getSupabaseClient();
+
+    const { data: row } = await supabase
+        .from("transactions")
+        .select("id, installment_group_id")
+        .eq("id", transactionId)
+        .eq("user_id", userId)
+        .is("deleted_at", null)
+        .single();
+
+    if (!row) return 0;
+
+    let query = supabase
+        .from("transactions")
+        .update({ deleted_at: new Date().toISOString() })
         .eq("user_id", userId)
-        .gte("created_at", firstOfMonth)
         .is("deleted_at", null);
 
+    query = row.installment_group_id
+        ? query.eq("installment_group_id", row.installment_group_id)
+        : query.eq("id", transactionId);
+
+    const { data, error } = await query.select("id");
+
+    if (error) {
+        console.error("[SUMA] Failed to soft-delete transaction:", error);
+        throw new Error(`Failed to undo transaction: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+}
+
+/**
+ * Soft-deletes every transaction saved together from one message (batch undo).
+ * Returns the number of rows deleted (0 if they were already deleted).
+ */
+export async function softDeleteBatch(
+    userId: string,
+    batchId: string,
+): Promise<number> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("transactions")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("user_id", userId)
+        .eq("batch_id", batchId)
+        .is("deleted_at", null)
+        .select("id");
+
     if (error) {
-        console.error("[SUMA] Failed to count monthly transactions:", error);
+        console.error("[SUMA] Failed to soft-delete batch:", error);
+        throw new Error(`Failed to undo batch: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+}
+
+/**
+ * Counts transactions for a user in the current calendar month of their
+ * timezone (free-tier limit), the same month the summaries use.
+ * Excludes soft-deleted transactions (deleted_at IS NOT NULL).
+ */
+export async function getMonthlyTransactionCount(
+    userId: string,
+    now: Date = new Date(),
+): Promise<number> {
+    const timezone = await getUserTimezone(userId);
+    const { year, month } = getZonedParts(now, timezone);
+    const firstOfMonth = zonedTimeToUtc(year, month, 1, 0, 0, timezone);
+    // Upper bound: future installments are dated in later months
+    const firstOfNextMonth = month === 12
+        ? zonedTimeToUtc(year + 1, 1, 1, 0, 0, timezone)
+        : zonedTimeToUtc(year, month + 1, 1, 0, 0, timezone);
+
+    return getTransactionCount(userId, firstOfMonth, firstOfNextMonth);
+}
+
+/**
+ * Counts non-deleted transactions for a user that occurred in [from, to).
+ * Without `to`, counts everything from `from` onwards. A purchase in
+ * installments counts once, in the month of its first installment: the
+ * later ones were saved with it, not sent by the user that month.
+ */
+export async function getTransactionCount(
+    userId: string,
+    from: Date,
+    to?: Date,
+): Promise<number> {
+    const supabase = getSupabaseClient();
+
+    let query = supabase
+        .from("transactions")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .gte("occurred_at", from.toISOString())
+        .is("deleted_at", null)
+        .or("installment_current.is.null,installment_current.eq.1");
+
+    if (to) {
+        query = query.lt("occurred_at", to.toISOString());
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+        console.error("[SUMA] Failed to count transactions:", error);
         throw new Error(`Failed to count transactions: ${error.message}`);
     }
 
     return count ?? 0;
 }
+
+// ---------------------------------------------------------------------------
+// Aggregations (query engine)
+// ---------------------------------------------------------------------------
+
+const UNCATEGORIZED = "sin categoría";
+
+/**
+ * Reads one calendar month (1-12) from the v_monthly_summary view.
+ * The view already excludes soft-deleted transactions (migration_011),
+ * sums amounts in the user's base currency (migration_014) and buckets
+ * by occurred_at in the user's timezone (migration_016).
+ */
+export async function getMonthlySummary(
+    userId: string,
+    year: number,
+    month: number,
+): Promise<CategoryTotal[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("v_monthly_summary")
+        .select("transaction_type, category, transaction_count, total_amount")
+        .eq("user_id", userId)
+        .eq("month", `${year}-${String(month).padStart(2, "0")}-01`);
+
+    if (error) {
+        console.error("[SUMA] Failed to read monthly summary:", error);
+        throw new Error(`Failed to read monthly summary: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => ({
+        type: row.transaction_type as TransactionType,
+        category: (row.category as string | null) ?? UNCATEGORIZED,
+        total: Number(row.total_amount),
+        count: Number(row.transaction_count),
+    }));
+}
+
+/**
+ * Aggregates non-deleted transactions that occurred in [from, to) by type and category,
+ * in the user's base currency (amount_base). Balance adjustments are skipped,
+ * like in v_monthly_summary (migration_015). Summed in SQL by the
+ * period_summary function (migration_034), so no row limit cuts it short.
+ * Used for periods that don't align with a calendar month (weeks, days).
+ */
+export async function getPeriodSummary(
+    userId: string,
+    from: Date,
+    to: Date,
+): Promise<CategoryTotal[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase.rpc("period_summary", {
+        p_user_id: userId,
+        p_from: from.toISOString(),
+        p_to: to.toISOString(),
+    });
+
+    if (error) {
+        console.error("[SUMA] Failed to read period summary:", error);
+        throw new Error(`Failed to read transactions: ${error.message}`);
+    }
+
+    // Categories with the same name (global and the user's) add up together
+    const totals = new Map<string, CategoryTotal>();
+
+    for (const row of (data ?? []) as PeriodSummaryRow[]) {
+        const categoryName = row.category ?? UNCATEGORIZED;
+        const type = row.transaction_type as TransactionType;
+        const key = `${type}:${categoryName}`;
+
+        const entry = totals.get(key) ?? { type, category: categoryName, total: 0, count: 0 };
+        entry.total += Number(row.total_amount);
+        entry.count += Number(row.transaction_count);
+        totals.set(key, entry);
+    }
+
+    return [...totals.values()];
+}
+
+/**
+ * The `limit` biggest non-deleted expenses that occurred in [from, to),
+ * by amount in the user's base currency. Adjustments are skipped.
+ */
+export async function getLargestExpenses(
+    userId: string,
+    from: Date,
+    to: Date,
+    limit: number,
+): Promise<DigestExpense[]> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+        .from("transactions")
+        .select("description, amount, amount_base, occurred_at, categories(name)")
+        .eq("user_id", userId)
+        .eq("type", "expense")
+        .gte("occurred_at", from.toISOString())
+        .lt("occurred_at", to.toISOString())
+        .is("deleted_at", null)
+        .eq("is_adjustment", false)
+        .order("amount_base", { ascending: false, nullsFirst: false })
+        .limit(limit);
+
+    if (error) {
+        console.error("[SUMA] Failed to read largest expenses:", error);
+        throw new Error(`Failed to read transactions: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => {
+        const joined = row.categories as { name: string } | { name: string }[] | null;
+        return {
+            description: row.description as string,
+            category: (Array.isArray(joined) ? joined[0]?.name : joined?.name) ?? UNCATEGORIZED,
+            amount: Number(row.amount_base ?? row.amount),
+            occurred_at: row.occurred_at as string,
+        };
+    });
+}
@@ -0,0 +1,390 @@
+// ============================================================================
+// WhatsApp Client — The one place that talks to the Cloud API
+//
+// Every call to the Graph API goes through here: messages (text, buttons,
+// lists, templates, reactions), mark-as-read and media upload/download.
+// Rate limits (429) and 5xx errors are retried with exponential backoff,
+// and every message sent is logged in outbound_messages (message-log.ts).
+//
+// Requests go out through a transport — fetch by default. Tests and the
+// local simulator swap it with setWhatsAppTransport (or per client) to
+// capture outbound traffic instead of calling Meta.
+// ============================================================================
+
+import type { MediaContent, OutboundKind, OutboundRefs } from "../types/index.js";
+import { recordOutboundMessage } from "./message-log.js";
+
+const WA_API_BASE = "https://graph.facebook.com/v21.0";
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 800;
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+/** Performs one HTTP request; same contract as fetch */
+export type WhatsAppTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+const fetchTransport: WhatsAppTransport = (url, init) => fetch(url, init);
+
+let defaultTransport: WhatsAppTransport = fetchTransport;
+
+/** Replaces the transport of every client (null restores fetch) */
+export function setWhatsAppTransport(transport: WhatsAppTransport | null): void {
+    defaultTransport = transport ?? fetchTransport;
+}
+
+/** A request captured by a capture transport, with its JSON body parsed */
+export interface CapturedRequest {
+    url: string;
+    method: string;
+    body: Record<string, unknown> | null;
+    wamid?: string;          // The fake wamid answered, for message sends
+}
+
+/** Host of the download URLs a capture transport hands out for its media */
+const CAPTURE_MEDIA_HOST = "https://lookaside.local";
+
+/**
+ * A transport that answers like the Cloud API without calling it: messages
+ * get a fake wamid, uploads a fake media ID, and the files in `media` can be
+ * downloaded by their ID (as if the user had sent them). Every request is
+ * kept in `requests`, in order.
+ */
+export function createCaptureTransport(
+    options: { media?: Map<string, MediaContent> } = {},
+): { transport: WhatsAppTransport; requests: CapturedRequest[] } {
+    const requests: CapturedRequest[] = [];
+    const media = options.media ?? new Map<string, MediaContent>();
+    let counter = 0;
+
+    const json = (response: unknown, status = 200): Response =>
+        new Response(JSON.stringify(response), {
+            status,
+            headers: { "Content-Type": "application/json" },
+        });
+
+    const transport: WhatsAppTransport = async (url, init) => {
+        const body = typeof init.body === "string"
+            ? JSON.parse(init.body) as Record<string, unknown>
+            : null;
+        const method = init.method ?? "GET";
+        const request: CapturedRequest = { url, method, body };
+        requests.push(request);
+        counter++;
+
+        if (method === "GET") {
+            const mediaId = url.split("/").pop() ?? "";
+            const file = media.get(mediaId);
+            if (!file) {
+                return json({ error: { message: `Unknown media ${mediaId}`, code: 100 } }, 404);
+            }
+            if (url.startsWith(CAPTURE_MEDIA_HOST)) {
+                return new Response(new Uint8Array(file.data), {
+                    status: 200,
+                    headers: { "Content-Type": file.mimeType },
+                });
+            }
+            return json({
+                url: `${CAPTURE_MEDIA_HOST}/${mediaId}`,
+                mime_type: file.mimeType,
+                sha256: "",
+                file_size: file.data.length,
+                id: mediaId,
+            });
+        }
+
+        if (url.endsWith("/media")) return json({ id: `media.local.${counter}` });
+        if (body?.status === "read") return json({ success: true });
+
+        request.wamid = `wamid.local.${counter}`;
+        return json({ messaging_product: "whatsapp", messages: [{ id: request.wamid }] });
+    };
+
+    return { transport, requests };
+}
+
+// ---------------------------------------------------------------------------
+// Requests with retry
+// ---------------------------------------------------------------------------
+
+/**
+ * Determines if an HTTP error is transient (worth retrying).
+ */
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+/**
+ * Sleeps for a given number of milliseconds.
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends a request with automatic retry on transient errors.
+ * Uses exponential backoff: 800ms → 1600ms → 3200ms.
+ */
+async function requestWithRetry(
+    transport: WhatsAppTransport,
+    url: string,
+    options: RequestInit,
+    context: string
+): Promise<Response> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+        let res: Response;
+        try {
+            res = await transport(url, options);
+        } catch (err) {
+            // Network error (timeout, DNS, etc.) → retry
+            lastError = err instanceof Error ? err : new Error(String(err));
+            console.warn(
+                `[SUMA] ⚠️ ${context} attempt ${attempt + 1}/${MAX_RETRIES + 1} network error: ${lastError.message}`
+            );
+            if (attempt < MAX_RETRIES) await sleep(BASE_DELAY_MS * Math.pow(2, attempt));
+            continue;
+        }
+
+        if (res.ok) return res;
+
+        // Non-retryable HTTP error → fail immediately
+        const body = await res.text();
+        if (!isRetryableStatus(res.status)) {
+            console.error(`[SUMA] ❌ ${context} failed (${res.status}):`, body);
+            throw new Error(`${context} failed: HTTP ${res.status} — ${body}`);
+        }
+
+        // Retryable error → log and retry
+        lastError = new Error(`${context}: HTTP ${res.status} — ${body}`);
+        console.warn(
+            `[SUMA] ⚠️ ${context} attempt ${attempt + 1}/${MAX_RETRIES + 1} failed (${res.status})`
+        );
+        if (attempt < MAX_RETRIES) await sleep(BASE_DELAY_MS * Math.pow(2, attempt));
+    }
+
+    throw lastError ?? new Error(`${context} failed after ${MAX_RETRIES + 1} attempts`);
+}
+
+// ---------------------------------------------------------------------------
+// Media download (only needs the token)
+// ---------------------------------------------------------------------------
+
+interface MediaMetaResponse {
+    url: string;
+    mime_type: string;
+    sha256: string;
+    file_size: number;
+    id: string;
+}
+
+/**
+ * Downloads a media file from WhatsApp Cloud API given its media ID.
+ *
+ * Two-step process with retry on each step:
+ *   1. GET /v21.0/{media_id} → retrieves the download URL
+ *   2. GET {download_url}   → downloads the binary file
+ */
+export async function downloadWhatsAppMedia(
+    mediaId: string,
+    apiToken: string,
+    transport: WhatsAppTransport = defaultTransport,
+): Promise<MediaContent> {
+    const headers = { Authorization: `Bearer ${apiToken}` };
+
+    // Step 1: Get media metadata (download URL)
+    const metaRes = await requestWithRetry(
+        transport,
+        `${WA_API_BASE}/${mediaId}`,
+        { headers },
+        `Media metadata ${mediaId}`
+    );
+
+    const meta = (await metaRes.json()) as MediaMetaResponse;
+
+    // Step 2: Download the binary file
+    const fileRes = await requestWithRetry(
+        transport,
+        meta.url,
+        { headers },
+        `Media download ${mediaId}`
+    );
+
+    const data = Buffer.from(await fileRes.arrayBuffer());
+
+    console.log(
+        `[SUMA] 📥 Media downloaded: ${mediaId} (${meta.mime_type}, ${data.length} bytes)`
+    );
+
+    return { data, mimeType: meta.mime_type };
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/** How a sent message is logged in outbound_messages */
+export interface SendOptions {
+    kind?: OutboundKind;     // Defaults to "reply"
+    refs?: OutboundRefs;
+}
+
+export interface ReplyButton {
+    id: string;              // Comes back as the button_reply ID
+    title: string;           // Max 20 chars
+}
+
+export interface ListSection {
+    title: string;
+    rows: Array<{ id: string; title: string; description?: string }>;
+}
+
+export interface TemplateMessage {
+    name: string;
+    language: string;
+    components: Array<Record<string, unknown>>;
+}
+
+export interface WhatsAppClient {
+    /** Sends any message body; returns the wamid */
+    send(to: string, body: Record<string, unknown>, options?: SendOptions): Promise<string | null>;
+    sendText(to: string, text: string, options?: SendOptions): Promise<string | null>;
+    /** Up to 3 reply buttons */
+    sendButtons(to: string, text: string, buttons: ReplyButton[], options?: SendOptions): Promise<string | null>;
+    sendList(
+        to: string,
+        list: { header?: string; text: string; button: string; sections: ListSection[] },
+        options?: SendOptions,
+    ): Promise<string | null>;
+    sendTemplate(to: string, template: TemplateMessage, options?: SendOptions): Promise<string | null>;
+    sendReaction(to: string, messageId: string, emoji: string): Promise<string | null>;
+    /** Marks an inbound message as read (blue ticks) */
+    markAsRead(messageId: string): Promise<void>;
+    /** Uploads a file for later sends; returns its media ID */
+    uploadMedia(data: Buffer, mimeType: string, filename?: string): Promise<string>;
+    downloadMedia(mediaId: string): Promise<MediaContent>;
+}
+
+/**
+ * Creates a client for one business phone number. `transport` overrides
+ * the default one (see setWhatsAppTransport) for this client only.
+ */
+export function createWhatsAppClient(params: {
+    phoneNumberId: string;
+    apiToken: string;
+    transport?: WhatsAppTransport;
+}): WhatsAppClient {
+    const transport = params.transport ?? defaultTransport;
+    const messagesUrl = `${WA_API_BASE}/${params.phoneNumberId}/messages`;
+    const jsonHeaders = {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${params.apiToken}`,
+    };
+
+    /**
+     * Sends one message and logs it — with the wamid the API returns (the
+     * key its delivery status webhooks come back with), or with the error
+     * once retries are exhausted.
+     */
+    async function send(to: string, body: Record<string, unknown>, options: SendOptions = {}): Promise<string | null> {
+        const log = { recipient: to, kind: options.kind ?? "reply", body, refs: options.refs };
+
+        let res: Response;
+        try {
+            res = await requestWithRetry(transport, messagesUrl, {
+                method: "POST",
+                headers: jsonHeaders,
+                body: JSON.stringify({
+                    messaging_product: "whatsapp",
+                    to,
+                    ...body,
+                }),
+            }, `WhatsApp send to ${to}`);
+        } catch (err) {
+            const errorMsg = err instanceof Error ? err.message : String(err);
+            await recordOutboundMessage({ ...log, wamid: null, error: errorMsg });
+            throw err;
+        }
+
+        const data = (await res.json().catch(() => null)) as { messages?: Array<{ id: string }> } | null;
+        const wamid = data?.messages?.[0]?.id ?? null;
+        await recordOutboundMessage({ ...log, wamid });
+        return wamid;
+    }
+
+    return {
+        send,
+
+        sendText: (to, text, options) =>
+            send(to, { type: "text", text: { body: text } }, options),
+
+        sendButtons: (to, text, buttons, options) =>
+            send(to, {
+                type: "interactive",
+                interactive: {
+                    type: "button",
+                    body: { text },
+                    action: {
+                        buttons: buttons.map((b) => ({ type: "reply", reply: { id: b.id, title: b.title } })),
+                    },
+                },
+            }, options),
+
+        sendList: (to, list, options) =>
+            send(to, {
+                type: "interactive",
+                interactive: {
+                    type: "list",
+                    ...(list.header ? { header: { type: "text", text: list.header } } : {}),
+                    body: { text: list.text },
+                    action: { button: list.button, sections: list.sections },
+                },
+            }, options),
+
+        sendTemplate: (to, template, options) =>
+            send(to, {
+                type: "template",
+                template: {
+                    name: template.name,
+                    language: { code: template.language },
+                    components: template.components,
+                },
+            }, options),
+
+        sendReaction: (to, messageId, emoji) =>
+            send(to, { type: "reaction", reaction: { message_id: messageId, emoji } }),
+
+        async markAsRead(messageId) {
+            await requestWithRetry(transport, messagesUrl, {
+                method: "POST",
+                headers: jsonHeaders,
+                body: JSON.stringify({
+                    messaging_product: "whatsapp",
+                    status: "read",
+                    message_id: messageId,
+                }),
+            }, `Mark as read ${messageId}`);
+        },
+
+        async uploadMedia(data, mimeType, filename = "file") {
+            const form = new FormData();
+            form.append("messaging_product", "whatsapp");
+            form.append("type", mimeType);
+            form.append("file", new Blob([new Uint8Array(data)], { type: mimeType }), filename);
+
+            const res = await requestWithRetry(transport, `${WA_API_BASE}/${params.phoneNumberId}/media`, {
+                method: "POST",
+                headers: { Authorization: `Bearer ${params.apiToken}` },
+                body: form,
+            }, "Media upload");
+
+            const { id } = (await res.json()) as { id: string };
+            console.log(`[SUMA] 📤 Media uploaded: ${id} (${mimeType}, ${data.length} bytes)`);
+            return id;
+        },
+
+        downloadMedia: (mediaId) => downloadWhatsAppMedia(mediaId, params.apiToken, transport),
+    };
+}
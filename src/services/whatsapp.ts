@@ -2,9 +2,28 @@
 // WhatsApp Cloud API — send messages back to the user
 // ============================================================================
 
-import type { ParsedTransactionData, ParsedSubscription, TransactionType } from "../types/index.js";
-
-const WA_API_BASE = "https://graph.facebook.com/v21.0";
+import type {
+  ParsedTransactionData,
+  ParsedSubscription,
+  TransactionType,
+  AccountType,
+  CategoryTotal,
+  BalanceAdjustment,
+  BudgetAlert,
+  BudgetStatus,
+  Currency,
+  InstallmentsOutlook,
+  SavingsGoalProgress,
+  SubscriptionOverview,
+  SubscriptionRow,
+  SpendingDigest,
+  DigestSettings,
+  OutboundKind,
+  OutboundRefs,
+} from "../types/index.js";
+import { buildInstallmentPlan } from "./installments.js";
+import { createWhatsAppClient } from "./whatsapp-client.js";
+import { formatLocalDate } from "../utils/dates.js";
 
 interface SendMessageParams {
   to: string;
@@ -17,32 +36,22 @@ interface SendMessageParams {
 // Generic WhatsApp API caller (private)
 // ---------------------------------------------------------------------------
 
+/**
+ * Sends one message through the shared client (whatsapp-client.ts), which
+ * retries transient errors and logs it. Returns the wamid.
+ */
 async function callWhatsAppAPI(params: {
   phoneNumberId: string;
   apiToken: string;
   to: string;
   body: Record<string, unknown>;
-}): Promise<void> {
-  const url = `${WA_API_BASE}/${params.phoneNumberId}/messages`;
-
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${params.apiToken}`,
-    },
-    body: JSON.stringify({
-      messaging_product: "whatsapp",
-      to: params.to,
-      ...params.body,
-    }),
+  kind?: OutboundKind;
+  refs?: OutboundRefs;
+}): Promise<string | null> {
+  return createWhatsAppClient(params).send(params.to, params.body, {
+    kind: params.kind,
+    refs: params.refs,
   });
-
-  if (!res.ok) {
-    const errBody = await res.text();
-    console.error(`[SUMA] ❌ WhatsApp API error (${res.status}):`, errBody);
-    throw new Error(`WhatsApp send failed: ${res.status}`);
-  }
 }
 
 /**
@@ -54,27 +63,201 @@ export async function sendWhatsAppMessage({
   phoneNumberId,
   apiToken,
 }: SendMessageParams): Promise<void> {
-  const url = `${WA_API_BASE}/${phoneNumberId}/messages`;
-
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiToken}`,
-    },
-    body: JSON.stringify({
-      messaging_product: "whatsapp",
-      to,
+  await callWhatsAppAPI({
+    phoneNumberId,
+    apiToken,
+    to,
+    body: {
       type: "text",
       text: { body: text },
-    }),
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Template messages (outside the 24h customer service window)
+//
+// Meta only delivers free-form messages (text, interactive) within 24h of
+// the user's last message. Proactive messages (reminders, charges, digests)
+// go through sendWithinSession, which sends the free-form version while the
+// window is open and the approved template otherwise. Quick reply buttons of
+// a template carry the same IDs as the interactive ones, so tapping them
+// lands in the same handler.
+// ---------------------------------------------------------------------------
+
+/** How long after the user's last message free-form messages are allowed */
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+interface TemplateDefinition {
+  name: string;          // As approved in WhatsApp Manager
+  languages: string[];   // Approved locales, the first one is the default
+  params: string[];      // Named body parameters ({{service_name}})
+  buttons: number;       // Quick reply buttons; their payloads are set per send
+}
+
+/** Approved templates, by what they are used for */
+export const TEMPLATES = {
+  renewal_reminder: {
+    name: "suma_renewal_reminder",
+    languages: ["es_AR", "es"],
+    params: ["service_name", "end_date"],
+    buttons: 2, // Renovar / Cancelar
+  },
+  charge_reminder: {
+    name: "suma_charge_reminder",
+    languages: ["es_AR", "es"],
+    params: ["service_name", "amount", "charge_date"],
+    buttons: 1, // Gestionar
+  },
+  trial_reminder: {
+    name: "suma_trial_reminder",
+    languages: ["es_AR", "es"],
+    params: ["service_name", "charge_date"],
+    buttons: 2, // Cancelar / Me la quedo
+  },
+  subscription_charged: {
+    name: "suma_subscription_charged",
+    languages: ["es_AR", "es"],
+    params: ["service_name", "amount", "next_date"],
+    buttons: 1, // Deshacer
+  },
+  spending_digest: {
+    name: "suma_spending_digest",
+    languages: ["es_AR", "es"],
+    params: ["period", "expenses", "income"],
+    buttons: 0,
+  },
+  savings_nudge: {
+    name: "suma_savings_nudge",
+    languages: ["es_AR", "es"],
+    params: ["goals"],
+    buttons: 0,
+  },
+} satisfies Record<string, TemplateDefinition>;
+
+export type TemplateKey = keyof typeof TEMPLATES;
+
+/** One send of a template: which one, its parameter values and button payloads */
+export interface TemplateCall {
+  key: TemplateKey;
+  params: Record<string, string>;
+  buttonPayloads?: string[];
+  language?: string;     // Falls back to the template's default locale
+}
+
+/** True while free-form messages can be sent (user wrote in the last 24h) */
+export function isSessionOpen(lastInboundAt: string | null | undefined, now: Date = new Date()): boolean {
+  return !!lastInboundAt && now.getTime() - new Date(lastInboundAt).getTime() < SESSION_WINDOW_MS;
+}
+
+/** Meta rejects parameters with newlines, tabs or more than 4 spaces in a row */
+function cleanTemplateParam(value: string): string {
+  return value.replace(/[\n\t]+/g, " ").replace(/ {4,}/g, "   ").trim();
+}
+
+/**
+ * Sends an approved template message. Throws when a parameter or button
+ * payload the template needs is missing, before calling the API.
+ */
+export async function sendTemplateMessage(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  refs?: OutboundRefs;
+} & TemplateCall): Promise<string | null> {
+  const template: TemplateDefinition = TEMPLATES[params.key];
+  const language = params.language && template.languages.includes(params.language)
+    ? params.language
+    : template.languages[0];
+
+  const missing = template.params.filter((p) => !params.params[p]);
+  if (missing.length > 0) {
+    throw new Error(`Template ${template.name} is missing parameters: ${missing.join(", ")}`);
+  }
+
+  const payloads = params.buttonPayloads ?? [];
+  if (payloads.length !== template.buttons) {
+    throw new Error(`Template ${template.name} needs ${template.buttons} button payloads, got ${payloads.length}`);
+  }
+
+  const components: Array<Record<string, unknown>> = [];
+  if (template.params.length > 0) {
+    components.push({
+      type: "body",
+      parameters: template.params.map((name) => ({
+        type: "text",
+        parameter_name: name,
+        text: cleanTemplateParam(params.params[name]),
+      })),
+    });
+  }
+  payloads.forEach((payload, index) => {
+    components.push({
+      type: "button",
+      sub_type: "quick_reply",
+      index: String(index),
+      parameters: [{ type: "payload", payload }],
+    });
+  });
+
+  return callWhatsAppAPI({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    kind: params.key,
+    refs: params.refs,
+    body: {
+      type: "template",
+      template: {
+        name: template.name,
+        language: { code: language },
+        components,
+      },
+    },
   });
+}
 
-  if (!res.ok) {
-    const errBody = await res.text();
-    console.error(`[SUMA] WhatsApp API error (${res.status}):`, errBody);
-    throw new Error(`WhatsApp send failed: ${res.status}`);
+/**
+ * Sends a proactive message: `body` as-is while the session window is open,
+ * the template otherwise. Either way it is logged as the template's kind.
+ * Returns the wamid.
+ */
+async function sendWithinSession(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  lastInboundAt: string | null;
+  body: Record<string, unknown>;
+  template: TemplateCall;
+  refs?: OutboundRefs;
+}): Promise<string | null> {
+  if (isSessionOpen(params.lastInboundAt)) {
+    return callWhatsAppAPI({ ...params, kind: params.template.key });
   }
+
+  console.log(`[SUMA] 📨 Session window closed for ${params.to} — sending template ${TEMPLATES[params.template.key].name}`);
+  return sendTemplateMessage({ ...params, ...params.template });
+}
+
+/**
+ * Sends a proactive text message, or its template when the session window
+ * is closed (digests, savings nudges).
+ */
+export async function sendNotificationText(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  lastInboundAt: string | null;
+  text: string;
+  template: TemplateCall;
+}): Promise<void> {
+  await sendWithinSession({
+    ...params,
+    body: {
+      type: "text",
+      text: { body: params.text },
+    },
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -85,6 +268,7 @@ const TYPE_LABELS: Record<TransactionType, { emoji: string; label: string }> = {
   expense: { emoji: "💸", label: "Gasto registrado" },
   income: { emoji: "💰", label: "Ingreso registrado" },
   transfer: { emoji: "🔄", label: "Transferencia registrada" },
+  savings: { emoji: "🐷", label: "Ahorro registrado" },
 };
 
 /**
@@ -94,7 +278,7 @@ const TYPE_LABELS: Record<TransactionType, { emoji: string; label: string }> = {
 export function formatTransactionSuccess(data: ParsedTransactionData): string {
   const formatted = data.amount.toLocaleString("es-AR", {
     style: "currency",
-    currency: "ARS",
+    currency: data.currency ?? "ARS",
     minimumFractionDigits: 0,
   });
 
@@ -181,6 +365,7 @@ export async function sendSimpleText(params: {
 
 /**
  * Sends a confirmation message with "Sí, confirmar" / "No, corregir" buttons.
+ * `labels` overrides the button titles (batches: "Confirmar todo").
  */
 export async function sendConfirmationButtons(params: {
   to: string;
@@ -188,11 +373,14 @@ export async function sendConfirmationButtons(params: {
   apiToken: string;
   summaryText: string;
   confirmationId: string;
+  labels?: { confirm: string; correct: string };
 }): Promise<void> {
   await callWhatsAppAPI({
     phoneNumberId: params.phoneNumberId,
     apiToken: params.apiToken,
     to: params.to,
+    refs: { confirmation_id: params.confirmationId },
+    kind: "confirmation",
     body: {
       type: "interactive",
       interactive: {
@@ -204,14 +392,14 @@ export async function sendConfirmationButtons(params: {
               type: "reply",
               reply: {
                 id: `confirm_yes_${params.confirmationId}`,
-                title: "✅ Sí, confirmar",
+                title: params.labels?.confirm ?? "✅ Sí, confirmar",
               },
             },
             {
               type: "reply",
               reply: {
                 id: `confirm_no_${params.confirmationId}`,
-                title: "❌ No, corregir",
+                title: params.labels?.correct ?? "❌ No, corregir",
               },
             },
           ],
@@ -223,6 +411,7 @@ export async function sendConfirmationButtons(params: {
 
 /**
  * Sends a post-confirmation message with an "Undo" button after saving.
+ * With `batchId`, the button undoes every transaction of the batch.
  */
 export async function sendPostConfirmationButtons(params: {
   to: string;
@@ -230,11 +419,13 @@ export async function sendPostConfirmationButtons(params: {
   apiToken: string;
   summaryText: string;
   transactionId: string;
+  batchId?: string;
 }): Promise<void> {
   await callWhatsAppAPI({
     phoneNumberId: params.phoneNumberId,
     apiToken: params.apiToken,
     to: params.to,
+    refs: { transaction_id: params.transactionId },
     body: {
       type: "interactive",
       interactive: {
@@ -245,7 +436,9 @@ export async function sendPostConfirmationButtons(params: {
             {
               type: "reply",
               reply: {
-                id: `undo_${params.transactionId}`,
+                id: params.batchId
+                  ? `undo_batch_${params.batchId}`
+                  : `undo_${params.transactionId}`,
                 title: "❌ Deshacer",
               },
             },
@@ -276,6 +469,7 @@ export async function sendFieldSelectionList(params: {
     phoneNumberId: params.phoneNumberId,
     apiToken: params.apiToken,
     to: params.to,
+    refs: { confirmation_id: params.confirmationId },
     body: {
       type: "interactive",
       interactive: {
@@ -296,111 +490,84 @@ export async function sendFieldSelectionList(params: {
   });
 }
 
-// ---------------------------------------------------------------------------
-// Summary builders (for confirmation messages)
-// ---------------------------------------------------------------------------
-
-const TYPE_DISPLAY: Record<TransactionType, string> = {
-  expense: "Gasto",
-  income: "Ingreso",
-  transfer: "Transferencia",
-};
-
-const FREQUENCY_DISPLAY: Record<string, string> = {
-  monthly: "Mensual",
-  annual: "Anual",
-  weekly: "Semanal",
-};
-
-function formatARS(amount: number): string {
-  return amount.toLocaleString("es-AR", {
-    style: "currency",
-    currency: "ARS",
-    minimumFractionDigits: 0,
-  });
-}
-
 /**
- * Builds a summary text for transaction confirmation.
- */
-export function buildTransactionSummary(data: ParsedTransactionData): string {
-  return [
-    `¿Registramos este movimiento?\n`,
-    `💸 *Tipo:* ${TYPE_DISPLAY[data.type]}`,
-    `💰 *Monto:* ${formatARS(data.amount)}`,
-    `💵 *Moneda:* ARS`,
-    `🏦 *Cuenta:* ${data.account}`,
-    `📝 *Descripción:* ${data.description}`,
-    `🏷️ *Categoría:* ${data.category}`,
-  ].join("\n");
-}
-
-/**
- * Builds a summary text for subscription confirmation.
+ * Sends the list of items of a batch so the user can pick one to fix.
+ * Row IDs: item_{index}_{confirmationId}.
  */
-export function buildSubscriptionSummary(data: ParsedSubscription): string {
-  const lines = [
-    `¿Registramos esta suscripción?\n`,
-    `🔄 *Servicio:* ${data.service_name}`,
-    `💰 *Monto:* ${formatARS(data.amount)}`,
-    `📅 *Frecuencia:* ${FREQUENCY_DISPLAY[data.frequency] ?? data.frequency}`,
-    `🏦 *Cuenta:* ${data.account}`,
-  ];
-
-  if (data.end_date) {
-    const startFormatted = formatDateAR(data.start_date);
-    const endFormatted = formatDateAR(data.end_date);
-    lines.push(`📆 *Vigencia:* ${startFormatted} → ${endFormatted} (${data.duration_months} meses)`);
-  }
+export async function sendBatchItemList(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  confirmationId: string;
+  items: ParsedTransactionData[];
+}): Promise<void> {
+  const rows = params.items.map((item, index) => ({
+    id: `item_${index}_${params.confirmationId}`,
+    title: `${index + 1}. ${item.description}`.slice(0, 24),
+    description: `${TYPE_DISPLAY[item.type]} · ${formatMoney(item.amount, item.currency)} · ${item.account}`.slice(0, 72),
+  }));
 
-  return lines.join("\n");
+  await callWhatsAppAPI({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    refs: { confirmation_id: params.confirmationId },
+    body: {
+      type: "interactive",
+      interactive: {
+        type: "list",
+        header: { type: "text", text: "¿Qué movimiento corregimos?" },
+        body: { text: "Elegí el movimiento que querés editar o quitar:" },
+        action: {
+          button: "Ver movimientos",
+          sections: [
+            {
+              title: "Movimientos",
+              rows,
+            },
+          ],
+        },
+      },
+    },
+  });
 }
 
 /**
- * Sends alert prompt buttons after a subscription with end_date is confirmed.
- * Three buttons: "Sí, recordame" / "No, gracias" / "Elegir fecha"
+ * Sends "Editar" / "Quitar" buttons for one item of a batch.
+ * Button IDs: item_edit_{index}_{confirmationId} and item_del_{index}_{confirmationId}.
  */
-export async function sendAlertButtons(params: {
+export async function sendBatchItemActions(params: {
   to: string;
   phoneNumberId: string;
   apiToken: string;
-  subscriptionId: string;
-  serviceName: string;
-  endDate: string;
+  confirmationId: string;
+  index: number;
+  item: ParsedTransactionData;
 }): Promise<void> {
-  const endFormatted = formatDateAR(params.endDate);
   await callWhatsAppAPI({
     phoneNumberId: params.phoneNumberId,
     apiToken: params.apiToken,
     to: params.to,
+    refs: { confirmation_id: params.confirmationId },
     body: {
       type: "interactive",
       interactive: {
         type: "button",
-        body: {
-          text: `✅ Registrado. Tu suscripción a *${params.serviceName}* vence el ${endFormatted}.\n\n¿Querés que te envíe un recordatorio antes del vencimiento?`,
-        },
+        body: { text: `*${params.index + 1}. ${params.item.description}* — ${formatMoney(params.item.amount, params.item.currency)}\n\n¿Qué hacemos con este movimiento?` },
         action: {
           buttons: [
             {
               type: "reply",
               reply: {
-                id: `alert_yes_${params.subscriptionId}`,
-                title: "📅 Sí, recordame",
-              },
-            },
-            {
-              type: "reply",
-              reply: {
-                id: `alert_no_${params.subscriptionId}`,
-                title: "🔕 No, gracias",
+                id: `item_edit_${params.index}_${params.confirmationId}`,
+                title: "✏️ Editar",
               },
             },
             {
               type: "reply",
               reply: {
-                id: `alert_custom_${params.subscriptionId}`,
-                title: "✏️ Elegir fecha",
+                id: `item_del_${params.index}_${params.confirmationId}`,
+                title: "🗑️ Quitar",
               },
             },
           ],
@@ -410,44 +577,60 @@ export async function sendAlertButtons(params: {
   });
 }
 
+const ACCOUNT_TYPE_DISPLAY: Record<AccountType, { title: string; description: string }> = {
+  cash: { title: "💵 Efectivo", description: "Plata en mano" },
+  bank: { title: "🏦 Banco", description: "Cuenta bancaria o tarjeta de débito" },
+  digital_wallet: { title: "📱 Billetera virtual", description: "MercadoPago, Ualá, Naranja X…" },
+  credit_card: { title: "💳 Tarjeta de crédito", description: "Visa, Mastercard, Amex…" },
+};
+
 /**
- * Sends a renewal reminder message with Renew/Cancel buttons.
+ * Sends a list to pick the type of a new account when the parsed account
+ * doesn't match any existing one. The suggested type goes first.
+ * Row IDs: acct_{type}_{confirmationId} and acct_default_{confirmationId}.
  */
-export async function sendRenewalReminder(params: {
+export async function sendAccountTypeList(params: {
   to: string;
   phoneNumberId: string;
   apiToken: string;
-  subscriptionId: string;
-  serviceName: string;
-  endDate: string;
+  confirmationId: string;
+  accountName: string;
+  suggestedType: AccountType;
 }): Promise<void> {
-  const endFormatted = formatDateAR(params.endDate);
+  const types = (Object.keys(ACCOUNT_TYPE_DISPLAY) as AccountType[])
+    .sort((a, b) => Number(b === params.suggestedType) - Number(a === params.suggestedType));
+
+  const rows = types.map((type) => ({
+    id: `acct_${type}_${params.confirmationId}`,
+    title: ACCOUNT_TYPE_DISPLAY[type].title,
+    description: type === params.suggestedType
+      ? `Sugerido · ${ACCOUNT_TYPE_DISPLAY[type].description}`
+      : ACCOUNT_TYPE_DISPLAY[type].description,
+  }));
+
+  rows.push({
+    id: `acct_default_${params.confirmationId}`,
+    title: "↩️ Usar cuenta General",
+    description: "No crear una cuenta nueva",
+  });
+
   await callWhatsAppAPI({
     phoneNumberId: params.phoneNumberId,
     apiToken: params.apiToken,
     to: params.to,
+    refs: { confirmation_id: params.confirmationId },
     body: {
       type: "interactive",
       interactive: {
-        type: "button",
-        body: {
-          text: `🔔 *Recordatorio:* Tu suscripción a *${params.serviceName}* vence el ${endFormatted}.\n\n¿Querés renovarla o cancelarla?`,
-        },
+        type: "list",
+        header: { type: "text", text: "Cuenta nueva" },
+        body: { text: `No tenés una cuenta *${params.accountName}*. ¿La creo? Elegí qué tipo de cuenta es:` },
         action: {
-          buttons: [
-            {
-              type: "reply",
-              reply: {
-                id: `renew_${params.subscriptionId}`,
-                title: "🔄 Renovar",
-              },
-            },
+          button: "Elegir tipo",
+          sections: [
             {
-              type: "reply",
-              reply: {
-                id: `cancel_sub_${params.subscriptionId}`,
-                title: "❌ Cancelar",
-              },
+              title: "Tipo de cuenta",
+              rows,
             },
           ],
         },
@@ -456,30 +639,1070 @@ export async function sendRenewalReminder(params: {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Summary builders (for confirmation messages)
+// ---------------------------------------------------------------------------
+
+const TYPE_DISPLAY: Record<TransactionType, string> = {
+  expense: "Gasto",
+  income: "Ingreso",
+  transfer: "Transferencia",
+  savings: "Ahorro",
+};
+
+const FREQUENCY_DISPLAY: Record<string, string> = {
+  monthly: "Mensual",
+  annual: "Anual",
+  weekly: "Semanal",
+};
+
+/** Formats an amount in its currency: $ 15.000 / US$ 20 */
+function formatMoney(amount: number, currency: Currency = "ARS"): string {
+  return amount.toLocaleString("es-AR", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 0,
+  });
+}
+
 /**
- * Formats an ISO date string to Argentine format (DD/MM/YYYY).
+ * Builds a summary text for transaction confirmation.
  */
-function formatDateAR(isoDate: string): string {
-  const d = new Date(isoDate);
-  const day = String(d.getUTCDate()).padStart(2, "0");
-  const month = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const year = d.getUTCFullYear();
-  return `${day}/${month}/${year}`;
+export function buildTransactionSummary(data: ParsedTransactionData): string {
+  // Transfers show "De → A" and carry no category
+  if (data.type === "transfer") {
+    return [
+      `¿Registramos este movimiento?\n`,
+      `🔄 *Tipo:* ${TYPE_DISPLAY[data.type]}`,
+      `💰 *Monto:* ${formatMoney(data.amount, data.currency)}`,
+      `💵 *Moneda:* ${data.currency ?? "ARS"}`,
+      `🏦 *Cuentas:* ${data.account} → ${data.destination_account || "¿?"}`,
+      `📝 *Descripción:* ${data.description}`,
+      ...(data.occurred_on ? [`📅 *Fecha:* ${formatLocalDate(data.occurred_on)}`] : []),
+    ].join("\n");
+  }
+
+  const lines = [
+    `¿Registramos este movimiento?\n`,
+    `💸 *Tipo:* ${TYPE_DISPLAY[data.type]}`,
+    `💰 *Monto:* ${formatMoney(data.amount, data.currency)}`,
+    `💵 *Moneda:* ${data.currency ?? "ARS"}`,
+    `🏦 *Cuenta:* ${data.account}`,
+    `📝 *Descripción:* ${data.description}`,
+    `🏷️ *Categoría:* ${data.category}`,
+  ];
+
+  if (data.type === "savings") {
+    lines.push(`🎯 *Meta:* ${data.savings_goal || "sin meta"}`);
+  }
+
+  if (data.occurred_on) {
+    lines.push(`📅 *Fecha:* ${formatLocalDate(data.occurred_on)}`);
+  }
+
+  // Installment plan: N × amount, first → last month
+  if (data.installments && data.installments > 1) {
+    const start = data.occurred_on ? new Date(`${data.occurred_on}T12:00:00Z`) : new Date();
+    const plan = buildInstallmentPlan(data.amount, data.installments, start);
+    const first = plan[0].date.toISOString();
+    const last = plan[plan.length - 1].date.toISOString();
+    lines.push(`💳 *Cuotas:* ${data.installments} × ${formatMoney(plan[0].amount, data.currency)}`);
+    lines.push(`📆 *Plan:* ${formatDateAR(first).slice(3)} → ${formatDateAR(last).slice(3)}`);
+  }
+
+  return lines.join("\n");
 }
 
 /**
- * Builds the field list for transaction correction flow.
+ * Builds the confirmation text for several transactions sent in one message.
+ * Shows a total only when every item has the same type and currency.
  */
-export function buildFieldList(
-  data: ParsedTransactionData,
-): Array<{ id: string; title: string; description: string }> {
+export function buildBatchSummary(items: ParsedTransactionData[]): string {
+  const lines = [`¿Registramos estos ${items.length} movimientos?\n`];
+
+  items.forEach((item, index) => {
+    const account = item.type === "transfer"
+      ? `${item.account} → ${item.destination_account || "¿?"}`
+      : item.account;
+    const installments = item.installments && item.installments > 1 ? ` · ${item.installments} cuotas` : "";
+    const date = item.occurred_on ? ` · ${formatLocalDate(item.occurred_on).slice(0, 5)}` : "";
+
+    lines.push(`*${index + 1}.* ${TYPE_DISPLAY[item.type]} · ${formatMoney(item.amount, item.currency)} · ${item.description}`);
+    lines.push(`     🏦 ${account}${installments}${date}`);
+  });
+
+  const sameType = items.every((i) => i.type === items[0].type);
+  const sameCurrency = items.every((i) => (i.currency ?? "ARS") === (items[0].currency ?? "ARS"));
+  if (sameType && sameCurrency) {
+    const total = items.reduce((sum, i) => sum + i.amount, 0);
+    lines.push(`\n💰 *Total:* ${formatMoney(total, items[0].currency)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Builds the reply for "¿cuántas cuotas me quedan?": remaining installments
+ * per purchase, what's due in the coming months and the total committed.
+ */
+export function buildInstallmentsSummary(
+  outlook: InstallmentsOutlook,
+  currency: Currency = "ARS",
+): string {
+  if (outlook.purchases.length === 0) {
+    return "🎉 No tenés cuotas pendientes.";
+  }
+
+  const lines = [`💳 *Cuotas pendientes*`, ``];
+
+  for (const p of outlook.purchases) {
+    lines.push(`• *${p.description}:* te quedan ${p.remaining} de ${p.installmentTotal} (${formatMoney(p.remainingAmount, currency)}) · próxima ${formatDateAR(p.nextDate)}`);
+  }
+
+  lines.push("");
+  lines.push(`📅 *Próximos meses:*`);
+  for (const m of outlook.monthly.slice(0, 6)) {
+    const [year, month] = m.month.split("-");
+    lines.push(`   ${month}/${year}: ${formatMoney(m.total, currency)}`);
+  }
+
+  lines.push("");
+  lines.push(`🧾 *Total comprometido:* ${formatMoney(outlook.totalCommitted, currency)}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Builds a summary text for subscription confirmation.
+ */
+export function buildSubscriptionSummary(data: ParsedSubscription): string {
+  const lines = [
+    `¿Registramos esta suscripción?\n`,
+    `🔄 *Servicio:* ${data.service_name}`,
+    `💰 *Monto:* ${formatMoney(data.amount, data.currency)}`,
+    `📅 *Frecuencia:* ${FREQUENCY_DISPLAY[data.frequency] ?? data.frequency}`,
+    `🏦 *Cuenta:* ${data.account}`,
+  ];
+
+  if (data.trial_days && data.first_charge_date) {
+    lines.push(`🆓 *Prueba gratis:* ${data.trial_days} días → primer cobro el ${formatDateAR(data.first_charge_date)}`);
+  }
+
+  if (data.end_date) {
+    const startFormatted = formatDateAR(data.first_charge_date ?? data.start_date);
+    const endFormatted = formatDateAR(data.end_date);
+    lines.push(`📆 *Vigencia:* ${startFormatted} → ${endFormatted} (${data.duration_months} meses)`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Builds the reply after "tengo X en la cuenta Y": new balance and the
+ * adjustment that was posted (if any).
+ */
+export function buildBalanceAdjustmentSummary(result: BalanceAdjustment): string {
+  const currency = result.account.currency as Currency;
+  const balance = formatMoney(result.newBalance, currency);
+
+  if (result.delta === 0) {
+    return `👌 *${result.account.name}* ya tenía ${balance}. No hizo falta ajustar nada.`;
+  }
+
+  const sign = result.delta > 0 ? "+" : "−";
+  return [
+    `⚖️ *Saldo actualizado*`,
+    ``,
+    `🏦 *Cuenta:* ${result.account.name}`,
+    `💰 *Saldo:* ${balance}`,
+    `📝 *Ajuste:* ${sign}${formatMoney(Math.abs(result.delta), currency)} (antes ${formatMoney(result.previousBalance, currency)})`,
+    ``,
+    `_El ajuste no cuenta como gasto ni ingreso en tus resúmenes._`,
+  ].join("\n");
+}
+
+/**
+ * Builds the reply after "presupuesto de comida 80.000" (or removing it).
+ */
+export function buildBudgetSetReply(params: {
+  category: string;
+  amount: number;
+  saved: boolean;
+  currency?: Currency;
+}): string {
+  if (params.amount <= 0) {
+    return params.saved
+      ? `🗑️ Listo, saqué el presupuesto de *${params.category}*.`
+      : `🤔 No tenías presupuesto para *${params.category}*.`;
+  }
+
+  return [
+    `🎯 *Presupuesto guardado*`,
+    ``,
+    `🏷️ *Categoría:* ${params.category}`,
+    `💰 *Por mes:* ${formatMoney(params.amount, params.currency)}`,
+    ``,
+    `_Te aviso cuando llegues al 80% y al 100%._`,
+  ].join("\n");
+}
+
+/**
+ * Builds the reply for "¿cómo voy con el presupuesto?": spent and remaining
+ * per category this month (most used first).
+ */
+export function buildBudgetSummary(
+  statuses: BudgetStatus[],
+  currency: Currency = "ARS",
+): string {
+  if (statuses.length === 0) {
+    return "🎯 Todavía no tenés presupuestos. Probá con _\"presupuesto de comida 80.000\"_.";
+  }
+
+  const lines = [`🎯 *Presupuestos del mes*`];
+
+  for (const s of statuses) {
+    const icon = s.percent >= 100 ? "🔴" : s.percent >= 80 ? "🟡" : "🟢";
+    const remaining = s.remaining >= 0
+      ? `te quedan ${formatMoney(s.remaining, currency)}`
+      : `te pasaste ${formatMoney(-s.remaining, currency)}`;
+    lines.push("");
+    lines.push(`${icon} *${s.category}:* ${formatMoney(s.spent, currency)} de ${formatMoney(s.budget, currency)} (${s.percent}%)`);
+    lines.push(`   ${remaining}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Builds the warning sent after a save crosses 80% or 100% of a budget.
+ */
+export function buildBudgetAlert(alert: BudgetAlert, currency: Currency = "ARS"): string {
+  const s = alert.status;
+
+  if (alert.threshold === 100) {
+    return `🚨 Te pasaste del presupuesto de *${s.category}*: llevás ${formatMoney(s.spent, currency)} de ${formatMoney(s.budget, currency)} este mes (${s.percent}%).`;
+  }
+
+  return `⚠️ Ya usaste el ${s.percent}% de *${s.category}* este mes: te quedan ${formatMoney(s.remaining, currency)} de ${formatMoney(s.budget, currency)}.`;
+}
+
+/** "vacaciones: $ 120.000 de $ 500.000 (24%)" plus the monthly plan */
+function formatGoalProgress(p: SavingsGoalProgress, currency: Currency): string[] {
+  const lines = [`🎯 *${p.goal.name}:* ${formatMoney(p.saved, currency)} de ${formatMoney(Number(p.goal.target_amount), currency)} (${p.percent}%)`];
+
+  if (p.remaining === 0) {
+    lines.push(`   🎉 ¡Meta cumplida!`);
+  } else {
+    const months = p.monthsLeft === 1 ? "este mes" : `por mes durante ${p.monthsLeft} meses`;
+    lines.push(`   Faltan ${formatMoney(p.remaining, currency)} para el ${formatDateAR(p.goal.target_date)} → ${formatMoney(p.monthlyNeeded, currency)} ${months}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Builds the reply after "quiero ahorrar 500.000 para vacaciones en diciembre".
+ */
+export function buildSavingsGoalReply(
+  progress: SavingsGoalProgress,
+  currency: Currency = "ARS",
+): string {
+  return [
+    `🐷 *Meta de ahorro guardada*`,
+    ``,
+    ...formatGoalProgress(progress, currency),
+    ``,
+    `_Cuando apartes plata, decime "aparté 20.000 para ${progress.goal.name}"._`,
+  ].join("\n");
+}
+
+/**
+ * Builds the progress reply for savings goals: after saving money into a
+ * goal, or for "¿cómo voy con el ahorro?".
+ */
+export function buildSavingsProgress(
+  progress: SavingsGoalProgress[],
+  currency: Currency = "ARS",
+): string {
+  if (progress.length === 0) {
+    return "🐷 Todavía no tenés metas de ahorro. Probá con _\"quiero ahorrar 500.000 para vacaciones en diciembre\"_.";
+  }
+
+  const lines = [`🐷 *Tus metas de ahorro*`];
+  for (const p of progress) {
+    lines.push("");
+    lines.push(...formatGoalProgress(p, currency));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Builds the monthly nudge with how much to save to stay on track.
+ */
+export function buildSavingsNudge(
+  progress: SavingsGoalProgress[],
+  currency: Currency = "ARS",
+): string {
+  const lines = [`🐷 *¿Cómo vienen tus ahorros?*`];
+  for (const p of progress) {
+    lines.push("");
+    lines.push(...formatGoalProgress(p, currency));
+  }
+  lines.push("");
+  lines.push(`_Cuando apartes plata, avisame y lo sumo a la meta._`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Sends the savings nudge; with the session window closed, the
+ * savings_nudge template with the goal names instead.
+ */
+export async function sendSavingsNudge(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  lastInboundAt: string | null;
+  progress: SavingsGoalProgress[];
+  currency: Currency;
+}): Promise<void> {
+  await sendNotificationText({
+    ...params,
+    text: buildSavingsNudge(params.progress, params.currency),
+    template: {
+      key: "savings_nudge",
+      params: { goals: params.progress.map((p) => p.goal.name).join(", ") },
+    },
+  });
+}
+
+const QUERY_SECTIONS: Array<{ type: TransactionType; emoji: string; label: string }> = [
+  { type: "expense", emoji: "💸", label: "Gastos" },
+  { type: "income", emoji: "💰", label: "Ingresos" },
+  { type: "transfer", emoji: "🔄", label: "Transferencias" },
+  { type: "savings", emoji: "🐷", label: "Ahorros" },
+];
+
+/**
+ * Builds the reply for a "query" intent: totals per type, broken down by
+ * category (largest first), plus the income − expense balance.
+ */
+export function buildQuerySummary(params: {
+  label: string;
+  totals: CategoryTotal[];
+  category: string | null;
+  currency?: Currency;
+}): string {
+  const scope = params.category ? ` en *${params.category}*` : "";
+
+  if (params.totals.length === 0) {
+    return `📭 No tenés movimientos registrados${scope} para ${params.label}.`;
+  }
+
+  const lines = [`📊 *Resumen${params.category ? ` de ${params.category}` : ""} — ${params.label}*`];
+  const sums: Partial<Record<TransactionType, number>> = {};
+
+  for (const section of QUERY_SECTIONS) {
+    const rows = params.totals
+      .filter((t) => t.type === section.type)
+      .sort((a, b) => b.total - a.total);
+    if (rows.length === 0) continue;
+
+    const sum = rows.reduce((acc, t) => acc + t.total, 0);
+    sums[section.type] = sum;
+
+    lines.push("");
+    lines.push(`${section.emoji} *${section.label}:* ${formatMoney(sum, params.currency)}`);
+    if (!params.category) {
+      for (const row of rows) {
+        lines.push(`   • ${row.category}: ${formatMoney(row.total, params.currency)} (${row.count})`);
+      }
+    }
+  }
+
+  if (sums.income !== undefined && sums.expense !== undefined) {
+    lines.push("");
+    lines.push(`📈 *Balance:* ${formatMoney(sums.income - sums.expense, params.currency)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/** Plural weekday names ("los lunes", "los sábados"), 1=lunes at index 0 */
+const WEEKDAY_NAMES = ["lunes", "martes", "miércoles", "jueves", "viernes", "sábados", "domingos"];
+
+/**
+ * Builds the weekly or month-end digest: totals per type (expenses compared
+ * with the period before), where the money went, the biggest expenses and
+ * the subscription charges coming up.
+ */
+export function buildSpendingDigest(digest: SpendingDigest): string {
+  const weekly = digest.kind === "weekly";
+  const sumOf = (totals: CategoryTotal[], type: TransactionType) =>
+    totals.filter((t) => t.type === type).reduce((acc, t) => acc + t.total, 0);
+
+  const lines = [weekly
+    ? `🗓️ *Tu resumen semanal — ${digest.label}*`
+    : `📅 *Tu resumen de ${digest.label}*`];
+
+  if (digest.totals.length === 0) {
+    lines.push("", `📭 No registraste movimientos ${weekly ? "en la semana" : `en ${digest.label}`}.`);
+  } else {
+    lines.push("");
+    for (const section of QUERY_SECTIONS) {
+      if (!digest.totals.some((t) => t.type === section.type)) continue;
+      const sum = sumOf(digest.totals, section.type);
+      let line = `${section.emoji} *${section.label}:* ${formatMoney(sum, digest.currency)}`;
+
+      const previous = sumOf(digest.previousTotals, section.type);
+      if (section.type === "expense" && previous > 0) {
+        const change = Math.round(((sum - previous) / previous) * 100);
+        const before = weekly ? "la semana anterior" : "el mes anterior";
+        line += change === 0
+          ? ` (igual que ${before})`
+          : ` (${change > 0 ? "↗️" : "↘️"} ${Math.abs(change)}% ${change > 0 ? "más" : "menos"} que ${before})`;
+      }
+      lines.push(line);
+    }
+
+    const income = sumOf(digest.totals, "income");
+    const expense = sumOf(digest.totals, "expense");
+    if (income > 0 && expense > 0) {
+      lines.push(`📈 *Balance:* ${formatMoney(income - expense, digest.currency)}`);
+    }
+
+    const categories = digest.totals
+      .filter((t) => t.type === "expense")
+      .sort((a, b) => b.total - a.total)
+      .slice(0, 3);
+    if (categories.length > 0) {
+      lines.push("", "🏷️ *Dónde más gastaste:*");
+      for (const c of categories) {
+        const share = expense > 0 ? ` (${Math.round((c.total / expense) * 100)}%)` : "";
+        lines.push(`   • ${c.category}: ${formatMoney(c.total, digest.currency)}${share}`);
+      }
+    }
+
+    if (digest.biggestExpenses.length > 0) {
+      lines.push("", "🧾 *Gastos más grandes:*");
+      for (const e of digest.biggestExpenses) {
+        lines.push(`   • ${formatDateAR(e.occurred_at).slice(0, 5)} ${e.description}: ${formatMoney(e.amount, digest.currency)}`);
+      }
+    }
+  }
+
+  if (digest.upcomingCharges.length > 0) {
+    lines.push("", `🔄 *Próximos cobros${weekly ? " de la semana" : ""}:*`);
+    for (const c of digest.upcomingCharges) {
+      lines.push(`   • ${formatDateAR(c.date).slice(0, 5)} ${c.service_name}: ${formatMoney(c.amount, c.currency)}`);
+    }
+  }
+
+  lines.push("", `_Para dejar de recibirlo: "no quiero el resumen ${weekly ? "semanal" : "mensual"}"._`);
+  return lines.join("\n");
+}
+
+/**
+ * Sends a digest; with the session window closed, the spending_digest
+ * template with the period and its totals instead.
+ */
+export async function sendSpendingDigest(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  lastInboundAt: string | null;
+  digest: SpendingDigest;
+}): Promise<void> {
+  const { digest } = params;
+  const sumOf = (type: TransactionType) =>
+    digest.totals.filter((t) => t.type === type).reduce((acc, t) => acc + t.total, 0);
+
+  await sendNotificationText({
+    ...params,
+    text: buildSpendingDigest(digest),
+    template: {
+      key: "spending_digest",
+      params: {
+        period: digest.label,
+        expenses: formatMoney(sumOf("expense"), digest.currency),
+        income: formatMoney(sumOf("income"), digest.currency),
+      },
+    },
+  });
+}
+
+/** Reply after changing digest settings by chat */
+export function buildDigestSettingsReply(settings: DigestSettings): string {
+  const hour = `${String(settings.digest_hour).padStart(2, "0")}:00`;
+  const weekly = settings.digest_weekly
+    ? `✅ Semanal: los ${WEEKDAY_NAMES[settings.digest_weekday - 1]} desde las ${hour}`
+    : "❌ Semanal: desactivado";
+  const monthly = settings.digest_monthly
+    ? `✅ Mensual: el día 1 desde las ${hour}`
+    : "❌ Mensual: desactivado";
+
+  return [`🗓️ *Tus resúmenes:*`, weekly, monthly].join("\n");
+}
+
+/**
+ * Sends alert prompt buttons after a subscription with end_date is confirmed.
+ * Three buttons: "Sí, recordame" / "No, gracias" / "Elegir fecha"
+ */
+export async function sendAlertButtons(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  subscriptionId: string;
+  serviceName: string;
+  endDate: string;
+}): Promise<void> {
+  const endFormatted = formatDateAR(params.endDate);
+  await callWhatsAppAPI({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    refs: { subscription_id: params.subscriptionId },
+    body: {
+      type: "interactive",
+      interactive: {
+        type: "button",
+        body: {
+          text: `✅ Registrado. Tu suscripción a *${params.serviceName}* vence el ${endFormatted}.\n\n¿Querés que te envíe un recordatorio antes del vencimiento?`,
+        },
+        action: {
+          buttons: [
+            {
+              type: "reply",
+              reply: {
+                id: `alert_yes_${params.subscriptionId}`,
+                title: "📅 Sí, recordame",
+              },
+            },
+            {
+              type: "reply",
+              reply: {
+                id: `alert_no_${params.subscriptionId}`,
+                title: "🔕 No, gracias",
+              },
+            },
+            {
+              type: "reply",
+              reply: {
+                id: `alert_custom_${params.subscriptionId}`,
+                title: "✏️ Elegir fecha",
+              },
+            },
+          ],
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Builds the notice sent when a subscription charge is posted automatically.
+ */
+export function buildSubscriptionChargeNotice(params: {
+  serviceName: string;
+  amount: number;
+  currency: Currency;
+  chargedAt: string;
+  nextPaymentAt: string;
+}): string {
+  return [
+    `🔄 *Cobro de suscripción registrado*`,
+    ``,
+    `📺 *Servicio:* ${params.serviceName}`,
+    `💰 *Monto:* ${formatMoney(params.amount, params.currency)}`,
+    `📅 *Fecha:* ${formatDateAR(params.chargedAt)}`,
+    `⏭️ *Próximo cobro:* ${formatDateAR(params.nextPaymentAt)}`,
+    ``,
+    `_Si no se cobró, tocá "Deshacer"._`,
+  ].join("\n");
+}
+
+/**
+ * Sends the notice of an automatic subscription charge with a "Deshacer"
+ * button (ID: undo_{transactionId}), or its template when the session
+ * window is closed.
+ */
+export async function sendSubscriptionCharged(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  transactionId: string;
+  serviceName: string;
+  amount: number;
+  currency: Currency;
+  chargedAt: string;
+  nextPaymentAt: string;
+  lastInboundAt: string | null;
+}): Promise<void> {
+  await sendWithinSession({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    refs: { transaction_id: params.transactionId },
+    lastInboundAt: params.lastInboundAt,
+    template: {
+      key: "subscription_charged",
+      params: {
+        service_name: params.serviceName,
+        amount: formatMoney(params.amount, params.currency),
+        next_date: formatDateAR(params.nextPaymentAt),
+      },
+      buttonPayloads: [`undo_${params.transactionId}`],
+    },
+    body: {
+      type: "interactive",
+      interactive: {
+        type: "button",
+        body: { text: buildSubscriptionChargeNotice(params) },
+        action: {
+          buttons: [
+            {
+              type: "reply",
+              reply: {
+                id: `undo_${params.transactionId}`,
+                title: "❌ Deshacer",
+              },
+            },
+          ],
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Sends the reminder before a subscription charge, with a button that opens
+ * the subscription manager for it (ID: sub_{subscriptionId}).
+ */
+export async function sendChargeReminder(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  subscriptionId: string;
+  serviceName: string;
+  amount: number;
+  currency: Currency;
+  chargeDate: string;
+  daysBefore: number | null;
+  lastInboundAt: string | null;
+}): Promise<string | null> {
+  const when = params.daysBefore === 0
+    ? "hoy"
+    : params.daysBefore === 1
+      ? "mañana"
+      : `el ${formatDateAR(params.chargeDate)}`;
+
+  return sendWithinSession({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    refs: { subscription_id: params.subscriptionId },
+    lastInboundAt: params.lastInboundAt,
+    template: {
+      key: "charge_reminder",
+      params: {
+        service_name: params.serviceName,
+        amount: formatMoney(params.amount, params.currency),
+        charge_date: formatDateAR(params.chargeDate),
+      },
+      buttonPayloads: [`sub_${params.subscriptionId}`],
+    },
+    body: {
+      type: "interactive",
+      interactive: {
+        type: "button",
+        body: {
+          text: `🔔 *Recordatorio:* ${when} se cobra *${params.serviceName}* (${formatMoney(params.amount, params.currency)}).\n\nSi ya no la usás, podés pausarla o cancelarla.`,
+        },
+        action: {
+          buttons: [
+            {
+              type: "reply",
+              reply: {
+                id: `sub_${params.subscriptionId}`,
+                title: "⚙️ Gestionar",
+              },
+            },
+          ],
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Builds the reply after changing reminder settings by chat.
+ */
+export function buildReminderSettingsReply(params: {
+  serviceName: string | null;
+  days: number[];
+  usesDefaults: boolean;
+}): string {
+  const describe = (d: number) => d === 0 ? "el mismo día" : d === 1 ? "1 día antes" : `${d} días antes`;
+  const when = params.days.length > 0
+    ? `te aviso ${params.days.map(describe).join(", ")} de cada cobro`
+    : "no te mando recordatorios";
+
+  if (!params.serviceName) {
+    return `🔔 Listo: para tus suscripciones ${when}.`;
+  }
+
+  return params.usesDefaults
+    ? `🔔 *${params.serviceName}* vuelve a tus avisos de siempre: ${when}.`
+    : `🔔 Listo: para *${params.serviceName}* ${when}.`;
+}
+
+/**
+ * Builds the reply after registering a free trial.
+ */
+export function buildTrialSavedReply(params: {
+  serviceName: string;
+  firstChargeDate: string;
+}): string {
+  return [
+    `🆓 *Prueba gratis registrada:* ${params.serviceName}`,
+    ``,
+    `📅 Se empieza a cobrar el ${formatDateAR(params.firstChargeDate)}.`,
+    `_Te aviso unos días antes para que decidas si la cancelás o te la quedás._`,
+  ].join("\n");
+}
+
+/**
+ * Sends the warning before a free trial converts to paid, with
+ * "Cancelar" / "Me la quedo" buttons.
+ * Button IDs: trial_cancel_{subscriptionId} and trial_keep_{subscriptionId}.
+ */
+export async function sendTrialReminder(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  subscriptionId: string;
+  serviceName: string;
+  amount: number;
+  currency: Currency;
+  firstChargeDate: string;
+  lastInboundAt: string | null;
+}): Promise<string | null> {
+  const price = params.amount > 0
+    ? ` y te van a cobrar ${formatMoney(params.amount, params.currency)}`
+    : "";
+
+  return sendWithinSession({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    refs: { subscription_id: params.subscriptionId },
+    lastInboundAt: params.lastInboundAt,
+    template: {
+      key: "trial_reminder",
+      params: {
+        service_name: params.serviceName,
+        charge_date: formatDateAR(params.firstChargeDate),
+      },
+      buttonPayloads: [`trial_cancel_${params.subscriptionId}`, `trial_keep_${params.subscriptionId}`],
+    },
+    body: {
+      type: "interactive",
+      interactive: {
+        type: "button",
+        body: {
+          text: `⏰ *Tu prueba gratis de ${params.serviceName} termina el ${formatDateAR(params.firstChargeDate)}*${price}.\n\n¿La cancelás antes de que te cobren o te la quedás?`,
+        },
+        action: {
+          buttons: [
+            {
+              type: "reply",
+              reply: {
+                id: `trial_cancel_${params.subscriptionId}`,
+                title: "❌ Cancelar",
+              },
+            },
+            {
+              type: "reply",
+              reply: {
+                id: `trial_keep_${params.subscriptionId}`,
+                title: "✅ Me la quedo",
+              },
+            },
+          ],
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Sends a renewal reminder message with Renew/Cancel buttons
+ * (the renewal_reminder template when the session window is closed).
+ */
+export async function sendRenewalReminder(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  subscriptionId: string;
+  serviceName: string;
+  endDate: string;
+  lastInboundAt: string | null;
+}): Promise<string | null> {
+  const endFormatted = formatDateAR(params.endDate);
+  return sendWithinSession({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    refs: { subscription_id: params.subscriptionId },
+    lastInboundAt: params.lastInboundAt,
+    template: {
+      key: "renewal_reminder",
+      params: { service_name: params.serviceName, end_date: endFormatted },
+      buttonPayloads: [`renew_${params.subscriptionId}`, `cancel_sub_${params.subscriptionId}`],
+    },
+    body: {
+      type: "interactive",
+      interactive: {
+        type: "button",
+        body: {
+          text: `🔔 *Recordatorio:* Tu suscripción a *${params.serviceName}* vence el ${endFormatted}.\n\n¿Querés renovarla o cancelarla?`,
+        },
+        action: {
+          buttons: [
+            {
+              type: "reply",
+              reply: {
+                id: `renew_${params.subscriptionId}`,
+                title: "🔄 Renovar",
+              },
+            },
+            {
+              type: "reply",
+              reply: {
+                id: `cancel_sub_${params.subscriptionId}`,
+                title: "❌ Cancelar",
+              },
+            },
+          ],
+        },
+      },
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Subscription manager ("mis suscripciones")
+// ---------------------------------------------------------------------------
+
+/** "$ 4.500 · Mensual · próximo 05/11/2026" (paused ones say until when) */
+function describeSubscription(sub: SubscriptionRow): string {
+  const frequency = FREQUENCY_DISPLAY[sub.frequency] ?? sub.frequency;
+  const when = sub.paused_until && new Date(sub.paused_until) > new Date()
+    ? `⏸️ pausada hasta ${formatDateAR(sub.paused_until)}`
+    : `próximo ${formatDateAR(sub.next_payment_at)}`;
+  return `${formatMoney(Number(sub.amount), sub.currency as Currency)} · ${frequency} · ${when}`;
+}
+
+/**
+ * Builds the reply for "mis suscripciones": each active subscription with
+ * amount and next charge, plus what they add up to per month and per year.
+ */
+export function buildSubscriptionOverview(overview: SubscriptionOverview): string {
+  if (overview.items.length === 0) {
+    return "🔄 No tenés suscripciones activas. Para agregar una, decime _\"pago Netflix 4.500 por mes\"_.";
+  }
+
+  const lines = [`🔄 *Tus suscripciones*`, ``];
+  for (const { subscription } of overview.items) {
+    lines.push(`• *${subscription.service_name}:* ${describeSubscription(subscription)}`);
+  }
+
+  lines.push("");
+  lines.push(`💸 *Por mes:* ${formatMoney(overview.monthlyTotal, overview.currency)}`);
+  lines.push(`📅 *Por año:* ${formatMoney(overview.yearlyTotal, overview.currency)}`);
+
+  if (overview.unconverted.length > 0) {
+    lines.push(`_Sin cotización para sumar: ${overview.unconverted.join(", ")}._`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Sends the list of active subscriptions so the user can pick one to manage.
+ * WhatsApp lists hold 10 rows: the soonest charges go first.
+ * Row IDs: sub_{subscriptionId}.
+ */
+export async function sendSubscriptionList(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  subscriptions: SubscriptionRow[];
+}): Promise<void> {
+  const rows = params.subscriptions.slice(0, 10).map((sub) => ({
+    id: `sub_${sub.id}`,
+    title: sub.service_name.slice(0, 24),
+    description: describeSubscription(sub).slice(0, 72),
+  }));
+
+  await callWhatsAppAPI({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    body: {
+      type: "interactive",
+      interactive: {
+        type: "list",
+        header: { type: "text", text: "Suscripciones" },
+        body: { text: "Elegí una para cambiar el monto o la frecuencia, pausarla o cancelarla:" },
+        action: {
+          button: "Ver suscripciones",
+          sections: [
+            {
+              title: "Activas",
+              rows,
+            },
+          ],
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Sends what can be done with one subscription.
+ * Row IDs: sub_amount_{id}, sub_freq_{id}, sub_pause_{id} and cancel_sub_{id}
+ * (the same cancel button as the renewal reminder).
+ */
+export async function sendSubscriptionActions(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  subscription: SubscriptionRow;
+}): Promise<void> {
+  const sub = params.subscription;
+
+  await callWhatsAppAPI({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    refs: { subscription_id: params.subscription.id },
+    body: {
+      type: "interactive",
+      interactive: {
+        type: "list",
+        header: { type: "text", text: sub.service_name.slice(0, 60) },
+        body: { text: `${describeSubscription(sub)}\n\n¿Qué querés hacer?` },
+        action: {
+          button: "Elegir acción",
+          sections: [
+            {
+              title: "Acciones",
+              rows: [
+                { id: `sub_amount_${sub.id}`, title: "✏️ Cambiar monto", description: "Para los próximos cobros" },
+                { id: `sub_freq_${sub.id}`, title: "📅 Cambiar frecuencia", description: "Semanal, mensual o anual" },
+                { id: `sub_pause_${sub.id}`, title: "⏸️ Pausar", description: "Sin cobros hasta una fecha" },
+                { id: `cancel_sub_${sub.id}`, title: "❌ Cancelar", description: "No se cobra más" },
+              ],
+            },
+          ],
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Sends the frequencies a subscription can switch to (all but the current one).
+ * Button IDs: sub_setfreq_{frequency}_{subscriptionId}.
+ */
+export async function sendSubscriptionFrequencyButtons(params: {
+  to: string;
+  phoneNumberId: string;
+  apiToken: string;
+  subscription: SubscriptionRow;
+}): Promise<void> {
+  const sub = params.subscription;
+  const buttons = Object.keys(FREQUENCY_DISPLAY)
+    .filter((frequency) => frequency !== sub.frequency)
+    .map((frequency) => ({
+      type: "reply",
+      reply: {
+        id: `sub_setfreq_${frequency}_${sub.id}`,
+        title: FREQUENCY_DISPLAY[frequency],
+      },
+    }));
+
+  await callWhatsAppAPI({
+    phoneNumberId: params.phoneNumberId,
+    apiToken: params.apiToken,
+    to: params.to,
+    refs: { subscription_id: params.subscription.id },
+    body: {
+      type: "interactive",
+      interactive: {
+        type: "button",
+        body: { text: `*${sub.service_name}* es ${(FREQUENCY_DISPLAY[sub.frequency] ?? sub.frequency).toLowerCase()}. ¿Cada cuánto se cobra ahora?` },
+        action: { buttons },
+      },
+    },
+  });
+}
+
+/**
+ * Builds the reply after editing a subscription from the manager.
+ */
+export function buildSubscriptionUpdated(sub: SubscriptionRow): string {
+  return `✅ *${sub.service_name}* actualizada: ${describeSubscription(sub)}`;
+}
+
+/** Reply after keeping a free trial: it is a regular subscription from now on */
+export function buildTrialKeptReply(sub: SubscriptionRow): string {
+  return `✅ *Te quedás con ${sub.service_name}:* ${describeSubscription(sub)}`;
+}
+
+/**
+ * Formats an ISO date string to Argentine format (DD/MM/YYYY).
+ */
+function formatDateAR(isoDate: string): string {
+  const d = new Date(isoDate);
+  const day = String(d.getUTCDate()).padStart(2, "0");
+  const month = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const year = d.getUTCFullYear();
+  return `${day}/${month}/${year}`;
+}
+
+/**
+ * Builds the field list for transaction correction flow.
+ */
+export function buildFieldList(
+  data: ParsedTransactionData,
+): Array<{ id: string; title: string; description: string }> {
+  if (data.type === "transfer") {
+    return [
+      { id: "type", title: "Tipo", description: `Actualmente: ${TYPE_DISPLAY[data.type]}` },
+      { id: "amount", title: "Monto", description: `Actualmente: ${formatMoney(data.amount, data.currency)}` },
+      { id: "currency", title: "Moneda", description: `Actualmente: ${data.currency ?? "ARS"}` },
+      { id: "account", title: "Origen", description: `Actualmente: ${data.account}` },
+      { id: "destination_account", title: "Destino", description: `Actualmente: ${data.destination_account || "sin definir"}` },
+      { id: "description", title: "Descripción", description: `Actualmente: ${data.description}` },
+      { id: "occurred_on", title: "Fecha", description: `Actualmente: ${data.occurred_on ? formatLocalDate(data.occurred_on) : "hoy"}` },
+    ];
+  }
+
   return [
     { id: "type", title: "Tipo", description: `Actualmente: ${TYPE_DISPLAY[data.type]}` },
-    { id: "amount", title: "Monto", description: `Actualmente: ${formatARS(data.amount)}` },
-    { id: "currency", title: "Moneda", description: "Actualmente: ARS" },
+    { id: "amount", title: "Monto", description: `Actualmente: ${formatMoney(data.amount, data.currency)}` },
+    { id: "currency", title: "Moneda", description: `Actualmente: ${data.currency ?? "ARS"}` },
     { id: "account", title: "Cuenta", description: `Actualmente: ${data.account}` },
     { id: "description", title: "Descripción", description: `Actualmente: ${data.description}` },
     { id: "category", title: "Categoría", description: `Actualmente: ${data.category}` },
+    { id: "occurred_on", title: "Fecha", description: `Actualmente: ${data.occurred_on ? formatLocalDate(data.occurred_on) : "hoy"}` },
+    ...(data.type === "savings"
+      ? [{ id: "savings_goal", title: "Meta", description: `Actualmente: ${data.savings_goal || "sin meta"}` }]
+      : []),
+    { id: "installments", title: "Cuotas", description: `Actualmente: ${data.installments && data.installments > 1 ? data.installments : "un solo pago"}` },
   ];
 }
 
@@ -492,6 +1715,7 @@ export function buildSubscriptionFieldList(
   return [
     { id: "service_name", title: "Servicio", description: `Actualmente: ${data.service_name}` },
     { id: "frequency", title: "Frecuencia", description: `Actualmente: ${FREQUENCY_DISPLAY[data.frequency] ?? data.frequency}` },
-    { id: "amount", title: "Monto", description: `Actualmente: ${formatARS(data.amount)}` },
+    { id: "amount", title: "Monto", description: `Actualmente: ${formatMoney(data.amount, data.currency)}` },
+    { id: "currency", title: "Moneda", description: `Actualmente: ${data.currency}` },
   ];
 }
@@ -0,0 +1,94 @@
+// ============================================================================
+// Simulator Payloads — Inbound webhooks as Meta would send them
+//
+// Builds the `messages` webhook body for what a simulated user does (text,
+// voice note, photo, tapping a button or a list row, a template quick reply)
+// and signs it with the App Secret, so it goes through api/webhook.ts's
+// HMAC check like a real one.
+// ============================================================================
+
+import { createHmac } from "node:crypto";
+import type { WhatsAppMessage, WhatsAppWebhookBody } from "../types/index.js";
+
+/** The WhatsApp user on the other side of the simulated chat */
+export interface SimulatedUser {
+    phone: string;           // wa_id, e.g. "5491122334455"
+    name: string;            // Profile name
+}
+
+/** Something the simulated user sends */
+export type SimulatedInput =
+    | { type: "text"; text: string }
+    | { type: "audio"; mediaId: string; mimeType: string }
+    | { type: "image"; mediaId: string; mimeType: string; caption?: string }
+    | { type: "button_reply"; id: string; title: string }
+    | { type: "list_reply"; id: string; title: string; description?: string }
+    | { type: "template_button"; payload: string; text: string };
+
+/** The message object of a webhook, for one input */
+export function buildInboundMessage(
+    user: SimulatedUser,
+    input: SimulatedInput,
+    id: string,
+    timestamp: number,
+): WhatsAppMessage {
+    const base = { from: user.phone, id, timestamp: String(timestamp) };
+
+    switch (input.type) {
+        case "text":
+            return { ...base, type: "text", text: { body: input.text } };
+        case "audio":
+            return { ...base, type: "audio", audio: { id: input.mediaId, mime_type: input.mimeType } };
+        case "image":
+            return {
+                ...base,
+                type: "image",
+                image: { id: input.mediaId, mime_type: input.mimeType, caption: input.caption },
+            };
+        case "button_reply":
+            return {
+                ...base,
+                type: "interactive",
+                interactive: { type: "button_reply", button_reply: { id: input.id, title: input.title } },
+            };
+        case "list_reply":
+            return {
+                ...base,
+                type: "interactive",
+                interactive: {
+                    type: "list_reply",
+                    list_reply: { id: input.id, title: input.title, description: input.description },
+                },
+            };
+        case "template_button":
+            return { ...base, type: "button", button: { payload: input.payload, text: input.text } };
+    }
+}
+
+/** A webhook body carrying one message to the business phone number */
+export function buildWebhookBody(
+    user: SimulatedUser,
+    message: WhatsAppMessage,
+    phoneNumberId: string,
+): WhatsAppWebhookBody {
+    return {
+        object: "whatsapp_business_account",
+        entry: [{
+            id: "simulator",
+            changes: [{
+                field: "messages",
+                value: {
+                    messaging_product: "whatsapp",
+                    metadata: { display_phone_number: "15550000000", phone_number_id: phoneNumberId },
+                    contacts: [{ profile: { name: user.name }, wa_id: user.phone }],
+                    messages: [message],
+                },
+            }],
+        }],
+    };
+}
+
+/** The X-Hub-Signature-256 header Meta would send with this body */
+export function signWebhookBody(rawBody: string, appSecret: string): string {
+    return `sha256=${createHmac("sha256", appSecret).update(rawBody).digest("hex")}`;
+}
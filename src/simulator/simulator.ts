@@ -0,0 +1,228 @@
+// ============================================================================
+// Local Simulator — The whole bot in one process, no Meta app or phone
+//
+// A simulated user's messages are signed and POSTed into api/webhook.ts as
+// Meta would; the in-memory queue then runs the workers in-process
+// (api/process-message.ts, api/process-status.ts). Nothing reaches the Graph
+// API: a capture transport answers for it, serves the files the user
+// "sent", and its captured sends become the chat transcript.
+//
+// Still needs Supabase (a local `supabase start` works) and, for parsing
+// beyond the rule-based fallbacks, GEMINI_API_KEY.
+// ============================================================================
+
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Socket } from "node:net";
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { MediaContent } from "../types/index.js";
+import { loadConfig } from "../utils/config.js";
+import { createCaptureTransport, setWhatsAppTransport } from "../services/whatsapp-client.js";
+import { createMemoryQueue } from "../queue/memory-queue.js";
+import { setMessageQueue } from "../queue/message-queue.js";
+import type { JobResult } from "../queue/jobs.js";
+import webhookHandler from "../../api/webhook.js";
+import { buildInboundMessage, buildWebhookBody, signWebhookBody } from "./payloads.js";
+import type { SimulatedInput, SimulatedUser } from "./payloads.js";
+import { toTranscriptEntry } from "./transcript.js";
+import type { TranscriptEntry, TranscriptOption } from "./transcript.js";
+
+// Registers the queue handlers the memory queue runs
+import "../../api/process-message.js";
+import "../../api/process-status.js";
+
+/** Media types WhatsApp accepts, by file extension */
+const MIME_TYPES: Record<string, string> = {
+    ".ogg": "audio/ogg",
+    ".opus": "audio/ogg",
+    ".mp3": "audio/mpeg",
+    ".m4a": "audio/mp4",
+    ".aac": "audio/aac",
+    ".amr": "audio/amr",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".png": "image/png",
+    ".webp": "image/webp",
+};
+
+/** Stand-ins for the WhatsApp env vars, which only matter against Meta */
+const SIMULATOR_ENV: Record<string, string> = {
+    WHATSAPP_VERIFY_TOKEN: "simulator",
+    WHATSAPP_API_TOKEN: "simulator",
+    WHATSAPP_PHONE_NUMBER_ID: "simulator",
+    WHATSAPP_APP_SECRET: "simulator",
+};
+
+export const DEFAULT_SIMULATED_USER: SimulatedUser = {
+    phone: "5491100000000",
+    name: "Simulador",
+};
+
+/** What one user action led to */
+export interface SimulatorTurn {
+    sent: TranscriptEntry;
+    replies: TranscriptEntry[];
+    /** Results of the queue jobs it ran (message, deferrals, retries) */
+    jobs: JobResult[];
+}
+
+export interface Simulator {
+    readonly user: SimulatedUser;
+    /** Every message so far, both sides, in order */
+    readonly transcript: TranscriptEntry[];
+    sendText(text: string): Promise<SimulatorTurn>;
+    /** Sends a local file as a voice note or photo */
+    sendFile(path: string, caption?: string): Promise<SimulatorTurn>;
+    /** Taps a button, list row or template quick reply of a bot message */
+    tap(option: TranscriptOption): Promise<SimulatorTurn>;
+    /** The options of the latest bot message that has any */
+    pendingOptions(): TranscriptOption[];
+    /** Restores the real WhatsApp transport and the queue QUEUE_DRIVER selects */
+    close(): void;
+}
+
+/**
+ * Starts a simulator: the queue becomes in-memory and the WhatsApp
+ * transport a capture one, for this whole process until close().
+ */
+export function createSimulator(user: SimulatedUser = DEFAULT_SIMULATED_USER): Simulator {
+    process.env.QUEUE_DRIVER = "memory";
+    for (const [key, value] of Object.entries(SIMULATOR_ENV)) {
+        process.env[key] ||= value;
+    }
+    const config = loadConfig();
+
+    const media = new Map<string, MediaContent>();
+    const { transport, requests } = createCaptureTransport({ media });
+    const queue = createMemoryQueue();
+    setWhatsAppTransport(transport);
+    setMessageQueue(queue);
+
+    const transcript: TranscriptEntry[] = [];
+    let counter = 0;
+    let lastTimestamp = 0;
+
+    async function send(input: SimulatedInput, text: string): Promise<SimulatorTurn> {
+        counter++;
+        lastTimestamp = Math.max(Math.floor(Date.now() / 1000), lastTimestamp);
+        const message = buildInboundMessage(user, input, `wamid.sim.${Date.now()}.${counter}`, lastTimestamp);
+        const rawBody = JSON.stringify(buildWebhookBody(user, message, config.WHATSAPP_PHONE_NUMBER_ID));
+
+        const sent: TranscriptEntry = { from: "user", id: message.id, text, options: [] };
+        transcript.push(sent);
+
+        const firstRequest = requests.length;
+        const firstResult = queue.results.length;
+
+        const webhook = await postWebhook(rawBody, signWebhookBody(rawBody, config.WHATSAPP_APP_SECRET));
+        if (webhook.status !== 200) {
+            throw new Error(`Webhook answered ${webhook.status}: ${JSON.stringify(webhook.body)}`);
+        }
+        await queue.drain();
+
+        const replies = requests.slice(firstRequest)
+            .map(toTranscriptEntry)
+            .filter((entry): entry is TranscriptEntry => entry !== null);
+        transcript.push(...replies);
+
+        return { sent, replies, jobs: queue.results.slice(firstResult).map((r) => r.result) };
+    }
+
+    return {
+        user,
+        transcript,
+
+        sendText: (text) => send({ type: "text", text }, text),
+
+        async sendFile(path, caption) {
+            const mimeType = MIME_TYPES[extname(path).toLowerCase()];
+            if (!mimeType) {
+                throw new Error(`Unsupported file type ${extname(path) || path} (expected ${Object.keys(MIME_TYPES).join(", ")})`);
+            }
+
+            counter++;
+            const mediaId = `media.sim.${counter}`;
+            media.set(mediaId, { data: await readFile(path), mimeType });
+
+            return mimeType.startsWith("audio/")
+                ? send({ type: "audio", mediaId, mimeType }, `[audio ${basename(path)}]`)
+                : send({ type: "image", mediaId, mimeType, caption }, `[image ${basename(path)}]${caption ? ` ${caption}` : ""}`);
+        },
+
+        tap: (option) => send(option.reply, `▸ ${option.label}`),
+
+        pendingOptions() {
+            for (let i = transcript.length - 1; i >= 0; i--) {
+                if (transcript[i].from === "bot" && transcript[i].options.length > 0) {
+                    return transcript[i].options;
+                }
+            }
+            return [];
+        },
+
+        close() {
+            setWhatsAppTransport(null);
+            setMessageQueue(null);
+        },
+    };
+}
+
+interface CapturedResponse {
+    status: number;
+    body: unknown;
+}
+
+/** A signed webhook POST whose body streams like Vercel's (read raw for the HMAC) */
+function createWebhookRequest(rawBody: string, signature: string): VercelRequest {
+    const req = new IncomingMessage(new Socket());
+    req.method = "POST";
+    req.url = "/api/webhook";
+    req.headers = {
+        "content-type": "application/json",
+        "x-hub-signature-256": signature,
+    };
+    req.push(Buffer.from(rawBody));
+    req.push(null);
+
+    return Object.assign(req, { query: {}, cookies: {}, body: undefined });
+}
+
+/**
+ * A response that records what the handler answers instead of writing it
+ * to a socket. Implements the helpers the handlers call (status, json,
+ * send); redirect only records the status.
+ */
+function createCapturingResponse(req: VercelRequest): { res: VercelResponse; captured: CapturedResponse } {
+    const captured: CapturedResponse = { status: 200, body: undefined };
+
+    const res: VercelResponse = Object.assign(new ServerResponse(req), {
+        status(code: number): VercelResponse {
+            captured.status = code;
+            return res;
+        },
+        json(body: unknown): VercelResponse {
+            captured.body = body;
+            return res;
+        },
+        send(body: unknown): VercelResponse {
+            captured.body = body;
+            return res;
+        },
+        redirect(statusOrUrl: string | number): VercelResponse {
+            captured.status = typeof statusOrUrl === "number" ? statusOrUrl : 307;
+            return res;
+        },
+    });
+
+    return { res, captured };
+}
+
+/** Calls api/webhook.ts in-process with a signed POST */
+async function postWebhook(rawBody: string, signature: string): Promise<CapturedResponse> {
+    const req = createWebhookRequest(rawBody, signature);
+    const { res, captured } = createCapturingResponse(req);
+
+    await webhookHandler(req, res);
+    return captured;
+}
@@ -0,0 +1,133 @@
+// ============================================================================
+// Simulator Transcript — Captured Graph API calls as a chat
+//
+// Every message the bot sends goes through the WhatsApp client, so the
+// simulator's capture transport sees them all. Here they become transcript
+// entries: the text the user would read plus the options they could tap
+// (reply buttons, list rows, template quick replies), each one carrying the
+// inbound reply tapping it would produce.
+// ============================================================================
+
+import type { CapturedRequest } from "../services/whatsapp-client.js";
+import type { SimulatedInput } from "./payloads.js";
+
+/** Something tappable in a bot message */
+export interface TranscriptOption {
+    label: string;
+    reply: SimulatedInput;
+}
+
+export interface TranscriptEntry {
+    from: "user" | "bot";
+    id: string;              // wamid
+    text: string;
+    options: TranscriptOption[];
+}
+
+interface InteractiveBody {
+    type: string;
+    header?: { type: string; text?: string };
+    body?: { text: string };
+    footer?: { text: string };
+    action?: {
+        button?: string;
+        buttons?: Array<{ reply: { id: string; title: string } }>;
+        sections?: Array<{
+            title?: string;
+            rows: Array<{ id: string; title: string; description?: string }>;
+        }>;
+    };
+}
+
+interface TemplateBody {
+    name: string;
+    components?: Array<{
+        type: string;
+        sub_type?: string;
+        parameters?: Array<{ type: string; text?: string; payload?: string }>;
+    }>;
+}
+
+/**
+ * The bot message a captured request sent, or null for requests that
+ * aren't message sends (read receipts, uploads, downloads).
+ */
+export function toTranscriptEntry(request: CapturedRequest): TranscriptEntry | null {
+    const body = request.body;
+    if (!request.wamid || !body) return null;
+
+    const entry: TranscriptEntry = { from: "bot", id: request.wamid, text: "", options: [] };
+
+    switch (body.type) {
+        case "text":
+            entry.text = (body.text as { body: string }).body;
+            break;
+
+        case "interactive": {
+            const interactive = body.interactive as InteractiveBody;
+            entry.text = [interactive.header?.text, interactive.body?.text, interactive.footer?.text]
+                .filter(Boolean)
+                .join("\n");
+
+            for (const { reply } of interactive.action?.buttons ?? []) {
+                entry.options.push({
+                    label: reply.title,
+                    reply: { type: "button_reply", id: reply.id, title: reply.title },
+                });
+            }
+            for (const section of interactive.action?.sections ?? []) {
+                for (const row of section.rows) {
+                    entry.options.push({
+                        label: row.description ? `${row.title} — ${row.description}` : row.title,
+                        reply: { type: "list_reply", id: row.id, title: row.title, description: row.description },
+                    });
+                }
+            }
+            break;
+        }
+
+        case "template": {
+            // The template's own text lives in Meta; show its name and parameters
+            const template = body.template as TemplateBody;
+            const params = (template.components ?? [])
+                .filter((c) => c.type === "body")
+                .flatMap((c) => c.parameters ?? [])
+                .map((p) => p.text ?? "")
+                .filter(Boolean);
+            entry.text = `[template ${template.name}] ${params.join(" · ")}`.trim();
+
+            (template.components ?? [])
+                .filter((c) => c.type === "button" && c.sub_type === "quick_reply")
+                .forEach((c, index) => {
+                    const payload = c.parameters?.find((p) => p.type === "payload")?.payload ?? "";
+                    const text = `Botón ${index + 1}`;
+                    entry.options.push({ label: `${text} (${payload})`, reply: { type: "template_button", payload, text } });
+                });
+            break;
+        }
+
+        case "reaction":
+            entry.text = `[reacted ${(body.reaction as { emoji: string }).emoji}]`;
+            break;
+
+        default: {
+            const media = body[body.type as string] as { caption?: string } | undefined;
+            entry.text = `[${String(body.type)}]${media?.caption ? ` ${media.caption}` : ""}`;
+        }
+    }
+
+    return entry;
+}
+
+/** An entry as terminal lines: who, the text, then the numbered options */
+export function renderEntry(entry: TranscriptEntry): string {
+    const who = entry.from === "bot" ? "🤖 suma" : "🧑 you ";
+    const [first = "", ...rest] = entry.text.split("\n");
+    const lines = [`${who} │ ${first}`, ...rest.map((line) => `       │ ${line}`)];
+
+    entry.options.forEach((option, index) => {
+        lines.push(`       │   [${index + 1}] ${option.label}`);
+    });
+
+    return lines.join("\n");
+}
@@ -10,10 +10,19 @@
 // Transaction & Account enums
 // ---------------------------------------------------------------------------
 
-export type TransactionType = "income" | "expense" | "transfer";
+export type TransactionType = "income" | "expense" | "transfer" | "savings";
 
 export type AccountType = "cash" | "bank" | "digital_wallet" | "credit_card";
 
+// ---------------------------------------------------------------------------
+// Currency enums
+// ---------------------------------------------------------------------------
+
+export type Currency = "ARS" | "USD";
+
+/** Argentine dollar quotes: official, MEP (bolsa), blue, and card (tarjeta) */
+export type RateType = "oficial" | "mep" | "blue" | "tarjeta";
+
 // ---------------------------------------------------------------------------
 // Intent Router enums (Sección 3 + Fase 1)
 // ---------------------------------------------------------------------------
@@ -22,6 +31,11 @@ export type IntentType =
   | "record_transaction"
   | "subscription"
   | "query"
+  | "balance_adjustment"
+  | "budget"
+  | "savings_goal"
+  | "reminders"
+  | "digest"
   | "system_command"
   | "unknown";
 
@@ -51,9 +65,20 @@ export interface TransactionRow {
   category_id: string | null;
   account_id: string;
   destination_account_id?: string | null;  // Only for transfers
+  currency?: Currency;                     // Currency of `amount` (default ARS)
+  exchange_rate?: number | null;           // Units of base currency per unit of `currency`
+  rate_type?: RateType | null;             // Quote used for the conversion (null if same currency)
+  amount_base?: number | null;             // amount × exchange_rate, in the user's base currency
   is_recurrent: boolean;
   installment_current?: number | null;
   installment_total?: number | null;
+  installment_group_id?: string | null;    // Shared by all installments of one purchase
+  batch_id?: string | null;                // Shared by all transactions confirmed together
+  savings_goal_id?: string | null;         // Only for savings: the goal the money was set aside for
+  subscription_id?: string | null;         // Charge of a subscription (recurring expense)
+  subscription_period?: string | null;     // "YYYY-MM-DD" of the charged period (one charge per period)
+  occurred_at?: string;                    // When it happened (default now); reports group by this
+  is_adjustment?: boolean;                 // Balance adjustment (excluded from reports)
   raw_message?: string | null;
   deleted_at?: string | null;              // Soft delete (undo)
   created_at?: string;
@@ -77,14 +102,100 @@ export interface SubscriptionRow {
   end_date: string | null;
   alert_date: string | null;
   alert_sent: boolean;
+  paused_until: string | null; // No charges before this date
+  anchor_day: number | null;   // Day of month monthly/annual charges fall on (1-31)
+  term_months: number | null;  // Length of a fixed term, null = open-ended
+  reminder_days: number[] | null; // Override of the user's reminder_days, null = use them
+  is_trial: boolean;           // Free trial that hasn't converted to paid yet
+  trial_ends_at: string | null; // First charge after the trial
+}
+
+/** Delivery state of one reminder */
+export type ReminderStatus = "pending" | "sent" | "failed" | "skipped" | "cancelled";
+
+/** Row in the `subscription_reminders` table — one message about one upcoming date */
+export interface SubscriptionReminderRow {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  kind: "charge" | "renewal" | "trial"; // Before the next charge, a fixed term's end, or a trial's conversion
+  target_date: string;         // Charge date or end_date the reminder is about
+  days_before: number | null;  // null = custom date picked by the user
+  remind_at: string;
+  status: ReminderStatus;
+  attempts: number;
+  last_error: string | null;
+  sent_at: string | null;
+  wamid: string | null;        // Message that carried it, to follow its delivery
+  created_at: string;
+}
+
+/** Outcome of one run of processPendingAlerts */
+export interface ReminderRunResult {
+  sent: number;
+  failed: number;   // Gave up after the last attempt
+  skipped: number;  // Superseded by a closer reminder, or no longer relevant
+}
+
+/** Active subscription as shown by "mis suscripciones" */
+export interface SubscriptionListItem {
+  subscription: SubscriptionRow;
+  monthlyBase: number | null; // Cost per month in the user's base currency, null = no quote
+}
+
+/** Active subscriptions plus what they cost, normalized to month and year */
+export interface SubscriptionOverview {
+  items: SubscriptionListItem[];
+  monthlyTotal: number;       // Base currency, items without a quote excluded
+  yearlyTotal: number;
+  currency: Currency;
+  unconverted: string[];      // Services left out of the totals (no exchange rate)
+}
+
+/** Row in the `exchange_rates` table (ARS per 1 unit of `currency`) */
+export interface ExchangeRateRow {
+  id?: string;
+  currency: Currency;
+  base_currency: Currency;
+  rate_type: RateType;
+  buy: number | null;
+  sell: number;
+  rate_date: string;   // YYYY-MM-DD
+  source: "job" | "manual";
+  created_at?: string;
+}
+
+/** Row in the `budgets` table (monthly budget per category, in base currency) */
+export interface BudgetRow {
+  id: string;
+  user_id: string;
+  category_id: string;
+  amount: number;
+  alerted_month: string | null;   // "YYYY-MM-01" of the last warning sent
+  alerted_threshold: number;      // 0, 80 or 100 — last warning sent that month
+  created_at: string;
+  updated_at: string;
+}
+
+/** Row in the `savings_goals` table (target in the user's base currency) */
+export interface SavingsGoalRow {
+  id: string;
+  user_id: string;
+  name: string;                   // "vacaciones"
+  target_amount: number;
+  target_date: string;            // "YYYY-MM-DD", last day of the target month
+  achieved_at: string | null;
+  cancelled_at: string | null;
+  last_nudge_at: string | null;
+  created_at: string;
 }
 
 /** Row in the `pending_confirmations` table */
 export interface PendingConfirmationRow {
   id: string;
   user_id: string;
-  transaction_data: ParsedTransactionData | ParsedSubscription;
-  confirmation_type: "transaction" | "subscription";
+  transaction_data: ParsedTransactionData | ParsedSubscription | ParsedTransactionBatch;
+  confirmation_type: "transaction" | "subscription" | "batch";
   field_editing: string | null;
   expires_at: string;
   created_at: string;
@@ -112,9 +223,44 @@ export interface ParsedTransactionData {
   amount: number;
   description: string;
   category: string;
-  account: string;
+  account: string;                          // Source account for transfers
+  account_id?: string | null;               // Set once the account name is resolved/created
+  currency?: Currency;                      // Default ARS
+  destination_account?: string | null;      // Only for transfers
+  destination_account_id?: string | null;   // Set once resolved/created
+  installments?: number | null;             // "en 12 cuotas" → 12 (null/1 = single payment)
+  installment_amount?: number | null;       // Per-installment amount, when the user says it
+  date?: ParsedDateReference | null;        // Day the LLM extracted ("ayer", "el viernes")
+  occurred_on?: string | null;              // Resolved local date "YYYY-MM-DD" (user's timezone)
+  savings_goal?: string | null;             // Only for savings: goal named by the user ("vacaciones")
+  savings_goal_id?: string | null;          // Set once the goal is resolved
 }
 
+/**
+ * Several transactions from one message ("5000 en el super y 2000 en el
+ * kiosco"), confirmed with a single "confirmar todo" and saved atomically.
+ */
+export interface ParsedTransactionBatch {
+  items: ParsedTransactionData[];
+  editing_index: number | null;   // Item being edited or waiting for an account
+}
+
+/**
+ * Which day a transaction happened, as the user said it. The LLM only
+ * classifies the reference; src/utils/dates.ts resolves it to a local date.
+ */
+export interface ParsedDateReference {
+  kind: "today" | "yesterday" | "days_ago" | "weekday" | "date";
+  days_ago: number | null;  // "hace 3 días" → 3
+  weekday: number | null;   // "el viernes" → 5 (1=lunes … 7=domingo)
+  day: number | null;       // "12/03" → 12
+  month: number | null;     // "12/03" → 3
+  year: number | null;      // only if the user/receipt says it
+}
+
+/** How often a subscription is charged */
+export type SubscriptionFrequency = "monthly" | "annual" | "weekly";
+
 /**
  * Subscription data extracted by the LLM when intent is "subscription".
  */
@@ -122,12 +268,88 @@ export interface ParsedSubscription {
   intent: "subscription";
   service_name: string;
   amount: number;
-  currency: "ARS" | "USD";
-  frequency: "monthly" | "annual" | "weekly";
+  currency: Currency;
+  frequency: SubscriptionFrequency;
   account: string;
   start_date: string; // ISO date string
   duration_months: number | null; // e.g. 6 for "6 meses"
   end_date: string | null; // ISO date, calculated from start_date + duration_months
+  trial_days: number | null; // Free trial ("30 días gratis"), null = no trial
+  first_charge_date: string | null; // ISO date, start_date + trial_days (trials only)
+}
+
+/** Relative period the user asked about — resolved to dates by the query engine */
+export type QueryPeriod =
+  | "today"
+  | "yesterday"
+  | "this_week"
+  | "last_week"
+  | "this_month"
+  | "last_month"
+  | "specific_month"
+  | "this_year";
+
+/**
+ * Query data extracted by the LLM when intent is "query".
+ * The LLM only classifies the period; dates are computed in code.
+ */
+export interface ParsedQuery {
+  topic: "summary" | "installments" | "budget" | "savings" | "subscriptions";
+  period: QueryPeriod;
+  month: number | null;           // 1-12, only for "specific_month"
+  year: number | null;            // only for "specific_month" (null = current year)
+  category: string | null;        // filter by category, null = all
+  type: TransactionType | null;   // filter by type, null = all
+}
+
+/**
+ * Balance declared by the user ("tengo 45.000 en el banco").
+ * The difference with the stored balance is posted as an adjustment entry.
+ */
+export interface ParsedBalanceAdjustment {
+  account: string;
+  amount: number;   // Real balance, in the account's currency
+  currency?: Currency | null;  // Only when the user says it; sets a new account's currency
+}
+
+/**
+ * Monthly budget set by the user ("presupuesto de comida 80.000").
+ * amount 0 removes the category's budget.
+ */
+export interface ParsedBudget {
+  category: string;
+  amount: number;   // In the user's base currency
+}
+
+/**
+ * Savings goal set by the user ("quiero ahorrar 500.000 para vacaciones en
+ * diciembre"). The LLM only extracts the month; the date is resolved in code.
+ */
+export interface ParsedSavingsGoal {
+  name: string;
+  target_amount: number;          // In the user's base currency
+  target_month: number | null;    // 1-12, null = no deadline given
+  target_year: number | null;     // null = next occurrence of target_month
+}
+
+/**
+ * Reminder settings set by chat ("avisame 7 días y 1 día antes de cada cobro").
+ * Without a service they are the user's defaults; with one, an override.
+ */
+export interface ParsedReminderSettings {
+  service_name: string | null;    // null = defaults for every subscription
+  days_before: number[] | null;   // [] = no reminders, null = back to the defaults
+}
+
+/**
+ * Digest settings set by chat ("mandame el resumen los viernes a las 20",
+ * "no quiero el resumen mensual"). null = leave as is.
+ */
+export interface ParsedDigestSettings {
+  weekly: boolean | null;         // Weekly digest on/off
+  monthly: boolean | null;        // Month-end digest on/off
+  weekday: number | null;         // 1=lunes … 7=domingo, for the weekly digest
+  hour: number | null;            // Local hour 0-23
 }
 
 /**
@@ -136,11 +358,244 @@ export interface ParsedSubscription {
  */
 export interface ParsedIntent {
   intent: IntentType;
-  transaction_data: ParsedTransactionData | null;
+  transactions?: ParsedTransactionData[] | null;     // Every transaction in the message
+  transaction_data: ParsedTransactionData | null;    // First of `transactions` (single-item callers)
   subscription_data?: ParsedSubscription | null;
+  query_data?: ParsedQuery | null;
+  balance_data?: ParsedBalanceAdjustment | null;
+  budget_data?: ParsedBudget | null;
+  savings_goal_data?: ParsedSavingsGoal | null;
+  reminder_data?: ParsedReminderSettings | null;
+  digest_data?: ParsedDigestSettings | null;
   reply_message: string;
 }
 
+// ---------------------------------------------------------------------------
+// Query engine types (ledger aggregations)
+// ---------------------------------------------------------------------------
+
+/** One scheduled installment of a purchase ("cuota 3 de 12") */
+export interface InstallmentPlanItem {
+  number: number;      // 1-based
+  total: number;       // installment_total
+  amount: number;
+  date: Date;          // occurred_at of the installment row
+}
+
+/** Installments still to come for one purchase */
+export interface RemainingInstallments {
+  groupId: string;
+  description: string;
+  installmentTotal: number;
+  remaining: number;
+  remainingAmount: number;
+  nextDate: string;    // ISO timestamp of the next installment
+}
+
+/** Everything the user still owes in installments */
+export interface InstallmentsOutlook {
+  purchases: RemainingInstallments[];
+  monthly: Array<{ month: string; total: number }>;  // "2026-11" → total due that month
+  totalCommitted: number;
+}
+
+/** Aggregated total for one (type, category) pair within a period */
+export interface CategoryTotal {
+  type: TransactionType;
+  category: string;    // "sin categoría" for transfers / uncategorized rows
+  total: number;
+  count: number;
+}
+
+/** Row returned by the `period_summary` function (migration_034) */
+export interface PeriodSummaryRow {
+  transaction_type: TransactionType;
+  category_id: string | null;
+  category: string | null;
+  transaction_count: number;
+  total_amount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Budget types
+// ---------------------------------------------------------------------------
+
+/** Spend-to-date against one category budget in the current month */
+export interface BudgetStatus {
+  budgetId: string;
+  categoryId: string;
+  category: string;
+  budget: number;
+  spent: number;
+  remaining: number;   // budget − spent (negative when over budget)
+  percent: number;     // spent / budget × 100, rounded
+}
+
+/** A budget threshold crossed for the first time this month */
+export interface BudgetAlert {
+  status: BudgetStatus;
+  threshold: 80 | 100;
+}
+
+// ---------------------------------------------------------------------------
+// Savings goal types
+// ---------------------------------------------------------------------------
+
+/** How far a savings goal is, and what it takes to get there on time */
+export interface SavingsGoalProgress {
+  goal: SavingsGoalRow;
+  saved: number;
+  remaining: number;          // max(target − saved, 0)
+  percent: number;            // saved / target × 100, rounded
+  monthsLeft: number;         // Calendar months until target_date, including the current one
+  monthlyNeeded: number;      // remaining / monthsLeft
+}
+
+// ---------------------------------------------------------------------------
+// Outbound message types
+// ---------------------------------------------------------------------------
+
+/**
+ * What an outbound message was for — delivery rates are grouped by it.
+ * Proactive kinds match their template keys in whatsapp.ts.
+ */
+export type OutboundKind =
+  | "reply"
+  | "confirmation"
+  | "renewal_reminder"
+  | "charge_reminder"
+  | "trial_reminder"
+  | "subscription_charged"
+  | "spending_digest"
+  | "savings_nudge"
+  | "sales";
+
+/** Records an outbound message is about, for support and audits */
+export interface OutboundRefs {
+  transaction_id?: string | null;
+  subscription_id?: string | null;
+  confirmation_id?: string | null;
+}
+
+/** Row in the `outbound_messages` table — one message we sent (or tried to) */
+export interface OutboundMessageRow extends OutboundRefs {
+  id: string;
+  wamid: string | null;       // null when the API rejected it
+  recipient: string;
+  kind: OutboundKind | "unknown"; // unknown = status for a message we didn't log
+  message_type: string | null;    // text, interactive, template
+  payload: Record<string, unknown> | null; // Body as sent to the API
+  status: "accepted" | "rejected" | DeliveryStatus; // accepted = the API took it, no status yet
+  error: string | null;       // Why the API rejected it
+  error_code: number | null;  // Delivery failure reported by WhatsApp
+  error_title: string | null;
+  sent_at: string | null;
+  delivered_at: string | null;
+  read_at: string | null;
+  failed_at: string | null;
+  created_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Digest types
+// ---------------------------------------------------------------------------
+
+export type DigestKind = "weekly" | "monthly";
+
+/** Delivery state of one digest */
+export type DigestStatus = "sending" | "sent" | "failed" | "skipped";
+
+/** Row in the `digest_sends` table — one digest per user, kind and period */
+export interface DigestSendRow {
+  id: string;
+  user_id: string;
+  kind: DigestKind;
+  period_start: string;       // Local "YYYY-MM-DD" the summarized period starts on
+  status: DigestStatus;
+  attempts: number;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+/** When the user wants their digests (columns of `users`) */
+export interface DigestSettings {
+  digest_weekly: boolean;
+  digest_monthly: boolean;
+  digest_weekday: number;     // 1=lunes … 7=domingo
+  digest_hour: number;        // Local hour 0-23
+}
+
+/** One of the biggest expenses of a digest period */
+export interface DigestExpense {
+  description: string;
+  category: string;
+  amount: number;             // Base currency
+  occurred_at: string;
+}
+
+/** A subscription charge coming up after the digest period */
+export interface UpcomingCharge {
+  service_name: string;
+  amount: number;
+  currency: Currency;         // The subscription's own currency
+  date: string;
+}
+
+/** Everything a weekly or month-end digest shows */
+export interface SpendingDigest {
+  kind: DigestKind;
+  label: string;              // "semana del 12/10 al 18/10", "octubre 2026"
+  currency: Currency;
+  totals: CategoryTotal[];
+  previousTotals: CategoryTotal[]; // Same-length period right before, for the comparison
+  biggestExpenses: DigestExpense[];
+  upcomingCharges: UpcomingCharge[];
+}
+
+/** Outcome of one run of processDigests */
+export interface DigestRunResult {
+  sent: number;
+  failed: number;   // Send failed; retried on the next run until the last attempt
+  skipped: number;  // Nothing to summarize
+}
+
+// ---------------------------------------------------------------------------
+// Account balance types
+// ---------------------------------------------------------------------------
+
+/** Row in the `v_account_balances` view (stored vs. recomputed balance) */
+export interface AccountBalanceRow {
+  account_id: string;
+  user_id: string;
+  account_name: string;
+  account_type: AccountType;
+  currency: string;
+  calculated_balance: number;   // Recomputed from non-deleted transactions
+  stored_balance: number;       // accounts.balance (maintained by trigger)
+  drift: number;                // stored − calculated
+}
+
+/** Row in the `v_unconverted_transactions` view (no rate for an account in another currency) */
+export interface UnconvertedTransactionRow {
+  transaction_id: string;
+  user_id: string;
+  account_id: string;
+  account_name: string;
+  account_currency: string;
+  currency: string;
+  amount: number;
+}
+
+/** Outcome of "tengo X en la cuenta Y" */
+export interface BalanceAdjustment {
+  account: AccountRow;
+  previousBalance: number;
+  newBalance: number;
+  delta: number;                // newBalance − previousBalance
+  transactionId: string | null; // null when the balance was already right
+}
+
 // ---------------------------------------------------------------------------
 // User types
 // ---------------------------------------------------------------------------
@@ -168,6 +623,8 @@ export interface UserInfo {
   onboardingSource: OnboardingSource; // Computed: web | whatsapp | unknown
   saleStage: SaleStage | null;       // Current stage in sales funnel
   saleAttempts: number;              // Number of pitch attempts (max 2)
+  baseCurrency: Currency;            // Currency reports are consolidated in
+  timezone: string;                  // IANA timezone for dates ("ayer", months)
 }
 
 // ---------------------------------------------------------------------------
@@ -207,7 +664,19 @@ export interface WhatsAppChangeValue {
   };
   contacts?: WhatsAppContact[];
   messages?: WhatsAppMessage[];
-  statuses?: unknown[];
+  statuses?: WhatsAppStatus[];
+}
+
+/** Delivery status of a message we sent, as reported by WhatsApp */
+export type DeliveryStatus = "sent" | "delivered" | "read" | "failed";
+
+/** Status event in a webhook: what happened to one outbound message */
+export interface WhatsAppStatus {
+  id: string;                 // wamid returned when the message was sent
+  status: DeliveryStatus;
+  timestamp: string;          // Unix seconds
+  recipient_id: string;
+  errors?: Array<{ code: number; title: string; message?: string; error_data?: { details?: string } }>;
 }
 
 export interface WhatsAppContact {
@@ -219,7 +688,7 @@ export interface WhatsAppMessage {
   from: string;
   id: string;
   timestamp: string;
-  type: "text" | "audio" | "image" | "document" | "sticker" | "reaction" | "interactive";
+  type: "text" | "audio" | "image" | "document" | "sticker" | "reaction" | "interactive" | "button";
   text?: { body: string };
   audio?: { id: string; mime_type: string };
   image?: { id: string; mime_type: string; caption?: string };
@@ -228,8 +697,26 @@ export interface WhatsAppMessage {
     button_reply?: { id: string; title: string };
     list_reply?: { id: string; title: string; description?: string };
   };
+  button?: { payload: string; text: string }; // Quick reply of a template message
 }
 
+/** Status event queued by api/webhook.ts for api/process-status.ts */
+export interface QueuedStatusPayload {
+  status: WhatsAppStatus;
+  metadata: {
+    phone_number_id: string;
+    display_phone_number: string;
+  };
+  receivedAt: string;
+}
+
+/** Outcome of claiming an inbound message for processing (idempotency.ts) */
+export type MessageClaim =
+  | "claimed"       // This worker owns it: process it
+  | "duplicate"     // Already completed
+  | "in_progress"   // Another worker holds a live lease
+  | "exhausted";    // Failed MAX_MESSAGE_ATTEMPTS times, given up
+
 export interface QueuedMessagePayload {
   message: WhatsAppMessage;
   contacts?: WhatsAppContact[];
@@ -238,12 +725,39 @@ export interface QueuedMessagePayload {
     display_phone_number: string;
   };
   receivedAt: string;
+  /** Times it was re-enqueued to wait for the user's earlier messages */
+  deferrals?: number;
+}
+
+/** Step of api/process-message.ts where a message failed */
+export type PipelineStage = "claim" | "ordering" | "session_window" | "process";
+
+export type DeadLetterStatus = "pending" | "replaying" | "replayed" | "discarded";
+
+/** A message whose processing gave up, kept whole for replay (dead-letters.ts) */
+export interface DeadLetterRow {
+  id: string;
+  wamid: string;
+  user_phone: string;
+  payload: QueuedMessagePayload;
+  stage: PipelineStage;
+  error: string;
+  stack: string | null;
+  attempts: number;
+  status: DeadLetterStatus;
+  replay_count: number;
+  replay_error: string | null;
+  created_at: string;
+  replayed_at: string | null;
 }
 
 // ---------------------------------------------------------------------------
 // App configuration
 // ---------------------------------------------------------------------------
 
+/** Where queued messages and status events go (src/queue/message-queue.ts) */
+export type QueueDriver = "qstash" | "supabase" | "memory";
+
 export interface AppConfig {
   WHATSAPP_API_TOKEN: string;
   WHATSAPP_PHONE_NUMBER_ID: string;
@@ -256,5 +770,8 @@ export interface AppConfig {
   QSTASH_TOKEN: string;
   QSTASH_CURRENT_SIGNING_KEY: string;
   QSTASH_NEXT_SIGNING_KEY: string;
+  QSTASH_URL: string;
+  QUEUE_DRIVER: QueueDriver;
+  WORKER_BASE_URL: string;
   VERCEL_URL?: string;
 }
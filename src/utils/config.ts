@@ -2,7 +2,7 @@
 // Config loader — fails fast if required env vars are missing
 // ============================================================================
 
-import type { AppConfig } from "../types/index.js";
+import type { AppConfig, QueueDriver } from "../types/index.js";
 
 const REQUIRED_VARS = [
   "WHATSAPP_VERIFY_TOKEN",
@@ -11,17 +11,62 @@ const REQUIRED_VARS = [
   "WHATSAPP_APP_SECRET",
   "SUPABASE_URL",
   "SUPABASE_SERVICE_ROLE_KEY",
+] as const;
+
+/** Only needed when the queue is QStash */
+const QSTASH_VARS = [
   "QSTASH_TOKEN",
   "QSTASH_CURRENT_SIGNING_KEY",
   "QSTASH_NEXT_SIGNING_KEY",
 ] as const;
 
+const QUEUE_DRIVERS: QueueDriver[] = ["qstash", "supabase", "memory"];
+
+const DEFAULT_QSTASH_URL = "https://qstash-us-east-1.upstash.io";
+const PRODUCTION_URL = "https://suma-webhook.vercel.app";
+
 let cached: AppConfig | null = null;
 
+/**
+ * Where the queue delivers to: WORKER_BASE_URL if set, the deployment's
+ * own URL on preview deployments, production otherwise.
+ */
+function workerBaseUrl(): string {
+  if (process.env.WORKER_BASE_URL) return process.env.WORKER_BASE_URL.replace(/\/+$/, "");
+  if (process.env.VERCEL_ENV === "preview" && process.env.VERCEL_URL) {
+    return `https://${process.env.VERCEL_URL}`;
+  }
+  return PRODUCTION_URL;
+}
+
+/**
+ * Whether this is a deployed function (production or preview). `vercel dev`
+ * reports VERCEL_ENV=development and counts as a local run.
+ */
+function isDeployed(): boolean {
+  return Boolean(process.env.VERCEL) && process.env.VERCEL_ENV !== "development";
+}
+
 export function loadConfig(): AppConfig {
   if (cached) return cached;
 
-  const missing = REQUIRED_VARS.filter((key) => !process.env[key]);
+  const driver = (process.env.QUEUE_DRIVER || "qstash") as QueueDriver;
+  if (!QUEUE_DRIVERS.includes(driver)) {
+    throw new Error(
+      `[SUMA] Invalid QUEUE_DRIVER "${driver}" (expected ${QUEUE_DRIVERS.join(", ")})`
+    );
+  }
+
+  // The memory queue lives in one function instance: deployed, every job
+  // published to it would be lost when the instance ends
+  if (driver === "memory" && isDeployed()) {
+    throw new Error(
+      `[SUMA] QUEUE_DRIVER "memory" is only for tests and local runs (VERCEL_ENV=${process.env.VERCEL_ENV ?? "unset"})`
+    );
+  }
+
+  const required = driver === "qstash" ? [...REQUIRED_VARS, ...QSTASH_VARS] : REQUIRED_VARS;
+  const missing = required.filter((key) => !process.env[key]);
 
   if (missing.length > 0) {
     throw new Error(
@@ -38,9 +83,12 @@ export function loadConfig(): AppConfig {
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY!,
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
     GEMINI_MODEL: process.env.GEMINI_MODEL || "gemini-2.5-flash",
-    QSTASH_TOKEN: process.env.QSTASH_TOKEN!,
-    QSTASH_CURRENT_SIGNING_KEY: process.env.QSTASH_CURRENT_SIGNING_KEY!,
-    QSTASH_NEXT_SIGNING_KEY: process.env.QSTASH_NEXT_SIGNING_KEY!,
+    QSTASH_TOKEN: process.env.QSTASH_TOKEN ?? "",
+    QSTASH_CURRENT_SIGNING_KEY: process.env.QSTASH_CURRENT_SIGNING_KEY ?? "",
+    QSTASH_NEXT_SIGNING_KEY: process.env.QSTASH_NEXT_SIGNING_KEY ?? "",
+    QSTASH_URL: (process.env.QSTASH_URL || DEFAULT_QSTASH_URL).replace(/\/+$/, ""),
+    QUEUE_DRIVER: driver,
+    WORKER_BASE_URL: workerBaseUrl(),
   };
 
   return cached;
@@ -0,0 +1,234 @@
+// ============================================================================
+// Dates — Calendar dates in the user's timezone
+//
+// The LLM only says WHICH day the user meant ("ayer", "el viernes",
+// "12/03"); the actual date is resolved here against the user's local
+// calendar, never by the model. Local dates travel as "YYYY-MM-DD" and are
+// turned into a UTC instant only when saving.
+// ============================================================================
+
+import type { ParsedDateReference } from "../types/index.js";
+
+export const DEFAULT_TIMEZONE = "America/Argentina/Buenos_Aires";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Spanish weekday names → 1=lunes … 7=domingo (ISO weekday) */
+const WEEKDAYS: Record<string, number> = {
+    lunes: 1, martes: 2, miercoles: 3, jueves: 4, viernes: 5, sabado: 6, domingo: 7,
+};
+
+export interface ZonedParts {
+    year: number;
+    month: number;    // 1-12
+    day: number;
+    weekday: number;  // 1=lunes … 7=domingo
+    hour: number;
+    minute: number;
+}
+
+// ---------------------------------------------------------------------------
+// Timezone conversion
+// ---------------------------------------------------------------------------
+
+/**
+ * Wall-clock parts of an instant in the given IANA timezone.
+ */
+export function getZonedParts(date: Date, timezone: string = DEFAULT_TIMEZONE): ZonedParts {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        weekday: "short",
+        hour: "numeric",
+        minute: "numeric",
+        hourCycle: "h23",
+    });
+
+    const parts: Record<string, string> = {};
+    for (const p of formatter.formatToParts(date)) parts[p.type] = p.value;
+
+    const weekdayIndex = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"].indexOf(parts.weekday) + 1;
+
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        weekday: weekdayIndex,
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+    };
+}
+
+/**
+ * UTC instant of a local wall-clock time in the given timezone.
+ * Resolves the offset twice so DST transitions land on the right side.
+ */
+export function zonedTimeToUtc(
+    year: number,
+    month: number,
+    day: number,
+    hour: number = 0,
+    minute: number = 0,
+    timezone: string = DEFAULT_TIMEZONE,
+): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    let instant = wallClock - offsetMs(new Date(wallClock), timezone);
+    instant = wallClock - offsetMs(new Date(instant), timezone);
+    return new Date(instant);
+}
+
+/** Offset of the timezone at `date` (local − UTC) in milliseconds */
+function offsetMs(date: Date, timezone: string): number {
+    const p = getZonedParts(date, timezone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+    return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+// ---------------------------------------------------------------------------
+// Local dates ("YYYY-MM-DD")
+// ---------------------------------------------------------------------------
+
+function toLocalDate(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** Today's date in the user's timezone */
+export function localToday(timezone: string = DEFAULT_TIMEZONE, now: Date = new Date()): string {
+    const p = getZonedParts(now, timezone);
+    return toLocalDate(p.year, p.month, p.day);
+}
+
+/** Shifts a local date by whole days (calendar arithmetic, no timezone) */
+function addDays(localDate: string, days: number): string {
+    const [y, m, d] = localDate.split("-").map(Number);
+    const shifted = new Date(Date.UTC(y, m - 1, d) + days * DAY_MS);
+    return toLocalDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/** Most recent past occurrence of an ISO weekday ("el viernes" → last Friday) */
+function lastWeekday(weekday: number, timezone: string, now: Date): string {
+    const today = getZonedParts(now, timezone);
+    const back = (today.weekday - weekday + 7) % 7 || 7;
+    return addDays(toLocalDate(today.year, today.month, today.day), -back);
+}
+
+/**
+ * Builds a valid local date from day/month and an optional year. Without a
+ * year, a date later than today refers to last year ("28/12" said in March).
+ * Returns null for impossible dates (31/02).
+ */
+function absoluteDate(
+    day: number,
+    month: number,
+    year: number | null,
+    timezone: string,
+    now: Date,
+): string | null {
+    const today = localToday(timezone, now);
+    let resolvedYear = year ?? Number(today.slice(0, 4));
+    if (resolvedYear < 100) resolvedYear += 2000;
+
+    const check = new Date(Date.UTC(resolvedYear, month - 1, day));
+    if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+
+    const candidate = toLocalDate(resolvedYear, month, day);
+    if (year === null && candidate > today) {
+        return toLocalDate(resolvedYear - 1, month, day);
+    }
+    return candidate;
+}
+
+/**
+ * Resolves the date the LLM extracted into a local "YYYY-MM-DD".
+ * Missing or unusable references fall back to today.
+ */
+export function resolveDateReference(
+    ref: ParsedDateReference | null | undefined,
+    timezone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date(),
+): string {
+    const today = localToday(timezone, now);
+    if (!ref) return today;
+
+    switch (ref.kind) {
+        case "yesterday":
+            return addDays(today, -1);
+
+        case "days_ago":
+            return ref.days_ago && ref.days_ago > 0 ? addDays(today, -Math.round(ref.days_ago)) : today;
+
+        case "weekday":
+            return ref.weekday && ref.weekday >= 1 && ref.weekday <= 7
+                ? lastWeekday(ref.weekday, timezone, now)
+                : today;
+
+        case "date":
+            return ref.day && ref.month
+                ? absoluteDate(ref.day, ref.month, ref.year, timezone, now) ?? today
+                : today;
+
+        case "today":
+        default:
+            return today;
+    }
+}
+
+/**
+ * Parses a date typed by the user while correcting a field:
+ * "hoy", "ayer", "anteayer", "el viernes", "12/03" or "12/03/2026".
+ * Returns a local "YYYY-MM-DD", or null if it isn't a date.
+ */
+export function parseDateInput(
+    input: string,
+    timezone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date(),
+): string | null {
+    const value = input
+        .trim()
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "");
+
+    const today = localToday(timezone, now);
+    if (value === "hoy") return today;
+    if (value === "ayer") return addDays(today, -1);
+    if (value === "anteayer" || value === "antes de ayer") return addDays(today, -2);
+
+    const weekday = Object.keys(WEEKDAYS).find((name) => value.includes(name));
+    if (weekday) return lastWeekday(WEEKDAYS[weekday], timezone, now);
+
+    const match = value.match(/^(\d{1,2})[/\-.](\d{1,2})(?:[/\-.](\d{2,4}))?$/);
+    if (!match) return null;
+
+    return absoluteDate(
+        parseInt(match[1], 10),
+        parseInt(match[2], 10),
+        match[3] ? parseInt(match[3], 10) : null,
+        timezone,
+        now,
+    );
+}
+
+/**
+ * UTC instant to store as occurred_at for a local date. Today keeps the
+ * current time; past days are stamped at local noon, far from midnight,
+ * so they never slip into the neighbouring day or month.
+ */
+export function localDateToInstant(
+    localDate: string,
+    timezone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date(),
+): Date {
+    if (localDate === localToday(timezone, now)) return now;
+
+    const [y, m, d] = localDate.split("-").map(Number);
+    return zonedTimeToUtc(y, m, d, 12, 0, timezone);
+}
+
+/** "2026-03-12" → "12/03/2026" */
+export function formatLocalDate(localDate: string): string {
+    const [y, m, d] = localDate.split("-");
+    return `${d}/${m}/${y}`;
+}
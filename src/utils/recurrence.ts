@@ -0,0 +1,163 @@
+// ============================================================================
+// Recurrence — Calendar math for subscriptions
+//
+// Charges repeat weekly, monthly or annually. Monthly and annual dates keep
+// the day of the month they started on (the anchor day): a subscription
+// started on the 31st is charged on the last day of shorter months and back
+// on the 31st when the month has one — it never drifts to the 28th.
+//
+// Fixed-term subscriptions last term_months calendar months and end on
+// end_date (exclusive: no charge on or after it). Open-ended ones have no
+// end_date and run until they are cancelled.
+//
+// All math is in UTC calendar days, like the dates stored by the parser.
+// ============================================================================
+
+import type { SubscriptionFrequency } from "../types/index.js";
+
+/** Months each frequency moves (weekly is handled in days) */
+const FREQUENCY_MONTHS: Record<SubscriptionFrequency, number> = {
+    weekly: 0,
+    monthly: 1,
+    annual: 12,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Number of days in a month (month 1-12) */
+export function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Moves a date by whole calendar months, landing on the anchor day or on
+ * the last day of the month when it is shorter. Time of day is kept.
+ * addMonths(31/01, 1) → 28/02; addMonths(28/02, 1, 31) → 31/03.
+ */
+export function addMonths(date: Date, months: number, anchorDay: number = date.getUTCDate()): Date {
+    const target = new Date(date);
+    target.setUTCDate(1);
+    target.setUTCMonth(target.getUTCMonth() + months);
+
+    const lastDay = daysInMonth(target.getUTCFullYear(), target.getUTCMonth() + 1);
+    target.setUTCDate(Math.min(anchorDay, lastDay));
+    return target;
+}
+
+/**
+ * Date of the occurrence after `from`, one period later.
+ * Unknown frequencies are treated as monthly (the subscription default).
+ */
+export function nextOccurrence(
+    from: Date,
+    frequency: SubscriptionFrequency | string,
+    anchorDay?: number | null,
+): Date {
+    if (frequency === "weekly") {
+        return new Date(from.getTime() + 7 * DAY_MS);
+    }
+
+    const months = FREQUENCY_MONTHS[frequency as SubscriptionFrequency] || 1;
+    return addMonths(from, months, anchorDay ?? from.getUTCDate());
+}
+
+/**
+ * First occurrence on or after `target`, stepping forward from `from`.
+ * Returns `from` itself when it is already on or after the target.
+ */
+export function occurrenceOnOrAfter(
+    from: Date,
+    target: Date,
+    frequency: SubscriptionFrequency | string,
+    anchorDay?: number | null,
+): Date {
+    let occurrence = new Date(from);
+    while (occurrence < target) {
+        occurrence = nextOccurrence(occurrence, frequency, anchorDay);
+    }
+    return occurrence;
+}
+
+/** End of a fixed term: `termMonths` calendar months after the start, anchored */
+export function termEndDate(start: Date, termMonths: number, anchorDay?: number | null): Date {
+    return addMonths(start, termMonths, anchorDay ?? start.getUTCDate());
+}
+
+/** True when a charge due on `due` falls outside the term (end_date is exclusive) */
+export function isPastTerm(due: Date, endDate: string | Date | null | undefined): boolean {
+    return !!endDate && due >= new Date(endDate);
+}
+
+/**
+ * Whole calendar months from one date to another, rounding a partial month
+ * of 15 days or more up. Used when a fixed term wasn't stored explicitly.
+ */
+export function monthsBetween(from: Date, to: Date): number {
+    let months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+    let reached = addMonths(from, months);
+
+    // Overshot (the day of `to` is before the day of `from`) → one month less
+    if (reached > to) {
+        months -= 1;
+        reached = addMonths(from, months);
+    }
+
+    const leftoverDays = (to.getTime() - reached.getTime()) / DAY_MS;
+    return Math.max(months + (leftoverDays >= 15 ? 1 : 0), 0);
+}
+
+// ---------------------------------------------------------------------------
+// Renewal
+// ---------------------------------------------------------------------------
+
+/** What renewal needs to know about a subscription */
+export interface RenewableSubscription {
+    frequency: SubscriptionFrequency | string;
+    next_payment_at: string;
+    end_date: string | null;
+    anchor_day: number | null;
+    term_months: number | null;
+    created_at: string;
+}
+
+/**
+ * Dates after renewing a subscription.
+ *
+ * Fixed-term: a new term of the same length starts where the old one ends.
+ * Renewing after it already ended starts the new term at the next
+ * occurrence instead, so the months in between are not charged.
+ *
+ * Open-ended: nothing to extend; the next charge moves to the first
+ * occurrence from now on (reactivating a paused or cancelled one).
+ */
+export function renewalDates(
+    sub: RenewableSubscription,
+    now: Date = new Date(),
+): { nextPaymentAt: Date; endDate: Date | null } {
+    const anchorDay = sub.anchor_day;
+    const nextPayment = new Date(sub.next_payment_at);
+
+    if (!sub.end_date) {
+        return {
+            nextPaymentAt: occurrenceOnOrAfter(nextPayment, now, sub.frequency, anchorDay),
+            endDate: null,
+        };
+    }
+
+    const oldEnd = new Date(sub.end_date);
+    const termMonths = sub.term_months ?? Math.max(monthsBetween(new Date(sub.created_at), oldEnd), 1);
+
+    if (oldEnd >= now) {
+        // Renewed in time: charges keep their dates, the term just gets longer
+        return {
+            nextPaymentAt: nextPayment,
+            endDate: termEndDate(oldEnd, termMonths, anchorDay),
+        };
+    }
+
+    const newStart = occurrenceOnOrAfter(nextPayment, now, sub.frequency, anchorDay);
+    return {
+        nextPaymentAt: newStart,
+        endDate: termEndDate(newStart, termMonths, anchorDay),
+    };
+}
@@ -0,0 +1,47 @@
+-- ============================================================================
+-- SUMA — Migration 011: Resumen mensual sin transacciones deshechas
+--
+-- El query engine (intent "query") lee v_monthly_summary para responder
+-- "¿cuánto gasté este mes?". La view de migration_005 no conoce deleted_at
+-- (agregado en migration_007), así que sumaba también los movimientos
+-- deshechos con "deshacer".
+--
+--   - Recrea v_monthly_summary y v_daily_totals filtrando deleted_at IS NULL
+--   - Índice parcial para las consultas por período del query engine
+--
+-- Idempotente: CREATE OR REPLACE VIEW / IF NOT EXISTS.
+-- ============================================================================
+
+-- Resumen mensual por tipo y categoría (solo transacciones vigentes)
+CREATE OR REPLACE VIEW v_monthly_summary AS
+SELECT
+  t.user_id,
+  u.phone,
+  t.type::TEXT AS transaction_type,
+  DATE_TRUNC('month', t.created_at) AS month,
+  c.name AS category,
+  COUNT(*)       AS transaction_count,
+  SUM(t.amount)  AS total_amount,
+  AVG(t.amount)  AS avg_amount
+FROM transactions t
+JOIN users u      ON u.id = t.user_id
+LEFT JOIN categories c ON c.id = t.category_id
+WHERE t.deleted_at IS NULL
+GROUP BY t.user_id, u.phone, t.type, DATE_TRUNC('month', t.created_at), c.name;
+
+-- Totales diarios por usuario y tipo (solo transacciones vigentes)
+CREATE OR REPLACE VIEW v_daily_totals AS
+SELECT
+  t.user_id,
+  t.type::TEXT AS transaction_type,
+  DATE(t.created_at) AS day,
+  SUM(t.amount)       AS total_amount,
+  COUNT(*)            AS transaction_count
+FROM transactions t
+WHERE t.deleted_at IS NULL
+GROUP BY t.user_id, t.type, DATE(t.created_at);
+
+-- Consultas por rango de fechas (semana pasada, ayer, etc.)
+CREATE INDEX IF NOT EXISTS idx_transactions_user_active_date
+  ON transactions(user_id, created_at DESC)
+  WHERE deleted_at IS NULL;
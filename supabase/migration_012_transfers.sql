@@ -0,0 +1,23 @@
+-- ============================================================================
+-- SUMA — Migration 012: Transferencias entre cuentas propias
+--
+-- Una transferencia es UNA fila en transactions:
+--   account_id             = cuenta de origen (sale la plata)
+--   destination_account_id = cuenta de destino (entra la plata)
+-- v_account_balances ya resta la fila en el origen y la suma en el destino
+-- (LATERAL transfers_in), así que no hace falta una fila espejo.
+--
+--   - Impide transferencias a la misma cuenta
+--   - Índice para el LATERAL de v_account_balances (busca por destino)
+--
+-- Idempotente: DROP CONSTRAINT IF EXISTS / IF NOT EXISTS.
+-- ============================================================================
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS chk_transfer_distinct;
+ALTER TABLE transactions ADD CONSTRAINT chk_transfer_distinct CHECK (
+  destination_account_id IS NULL OR destination_account_id <> account_id
+);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_destination
+  ON transactions(destination_account_id)
+  WHERE destination_account_id IS NOT NULL;
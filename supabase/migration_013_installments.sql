@@ -0,0 +1,20 @@
+-- ============================================================================
+-- SUMA — Migration 013: Compras en cuotas
+--
+-- Una compra "en 12 cuotas" se guarda como 12 filas de transactions
+-- (una por mes, created_at = fecha de cada cuota) numeradas con
+-- installment_current / installment_total (chk_installments, migration_005).
+-- installment_group_id agrupa las filas de la misma compra para:
+--   - "¿cuántas cuotas me quedan?" (filas futuras por compra)
+--   - deshacer la compra completa
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / IF NOT EXISTS.
+-- ============================================================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS installment_group_id UUID;
+COMMENT ON COLUMN transactions.installment_group_id IS 'Shared by all installments of one purchase. NULL for single payments.';
+
+-- Cuotas pendientes por usuario (filas futuras no deshechas)
+CREATE INDEX IF NOT EXISTS idx_transactions_installment_group
+  ON transactions(user_id, installment_group_id, created_at)
+  WHERE installment_group_id IS NOT NULL AND deleted_at IS NULL;
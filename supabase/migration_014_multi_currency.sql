@@ -0,0 +1,76 @@
+-- ============================================================================
+-- SUMA — Migration 014: Multimoneda (ARS / USD)
+--
+-- Cada transacción guarda su moneda original y la cotización con la que se
+-- convirtió a la moneda base del usuario, así los reportes históricos no
+-- cambian cuando se mueve el dólar:
+--   amount        = monto en la moneda original
+--   currency      = moneda original (ARS / USD)
+--   exchange_rate = unidades de moneda base por 1 unidad de currency
+--   rate_type     = cotización usada (oficial / mep / blue / tarjeta)
+--   amount_base   = amount * exchange_rate (lo que suman los reportes)
+--
+-- exchange_rates se carga con api/exchange-rates.ts (job diario) o a mano
+-- por un admin (source = 'manual', tiene prioridad sobre el job).
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / IF NOT EXISTS / CREATE OR REPLACE.
+-- ============================================================================
+
+-- Moneda base del usuario (en la que se muestran los reportes)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'ARS';
+
+-- Moneda y conversión por transacción
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency      TEXT NOT NULL DEFAULT 'ARS';
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,6);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS rate_type     TEXT;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS amount_base   NUMERIC(14,2);
+
+-- Filas existentes: todo era ARS
+UPDATE transactions
+SET exchange_rate = 1, amount_base = amount
+WHERE amount_base IS NULL;
+
+-- Cotizaciones (ARS por 1 USD)
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency      TEXT NOT NULL,
+  base_currency TEXT NOT NULL DEFAULT 'ARS',
+  rate_type     TEXT NOT NULL CHECK (rate_type IN ('oficial', 'mep', 'blue', 'tarjeta')),
+  buy           NUMERIC(18,6),
+  sell          NUMERIC(18,6) NOT NULL CHECK (sell > 0),
+  rate_date     DATE NOT NULL DEFAULT CURRENT_DATE,
+  source        TEXT NOT NULL DEFAULT 'job' CHECK (source IN ('job', 'manual')),
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (currency, base_currency, rate_type, rate_date, source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup
+  ON exchange_rates(currency, base_currency, rate_type, rate_date DESC);
+
+-- Resumen mensual en moneda base
+CREATE OR REPLACE VIEW v_monthly_summary AS
+SELECT
+  t.user_id,
+  u.phone,
+  t.type::TEXT AS transaction_type,
+  DATE_TRUNC('month', t.created_at) AS month,
+  c.name AS category,
+  COUNT(*)                                 AS transaction_count,
+  SUM(COALESCE(t.amount_base, t.amount))   AS total_amount,
+  AVG(COALESCE(t.amount_base, t.amount))   AS avg_amount
+FROM transactions t
+JOIN users u      ON u.id = t.user_id
+LEFT JOIN categories c ON c.id = t.category_id
+WHERE t.deleted_at IS NULL
+GROUP BY t.user_id, u.phone, t.type, DATE_TRUNC('month', t.created_at), c.name;
+
+CREATE OR REPLACE VIEW v_daily_totals AS
+SELECT
+  t.user_id,
+  t.type::TEXT AS transaction_type,
+  DATE(t.created_at) AS day,
+  SUM(COALESCE(t.amount_base, t.amount)) AS total_amount,
+  COUNT(*)                               AS transaction_count
+FROM transactions t
+WHERE t.deleted_at IS NULL
+GROUP BY t.user_id, t.type, DATE(t.created_at);
@@ -0,0 +1,258 @@
+-- ============================================================================
+-- SUMA — Migration 015: Saldos de cuentas mantenidos + conciliación
+--
+-- accounts.balance existía pero nunca se actualizaba. Ahora lo mantiene un
+-- trigger sobre transactions, en la misma transacción que el cambio:
+--   - INSERT                 → aplica el movimiento
+--   - UPDATE (editar/undo)   → revierte la versión vieja y aplica la nueva
+--                              (deleted_at NOT NULL cuenta como "no existe")
+--   - DELETE                 → revierte el movimiento
+--
+-- Efecto de cada tipo sobre las cuentas:
+--   income   → + origen
+--   expense  → − origen
+--   savings  → − origen (plata apartada, deja de estar disponible)
+--   transfer → − origen, + destino
+-- Monto: amount si la moneda coincide con la de la cuenta; si no, amount
+-- por account_rate (unidades de la otra moneda por 1 unidad de la del
+-- movimiento). Un trigger BEFORE lo completa con exchange_rate cuando la
+-- otra moneda es la base del usuario, o con la cotización guardada del día
+-- cuando el movimiento está en la moneda base y la cuenta no (un gasto en
+-- ARS con la cuenta en USD). Sin cotización cargada el movimiento se
+-- rechaza; v_unconverted_transactions lista los que quedaron sin convertir.
+--
+-- v_account_balances recalcula lo mismo desde el libro (sin filas deshechas)
+-- y expone stored_balance / drift para el job de conciliación.
+--
+-- is_adjustment marca los ajustes de saldo ("tengo 45.000 en el banco"):
+-- mueven el saldo pero no cuentan como ingreso/gasto en los resúmenes.
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / CREATE OR REPLACE / DROP IF EXISTS.
+-- ============================================================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS is_adjustment BOOLEAN NOT NULL DEFAULT FALSE;
+COMMENT ON COLUMN transactions.is_adjustment IS 'Balance adjustment entry: moves the account balance, excluded from income/expense reports.';
+
+-- Sin escala: 1 / cotización (ARS → USD) no entra en 6 decimales
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_rate NUMERIC;
+COMMENT ON COLUMN transactions.account_rate IS 'Units of the other currency per 1 unit of currency, to post the movement to an account in that currency. Set by trigger; NULL when all its accounts share its currency.';
+
+-- -----------------------------------------------
+-- 1. Monto de una transacción expresado en la moneda de una cuenta
+-- -----------------------------------------------
+
+CREATE OR REPLACE FUNCTION trg_transactions_account_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  mixed BOOLEAN;
+  on_card BOOLEAN;
+  base TEXT;
+  quote NUMERIC;
+BEGIN
+  SELECT
+    bool_or(a.currency <> NEW.currency),
+    bool_or(a.id = NEW.account_id AND a.type::TEXT = 'credit_card')
+  INTO mixed, on_card
+  FROM accounts a
+  WHERE a.id IN (NEW.account_id, NEW.destination_account_id);
+
+  NEW.account_rate := NULL;
+  IF NOT COALESCE(mixed, FALSE) THEN
+    RETURN NEW;
+  END IF;
+
+  -- La otra moneda es la base: sirve la cotización con que se convirtió
+  SELECT u.base_currency INTO base FROM users u WHERE u.id = NEW.user_id;
+  IF NEW.currency <> base AND NEW.exchange_rate IS NOT NULL THEN
+    NEW.account_rate := NEW.exchange_rate;
+    RETURN NEW;
+  END IF;
+
+  -- Si no, la cotización guardada (ARS por 1 USD), con el tipo del
+  -- movimiento o el que usa la app (tarjeta para tarjetas, MEP si no)
+  SELECT r.sell INTO quote
+  FROM exchange_rates r
+  WHERE r.currency = 'USD'
+    AND r.base_currency = 'ARS'
+    AND r.rate_date <= COALESCE(NEW.created_at, now())::DATE
+  ORDER BY
+    r.rate_type = COALESCE(NEW.rate_type, CASE WHEN on_card THEN 'tarjeta' ELSE 'mep' END) DESC,
+    r.rate_date DESC,
+    r.source DESC
+  LIMIT 1;
+
+  IF quote IS NOT NULL THEN
+    NEW.account_rate := CASE WHEN NEW.currency = 'USD' THEN quote ELSE 1 / quote END;
+  ELSIF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'No exchange rate to post a % movement to an account in another currency', NEW.currency;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_account_rate ON transactions;
+CREATE TRIGGER transactions_account_rate
+  BEFORE INSERT OR UPDATE OF currency, exchange_rate, rate_type, account_id, destination_account_id
+  ON transactions
+  FOR EACH ROW EXECUTE FUNCTION trg_transactions_account_rate();
+
+-- Movimientos existentes en cuentas de otra moneda (el trigger completa la cotización)
+UPDATE transactions t
+SET currency = t.currency
+WHERE EXISTS (
+  SELECT 1 FROM accounts a
+  WHERE a.id IN (t.account_id, t.destination_account_id)
+    AND a.currency <> t.currency
+);
+
+-- Sin cotización (filas viejas o editadas) no mueve el saldo: lo reporta la conciliación
+CREATE OR REPLACE FUNCTION transaction_amount_in(t transactions, account_currency TEXT)
+RETURNS NUMERIC
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN t.currency = account_currency THEN t.amount
+    ELSE COALESCE(ROUND(t.amount * t.account_rate, 2), 0)
+  END;
+$$;
+
+-- -----------------------------------------------
+-- 2. Trigger: mantener accounts.balance
+-- -----------------------------------------------
+
+CREATE OR REPLACE FUNCTION apply_transaction_to_balances(t transactions, direction INT)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF t.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  -- Cuenta de origen
+  UPDATE accounts a
+  SET balance = a.balance + direction
+    * (CASE WHEN t.type = 'income' THEN 1 ELSE -1 END)
+    * transaction_amount_in(t, a.currency)
+  WHERE a.id = t.account_id;
+
+  -- Cuenta de destino (solo transferencias)
+  IF t.type = 'transfer' AND t.destination_account_id IS NOT NULL THEN
+    UPDATE accounts a
+    SET balance = a.balance + direction * transaction_amount_in(t, a.currency)
+    WHERE a.id = t.destination_account_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trg_transactions_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM apply_transaction_to_balances(OLD, -1);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM apply_transaction_to_balances(NEW, 1);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_balance ON transactions;
+CREATE TRIGGER transactions_balance
+  AFTER INSERT OR DELETE OR UPDATE OF type, amount, currency, amount_base, account_id, destination_account_id, deleted_at
+  ON transactions
+  FOR EACH ROW EXECUTE FUNCTION trg_transactions_balance();
+
+-- -----------------------------------------------
+-- 3. Saldo recalculado desde el libro
+-- -----------------------------------------------
+
+CREATE OR REPLACE VIEW v_account_balances AS
+WITH legs AS (
+  -- Origen: suma ingresos, resta el resto
+  SELECT
+    t.account_id,
+    CASE WHEN t.type = 'income' THEN 1 ELSE -1 END AS sign,
+    t
+  FROM transactions t
+  WHERE t.deleted_at IS NULL
+  UNION ALL
+  -- Destino de transferencias
+  SELECT t.destination_account_id, 1, t
+  FROM transactions t
+  WHERE t.deleted_at IS NULL
+    AND t.type = 'transfer'
+    AND t.destination_account_id IS NOT NULL
+)
+SELECT
+  a.id AS account_id,
+  a.user_id,
+  a.name AS account_name,
+  a.type::TEXT AS account_type,
+  a.currency,
+  COALESCE(SUM(l.sign * transaction_amount_in(l.t, a.currency)), 0) AS calculated_balance,
+  a.balance AS stored_balance,
+  a.balance - COALESCE(SUM(l.sign * transaction_amount_in(l.t, a.currency)), 0) AS drift
+FROM accounts a
+LEFT JOIN legs l ON l.account_id = a.id
+GROUP BY a.id, a.user_id, a.name, a.type, a.currency, a.balance;
+
+-- Punto de partida: saldo guardado = saldo del libro
+UPDATE accounts a
+SET balance = v.calculated_balance
+FROM v_account_balances v
+WHERE v.account_id = a.id
+  AND v.drift <> 0;
+
+-- Movimientos en cuentas de otra moneda que no se pudieron convertir
+CREATE OR REPLACE VIEW v_unconverted_transactions AS
+SELECT
+  t.id AS transaction_id,
+  t.user_id,
+  a.id AS account_id,
+  a.name AS account_name,
+  a.currency AS account_currency,
+  t.currency,
+  t.amount
+FROM transactions t
+JOIN accounts a ON a.id IN (t.account_id, t.destination_account_id)
+WHERE t.deleted_at IS NULL
+  AND a.currency <> t.currency
+  AND t.account_rate IS NULL;
+
+-- -----------------------------------------------
+-- 4. Los ajustes de saldo no son ingresos ni gastos
+-- -----------------------------------------------
+
+CREATE OR REPLACE VIEW v_monthly_summary AS
+SELECT
+  t.user_id,
+  u.phone,
+  t.type::TEXT AS transaction_type,
+  DATE_TRUNC('month', t.created_at) AS month,
+  c.name AS category,
+  COUNT(*)                                 AS transaction_count,
+  SUM(COALESCE(t.amount_base, t.amount))   AS total_amount,
+  AVG(COALESCE(t.amount_base, t.amount))   AS avg_amount
+FROM transactions t
+JOIN users u      ON u.id = t.user_id
+LEFT JOIN categories c ON c.id = t.category_id
+WHERE t.deleted_at IS NULL
+  AND NOT t.is_adjustment
+GROUP BY t.user_id, u.phone, t.type, DATE_TRUNC('month', t.created_at), c.name;
+
+CREATE OR REPLACE VIEW v_daily_totals AS
+SELECT
+  t.user_id,
+  t.type::TEXT AS transaction_type,
+  DATE(t.created_at) AS day,
+  SUM(COALESCE(t.amount_base, t.amount)) AS total_amount,
+  COUNT(*)                               AS transaction_count
+FROM transactions t
+WHERE t.deleted_at IS NULL
+  AND NOT t.is_adjustment
+GROUP BY t.user_id, t.type, DATE(t.created_at);
@@ -0,0 +1,73 @@
+-- ============================================================================
+-- SUMA — Migration 016: Fecha real del movimiento (occurred_at)
+--
+-- created_at es cuándo se guardó la fila; occurred_at es cuándo pasó el
+-- gasto ("ayer", "el viernes", la fecha del ticket). Los resúmenes, el
+-- query engine y las cuotas usan occurred_at.
+--
+--   - transactions.occurred_at (backfill = created_at; las cuotas futuras
+--     de migration_013 ya tenían created_at = fecha de la cuota)
+--   - users.timezone: zona horaria para resolver fechas y meses
+--   - v_monthly_summary / v_daily_totals agrupan por occurred_at en la zona
+--     horaria del usuario. month pasa a ser DATE ("2026-03-01"), por eso se
+--     recrean con DROP + CREATE.
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / DROP VIEW IF EXISTS.
+-- ============================================================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/Argentina/Buenos_Aires';
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS occurred_at TIMESTAMPTZ;
+
+UPDATE transactions
+SET occurred_at = COALESCE(created_at, now())
+WHERE occurred_at IS NULL;
+
+ALTER TABLE transactions ALTER COLUMN occurred_at SET DEFAULT now();
+ALTER TABLE transactions ALTER COLUMN occurred_at SET NOT NULL;
+
+COMMENT ON COLUMN transactions.occurred_at IS 'When the transaction happened (user-provided or receipt date). Reports group by this, not created_at.';
+
+-- Consultas por período (query engine) y cuotas futuras
+CREATE INDEX IF NOT EXISTS idx_transactions_user_occurred
+  ON transactions(user_id, occurred_at DESC)
+  WHERE deleted_at IS NULL;
+
+DROP INDEX IF EXISTS idx_transactions_installment_group;
+CREATE INDEX idx_transactions_installment_group
+  ON transactions(user_id, installment_group_id, occurred_at)
+  WHERE installment_group_id IS NOT NULL AND deleted_at IS NULL;
+
+-- Resumen mensual por mes calendario del usuario
+DROP VIEW IF EXISTS v_monthly_summary;
+CREATE VIEW v_monthly_summary AS
+SELECT
+  t.user_id,
+  u.phone,
+  t.type::TEXT AS transaction_type,
+  DATE_TRUNC('month', t.occurred_at AT TIME ZONE u.timezone)::DATE AS month,
+  c.name AS category,
+  COUNT(*)                                 AS transaction_count,
+  SUM(COALESCE(t.amount_base, t.amount))   AS total_amount,
+  AVG(COALESCE(t.amount_base, t.amount))   AS avg_amount
+FROM transactions t
+JOIN users u      ON u.id = t.user_id
+LEFT JOIN categories c ON c.id = t.category_id
+WHERE t.deleted_at IS NULL
+  AND NOT t.is_adjustment
+GROUP BY t.user_id, u.phone, t.type, DATE_TRUNC('month', t.occurred_at AT TIME ZONE u.timezone)::DATE, c.name;
+
+-- Totales diarios por día calendario del usuario
+DROP VIEW IF EXISTS v_daily_totals;
+CREATE VIEW v_daily_totals AS
+SELECT
+  t.user_id,
+  t.type::TEXT AS transaction_type,
+  DATE(t.occurred_at AT TIME ZONE u.timezone) AS day,
+  SUM(COALESCE(t.amount_base, t.amount)) AS total_amount,
+  COUNT(*)                               AS transaction_count
+FROM transactions t
+JOIN users u ON u.id = t.user_id
+WHERE t.deleted_at IS NULL
+  AND NOT t.is_adjustment
+GROUP BY t.user_id, t.type, DATE(t.occurred_at AT TIME ZONE u.timezone);
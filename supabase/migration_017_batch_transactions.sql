@@ -0,0 +1,24 @@
+-- ============================================================================
+-- SUMA — Migration 017: Varios movimientos en un mismo mensaje
+--
+-- "gasté 5000 en el súper y 2000 en nafta" o un ticket con varios ítems
+-- generan una sola confirmación (confirmation_type = 'batch') y se guardan
+-- juntos en un único INSERT. batch_id agrupa las filas para deshacer el
+-- lote completo (undo_batch_).
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / DROP CONSTRAINT IF EXISTS.
+-- ============================================================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS batch_id UUID;
+COMMENT ON COLUMN transactions.batch_id IS 'Shared by the transactions confirmed together from one message (batch undo).';
+
+CREATE INDEX IF NOT EXISTS idx_transactions_batch
+  ON transactions(user_id, batch_id)
+  WHERE batch_id IS NOT NULL AND deleted_at IS NULL;
+
+-- pending_confirmations acepta lotes: { items: [...], editing_index }
+ALTER TABLE pending_confirmations
+  DROP CONSTRAINT IF EXISTS pending_confirmations_confirmation_type_check;
+ALTER TABLE pending_confirmations
+  ADD CONSTRAINT pending_confirmations_confirmation_type_check
+  CHECK (confirmation_type IN ('transaction', 'subscription', 'batch'));
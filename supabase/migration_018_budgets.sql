@@ -0,0 +1,33 @@
+-- ============================================================================
+-- SUMA — Migration 018: Presupuestos mensuales por categoría
+--
+-- "presupuesto de comida 80.000" → una fila por (usuario, categoría). El
+-- presupuesto vale para todos los meses, en la moneda base del usuario, y
+-- se compara contra los gastos del mes calendario (amount_base, por
+-- occurred_at, sin ajustes ni movimientos deshechos).
+--
+-- alerted_month / alerted_threshold recuerdan el último aviso enviado
+-- (80 o 100) para no repetirlo en cada gasto del mismo mes.
+--
+-- Idempotente: CREATE TABLE IF NOT EXISTS / CREATE INDEX IF NOT EXISTS.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS budgets (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id           UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  category_id       UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  amount            NUMERIC(14,2) NOT NULL CHECK (amount > 0),
+  alerted_month     DATE,                              -- mes del último aviso ("2026-03-01")
+  alerted_threshold INT NOT NULL DEFAULT 0 CHECK (alerted_threshold IN (0, 80, 100)),
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_user
+  ON budgets(user_id);
+
+-- Gasto del mes por categoría (chequeo de presupuesto después de cada gasto)
+CREATE INDEX IF NOT EXISTS idx_transactions_user_category_occurred
+  ON transactions(user_id, category_id, occurred_at)
+  WHERE deleted_at IS NULL AND type = 'expense';
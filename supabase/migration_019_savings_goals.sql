@@ -0,0 +1,44 @@
+-- ============================================================================
+-- SUMA — Migration 019: Metas de ahorro
+--
+-- migration_008 agregó 'savings' a transaction_type; ahora se usa:
+--   "quiero ahorrar 500.000 para vacaciones en diciembre" → savings_goals
+--   "aparté 20.000 para vacaciones" → transacción savings con savings_goal_id
+--
+-- El progreso de cada meta es la suma de sus transacciones savings no
+-- deshechas (amount_base, moneda base del usuario). El saldo de la cuenta
+-- de origen baja por el trigger de migration_015 (savings = − origen).
+--
+-- last_nudge_at evita mandar más de un recordatorio por mes
+-- (api/savings-nudges.ts).
+--
+-- Idempotente: CREATE TABLE IF NOT EXISTS / ADD COLUMN IF NOT EXISTS.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS savings_goals (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name          TEXT NOT NULL,
+  target_amount NUMERIC(14,2) NOT NULL CHECK (target_amount > 0),
+  target_date   DATE NOT NULL,
+  achieved_at   TIMESTAMPTZ,
+  cancelled_at  TIMESTAMPTZ,
+  last_nudge_at TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Una meta activa por nombre
+CREATE UNIQUE INDEX IF NOT EXISTS idx_savings_goals_user_name
+  ON savings_goals(user_id, lower(name))
+  WHERE cancelled_at IS NULL;
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS savings_goal_id UUID REFERENCES savings_goals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_savings_goal
+  ON transactions(savings_goal_id)
+  WHERE savings_goal_id IS NOT NULL AND deleted_at IS NULL;
+
+-- Categoría global para los ahorros
+INSERT INTO categories (name, icon) VALUES ('ahorro', '🐷')
+ON CONFLICT (name) WHERE user_id IS NULL DO NOTHING;
@@ -0,0 +1,41 @@
+-- ============================================================================
+-- SUMA — Migration 020: Cobros recurrentes de suscripciones
+--
+-- api/process-charges.ts registra el gasto de cada suscripción activa cuando
+-- vence next_payment_at y avanza la fecha según frequency.
+--
+-- La transacción guarda a qué suscripción y a qué período corresponde; el
+-- índice único (subscription_id, subscription_period) hace que un reintento
+-- del cron nunca cobre dos veces el mismo período.
+--
+-- Al confirmar una suscripción ya se registra el primer cobro, así que
+-- next_payment_at pasa a apuntar al período siguiente. El backfill corrige
+-- las suscripciones existentes cuyo next_payment_at todavía es el del cobro
+-- inicial (para no duplicarlo en la primera corrida).
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / CREATE INDEX IF NOT EXISTS.
+-- ============================================================================
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL;
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS subscription_period DATE;
+
+COMMENT ON COLUMN transactions.subscription_id IS 'Subscription this charge belongs to (recurring charges).';
+COMMENT ON COLUMN transactions.subscription_period IS 'Billing period (due date) this charge covers.';
+
+-- Un cobro por período
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_subscription_period
+  ON transactions (subscription_id, subscription_period)
+  WHERE subscription_id IS NOT NULL;
+
+-- Backfill: el cobro inicial ya está registrado → avanzar un período
+UPDATE subscriptions
+SET next_payment_at = next_payment_at + CASE frequency
+    WHEN 'weekly' THEN INTERVAL '7 days'
+    WHEN 'annual' THEN INTERVAL '1 year'
+    ELSE INTERVAL '1 month'
+  END
+WHERE is_active = TRUE
+  AND cancelled_at IS NULL
+  AND next_payment_at <= created_at + INTERVAL '1 day';
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- SUMA — Migration 021: Pausar suscripciones
+--
+-- "mis suscripciones" permite pausar una suscripción hasta una fecha.
+-- Al pausar, next_payment_at salta al primer período desde paused_until, así
+-- que api/process-charges.ts no cobra nada durante la pausa y retoma solo.
+-- paused_until queda para mostrar "pausada hasta" en la lista.
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS.
+-- ============================================================================
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS paused_until TIMESTAMPTZ;
+COMMENT ON COLUMN subscriptions.paused_until IS 'Paused until this date: no charges before it. NULL = not paused.';
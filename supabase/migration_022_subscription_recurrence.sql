@@ -0,0 +1,33 @@
+-- ============================================================================
+-- SUMA — Migration 022: Recurrencia de suscripciones por calendario
+--
+-- anchor_day: día del mes en que cae el cobro mensual/anual. Una suscripción
+-- del 31 se cobra el último día de los meses cortos y vuelve al 31 cuando el
+-- mes lo tiene (no se corre al 28 para siempre).
+--
+-- term_months: duración de un plazo fijo ("por 6 meses"), NULL = sin fin.
+-- Al renovar, el plazo nuevo dura lo mismo en meses de calendario en lugar
+-- de la diferencia en milisegundos entre fechas (src/utils/recurrence.ts).
+--
+-- Backfill: anchor_day sale del día de next_payment_at; term_months de la
+-- distancia entre created_at y end_date redondeada a meses.
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS, backfill solo donde es NULL.
+-- ============================================================================
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS anchor_day SMALLINT CHECK (anchor_day BETWEEN 1 AND 31);
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS term_months SMALLINT CHECK (term_months > 0);
+
+COMMENT ON COLUMN subscriptions.anchor_day IS 'Day of month monthly/annual charges fall on (last day of shorter months).';
+COMMENT ON COLUMN subscriptions.term_months IS 'Length of a fixed term in calendar months. NULL = open-ended.';
+
+UPDATE subscriptions
+SET anchor_day = EXTRACT(DAY FROM next_payment_at AT TIME ZONE 'UTC')
+WHERE anchor_day IS NULL;
+
+UPDATE subscriptions
+SET term_months = GREATEST(1, ROUND(EXTRACT(EPOCH FROM (end_date - created_at)) / 2629746))
+WHERE term_months IS NULL
+  AND end_date IS NOT NULL;
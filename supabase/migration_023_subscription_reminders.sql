@@ -0,0 +1,66 @@
+-- ============================================================================
+-- SUMA — Migration 023: Recordatorios múltiples por suscripción
+--
+-- Reemplaza el par alert_date / alert_sent (un solo aviso por suscripción)
+-- por la tabla subscription_reminders: N avisos antes de cada cobro, o antes
+-- del fin de un plazo fijo ("7 días antes, 1 día antes y el mismo día").
+--
+--   - users.reminder_days: días de aviso por defecto del usuario
+--   - subscriptions.reminder_days: override por suscripción (NULL = defaults)
+--   - subscription_reminders: una fila por aviso, con su estado de entrega
+--
+-- api/process-alerts.ts crea las filas cuando vencen y las manda. El unique
+-- (subscription_id, target_date, days_before) hace que cada aviso exista y
+-- se mande una sola vez; los avisos con fecha elegida por el usuario tienen
+-- days_before NULL.
+--
+-- Backfill: las alertas pendientes de alert_date pasan a la tabla. Las
+-- columnas alert_date / alert_sent quedan sin uso.
+--
+-- Idempotente: CREATE TABLE IF NOT EXISTS / ADD COLUMN IF NOT EXISTS.
+-- ============================================================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS reminder_days SMALLINT[] NOT NULL DEFAULT '{1}';
+COMMENT ON COLUMN users.reminder_days IS 'Default days before each subscription charge to send a reminder (0 = same day).';
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS reminder_days SMALLINT[];
+COMMENT ON COLUMN subscriptions.reminder_days IS 'Override of users.reminder_days for this subscription. NULL = use the defaults, {} = no reminders.';
+
+CREATE TABLE IF NOT EXISTS subscription_reminders (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+  user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind            TEXT NOT NULL CHECK (kind IN ('charge', 'renewal')),
+  target_date     TIMESTAMPTZ NOT NULL,
+  days_before     SMALLINT CHECK (days_before >= 0),
+  remind_at       TIMESTAMPTZ NOT NULL,
+  status          TEXT NOT NULL DEFAULT 'pending'
+                  CHECK (status IN ('pending', 'sent', 'failed', 'skipped', 'cancelled')),
+  attempts        SMALLINT NOT NULL DEFAULT 0,
+  last_error      TEXT,
+  sent_at         TIMESTAMPTZ,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (subscription_id, target_date, days_before)
+);
+
+-- Avisos por mandar (cron)
+CREATE INDEX IF NOT EXISTS idx_subscription_reminders_pending
+  ON subscription_reminders (remind_at)
+  WHERE status = 'pending';
+
+-- Backfill: alertas de alert_date que todavía no se mandaron
+INSERT INTO subscription_reminders (subscription_id, user_id, kind, target_date, days_before, remind_at)
+SELECT id, user_id, 'renewal', end_date, NULL, alert_date
+FROM subscriptions
+WHERE alert_date IS NOT NULL
+  AND alert_sent = false
+  AND end_date IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM subscription_reminders r
+    WHERE r.subscription_id = subscriptions.id AND r.days_before IS NULL
+  );
+
+COMMENT ON COLUMN subscriptions.alert_date IS 'Deprecated: replaced by subscription_reminders (migration_023).';
+COMMENT ON COLUMN subscriptions.alert_sent IS 'Deprecated: replaced by subscription_reminders (migration_023).';
@@ -0,0 +1,29 @@
+-- ============================================================================
+-- SUMA — Migration 024: Pruebas gratis
+--
+-- Una suscripción puede arrancar con una prueba gratis ("Spotify 30 días
+-- gratis y después 3.500 por mes"): no se registra ningún gasto hasta que
+-- termina, y next_payment_at apunta al primer cobro.
+--
+--   - subscriptions.is_trial: true mientras dura la prueba
+--   - subscriptions.trial_ends_at: día en que la prueba pasa a ser paga
+--   - subscription_reminders.kind: suma 'trial' (aviso antes de que
+--     termine, con botones "Cancelar" / "Me la quedo")
+--
+-- is_trial pasa a false cuando el usuario se la queda o cuando
+-- api/process-charges.ts registra el primer cobro.
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / DROP CONSTRAINT IF EXISTS.
+-- ============================================================================
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS is_trial BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMPTZ;
+COMMENT ON COLUMN subscriptions.is_trial IS 'True while the subscription is in its free trial (nothing charged yet).';
+COMMENT ON COLUMN subscriptions.trial_ends_at IS 'When the free trial converts to paid (first charge).';
+
+ALTER TABLE subscription_reminders
+  DROP CONSTRAINT IF EXISTS subscription_reminders_kind_check;
+ALTER TABLE subscription_reminders
+  ADD CONSTRAINT subscription_reminders_kind_check
+  CHECK (kind IN ('charge', 'renewal', 'trial'));
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- SUMA — Migration 025: Resúmenes semanales y mensuales
+--
+-- api/process-digests.ts manda a cada usuario activo un resumen de la semana
+-- (el día y la hora que elija) y otro a fin de mes (el día 1, con el mes
+-- que terminó): totales por tipo, categorías principales, gastos más
+-- grandes, comparación con el período anterior y próximos cobros.
+--
+--   - users.digest_weekly / digest_monthly: opt-in/out por chat
+--   - users.digest_weekday (1=lunes … 7=domingo) y digest_hour (hora local)
+--   - digest_sends: un resumen por usuario, tipo y período
+--
+-- El unique (user_id, kind, period_start) se reclama ANTES de mandar, así
+-- los reintentos del cron nunca mandan el mismo resumen dos veces.
+--
+-- Idempotente: CREATE TABLE IF NOT EXISTS / ADD COLUMN IF NOT EXISTS.
+-- ============================================================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS digest_weekly BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS digest_monthly BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS digest_weekday SMALLINT NOT NULL DEFAULT 1 CHECK (digest_weekday BETWEEN 1 AND 7),
+  ADD COLUMN IF NOT EXISTS digest_hour SMALLINT NOT NULL DEFAULT 9 CHECK (digest_hour BETWEEN 0 AND 23);
+COMMENT ON COLUMN users.digest_weekday IS 'ISO weekday the weekly digest is sent on (1 = Monday … 7 = Sunday), in the user''s timezone.';
+COMMENT ON COLUMN users.digest_hour IS 'Local hour (0-23) from which digests are sent.';
+
+CREATE TABLE IF NOT EXISTS digest_sends (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id       UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind          TEXT NOT NULL CHECK (kind IN ('weekly', 'monthly')),
+  period_start  DATE NOT NULL,
+  status        TEXT NOT NULL DEFAULT 'sending'
+                  CHECK (status IN ('sending', 'sent', 'failed', 'skipped')),
+  attempts      SMALLINT NOT NULL DEFAULT 1,
+  last_error    TEXT,
+  sent_at       TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, kind, period_start)
+);
+COMMENT ON TABLE digest_sends IS 'One row per digest (user, kind, period), claimed before sending so cron retries never double-send.';
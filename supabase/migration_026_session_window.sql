@@ -0,0 +1,29 @@
+-- ============================================================================
+-- SUMA — Migration 026: Ventana de 24 horas de WhatsApp
+--
+-- Meta solo entrega mensajes libres (texto, botones) dentro de las 24 horas
+-- desde el último mensaje del usuario; fuera de esa ventana hay que mandar
+-- un template aprobado. users.last_inbound_at guarda cuándo escribió por
+-- última vez, y los mensajes proactivos (recordatorios, cobros, resúmenes,
+-- metas de ahorro) eligen entre el mensaje libre y su template con eso.
+--
+-- Backfill: último mensaje recibido en processed_messages (se guardan 7
+-- días; los usuarios sin mensajes recientes quedan en NULL = ventana
+-- cerrada, que es lo correcto).
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / el backfill solo completa NULLs.
+-- ============================================================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS last_inbound_at TIMESTAMPTZ;
+COMMENT ON COLUMN users.last_inbound_at IS 'When the user last wrote to us. Free-form messages are only allowed within 24h of it; otherwise a template is sent.';
+
+UPDATE users u
+SET last_inbound_at = m.last_received
+FROM (
+  SELECT user_phone, max(received_at) AS last_received
+  FROM processed_messages
+  GROUP BY user_phone
+) m
+WHERE m.user_phone = u.phone
+  AND u.last_inbound_at IS NULL;
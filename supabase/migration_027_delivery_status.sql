@@ -0,0 +1,70 @@
+-- ============================================================================
+-- SUMA — Migration 027: Estado de entrega de los mensajes enviados
+--
+-- WhatsApp avisa por webhook qué pasó con cada mensaje que mandamos
+-- (sent / delivered / read / failed, con código de error). api/webhook.ts
+-- los encola y api/process-status.ts los guarda:
+--
+--   - outbound_messages: un registro por mensaje enviado, por wamid (el ID
+--     que devuelve la API al mandar), con su tipo y su último estado
+--   - message_status_events: cada evento recibido (unique por wamid y
+--     estado, así los reintentos no lo duplican)
+--   - subscription_reminders.wamid: el mensaje que llevó cada aviso; si
+--     falla, el aviso vuelve a pending para reintentarse
+--   - v_delivery_rates: tasa de entrega y lectura por tipo de mensaje y día
+--
+-- Idempotente: CREATE TABLE IF NOT EXISTS / ADD COLUMN IF NOT EXISTS /
+-- CREATE OR REPLACE VIEW.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS outbound_messages (
+  wamid         TEXT PRIMARY KEY,
+  recipient     TEXT NOT NULL,
+  kind          TEXT NOT NULL DEFAULT 'reply',
+  status        TEXT NOT NULL DEFAULT 'accepted'
+                  CHECK (status IN ('accepted', 'sent', 'delivered', 'read', 'failed')),
+  error_code    INTEGER,
+  error_title   TEXT,
+  sent_at       TIMESTAMPTZ,
+  delivered_at  TIMESTAMPTZ,
+  read_at       TIMESTAMPTZ,
+  failed_at     TIMESTAMPTZ,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_kind_created
+  ON outbound_messages(kind, created_at);
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_recipient
+  ON outbound_messages(recipient, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS message_status_events (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wamid         TEXT NOT NULL,
+  status        TEXT NOT NULL CHECK (status IN ('sent', 'delivered', 'read', 'failed')),
+  error_code    INTEGER,
+  error_title   TEXT,
+  occurred_at   TIMESTAMPTZ NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (wamid, status)
+);
+
+ALTER TABLE subscription_reminders
+  ADD COLUMN IF NOT EXISTS wamid TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_subscription_reminders_wamid
+  ON subscription_reminders(wamid)
+  WHERE wamid IS NOT NULL;
+
+-- Un mensaje leído también fue entregado (read_at sin delivered_at cuenta)
+CREATE OR REPLACE VIEW v_delivery_rates AS
+SELECT
+  kind,
+  date_trunc('day', created_at)::date AS day,
+  count(*) AS total,
+  count(*) FILTER (WHERE delivered_at IS NOT NULL OR read_at IS NOT NULL) AS delivered,
+  count(*) FILTER (WHERE read_at IS NOT NULL) AS read,
+  count(*) FILTER (WHERE status = 'failed') AS failed,
+  round(count(*) FILTER (WHERE delivered_at IS NOT NULL OR read_at IS NOT NULL)::numeric / count(*), 4) AS delivery_rate,
+  round(count(*) FILTER (WHERE read_at IS NOT NULL)::numeric / count(*), 4) AS read_rate
+FROM outbound_messages
+GROUP BY kind, date_trunc('day', created_at)::date;
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- SUMA — Migration 028: Registro de todo lo que manda el bot
+--
+-- outbound_messages (migration_027) pasa a guardar cada mensaje enviado,
+-- no solo su estado de entrega:
+--
+--   - message_type / payload: tipo (text, interactive, template) y el
+--     cuerpo tal cual se mandó a la API
+--   - transaction_id / subscription_id / confirmation_id: a qué se refiere
+--   - error / status 'rejected': envíos que la API rechazó (sin wamid)
+--
+-- wamid deja de ser la primary key (los rechazados no tienen) y pasa a
+-- UNIQUE; id es la nueva PK. Sirve para soporte ("¿qué le mandamos a este
+-- usuario?", por recipient) y como base de límites por usuario.
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / DROP CONSTRAINT IF EXISTS.
+-- ============================================================================
+
+ALTER TABLE outbound_messages
+  ADD COLUMN IF NOT EXISTS id UUID NOT NULL DEFAULT gen_random_uuid(),
+  ADD COLUMN IF NOT EXISTS message_type TEXT,
+  ADD COLUMN IF NOT EXISTS payload JSONB,
+  ADD COLUMN IF NOT EXISTS transaction_id UUID,
+  ADD COLUMN IF NOT EXISTS subscription_id UUID,
+  ADD COLUMN IF NOT EXISTS confirmation_id UUID,
+  ADD COLUMN IF NOT EXISTS error TEXT;
+
+-- wamid: de PK a UNIQUE nullable; id es la nueva PK
+ALTER TABLE outbound_messages DROP CONSTRAINT IF EXISTS outbound_messages_pkey;
+ALTER TABLE outbound_messages ADD PRIMARY KEY (id);
+ALTER TABLE outbound_messages ALTER COLUMN wamid DROP NOT NULL;
+ALTER TABLE outbound_messages DROP CONSTRAINT IF EXISTS outbound_messages_wamid_key;
+ALTER TABLE outbound_messages ADD CONSTRAINT outbound_messages_wamid_key UNIQUE (wamid);
+
+ALTER TABLE outbound_messages DROP CONSTRAINT IF EXISTS outbound_messages_status_check;
+ALTER TABLE outbound_messages ADD CONSTRAINT outbound_messages_status_check
+  CHECK (status IN ('accepted', 'rejected', 'sent', 'delivered', 'read', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_transaction
+  ON outbound_messages(transaction_id) WHERE transaction_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_subscription
+  ON outbound_messages(subscription_id) WHERE subscription_id IS NOT NULL;
+
+COMMENT ON TABLE outbound_messages IS 'Every message the bot sent (or tried to): recipient, payload, related records, wamid and delivery status.';
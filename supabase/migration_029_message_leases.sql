@@ -0,0 +1,38 @@
+-- ============================================================================
+-- SUMA — Migration 029: Claims con lease en processed_messages
+--
+-- Hasta ahora el wamid se insertaba antes de procesar y cualquier reintento
+-- se descartaba como duplicado, aunque el primer intento hubiera fallado:
+-- el mensaje del usuario se perdía. Ahora cada claim es un lease:
+--
+--   - status: processing / completed / failed
+--   - attempts: cuántas veces se intentó procesar
+--   - lease_expires_at: hasta cuándo es del worker que lo tomó; si vence
+--     (el worker murió) otro puede volver a tomarlo
+--
+-- Solo los completed se descartan como duplicados. Los failed y los
+-- processing con lease vencido se vuelven a procesar, hasta 4 intentos: la
+-- primera entrega y los 3 reintentos de la cola (MAX_MESSAGE_ATTEMPTS).
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / DROP CONSTRAINT IF EXISTS.
+-- ============================================================================
+
+ALTER TABLE processed_messages
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'processing',
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+
+ALTER TABLE processed_messages DROP CONSTRAINT IF EXISTS processed_messages_status_check;
+ALTER TABLE processed_messages ADD CONSTRAINT processed_messages_status_check
+  CHECK (status IN ('processing', 'completed', 'failed'));
+
+-- Backfill: los ya procesados quedan completed; el resto, failed (se
+-- pueden reintentar si QStash todavía los reenvía)
+UPDATE processed_messages SET status = 'completed'
+  WHERE processed = TRUE AND status <> 'completed';
+UPDATE processed_messages SET status = 'failed'
+  WHERE processed IS NOT TRUE AND status = 'processing' AND lease_expires_at IS NULL;
+
+COMMENT ON COLUMN processed_messages.lease_expires_at IS
+  'Until when the worker that claimed the message owns it; once past, a retry may claim it again.';
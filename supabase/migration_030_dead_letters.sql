@@ -0,0 +1,38 @@
+-- ============================================================================
+-- SUMA — Migration 030: Dead letters de mensajes que no se pudieron procesar
+--
+-- Cuando un mensaje agota sus intentos (migration_029), processed_messages
+-- solo guarda el error recortado y nadie se entera. dead_letter_messages
+-- guarda todo lo necesario para entender y reprocesar el mensaje:
+--
+--   - payload: el QueuedMessagePayload completo, tal cual llegó de QStash
+--   - stage / error / stack: en qué paso falló y por qué
+--   - status: pending → replaying → replayed (o discarded a mano)
+--
+-- api/admin-dead-letters.ts los lista y los reprocesa por el mismo
+-- pipeline que api/process-message.ts.
+--
+-- Idempotente: CREATE TABLE IF NOT EXISTS / CREATE INDEX IF NOT EXISTS.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dead_letter_messages (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wamid         TEXT NOT NULL UNIQUE,
+  user_phone    TEXT NOT NULL,
+  payload       JSONB NOT NULL,
+  stage         TEXT NOT NULL,
+  error         TEXT NOT NULL,
+  stack         TEXT,
+  attempts      INTEGER NOT NULL DEFAULT 1,
+  status        TEXT NOT NULL DEFAULT 'pending'
+                  CHECK (status IN ('pending', 'replaying', 'replayed', 'discarded')),
+  replay_count  INTEGER NOT NULL DEFAULT 0,
+  replay_error  TEXT,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  replayed_at   TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letter_messages_status
+  ON dead_letter_messages(status, created_at DESC);
+
+COMMENT ON TABLE dead_letter_messages IS 'Inbound messages whose processing gave up, with the full payload for inspection and replay.';
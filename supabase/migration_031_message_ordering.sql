@@ -0,0 +1,31 @@
+-- ============================================================================
+-- SUMA — Migration 031: Mensajes de cada usuario, en orden
+--
+-- Cada mensaje se encola en QStash por separado, así que dos mensajes
+-- seguidos ("gasté 5000" y "no, 6000") podían procesarse a la vez o al
+-- revés, pisándose en pending_confirmations. Ahora:
+--
+--   - processed_messages.message_at: el timestamp del mensaje en WhatsApp;
+--     un mensaje espera mientras haya uno anterior del mismo usuario sin
+--     terminar
+--   - user_message_locks: un lock por teléfono con vencimiento (si el
+--     worker muere, se libera solo); un mensaje que llega con el lock
+--     tomado se vuelve a encolar con delay
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / CREATE TABLE IF NOT EXISTS.
+-- ============================================================================
+
+ALTER TABLE processed_messages
+  ADD COLUMN IF NOT EXISTS message_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_processed_messages_user_order
+  ON processed_messages(user_phone, message_at);
+
+CREATE TABLE IF NOT EXISTS user_message_locks (
+  user_phone    TEXT PRIMARY KEY,
+  holder        TEXT NOT NULL,                 -- wamid del mensaje que lo tiene
+  locked_until  TIMESTAMPTZ NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE user_message_locks IS 'One in-flight message per user: held by the worker processing it, expires if it dies.';
@@ -0,0 +1,36 @@
+-- ============================================================================
+-- SUMA — Migration 032: Cola de mensajes en Postgres (QUEUE_DRIVER=supabase)
+--
+-- Para correr sin QStash (desarrollo local, previews): api/webhook.ts
+-- inserta cada mensaje / evento de estado en queue_jobs y
+-- api/process-queue.ts los va tomando y procesando.
+--
+--   - dedup_key: mismo mensaje o evento → un solo job (como la
+--     deduplicación de QStash)
+--   - run_at: cuándo corre (delay de los mensajes que esperan su turno y
+--     backoff de los reintentos)
+--   - status / attempts / locked_until: queued → running → done, o failed
+--     después de 3 reintentos; un running con lock vencido se retoma
+--
+-- Idempotente: CREATE TABLE IF NOT EXISTS / CREATE INDEX IF NOT EXISTS.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS queue_jobs (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  topic         TEXT NOT NULL CHECK (topic IN ('message', 'status')),
+  payload       JSONB NOT NULL,
+  dedup_key     TEXT NOT NULL UNIQUE,
+  status        TEXT NOT NULL DEFAULT 'queued'
+                  CHECK (status IN ('queued', 'running', 'done', 'failed')),
+  attempts      INTEGER NOT NULL DEFAULT 0,
+  run_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_until  TIMESTAMPTZ,
+  last_error    TEXT,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at   TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_jobs_due
+  ON queue_jobs(run_at) WHERE status IN ('queued', 'running');
+
+COMMENT ON TABLE queue_jobs IS 'Message queue for QUEUE_DRIVER=supabase: jobs polled and run by api/process-queue.ts.';
@@ -0,0 +1,152 @@
+-- ============================================================================
+-- SUMA — Migration 033: Las cuotas futuras mueven el saldo cuando vencen
+--
+-- Una compra en cuotas guarda todas sus filas al confirmar (migration_013),
+-- con occurred_at = fecha de cada cuota. El trigger de migration_015 las
+-- aplicaba todas en el momento: la cuota 12 ya bajaba el saldo hoy.
+--
+--   - transactions.balance_applied: si la fila ya movió el saldo de sus
+--     cuentas. Un trigger BEFORE lo pone en FALSE para filas con
+--     occurred_at futuro (al insertar o al cambiar la fecha), con unos
+--     minutos de margen por la diferencia de reloj con la app.
+--   - apply_transaction_to_balances ignora las filas no aplicadas; el
+--     trigger también corre cuando cambia balance_applied u occurred_at.
+--   - apply_due_transactions(): marca como aplicadas las filas que ya
+--     vencieron (el trigger mueve el saldo). La llama el cron de
+--     api/reconcile-balances.ts, que tiene que correr a diario.
+--   - v_account_balances cuenta solo las filas aplicadas, así la
+--     conciliación no ve drift por cuotas pendientes.
+--   - Las cuotas futuras que ya estaban aplicadas se revierten.
+--
+-- Idempotente: ADD COLUMN IF NOT EXISTS / CREATE OR REPLACE / DROP IF EXISTS.
+-- ============================================================================
+
+-- DEFAULT TRUE: todo lo existente ya fue aplicado por el trigger anterior
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS balance_applied BOOLEAN NOT NULL DEFAULT TRUE;
+COMMENT ON COLUMN transactions.balance_applied IS 'Whether the row already moved its accounts'' balance. FALSE for future-dated rows (installments) until apply_due_transactions().';
+
+-- Cuotas pendientes de aplicar, por fecha
+CREATE INDEX IF NOT EXISTS idx_transactions_balance_pending
+  ON transactions(occurred_at)
+  WHERE NOT balance_applied AND deleted_at IS NULL;
+
+-- -----------------------------------------------
+-- 1. Las filas futuras no se aplican al insertarlas
+-- -----------------------------------------------
+
+CREATE OR REPLACE FUNCTION trg_transactions_balance_due()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  -- Margen para el reloj del servidor: "hoy" llega con la hora de la app
+  NEW.balance_applied := NEW.occurred_at IS NULL OR NEW.occurred_at <= now() + INTERVAL '5 minutes';
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_balance_due ON transactions;
+CREATE TRIGGER transactions_balance_due
+  BEFORE INSERT OR UPDATE OF occurred_at
+  ON transactions
+  FOR EACH ROW EXECUTE FUNCTION trg_transactions_balance_due();
+
+-- -----------------------------------------------
+-- 2. Trigger de saldos: solo filas aplicadas
+-- -----------------------------------------------
+
+CREATE OR REPLACE FUNCTION apply_transaction_to_balances(t transactions, direction INT)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF t.deleted_at IS NOT NULL OR NOT t.balance_applied THEN
+    RETURN;
+  END IF;
+
+  -- Cuenta de origen
+  UPDATE accounts a
+  SET balance = a.balance + direction
+    * (CASE WHEN t.type = 'income' THEN 1 ELSE -1 END)
+    * transaction_amount_in(t, a.currency)
+  WHERE a.id = t.account_id;
+
+  -- Cuenta de destino (solo transferencias)
+  IF t.type = 'transfer' AND t.destination_account_id IS NOT NULL THEN
+    UPDATE accounts a
+    SET balance = a.balance + direction * transaction_amount_in(t, a.currency)
+    WHERE a.id = t.destination_account_id;
+  END IF;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transactions_balance ON transactions;
+CREATE TRIGGER transactions_balance
+  AFTER INSERT OR DELETE OR UPDATE OF type, amount, currency, amount_base, account_id, destination_account_id, deleted_at, occurred_at, balance_applied
+  ON transactions
+  FOR EACH ROW EXECUTE FUNCTION trg_transactions_balance();
+
+-- -----------------------------------------------
+-- 3. Aplicar las cuotas que vencieron
+-- -----------------------------------------------
+
+CREATE OR REPLACE FUNCTION apply_due_transactions()
+RETURNS INTEGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  applied INTEGER;
+BEGIN
+  UPDATE transactions
+  SET balance_applied = TRUE
+  WHERE NOT balance_applied
+    AND deleted_at IS NULL
+    AND occurred_at <= now();
+
+  GET DIAGNOSTICS applied = ROW_COUNT;
+  RETURN applied;
+END;
+$$;
+
+-- -----------------------------------------------
+-- 4. Saldo recalculado: solo filas aplicadas
+-- -----------------------------------------------
+
+CREATE OR REPLACE VIEW v_account_balances AS
+WITH legs AS (
+  -- Origen: suma ingresos, resta el resto
+  SELECT
+    t.account_id,
+    CASE WHEN t.type = 'income' THEN 1 ELSE -1 END AS sign,
+    t
+  FROM transactions t
+  WHERE t.deleted_at IS NULL
+    AND t.balance_applied
+  UNION ALL
+  -- Destino de transferencias
+  SELECT t.destination_account_id, 1, t
+  FROM transactions t
+  WHERE t.deleted_at IS NULL
+    AND t.balance_applied
+    AND t.type = 'transfer'
+    AND t.destination_account_id IS NOT NULL
+)
+SELECT
+  a.id AS account_id,
+  a.user_id,
+  a.name AS account_name,
+  a.type::TEXT AS account_type,
+  a.currency,
+  COALESCE(SUM(l.sign * transaction_amount_in(l.t, a.currency)), 0) AS calculated_balance,
+  a.balance AS stored_balance,
+  a.balance - COALESCE(SUM(l.sign * transaction_amount_in(l.t, a.currency)), 0) AS drift
+FROM accounts a
+LEFT JOIN legs l ON l.account_id = a.id
+GROUP BY a.id, a.user_id, a.name, a.type, a.currency, a.balance;
+
+-- -----------------------------------------------
+-- 5. Revertir las cuotas futuras ya aplicadas (el trigger resta)
+-- -----------------------------------------------
+
+UPDATE transactions
+SET balance_applied = FALSE
+WHERE balance_applied
+  AND deleted_at IS NULL
+  AND occurred_at > now();
@@ -0,0 +1,39 @@
+-- ============================================================================
+-- SUMA — Migration 034: Totales de un período sumados en la base
+--
+-- Las consultas por semana, día o año ("¿cuánto gasté este año?") leían
+-- todas las filas del período y las sumaban en la app. PostgREST corta las
+-- respuestas en 1000 filas, así que un año o un mes con muchos movimientos
+-- daba totales de menos sin avisar.
+--
+--   - period_summary(user, from, to): por tipo y categoría, cantidad y total
+--     en moneda base de los movimientos con occurred_at en [from, to). Sin
+--     ajustes de saldo ni movimientos deshechos, como v_monthly_summary.
+--
+-- Idempotente: CREATE OR REPLACE.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION period_summary(p_user_id UUID, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+  transaction_type  TEXT,
+  category_id       UUID,
+  category          TEXT,
+  transaction_count BIGINT,
+  total_amount      NUMERIC
+)
+LANGUAGE sql STABLE AS $$
+  SELECT
+    t.type::TEXT,
+    t.category_id,
+    c.name,
+    COUNT(*),
+    SUM(COALESCE(t.amount_base, t.amount))
+  FROM transactions t
+  LEFT JOIN categories c ON c.id = t.category_id
+  WHERE t.user_id = p_user_id
+    AND t.occurred_at >= p_from
+    AND t.occurred_at < p_to
+    AND t.deleted_at IS NULL
+    AND NOT t.is_adjustment
+  GROUP BY t.type, t.category_id, c.name;
+$$;
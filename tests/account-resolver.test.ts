@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AccountRow, AccountType } from "../src/types/index.js";
+
+const repository = vi.hoisted(() => ({
+    getUserAccounts: vi.fn(),
+    createAccount: vi.fn(),
+}));
+
+vi.mock("../src/services/transaction-repository.js", () => repository);
+
+const { matchAccount, resolveOrCreateAccount } = await import("../src/services/account-resolver.js");
+
+const account = (name: string, type: AccountType, extra: Partial<AccountRow> = {}): AccountRow => ({
+    id: `id-${name}`,
+    user_id: "user-1",
+    name,
+    type,
+    currency: "ARS",
+    balance: 0,
+    is_default: false,
+    ...extra,
+});
+
+const matchedName = (accounts: AccountRow[], raw: string) => {
+    const match = matchAccount(accounts, raw);
+    return match.matched ? match.account.name : null;
+};
+
+describe("matchAccount", () => {
+    const accounts = [
+        account("General", "cash", { is_default: true }),
+        account("MercadoPago", "digital_wallet"),
+        account("Banco Galicia", "bank"),
+        account("Visa Santander", "credit_card"),
+    ];
+
+    it("matches the exact name ignoring case and accents", () => {
+        expect(matchedName(accounts, "mercadopago")).toBe("MercadoPago");
+        expect(matchedName([account("Ualá", "digital_wallet")], "uala")).toBe("Ualá");
+    });
+
+    it("matches known aliases", () => {
+        expect(matchedName(accounts, "mp")).toBe("MercadoPago");
+        expect(matchedName(accounts, "con mercado pago")).toBe("MercadoPago");
+    });
+
+    it("matches a generic type word to the only account of that type", () => {
+        expect(matchedName(accounts, "tarjeta")).toBe("Visa Santander");
+        expect(matchedName(accounts, "banco")).toBe("Banco Galicia");
+    });
+
+    it("doesn't guess the type word when there are several of that type", () => {
+        const twoCards = [...accounts, account("Cabal", "credit_card")];
+        expect(matchedName(twoCards, "tarjeta")).toBeNull();
+    });
+
+    it("matches a unique substring", () => {
+        expect(matchedName(accounts, "galicia")).toBe("Banco Galicia");
+    });
+
+    it("tolerates small typos", () => {
+        expect(matchedName(accounts, "mercadopgo")).toBe("MercadoPago");
+        expect(matchedName(accounts, "Banco Galcia")).toBe("Banco Galicia");
+    });
+
+    it("resolves an empty name to the default account", () => {
+        expect(matchedName(accounts, "")).toBe("General");
+        expect(matchAccount([], "")).toEqual({ matched: false, suggestedName: "Efectivo", suggestedType: "cash" });
+    });
+
+    it("suggests a canonical name and inferred type when nothing matches", () => {
+        expect(matchAccount([], "efectivo")).toEqual({
+            matched: false,
+            suggestedName: "Efectivo",
+            suggestedType: "cash",
+        });
+        expect(matchAccount(accounts, "Brubank")).toEqual({
+            matched: false,
+            suggestedName: "Brubank",
+            suggestedType: "bank",
+        });
+    });
+});
+
+describe("resolveOrCreateAccount", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => { });
+        repository.getUserAccounts.mockReset();
+        repository.createAccount.mockReset();
+        repository.createAccount.mockImplementation(
+            async (_userId: string, name: string, type: AccountType, currency: string) =>
+                account(name, type, { currency }),
+        );
+    });
+
+    it("creates the account of a USD expense in USD", async () => {
+        repository.getUserAccounts.mockResolvedValue([account("General", "cash", { is_default: true })]);
+
+        const created = await resolveOrCreateAccount("user-1", "Wise", "USD", "digital_wallet");
+
+        expect(repository.createAccount).toHaveBeenCalledWith("user-1", "Wise", "digital_wallet", "USD");
+        expect(created.currency).toBe("USD");
+    });
+
+    it("uses the inferred type when none is given", async () => {
+        repository.getUserAccounts.mockResolvedValue([]);
+
+        await resolveOrCreateAccount("user-1", "Banco Galicia", "ARS");
+
+        expect(repository.createAccount).toHaveBeenCalledWith("user-1", "Banco Galicia", "bank", "ARS");
+    });
+
+    it("keeps an existing account as it is", async () => {
+        const mp = account("MercadoPago", "digital_wallet");
+        repository.getUserAccounts.mockResolvedValue([mp]);
+
+        expect(await resolveOrCreateAccount("user-1", "mp", "USD")).toBe(mp);
+        expect(repository.createAccount).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+    deadLetters: {
+        listDeadLetters: vi.fn(),
+        getDeadLetter: vi.fn(),
+        claimDeadLetter: vi.fn(),
+        finishDeadLetterReplay: vi.fn(),
+        discardDeadLetter: vi.fn(),
+    },
+    idempotency: {
+        claimMessageForReplay: vi.fn(),
+        releaseMessageClaim: vi.fn(),
+        markMessageProcessed: vi.fn(),
+        markMessageError: vi.fn(),
+    },
+    ordering: {
+        acquireUserLock: vi.fn(),
+        releaseUserLock: vi.fn(),
+    },
+    sendSimpleText: vi.fn(),
+    runClaimedMessage: vi.fn(),
+}));
+
+vi.mock("../src/utils/config.js", () => ({
+    loadConfig: () => ({ WHATSAPP_PHONE_NUMBER_ID: "phone-id", WHATSAPP_API_TOKEN: "token" }),
+}));
+vi.mock("../src/services/dead-letters.js", () => mocks.deadLetters);
+vi.mock("../src/services/idempotency.js", () => mocks.idempotency);
+vi.mock("../src/services/message-ordering.js", () => mocks.ordering);
+vi.mock("../src/services/whatsapp.js", () => ({ sendSimpleText: mocks.sendSimpleText }));
+vi.mock("../api/process-message.js", () => ({ runClaimedMessage: mocks.runClaimedMessage }));
+
+const { default: handler } = await import("../api/admin-dead-letters.js");
+
+const deadLetter = {
+    id: "dl-1",
+    wamid: "wamid.1",
+    user_phone: "541100000000",
+    payload: { message: { id: "wamid.1", from: "5491100000000", timestamp: "1773846000", type: "text" } },
+    stage: "process",
+    replay_count: 0,
+};
+
+/** Calls the endpoint and returns the status and JSON it answered */
+async function call(request: { method: string; secret?: string; query?: Record<string, string>; body?: unknown }) {
+    const req = {
+        method: request.method,
+        headers: request.secret ? { authorization: `Bearer ${request.secret}` } : {},
+        query: request.query ?? {},
+        body: request.body,
+    };
+    const res = {
+        statusCode: 0,
+        body: undefined as unknown,
+        status(code: number) {
+            res.statusCode = code;
+            return res;
+        },
+        json(body: unknown) {
+            res.body = body;
+            return res;
+        },
+    };
+    await handler(req as never, res as never);
+    return { status: res.statusCode, body: res.body as Record<string, unknown> };
+}
+
+const replay = (extra: object = {}) =>
+    call({ method: "POST", secret: "admin-secret", body: { id: "dl-1", action: "replay", ...extra } });
+
+describe("api/admin-dead-letters", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubEnv("ADMIN_SECRET", "admin-secret");
+        vi.spyOn(console, "log").mockImplementation(() => { });
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+        vi.spyOn(console, "error").mockImplementation(() => { });
+        mocks.deadLetters.claimDeadLetter.mockResolvedValue(deadLetter);
+        mocks.idempotency.claimMessageForReplay.mockResolvedValue("claimed");
+        mocks.ordering.acquireUserLock.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("rejects calls without the admin secret, and every call when none is set", async () => {
+        expect((await call({ method: "GET" })).status).toBe(401);
+        expect((await call({ method: "GET", secret: "wrong" })).status).toBe(401);
+
+        vi.stubEnv("ADMIN_SECRET", "");
+        expect((await call({ method: "GET", secret: "" })).status).toBe(401);
+        expect(mocks.deadLetters.listDeadLetters).not.toHaveBeenCalled();
+    });
+
+    it("lists the pending dead letters", async () => {
+        mocks.deadLetters.listDeadLetters.mockResolvedValue([{ id: "dl-1" }]);
+
+        const { status, body } = await call({ method: "GET", secret: "admin-secret", query: { limit: "500" } });
+
+        expect(status).toBe(200);
+        expect(body).toMatchObject({ count: 1 });
+        expect(mocks.deadLetters.listDeadLetters).toHaveBeenCalledWith("pending", 200);
+    });
+
+    it("replays through the same pipeline and marks the message processed", async () => {
+        const { status, body } = await replay();
+
+        expect(status).toBe(200);
+        expect(body).toMatchObject({ status: "replayed", id: "dl-1", wamid: "wamid.1" });
+        expect(mocks.runClaimedMessage).toHaveBeenCalledWith(deadLetter.payload, expect.anything(), { stage: "session_window" });
+        expect(mocks.idempotency.markMessageProcessed).toHaveBeenCalledWith("wamid.1");
+        expect(mocks.deadLetters.finishDeadLetterReplay).toHaveBeenCalledWith(deadLetter, { status: "replayed" });
+        expect(mocks.ordering.releaseUserLock).toHaveBeenCalledWith("541100000000", "wamid.1");
+        expect(mocks.sendSimpleText).not.toHaveBeenCalled();
+    });
+
+    it("sends the late notice first when asked, and replays even if it fails", async () => {
+        mocks.sendSimpleText.mockRejectedValue(new Error("outside the session window"));
+
+        expect((await replay({ notify: true })).status).toBe(200);
+        expect(mocks.sendSimpleText).toHaveBeenCalledWith(expect.objectContaining({
+            to: "541100000000",
+            text: expect.stringContaining("se procesó tarde"),
+        }));
+        expect(mocks.runClaimedMessage).toHaveBeenCalled();
+    });
+
+    it("discards the dead letter of a message that was processed since", async () => {
+        mocks.idempotency.claimMessageForReplay.mockResolvedValue("duplicate");
+
+        expect((await replay()).status).toBe(409);
+        expect(mocks.runClaimedMessage).not.toHaveBeenCalled();
+        expect(mocks.deadLetters.finishDeadLetterReplay).toHaveBeenCalledWith(deadLetter, { status: "discarded" });
+    });
+
+    it("waits for the user's message in flight", async () => {
+        mocks.ordering.acquireUserLock.mockResolvedValue(false);
+
+        expect((await replay()).status).toBe(409);
+        expect(mocks.idempotency.releaseMessageClaim).toHaveBeenCalledWith("wamid.1");
+        expect(mocks.deadLetters.finishDeadLetterReplay)
+            .toHaveBeenCalledWith(deadLetter, { status: "pending", error: "User has a message in flight" });
+    });
+
+    it("puts a failed replay back to pending with the stage it failed at", async () => {
+        mocks.runClaimedMessage.mockImplementation(async (_payload, _config, progress: { stage: string }) => {
+            progress.stage = "process";
+            throw new Error("parser timeout");
+        });
+
+        const { status, body } = await replay();
+
+        expect(status).toBe(500);
+        expect(body).toMatchObject({ stage: "process", message: "parser timeout" });
+        expect(mocks.idempotency.markMessageError).toHaveBeenCalledWith("wamid.1", "parser timeout");
+        expect(mocks.deadLetters.finishDeadLetterReplay)
+            .toHaveBeenCalledWith(deadLetter, { status: "pending", error: "parser timeout" });
+        expect(mocks.ordering.releaseUserLock).toHaveBeenCalled();
+    });
+
+    it("won't replay a dead letter that isn't pending", async () => {
+        mocks.deadLetters.claimDeadLetter.mockResolvedValue(null);
+
+        expect((await replay()).status).toBe(409);
+        expect(mocks.idempotency.claimMessageForReplay).not.toHaveBeenCalled();
+    });
+});
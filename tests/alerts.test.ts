@@ -0,0 +1,289 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { message: string; code?: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each query takes the next result scripted for its table
+const db = vi.hoisted(() => ({
+    results: {} as Record<string, QueryResult[]>,
+    queries: [] as Array<{ name: string; calls: QueryCall[] }>,
+}));
+
+const whatsapp = vi.hoisted(() => ({
+    sendRenewalReminder: vi.fn(),
+    sendChargeReminder: vi.fn(),
+    sendTrialReminder: vi.fn(),
+    sendSubscriptionCharged: vi.fn(),
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            const calls: QueryCall[] = [["from", [table]]];
+            db.queries.push({ name: table, calls });
+            const result = { data: null, error: null, ...db.results[table]?.shift() };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "insert", "update", "eq", "in", "is", "gt", "lte", "lt", "or", "order", "limit", "single", "maybeSingle"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        },
+    }),
+}));
+
+vi.mock("../src/services/whatsapp.js", () => whatsapp);
+vi.mock("../src/services/exchange-rates.js", () => ({
+    convertToBase: async (amount: number) => ({ exchangeRate: 1, rateType: null, amountBase: amount }),
+    pickRateType: () => "mep",
+}));
+vi.mock("../src/services/reminders.js", () => ({
+    createDueReminders: vi.fn(async () => 0),
+    scheduleCustomReminder: vi.fn(),
+    cancelPendingReminders: vi.fn(),
+}));
+
+const { processPendingAlerts, processSubscriptionCharges, retryFailedReminder } = await import("../src/services/alerts.js");
+
+const NOW = new Date("2026-03-18T15:00:00Z");
+
+const user = { phone: "5491100000000", subscription_status: "active", base_currency: "ARS", last_inbound_at: null };
+
+const dueSub = (extra: object = {}) => ({
+    id: "sub-1",
+    user_id: "user-1",
+    account_id: "acc-1",
+    service_name: "Netflix",
+    amount: 8000,
+    currency: "ARS",
+    frequency: "monthly",
+    next_payment_at: "2026-03-15T00:00:00.000Z",
+    end_date: null,
+    anchor_day: 15,
+    category_id: "cat-1",
+    accounts: { type: "credit_card" },
+    ...extra,
+});
+
+const queriesOn = (table: string, method: string) =>
+    db.queries.filter((q) => q.name === table && q.calls.some(([m]) => m === method));
+
+const argsOf = (table: string, method: string) =>
+    queriesOn(table, method).map((q) => q.calls.find(([m]) => m === method)![1]);
+
+describe("processSubscriptionCharges", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+        whatsapp.sendSubscriptionCharged.mockReset();
+        vi.spyOn(console, "log").mockImplementation(() => { });
+    });
+
+    it("posts the due charge, moves to the next period and tells the user", async () => {
+        db.results.subscriptions = [{ data: [dueSub()] }, { data: [{ id: "sub-1" }] }];
+        db.results.users = [{ data: user }];
+        db.results.transactions = [{ data: { id: "tx-1" } }];
+
+        expect(await processSubscriptionCharges("phone-id", "token", NOW)).toBe(1);
+
+        expect(argsOf("transactions", "insert")).toEqual([[expect.objectContaining({
+            amount: 8000,
+            subscription_id: "sub-1",
+            subscription_period: "2026-03-15",
+            occurred_at: "2026-03-15T00:00:00.000Z",
+        })]]);
+
+        // Advanced only from the date that was read
+        const [advance] = queriesOn("subscriptions", "update");
+        expect(advance.calls).toContainEqual(["update", [{ next_payment_at: "2026-04-15T00:00:00.000Z", is_trial: false }]]);
+        expect(advance.calls).toContainEqual(["eq", ["next_payment_at", "2026-03-15T00:00:00.000Z"]]);
+
+        expect(whatsapp.sendSubscriptionCharged).toHaveBeenCalledWith(expect.objectContaining({
+            transactionId: "tx-1",
+            nextPaymentAt: "2026-04-15T00:00:00.000Z",
+        }));
+    });
+
+    it("catches up every period missed, one charge each", async () => {
+        db.results.subscriptions = [
+            { data: [dueSub({ frequency: "weekly", next_payment_at: "2026-03-03T00:00:00.000Z" })] },
+            { data: [{ id: "sub-1" }] },
+            { data: [{ id: "sub-1" }] },
+            { data: [{ id: "sub-1" }] },
+        ];
+        db.results.users = [{ data: user }];
+        db.results.transactions = [{ data: { id: "tx-1" } }, { data: { id: "tx-2" } }, { data: { id: "tx-3" } }];
+
+        expect(await processSubscriptionCharges("phone-id", "token", NOW)).toBe(3);
+        expect(argsOf("transactions", "insert").map(([row]) => (row as { subscription_period: string }).subscription_period))
+            .toEqual(["2026-03-03", "2026-03-10", "2026-03-17"]);
+    });
+
+    it("doesn't charge or notify a period that was already posted", async () => {
+        db.results.subscriptions = [{ data: [dueSub()] }, { data: [] }];
+        db.results.users = [{ data: user }];
+        db.results.transactions = [{ error: { message: "duplicate key", code: "23505" } }];
+
+        expect(await processSubscriptionCharges("phone-id", "token", NOW)).toBe(0);
+        expect(whatsapp.sendSubscriptionCharged).not.toHaveBeenCalled();
+    });
+
+    it("stops at end_date and marks the subscription inactive", async () => {
+        db.results.subscriptions = [{ data: [dueSub({ end_date: "2026-03-15T00:00:00.000Z" })] }, { data: null }];
+        db.results.users = [{ data: user }];
+
+        expect(await processSubscriptionCharges("phone-id", "token", NOW)).toBe(0);
+        expect(queriesOn("transactions", "insert")).toEqual([]);
+        expect(argsOf("subscriptions", "update")).toEqual([[{ is_active: false }]]);
+    });
+});
+
+describe("processPendingAlerts", () => {
+    const subscription = {
+        service_name: "Netflix",
+        amount: 8000,
+        currency: "ARS",
+        next_payment_at: "2026-03-20T00:00:00.000Z",
+        end_date: null,
+        is_active: true,
+        cancelled_at: null,
+        is_trial: false,
+        trial_ends_at: null,
+    };
+
+    const reminder = (id: string, daysBefore: number, extra: object = {}) => ({
+        id,
+        subscription_id: "sub-1",
+        user_id: "user-1",
+        kind: "charge",
+        target_date: "2026-03-20T00:00:00.000Z",
+        days_before: daysBefore,
+        status: "pending",
+        attempts: 0,
+        subscriptions: subscription,
+        users: { phone: "5491100000000", subscription_status: "active", last_inbound_at: null },
+        ...extra,
+    });
+
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+        whatsapp.sendChargeReminder.mockReset();
+        vi.spyOn(console, "log").mockImplementation(() => { });
+        vi.spyOn(console, "error").mockImplementation(() => { });
+    });
+
+    it("claims each reminder before sending and keeps its wamid", async () => {
+        db.results.subscription_reminders = [{ data: [reminder("r-1", 1)] }, { data: [{ id: "r-1" }] }, { data: null }];
+        whatsapp.sendChargeReminder.mockResolvedValue("wamid.1");
+
+        expect(await processPendingAlerts("phone-id", "token", NOW)).toEqual({ sent: 1, failed: 0, skipped: 0 });
+
+        const [claim, link] = queriesOn("subscription_reminders", "update");
+        expect(claim.calls).toContainEqual(["update", [{ status: "sent", sent_at: NOW.toISOString(), attempts: 1 }]]);
+        expect(claim.calls).toContainEqual(["eq", ["status", "pending"]]);
+        expect(link.calls).toContainEqual(["update", [{ wamid: "wamid.1" }]]);
+        expect(whatsapp.sendChargeReminder).toHaveBeenCalledWith(expect.objectContaining({ daysBefore: 1 }));
+    });
+
+    it("sends only the closest of several reminders due for the same date", async () => {
+        db.results.subscription_reminders = [
+            { data: [reminder("r-1", 1), reminder("r-7", 7)] },
+            { data: [{ id: "r-1" }] },
+            { data: null },
+            { data: null },
+        ];
+        whatsapp.sendChargeReminder.mockResolvedValue("wamid.1");
+
+        expect(await processPendingAlerts("phone-id", "token", NOW)).toEqual({ sent: 1, failed: 0, skipped: 1 });
+        expect(whatsapp.sendChargeReminder).toHaveBeenCalledTimes(1);
+        expect(argsOf("subscription_reminders", "update")).toContainEqual([{ status: "skipped" }]);
+    });
+
+    it("doesn't send a reminder another run already claimed", async () => {
+        db.results.subscription_reminders = [{ data: [reminder("r-1", 1)] }, { data: [] }];
+
+        expect(await processPendingAlerts("phone-id", "token", NOW)).toEqual({ sent: 0, failed: 0, skipped: 0 });
+        expect(whatsapp.sendChargeReminder).not.toHaveBeenCalled();
+    });
+
+    it("drops a reminder about a date that already moved", async () => {
+        db.results.subscription_reminders = [
+            { data: [reminder("r-1", 1, { target_date: "2026-02-20T00:00:00.000Z" })] },
+            { data: null },
+        ];
+
+        expect(await processPendingAlerts("phone-id", "token", NOW)).toEqual({ sent: 0, failed: 0, skipped: 1 });
+        expect(argsOf("subscription_reminders", "update")).toEqual([[{ status: "cancelled" }]]);
+    });
+
+    it("puts a failed send back to pending, and reports it failed on the last attempt", async () => {
+        whatsapp.sendChargeReminder.mockRejectedValue(new Error("Graph API 500"));
+
+        db.results.subscription_reminders = [{ data: [reminder("r-1", 1)] }, { data: [{ id: "r-1" }] }, { data: null }];
+        expect(await processPendingAlerts("phone-id", "token", NOW)).toEqual({ sent: 0, failed: 0, skipped: 0 });
+        expect(argsOf("subscription_reminders", "update")[1])
+            .toEqual([{ status: "pending", sent_at: null, last_error: "Graph API 500" }]);
+
+        db.queries = [];
+        db.results.subscription_reminders = [{ data: [reminder("r-1", 1, { attempts: 2 })] }, { data: [{ id: "r-1" }] }, { data: null }];
+        expect(await processPendingAlerts("phone-id", "token", NOW)).toEqual({ sent: 0, failed: 1, skipped: 0 });
+        expect(argsOf("subscription_reminders", "update")[1])
+            .toEqual([{ status: "failed", sent_at: null, last_error: "Graph API 500" }]);
+    });
+});
+
+describe("retryFailedReminder", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+        vi.spyOn(console, "log").mockImplementation(() => { });
+    });
+
+    it("puts the reminder a failed message carried back to pending", async () => {
+        db.results.subscription_reminders = [{ data: { id: "r-1", attempts: 1 } }, { data: [{ id: "r-1" }] }];
+
+        expect(await retryFailedReminder("wamid.1", "131047 Re-engagement message")).toBe(true);
+
+        const [retry] = queriesOn("subscription_reminders", "update");
+        expect(retry.calls).toContainEqual(["update", [{
+            status: "pending",
+            sent_at: null,
+            wamid: null,
+            last_error: "131047 Re-engagement message",
+        }]]);
+        expect(retry.calls).toContainEqual(["eq", ["status", "sent"]]);
+    });
+
+    it("gives the reminder up after the last attempt", async () => {
+        db.results.subscription_reminders = [{ data: { id: "r-1", attempts: 3 } }, { data: [{ id: "r-1" }] }];
+
+        expect(await retryFailedReminder("wamid.1", "failed")).toBe(true);
+        expect(argsOf("subscription_reminders", "update")[0][0]).toMatchObject({ status: "failed" });
+    });
+
+    it("finds a reminder whose wamid wasn't stored yet through the outbound log", async () => {
+        db.results.subscription_reminders = [{ data: null }, { data: [{ id: "r-1", attempts: 1 }] }, { data: [{ id: "r-1" }] }];
+        db.results.outbound_messages = [{ data: { kind: "trial_reminder", subscription_id: "sub-1" } }];
+
+        expect(await retryFailedReminder("wamid.1", "failed")).toBe(true);
+
+        const lookup = db.queries[2].calls;
+        expect(lookup).toContainEqual(["eq", ["subscription_id", "sub-1"]]);
+        expect(lookup).toContainEqual(["eq", ["kind", "trial"]]);
+        expect(lookup).toContainEqual(["is", ["wamid", null]]);
+    });
+
+    it("ignores messages that weren't reminders", async () => {
+        db.results.subscription_reminders = [{ data: null }];
+        db.results.outbound_messages = [{ data: { kind: "subscription_charged", subscription_id: null } }];
+
+        expect(await retryFailedReminder("wamid.1", "failed")).toBe(false);
+        expect(queriesOn("subscription_reminders", "update")).toEqual([]);
+    });
+});
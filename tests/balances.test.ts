@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AccountRow } from "../src/types/index.js";
+
+const mocks = vi.hoisted(() => ({
+    repository: {
+        getUserBaseCurrency: vi.fn(),
+        insertTransaction: vi.fn(),
+    },
+    resolver: {
+        resolveOrCreateAccount: vi.fn(),
+    },
+    rates: {
+        convertToBase: vi.fn(),
+        pickRateType: vi.fn(() => "mep"),
+    },
+    view: { data: [] as unknown[], error: null as { message: string } | null, table: "" },
+}));
+
+vi.mock("../src/services/transaction-repository.js", () => mocks.repository);
+vi.mock("../src/services/account-resolver.js", () => mocks.resolver);
+vi.mock("../src/services/exchange-rates.js", () => mocks.rates);
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            mocks.view.table = table;
+            return { select: async () => ({ data: mocks.view.data, error: mocks.view.error }) };
+        },
+    }),
+}));
+
+const { adjustAccountBalance, findUnconvertedTransactions } = await import("../src/services/balances.js");
+
+const usdAccount: AccountRow = {
+    id: "acc-usd",
+    user_id: "user-1",
+    name: "Dólares",
+    type: "cash",
+    currency: "USD",
+    balance: 300,
+    is_default: false,
+};
+
+describe("adjustAccountBalance", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => { });
+        mocks.repository.insertTransaction.mockReset();
+        mocks.repository.insertTransaction.mockImplementation(async (row: object) => ({ ...row, id: "tx-1" }));
+        mocks.repository.getUserBaseCurrency.mockResolvedValue("ARS");
+        mocks.resolver.resolveOrCreateAccount.mockResolvedValue(usdAccount);
+        mocks.rates.convertToBase.mockReset();
+        mocks.rates.convertToBase.mockImplementation(async (amount: number) => ({
+            exchangeRate: 1200,
+            rateType: "mep",
+            amountBase: amount * 1200,
+        }));
+    });
+
+    it("posts the difference on a USD account in USD, with its value in the base currency", async () => {
+        const result = await adjustAccountBalance("user-1", "dolares", 250, "USD");
+
+        expect(result).toMatchObject({ previousBalance: 300, newBalance: 250, delta: -50, transactionId: "tx-1" });
+        expect(mocks.rates.convertToBase).toHaveBeenCalledWith(50, "USD", "ARS", "mep");
+        expect(mocks.repository.insertTransaction).toHaveBeenCalledWith(expect.objectContaining({
+            type: "expense",
+            amount: 50,
+            currency: "USD",
+            exchange_rate: 1200,
+            amount_base: 60000,
+            account_id: "acc-usd",
+            is_adjustment: true,
+        }));
+    });
+
+    it("posts nothing when the balance is already right", async () => {
+        const result = await adjustAccountBalance("user-1", "dolares", 300, "USD");
+
+        expect(result.transactionId).toBeNull();
+        expect(mocks.repository.insertTransaction).not.toHaveBeenCalled();
+    });
+});
+
+describe("findUnconvertedTransactions", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+        mocks.view.error = null;
+    });
+
+    it("reports an ARS movement on a USD account left without a rate", async () => {
+        const row = {
+            transaction_id: "tx-ars-on-usd",
+            user_id: "user-1",
+            account_id: "acc-usd",
+            account_name: "Dólares",
+            account_currency: "USD",
+            currency: "ARS",
+            amount: 5000,
+        };
+        mocks.view.data = [row];
+
+        expect(await findUnconvertedTransactions()).toEqual([row]);
+        expect(mocks.view.table).toBe("v_unconverted_transactions");
+    });
+
+    it("throws when the view can't be read", async () => {
+        mocks.view.data = [];
+        mocks.view.error = { message: "relation does not exist" };
+
+        await expect(findUnconvertedTransactions()).rejects.toThrow("Failed to read unconverted transactions");
+    });
+});
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { message: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each query takes the next result scripted for its table (or rpc name)
+const db = vi.hoisted(() => ({
+    results: {} as Record<string, QueryResult[]>,
+    queries: [] as Array<{ name: string; calls: QueryCall[] }>,
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => {
+        const query = (name: string, first: QueryCall) => {
+            const calls: QueryCall[] = [first];
+            db.queries.push({ name, calls });
+            const result = { data: null, error: null, ...db.results[name]?.shift() };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "update", "eq", "or"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        };
+        return {
+            from: (table: string) => query(table, ["from", [table]]),
+            rpc: (fn: string, params: unknown) => query(fn, ["rpc", [params]]),
+        };
+    },
+}));
+
+vi.mock("../src/services/transaction-repository.js", () => ({
+    getUserTimezone: async () => "America/Argentina/Buenos_Aires",
+    resolveCategoryId: vi.fn(),
+}));
+
+const { checkBudgetAlerts, getBudgetStatus } = await import("../src/services/budgets.js");
+
+// Wednesday 18 March 2026, 12:00 in Buenos Aires
+const NOW = new Date("2026-03-18T15:00:00Z");
+
+const budget = (id: string, category: string, amount: number) => ({
+    id,
+    category_id: `cat-${category}`,
+    amount,
+    categories: { name: category },
+});
+
+const spent = (category: string, total: number, type = "expense") => ({
+    transaction_type: type,
+    category_id: `cat-${category}`,
+    category,
+    transaction_count: 1,
+    total_amount: String(total),
+});
+
+const updates = () => db.queries.filter((q) => q.name === "budgets" && q.calls.some(([m]) => m === "update"));
+
+describe("getBudgetStatus", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+    });
+
+    it("compares this month's expenses per category, most used first", async () => {
+        db.results.budgets = [{ data: [budget("b-1", "comida", 80000), budget("b-2", "salidas", 20000)] }];
+        db.results.period_summary = [{
+            data: [
+                spent("comida", 40000),
+                spent("salidas", 25000),
+                spent("comida", 90000, "income"),
+                spent("transporte", 5000),
+            ],
+        }];
+
+        expect(await getBudgetStatus("user-1", NOW)).toEqual([
+            expect.objectContaining({ category: "salidas", spent: 25000, remaining: -5000, percent: 125 }),
+            expect.objectContaining({ category: "comida", spent: 40000, remaining: 40000, percent: 50 }),
+        ]);
+
+        // The local calendar month, summed in SQL
+        const [, [params]] = db.queries.find((q) => q.name === "period_summary")!.calls[0];
+        expect(params).toEqual({
+            p_user_id: "user-1",
+            p_from: "2026-03-01T03:00:00.000Z",
+            p_to: "2026-04-01T03:00:00.000Z",
+        });
+    });
+
+    it("reports nothing spent in a category without expenses", async () => {
+        db.results.budgets = [{ data: [budget("b-1", "comida", 80000)] }];
+        db.results.period_summary = [{ data: [] }];
+
+        expect(await getBudgetStatus("user-1", NOW)).toEqual([
+            expect.objectContaining({ spent: 0, remaining: 80000, percent: 0 }),
+        ]);
+    });
+});
+
+describe("checkBudgetAlerts", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+        vi.spyOn(console, "log").mockImplementation(() => { });
+    });
+
+    it("claims the 80% warning once per month", async () => {
+        db.results.budgets = [{ data: [budget("b-1", "comida", 80000)] }, { data: [{ id: "b-1" }] }];
+        db.results.period_summary = [{ data: [spent("comida", 68000)] }];
+
+        const alerts = await checkBudgetAlerts("user-1", NOW);
+
+        expect(alerts).toEqual([{ status: expect.objectContaining({ category: "comida", percent: 85 }), threshold: 80 }]);
+        const [claim] = updates();
+        expect(claim.calls).toContainEqual(["update", [{ alerted_month: "2026-03-01", alerted_threshold: 80 }]]);
+        expect(claim.calls).toContainEqual(["or", ["alerted_month.is.null,alerted_month.neq.2026-03-01,alerted_threshold.lt.80"]]);
+    });
+
+    it("claims the 100% warning once the budget is used up", async () => {
+        db.results.budgets = [{ data: [budget("b-1", "comida", 80000)] }, { data: [{ id: "b-1" }] }];
+        db.results.period_summary = [{ data: [spent("comida", 80000)] }];
+
+        const alerts = await checkBudgetAlerts("user-1", NOW);
+
+        expect(alerts.map((a) => a.threshold)).toEqual([100]);
+        expect(updates()[0].calls).toContainEqual(["update", [{ alerted_month: "2026-03-01", alerted_threshold: 100 }]]);
+    });
+
+    it("stays quiet when the warning was already claimed", async () => {
+        db.results.budgets = [{ data: [budget("b-1", "comida", 80000)] }, { data: [] }];
+        db.results.period_summary = [{ data: [spent("comida", 70000)] }];
+
+        expect(await checkBudgetAlerts("user-1", NOW)).toEqual([]);
+    });
+
+    it("doesn't claim anything under 80%", async () => {
+        db.results.budgets = [{ data: [budget("b-1", "comida", 80000)] }];
+        db.results.period_summary = [{ data: [spent("comida", 63000)] }];
+
+        expect(await checkBudgetAlerts("user-1", NOW)).toEqual([]);
+        expect(updates()).toEqual([]);
+    });
+});
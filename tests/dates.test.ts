@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+    localDateToInstant,
+    parseDateInput,
+    resolveDateReference,
+    zonedTimeToUtc,
+} from "../src/utils/dates.js";
+import type { ParsedDateReference } from "../src/types/index.js";
+
+const ref = (kind: ParsedDateReference["kind"], fields: Partial<ParsedDateReference> = {}): ParsedDateReference => ({
+    kind,
+    days_ago: null,
+    weekday: null,
+    day: null,
+    month: null,
+    year: null,
+    ...fields,
+});
+
+const BA = "America/Argentina/Buenos_Aires";
+
+// Wednesday 18 March 2026, 12:00 in Buenos Aires (UTC-3)
+const NOW = new Date("2026-03-18T15:00:00Z");
+
+describe("zonedTimeToUtc", () => {
+    it("applies a fixed offset", () => {
+        expect(zonedTimeToUtc(2026, 3, 18, 12, 0, BA).toISOString()).toBe("2026-03-18T15:00:00.000Z");
+    });
+
+    it("lets the day overflow into the next month and year", () => {
+        expect(zonedTimeToUtc(2026, 12, 32, 0, 0, BA).toISOString()).toBe("2027-01-01T03:00:00.000Z");
+    });
+
+    it("uses the offset in force on each side of a DST change", () => {
+        // New York springs forward on 8 March 2026 and falls back on 1 November
+        expect(zonedTimeToUtc(2026, 3, 8, 1, 30, "America/New_York").toISOString()).toBe("2026-03-08T06:30:00.000Z");
+        expect(zonedTimeToUtc(2026, 3, 8, 3, 30, "America/New_York").toISOString()).toBe("2026-03-08T07:30:00.000Z");
+        expect(zonedTimeToUtc(2026, 11, 1, 0, 0, "America/New_York").toISOString()).toBe("2026-11-01T04:00:00.000Z");
+        expect(zonedTimeToUtc(2026, 11, 1, 12, 0, "America/New_York").toISOString()).toBe("2026-11-01T17:00:00.000Z");
+        // Madrid springs forward on 29 March 2026
+        expect(zonedTimeToUtc(2026, 3, 28, 12, 0, "Europe/Madrid").toISOString()).toBe("2026-03-28T11:00:00.000Z");
+        expect(zonedTimeToUtc(2026, 3, 29, 12, 0, "Europe/Madrid").toISOString()).toBe("2026-03-29T10:00:00.000Z");
+    });
+});
+
+describe("resolveDateReference", () => {
+    it("falls back to today without a reference", () => {
+        expect(resolveDateReference(null, BA, NOW)).toBe("2026-03-18");
+        expect(resolveDateReference(ref("today"), BA, NOW)).toBe("2026-03-18");
+    });
+
+    it("uses the local day, not the UTC one", () => {
+        // 23:00 on 31 March in Buenos Aires, already April in UTC
+        const lateNight = new Date("2026-04-01T02:00:00Z");
+        expect(resolveDateReference(ref("today"), BA, lateNight)).toBe("2026-03-31");
+        expect(resolveDateReference(ref("yesterday"), BA, lateNight)).toBe("2026-03-30");
+    });
+
+    it("crosses month and year boundaries going back", () => {
+        expect(resolveDateReference(ref("yesterday"), BA, new Date("2026-03-01T15:00:00Z"))).toBe("2026-02-28");
+        expect(resolveDateReference(ref("yesterday"), BA, new Date("2028-03-01T15:00:00Z"))).toBe("2028-02-29");
+        expect(resolveDateReference(ref("yesterday"), BA, new Date("2026-01-01T15:00:00Z"))).toBe("2025-12-31");
+        expect(resolveDateReference(ref("days_ago", { days_ago: 20 }), BA, NOW)).toBe("2026-02-26");
+    });
+
+    it("ignores days_ago that aren't positive", () => {
+        expect(resolveDateReference(ref("days_ago", { days_ago: 0 }), BA, NOW)).toBe("2026-03-18");
+        expect(resolveDateReference(ref("days_ago", { days_ago: -2 }), BA, NOW)).toBe("2026-03-18");
+    });
+
+    it("takes a weekday as its last past occurrence", () => {
+        expect(resolveDateReference(ref("weekday", { weekday: 5 }), BA, NOW)).toBe("2026-03-13");
+        expect(resolveDateReference(ref("weekday", { weekday: 2 }), BA, NOW)).toBe("2026-03-17");
+        // Today's weekday means a week ago
+        expect(resolveDateReference(ref("weekday", { weekday: 3 }), BA, NOW)).toBe("2026-03-11");
+        expect(resolveDateReference(ref("weekday", { weekday: 9 }), BA, NOW)).toBe("2026-03-18");
+    });
+
+    it("puts a day/month later than today in last year", () => {
+        expect(resolveDateReference(ref("date", { day: 12, month: 3 }), BA, NOW)).toBe("2026-03-12");
+        expect(resolveDateReference(ref("date", { day: 28, month: 12 }), BA, NOW)).toBe("2025-12-28");
+        expect(resolveDateReference(ref("date", { day: 28, month: 12, year: 2026 }), BA, NOW)).toBe("2026-12-28");
+        expect(resolveDateReference(ref("date", { day: 5, month: 1, year: 25 }), BA, NOW)).toBe("2025-01-05");
+    });
+
+    it("falls back to today for impossible dates", () => {
+        expect(resolveDateReference(ref("date", { day: 31, month: 2 }), BA, NOW)).toBe("2026-03-18");
+        expect(resolveDateReference(ref("date", { day: 29, month: 2, year: 2026 }), BA, NOW)).toBe("2026-03-18");
+    });
+});
+
+describe("parseDateInput", () => {
+    it("understands relative words", () => {
+        expect(parseDateInput("hoy", BA, NOW)).toBe("2026-03-18");
+        expect(parseDateInput(" Ayer ", BA, NOW)).toBe("2026-03-17");
+        expect(parseDateInput("anteayer", BA, NOW)).toBe("2026-03-16");
+        expect(parseDateInput("antes de ayer", BA, NOW)).toBe("2026-03-16");
+    });
+
+    it("understands weekdays with or without accents", () => {
+        expect(parseDateInput("el sábado", BA, NOW)).toBe("2026-03-14");
+        expect(parseDateInput("miercoles", BA, NOW)).toBe("2026-03-11");
+    });
+
+    it("parses day/month with optional year and separators", () => {
+        expect(parseDateInput("12/03", BA, NOW)).toBe("2026-03-12");
+        expect(parseDateInput("1-3", BA, NOW)).toBe("2026-03-01");
+        expect(parseDateInput("12.03.2025", BA, NOW)).toBe("2025-03-12");
+        expect(parseDateInput("12/03/25", BA, NOW)).toBe("2025-03-12");
+        expect(parseDateInput("28/12", BA, NOW)).toBe("2025-12-28");
+    });
+
+    it("rejects what isn't a valid date", () => {
+        expect(parseDateInput("31/02", BA, NOW)).toBeNull();
+        expect(parseDateInput("mañana", BA, NOW)).toBeNull();
+        expect(parseDateInput("pizza", BA, NOW)).toBeNull();
+    });
+});
+
+describe("localDateToInstant", () => {
+    it("keeps the current time for today and stamps other days at local noon", () => {
+        expect(localDateToInstant("2026-03-18", BA, NOW)).toBe(NOW);
+        expect(localDateToInstant("2026-02-28", BA, NOW).toISOString()).toBe("2026-02-28T15:00:00.000Z");
+    });
+});
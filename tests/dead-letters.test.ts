@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { message: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each query takes the next scripted result
+const db = vi.hoisted(() => ({
+    results: [] as QueryResult[],
+    queries: [] as QueryCall[][],
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            const calls: QueryCall[] = [["from", [table]]];
+            db.queries.push(calls);
+            const result = { data: null, error: null, ...db.results.shift() };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "upsert", "update", "eq"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        },
+    }),
+}));
+
+const { claimDeadLetter, finishDeadLetterReplay, recordDeadLetter } = await import("../src/services/dead-letters.js");
+
+const payload = {
+    message: { id: "wamid.1", from: "5491100000000", timestamp: "1773846000", type: "text", text: { body: "gasté 5000" } },
+};
+
+describe("recordDeadLetter", () => {
+    beforeEach(() => {
+        db.results = [];
+        db.queries = [];
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+    });
+
+    it("keeps the whole payload, the failing stage and the stack", async () => {
+        const error = new Error("parser timeout");
+
+        await recordDeadLetter({ payload: payload as never, userPhone: "541100000000", stage: "process", error, attempts: 4 });
+
+        const [, [row, options]] = db.queries[0].find(([m]) => m === "upsert")!;
+        expect(row).toEqual({
+            wamid: "wamid.1",
+            user_phone: "541100000000",
+            payload,
+            stage: "process",
+            error: "parser timeout",
+            stack: error.stack,
+            attempts: 4,
+            status: "pending",
+        });
+        expect(options).toEqual({ onConflict: "wamid" });
+    });
+
+    it("never throws over the failure it is recording", async () => {
+        db.results = [{ error: { message: "connection reset" } }];
+        vi.spyOn(console, "error").mockImplementation(() => { });
+
+        await expect(recordDeadLetter({
+            payload: payload as never,
+            userPhone: "541100000000",
+            stage: "claim",
+            error: "not an Error",
+            attempts: 1,
+        })).resolves.toBeUndefined();
+    });
+});
+
+describe("claimDeadLetter", () => {
+    beforeEach(() => {
+        db.results = [];
+        db.queries = [];
+    });
+
+    it("claims only a pending dead letter, so two replays never run together", async () => {
+        db.results = [{ data: [{ id: "dl-1" }] }, { data: [] }];
+
+        expect(await claimDeadLetter("dl-1")).toEqual({ id: "dl-1" });
+        expect(await claimDeadLetter("dl-1")).toBeNull();
+        expect(db.queries[0]).toContainEqual(["update", [{ status: "replaying" }]]);
+        expect(db.queries[0]).toContainEqual(["eq", ["status", "pending"]]);
+    });
+});
+
+describe("finishDeadLetterReplay", () => {
+    beforeEach(() => {
+        db.results = [];
+        db.queries = [];
+    });
+
+    it("counts the replay and keeps the error of a failed one", async () => {
+        await finishDeadLetterReplay({ id: "dl-1", replay_count: 1 }, { status: "pending", error: "x".repeat(600) });
+
+        const [, [changes]] = db.queries[0].find(([m]) => m === "update")!;
+        expect(changes).toEqual({ status: "pending", replay_count: 2, replay_error: "x".repeat(500) });
+    });
+});
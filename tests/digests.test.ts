@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { message: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each query takes the next result scripted for its table
+const db = vi.hoisted(() => ({
+    results: {} as Record<string, QueryResult[]>,
+    queries: [] as Array<{ name: string; calls: QueryCall[] }>,
+}));
+
+const mocks = vi.hoisted(() => ({
+    getPeriodSummary: vi.fn(),
+    getLargestExpenses: vi.fn(),
+    getUpcomingCharges: vi.fn(),
+    sendSpendingDigest: vi.fn(),
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            const calls: QueryCall[] = [["from", [table]]];
+            db.queries.push({ name: table, calls });
+            const result = { data: null, error: null, ...db.results[table]?.shift() };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "upsert", "update", "eq", "or", "maybeSingle"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        },
+    }),
+}));
+
+vi.mock("../src/services/transaction-repository.js", () => ({
+    getPeriodSummary: mocks.getPeriodSummary,
+    getLargestExpenses: mocks.getLargestExpenses,
+}));
+vi.mock("../src/services/subscriptions.js", () => ({ getUpcomingCharges: mocks.getUpcomingCharges }));
+vi.mock("../src/services/whatsapp.js", () => ({ sendSpendingDigest: mocks.sendSpendingDigest }));
+
+const { digestPeriod, processDigests } = await import("../src/services/digests.js");
+
+const TZ = "America/Argentina/Buenos_Aires";
+
+// Wednesday 18 March 2026, 12:00 in Buenos Aires
+const WEDNESDAY = new Date("2026-03-18T15:00:00Z");
+
+describe("digestPeriod", () => {
+    const settings = { digest_weekday: 3, digest_hour: 9 };
+
+    it("covers the 7 days before the user's weekday", () => {
+        expect(digestPeriod("weekly", settings, WEDNESDAY, TZ)).toEqual({
+            from: new Date("2026-03-11T03:00:00Z"),
+            to: new Date("2026-03-18T03:00:00Z"),
+            previousFrom: new Date("2026-03-04T03:00:00Z"),
+            periodStart: "2026-03-11",
+            label: "semana del 11/03 al 17/03",
+        });
+    });
+
+    it("isn't due on another weekday or before the user's hour", () => {
+        expect(digestPeriod("weekly", { ...settings, digest_weekday: 1 }, WEDNESDAY, TZ)).toBeNull();
+        expect(digestPeriod("weekly", { ...settings, digest_hour: 13 }, WEDNESDAY, TZ)).toBeNull();
+    });
+
+    it("covers the month that just ended, on the local 1st", () => {
+        // 1 January, 10:00 in Buenos Aires
+        expect(digestPeriod("monthly", settings, new Date("2027-01-01T13:00:00Z"), TZ)).toEqual({
+            from: new Date("2026-12-01T03:00:00Z"),
+            to: new Date("2027-01-01T03:00:00Z"),
+            previousFrom: new Date("2026-11-01T03:00:00Z"),
+            periodStart: "2026-12-01",
+            label: "diciembre 2026",
+        });
+
+        // Still 31 December in Buenos Aires
+        expect(digestPeriod("monthly", { ...settings, digest_hour: 0 }, new Date("2027-01-01T02:00:00Z"), TZ)).toBeNull();
+    });
+});
+
+describe("processDigests", () => {
+    const user = {
+        id: "user-1",
+        phone: "5491100000000",
+        timezone: TZ,
+        base_currency: "ARS",
+        last_inbound_at: null,
+        digest_weekly: true,
+        digest_monthly: false,
+        digest_weekday: 3,
+        digest_hour: 9,
+    };
+
+    const sendRow = (extra: object = {}) => ({
+        id: "send-1",
+        user_id: "user-1",
+        kind: "weekly",
+        period_start: "2026-03-11",
+        status: "sending",
+        attempts: 1,
+        ...extra,
+    });
+
+    const digestUpdates = () => db.queries
+        .filter((q) => q.name === "digest_sends" && q.calls.some(([m]) => m === "update"))
+        .map((q) => q.calls.find(([m]) => m === "update")![1][0]);
+
+    beforeEach(() => {
+        db.results = { users: [{ data: [user] }] };
+        db.queries = [];
+        vi.spyOn(console, "log").mockImplementation(() => { });
+        vi.spyOn(console, "error").mockImplementation(() => { });
+        mocks.sendSpendingDigest.mockReset();
+        mocks.getPeriodSummary.mockResolvedValue([{ type: "expense", category: "comida", total: 50000, count: 4 }]);
+        mocks.getLargestExpenses.mockResolvedValue([]);
+        mocks.getUpcomingCharges.mockResolvedValue([]);
+    });
+
+    it("claims the period's digest before sending it", async () => {
+        db.results.digest_sends = [{ data: [sendRow()] }, { data: null }];
+
+        expect(await processDigests("phone-id", "token", WEDNESDAY)).toEqual({ sent: 1, failed: 0, skipped: 0 });
+
+        const [, [claim, options]] = db.queries[1].calls.find(([m]) => m === "upsert")!;
+        expect(claim).toEqual({ user_id: "user-1", kind: "weekly", period_start: "2026-03-11" });
+        expect(options).toEqual({ onConflict: "user_id,kind,period_start", ignoreDuplicates: true });
+        expect(mocks.sendSpendingDigest).toHaveBeenCalledWith(expect.objectContaining({
+            to: "5491100000000",
+            digest: expect.objectContaining({ kind: "weekly", label: "semana del 11/03 al 17/03" }),
+        }));
+        expect(digestUpdates()).toEqual([expect.objectContaining({ status: "sent", last_error: null })]);
+    });
+
+    it("never sends a digest twice", async () => {
+        db.results.digest_sends = [{ data: [] }, { data: sendRow({ status: "sent" }) }];
+
+        expect(await processDigests("phone-id", "token", WEDNESDAY)).toEqual({ sent: 0, failed: 0, skipped: 0 });
+        expect(mocks.sendSpendingDigest).not.toHaveBeenCalled();
+        expect(digestUpdates()).toEqual([]);
+    });
+
+    it("retries a failed digest while attempts are left", async () => {
+        db.results.digest_sends = [
+            { data: [] },
+            { data: sendRow({ status: "failed", attempts: 1 }) },
+            { data: [sendRow({ attempts: 2 })] },
+            { data: null },
+        ];
+
+        expect(await processDigests("phone-id", "token", WEDNESDAY)).toEqual({ sent: 1, failed: 0, skipped: 0 });
+        const retry = db.queries[3].calls;
+        expect(retry).toContainEqual(["update", [{ status: "sending", attempts: 2 }]]);
+        expect(retry).toContainEqual(["eq", ["attempts", 1]]);
+
+        db.queries = [];
+        db.results = {
+            users: [{ data: [user] }],
+            digest_sends: [{ data: [] }, { data: sendRow({ status: "failed", attempts: 3 }) }],
+        };
+        expect(await processDigests("phone-id", "token", WEDNESDAY)).toEqual({ sent: 0, failed: 0, skipped: 0 });
+    });
+
+    it("skips a digest with nothing to show", async () => {
+        db.results.digest_sends = [{ data: [sendRow()] }, { data: null }];
+        mocks.getPeriodSummary.mockResolvedValue([]);
+
+        expect(await processDigests("phone-id", "token", WEDNESDAY)).toEqual({ sent: 0, failed: 0, skipped: 1 });
+        expect(mocks.sendSpendingDigest).not.toHaveBeenCalled();
+        expect(digestUpdates()).toEqual([{ status: "skipped" }]);
+    });
+
+    it("marks the digest failed when the send fails", async () => {
+        db.results.digest_sends = [{ data: [sendRow()] }, { data: null }];
+        mocks.sendSpendingDigest.mockRejectedValue(new Error("Graph API 500"));
+
+        expect(await processDigests("phone-id", "token", WEDNESDAY)).toEqual({ sent: 0, failed: 1, skipped: 0 });
+        expect(digestUpdates()).toEqual([{ status: "failed", last_error: "Graph API 500" }]);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { pickRateType, validateManualRate } from "../src/services/exchange-rates.js";
+
+describe("validateManualRate", () => {
+    it("accepts a complete or minimal quote", () => {
+        expect(validateManualRate({ rate_type: "mep", sell: 1215.5 })).toBeNull();
+        expect(validateManualRate({ currency: "USD", rate_type: "blue", sell: 1250, buy: 1230, rate_date: "2026-03-18" })).toBeNull();
+        expect(validateManualRate({ rate_type: "oficial", sell: 1100, buy: null })).toBeNull();
+    });
+
+    it("rejects a rate that isn't a positive number", () => {
+        expect(validateManualRate({ rate_type: "mep", sell: "1200" })).toMatch(/^sell must be/);
+        expect(validateManualRate({ rate_type: "mep", sell: 0 })).toMatch(/^sell must be/);
+        expect(validateManualRate({ rate_type: "mep", sell: -5 })).toMatch(/^sell must be/);
+        expect(validateManualRate({ rate_type: "mep", sell: Number.NaN })).toMatch(/^sell must be/);
+        expect(validateManualRate({ rate_type: "mep", sell: 1200, buy: 0 })).toMatch(/^buy must be/);
+    });
+
+    it("rejects an unknown rate type or currency", () => {
+        expect(validateManualRate({ rate_type: "cripto", sell: 1200 })).toMatch(/^rate_type must be one of/);
+        expect(validateManualRate({ currency: "EUR", rate_type: "mep", sell: 1200 })).toMatch(/^currency must be USD/);
+    });
+
+    it("rejects dates that don't exist", () => {
+        expect(validateManualRate({ rate_type: "mep", sell: 1200, rate_date: "2026-02-30" })).toMatch(/^rate_date/);
+        expect(validateManualRate({ rate_type: "mep", sell: 1200, rate_date: "2026-13-01" })).toMatch(/^rate_date/);
+        expect(validateManualRate({ rate_type: "mep", sell: 1200, rate_date: "18/03/2026" })).toMatch(/^rate_date/);
+    });
+
+    it("rejects what isn't an object", () => {
+        expect(validateManualRate(null)).toBe("each rate must be an object");
+        expect(validateManualRate(1200)).toBe("each rate must be an object");
+    });
+});
+
+describe("pickRateType", () => {
+    it("uses the card quote only for credit cards", () => {
+        expect(pickRateType("credit_card")).toBe("tarjeta");
+        expect(pickRateType("bank")).toBe("mep");
+        expect(pickRateType(null)).toBe("mep");
+    });
+});
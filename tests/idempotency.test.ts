@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { code?: string; message: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each from() takes the next scripted result and records the calls chained on it
+const db = vi.hoisted(() => ({
+    results: [] as QueryResult[],
+    queries: [] as QueryCall[][],
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: () => {
+            const calls: QueryCall[] = [];
+            const result = { data: null, error: null, ...db.results.shift() };
+            const query: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["insert", "update", "select", "eq", "neq", "single"]) {
+                query[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return query;
+                };
+            }
+            db.queries.push(calls);
+            return query;
+        },
+    }),
+}));
+
+const { claimMessageId, MAX_MESSAGE_ATTEMPTS } = await import("../src/services/idempotency.js");
+
+const NOW = new Date("2026-03-18T15:00:00Z");
+const MESSAGE_AT = new Date("2026-03-18T14:59:50Z");
+const DUPLICATE = { error: { code: "23505", message: "duplicate key value" } };
+
+const existing = (status: string, attempts: number, leaseExpiresAt: string | null) => ({
+    data: { status, attempts, lease_expires_at: leaseExpiresAt },
+});
+
+const claim = () => claimMessageId("wamid.1", "5491100000000", MESSAGE_AT, NOW);
+
+const argsOf = (query: QueryCall[], method: string) =>
+    query.filter(([name]) => name === method).map(([, args]) => args);
+
+describe("claimMessageId", () => {
+    beforeEach(() => {
+        db.results = [];
+        db.queries = [];
+        vi.spyOn(console, "log").mockImplementation(() => { });
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+    });
+
+    it("claims a new message with a first attempt and a 90s lease", async () => {
+        db.results = [{}];
+
+        expect(await claim()).toBe("claimed");
+        expect(argsOf(db.queries[0], "insert")[0][0]).toEqual({
+            wamid: "wamid.1",
+            user_phone: "5491100000000",
+            message_at: MESSAGE_AT.toISOString(),
+            status: "processing",
+            attempts: 1,
+            lease_expires_at: "2026-03-18T15:01:30.000Z",
+        });
+    });
+
+    it("throws on an unexpected insert error so the delivery is retried", async () => {
+        db.results = [{ error: { code: "57014", message: "statement timeout" } }];
+
+        await expect(claim()).rejects.toThrow("Idempotency check failed: statement timeout");
+    });
+
+    it("skips a completed message as a duplicate", async () => {
+        db.results = [DUPLICATE, existing("completed", 1, null)];
+
+        expect(await claim()).toBe("duplicate");
+        expect(db.queries).toHaveLength(2);
+    });
+
+    it("leaves a live lease to the worker holding it", async () => {
+        db.results = [DUPLICATE, existing("processing", 1, "2026-03-18T15:00:30Z")];
+
+        expect(await claim()).toBe("in_progress");
+        expect(db.queries).toHaveLength(2);
+    });
+
+    it("re-claims an expired lease, guarded by the attempt count", async () => {
+        db.results = [DUPLICATE, existing("processing", 2, "2026-03-18T15:00:00Z"), { data: [{ wamid: "wamid.1" }] }];
+
+        expect(await claim()).toBe("claimed");
+
+        const update = db.queries[2];
+        expect(argsOf(update, "update")[0][0]).toEqual({
+            status: "processing",
+            attempts: 3,
+            lease_expires_at: "2026-03-18T15:01:30.000Z",
+            updated_at: NOW.toISOString(),
+        });
+        expect(argsOf(update, "eq")).toEqual([["wamid", "wamid.1"], ["attempts", 2]]);
+        expect(argsOf(update, "neq")).toEqual([["status", "completed"]]);
+    });
+
+    it("re-claims a failed attempt even before its lease would have ended", async () => {
+        db.results = [DUPLICATE, existing("failed", 1, "2026-03-18T15:00:30Z"), { data: [{ wamid: "wamid.1" }] }];
+
+        expect(await claim()).toBe("claimed");
+        expect(argsOf(db.queries[2], "update")[0][0]).toMatchObject({ attempts: 2 });
+    });
+
+    it("treats a missing lease as expired", async () => {
+        db.results = [DUPLICATE, existing("processing", 1, null), { data: [{ wamid: "wamid.1" }] }];
+
+        expect(await claim()).toBe("claimed");
+    });
+
+    it("loses the re-claim to a worker that updated the row first", async () => {
+        db.results = [DUPLICATE, existing("failed", 1, null), { data: [] }];
+
+        expect(await claim()).toBe("in_progress");
+    });
+
+    it("gives up after MAX_MESSAGE_ATTEMPTS", async () => {
+        db.results = [DUPLICATE, existing("failed", MAX_MESSAGE_ATTEMPTS, null)];
+
+        expect(await claim()).toBe("exhausted");
+        expect(db.queries).toHaveLength(2);
+    });
+
+    it("gives up on an expired lease that used the last attempt", async () => {
+        db.results = [DUPLICATE, existing("processing", MAX_MESSAGE_ATTEMPTS, "2026-03-18T14:59:00Z")];
+
+        expect(await claim()).toBe("exhausted");
+    });
+
+    it("still re-claims the attempt before the last one", async () => {
+        db.results = [DUPLICATE, existing("failed", MAX_MESSAGE_ATTEMPTS - 1, null), { data: [{ wamid: "wamid.1" }] }];
+
+        expect(await claim()).toBe("claimed");
+        expect(argsOf(db.queries[2], "update")[0][0]).toMatchObject({ attempts: MAX_MESSAGE_ATTEMPTS });
+    });
+
+    it("throws when the existing claim can't be read", async () => {
+        db.results = [DUPLICATE, { error: { message: "connection reset" } }];
+
+        await expect(claim()).rejects.toThrow("Idempotency check failed: connection reset");
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { buildInstallmentPlan } from "../src/services/installments.js";
+
+const d = (iso: string) => new Date(iso);
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+describe("buildInstallmentPlan", () => {
+    it("splits an even total into equal monthly installments", () => {
+        const plan = buildInstallmentPlan(120000, 3, d("2026-03-10T15:00:00Z"));
+
+        expect(plan.map((i) => i.amount)).toEqual([40000, 40000, 40000]);
+        expect(plan.map((i) => i.number)).toEqual([1, 2, 3]);
+        expect(plan.every((i) => i.total === 3)).toBe(true);
+        expect(plan.map((i) => day(i.date))).toEqual(["2026-03-10", "2026-04-10", "2026-05-10"]);
+    });
+
+    it("lets the last installment absorb the rounding", () => {
+        const plan = buildInstallmentPlan(100, 3);
+
+        expect(plan.map((i) => i.amount)).toEqual([33.33, 33.33, 33.34]);
+        expect(plan.reduce((sum, i) => sum + i.amount, 0)).toBeCloseTo(100, 10);
+    });
+
+    it("adds up to the exact total with cents", () => {
+        const plan = buildInstallmentPlan(99999.99, 12);
+        const sum = Math.round(plan.reduce((s, i) => s + i.amount, 0) * 100) / 100;
+
+        expect(sum).toBe(99999.99);
+        expect(plan[11].amount).toBe(Math.round((99999.99 - plan[0].amount * 11) * 100) / 100);
+    });
+
+    it("clamps the 31st to the end of shorter months", () => {
+        const plan = buildInstallmentPlan(400, 4, d("2026-01-31T12:00:00Z"));
+
+        expect(plan.map((i) => day(i.date))).toEqual(["2026-01-31", "2026-02-28", "2026-03-31", "2026-04-30"]);
+    });
+
+    it("keeps the time of day and crosses the year", () => {
+        const plan = buildInstallmentPlan(300, 3, d("2026-11-15T15:30:00Z"));
+
+        expect(plan.map((i) => i.date.toISOString())).toEqual([
+            "2026-11-15T15:30:00.000Z",
+            "2026-12-15T15:30:00.000Z",
+            "2027-01-15T15:30:00.000Z",
+        ]);
+    });
+
+    it("follows the local calendar in a timezone ahead of UTC", () => {
+        // Local midnight on 1 March in Madrid is still 28 February in UTC
+        const madrid = buildInstallmentPlan(300, 3, d("2026-02-28T23:00:00Z"), "Europe/Madrid");
+        expect(madrid.map((i) => i.date.toISOString())).toEqual([
+            "2026-02-28T23:00:00.000Z",
+            "2026-03-31T22:00:00.000Z", // 1 April, already on summer time
+            "2026-04-30T22:00:00.000Z",
+        ]);
+
+        // 00:30 on 31 January in Tokyo clamps to the end of each local month
+        const tokyo = buildInstallmentPlan(300, 3, d("2026-01-30T15:30:00Z"), "Asia/Tokyo");
+        expect(tokyo.map((i) => i.date.toISOString())).toEqual([
+            "2026-01-30T15:30:00.000Z",
+            "2026-02-27T15:30:00.000Z",
+            "2026-03-30T15:30:00.000Z",
+        ]);
+    });
+
+    it("is a single row for one installment", () => {
+        expect(buildInstallmentPlan(5000, 1, d("2026-03-10T00:00:00Z"))).toEqual([
+            { number: 1, total: 1, amount: 5000, date: d("2026-03-10T00:00:00Z") },
+        ]);
+    });
+});
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryQueue } from "../src/queue/memory-queue.js";
+import { DEFAULT_QUEUE_RETRIES, registerJobHandler } from "../src/queue/jobs.js";
+import type { JobDelivery, JobResult, QueueJob } from "../src/queue/jobs.js";
+import type { QueuedMessagePayload } from "../src/types/index.js";
+
+const message = (id: string, extra: Partial<QueueJob> = {}): QueueJob => ({
+    topic: "message",
+    payload: { message: { id }, receivedAt: "2026-03-18T15:00:00Z" } as QueuedMessagePayload,
+    ...extra,
+} as QueueJob);
+
+const OK: JobResult = { status: 200, body: {} };
+
+/** Registers a message handler that records the IDs it runs, with how many retries each had */
+function handleMessages(run: (id: string, delivery: JobDelivery) => Promise<JobResult> = async () => OK) {
+    const calls: Array<[id: string, retried: number]> = [];
+    registerJobHandler("message", async (payload, delivery) => {
+        calls.push([payload.message.id, delivery.retried]);
+        return run(payload.message.id, delivery);
+    });
+    return calls;
+}
+
+describe("createMemoryQueue", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => { });
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+        vi.spyOn(console, "error").mockImplementation(() => { });
+    });
+
+    it("keeps published jobs until drain runs them in order", async () => {
+        const calls = handleMessages();
+        const queue = createMemoryQueue();
+
+        expect(await queue.publish(message("wamid.1"))).toEqual({ messageId: "mem-1" });
+        await queue.publish(message("wamid.2"));
+        expect(queue.jobs.map((j) => j.id)).toEqual(["mem-1", "mem-2"]);
+        expect(calls).toEqual([]);
+
+        expect(await queue.drain()).toBe(2);
+        expect(calls).toEqual([["wamid.1", 0], ["wamid.2", 0]]);
+        expect(queue.jobs).toEqual([]);
+        expect(queue.results.map((r) => r.result.status)).toEqual([200, 200]);
+    });
+
+    it("drops a job whose deduplication ID was already published", async () => {
+        const calls = handleMessages();
+        const queue = createMemoryQueue();
+
+        await queue.publish(message("wamid.1"));
+        await queue.publish(message("wamid.1"));
+        await queue.publish(message("wamid.1", { deduplicationId: "wamid.1:deferral-1" }));
+
+        expect(await queue.drain()).toBe(2);
+        expect(calls.map(([id]) => id)).toEqual(["wamid.1", "wamid.1"]);
+    });
+
+    it("runs a delayed job after the ones due before it", async () => {
+        const calls = handleMessages();
+        const queue = createMemoryQueue();
+
+        await queue.publish(message("wamid.late", { delaySeconds: 5 }));
+        await queue.publish(message("wamid.1"));
+        await queue.publish(message("wamid.2"));
+
+        await queue.drain();
+        expect(calls.map(([id]) => id)).toEqual(["wamid.1", "wamid.2", "wamid.late"]);
+    });
+
+    it("also runs the jobs published while draining", async () => {
+        const queue = createMemoryQueue();
+        const calls = handleMessages(async (id) => {
+            if (id === "wamid.1") await queue.publish(message("wamid.2"));
+            return OK;
+        });
+
+        await queue.publish(message("wamid.1"));
+
+        expect(await queue.drain()).toBe(2);
+        expect(calls.map(([id]) => id)).toEqual(["wamid.1", "wamid.2"]);
+    });
+
+    it("retries a failed job before the ones queued after it", async () => {
+        let failures = 2;
+        const calls = handleMessages(async (id) =>
+            id === "wamid.1" && failures-- > 0 ? { status: 500, body: {} } : OK,
+        );
+        const queue = createMemoryQueue();
+
+        await queue.publish(message("wamid.1"));
+        await queue.publish(message("wamid.2", { delaySeconds: 1 }));
+
+        expect(await queue.drain()).toBe(4);
+        expect(calls).toEqual([["wamid.1", 0], ["wamid.1", 1], ["wamid.1", 2], ["wamid.2", 0]]);
+    });
+
+    it("gives up after DEFAULT_QUEUE_RETRIES retries, counting a throw as a failure", async () => {
+        const calls = handleMessages(async () => {
+            throw new Error("gemini down");
+        });
+        const queue = createMemoryQueue();
+
+        await queue.publish(message("wamid.1"));
+
+        expect(await queue.drain()).toBe(DEFAULT_QUEUE_RETRIES + 1);
+        expect(calls.map(([, retried]) => retried)).toEqual(Array.from({ length: DEFAULT_QUEUE_RETRIES + 1 }, (_, i) => i));
+        expect(queue.results.at(-1)?.result).toEqual({ status: 500, body: { error: "gemini down" } });
+        expect(queue.jobs).toEqual([]);
+    });
+});
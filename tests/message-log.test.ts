@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { message: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each query takes the next result scripted for its table
+const db = vi.hoisted(() => ({
+    results: {} as Record<string, QueryResult[]>,
+    queries: [] as Array<{ name: string; calls: QueryCall[] }>,
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            const calls: QueryCall[] = [["from", [table]]];
+            db.queries.push({ name: table, calls });
+            const result = { data: null, error: null, ...db.results[table]?.shift() };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "insert", "upsert", "update", "eq", "in", "single"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        },
+    }),
+}));
+
+const { recordDeliveryStatus, recordOutboundMessage } = await import("../src/services/message-log.js");
+
+const argsOf = (table: string, method: string) =>
+    db.queries
+        .filter((q) => q.name === table)
+        .flatMap((q) => q.calls.filter(([m]) => m === method).map(([, args]) => args));
+
+describe("recordOutboundMessage", () => {
+    const body = { type: "interactive", interactive: { type: "button" } };
+
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+    });
+
+    it("logs what was sent, to whom, with its wamid and related records", async () => {
+        await recordOutboundMessage({
+            wamid: "wamid.1",
+            recipient: "5491100000000",
+            kind: "confirmation",
+            body,
+            refs: { confirmation_id: "conf-1" },
+        });
+
+        expect(argsOf("outbound_messages", "insert")).toEqual([[{
+            wamid: "wamid.1",
+            recipient: "5491100000000",
+            kind: "confirmation",
+            message_type: "interactive",
+            payload: body,
+            transaction_id: null,
+            subscription_id: null,
+            confirmation_id: "conf-1",
+            status: "accepted",
+            error: null,
+        }]]);
+    });
+
+    it("logs a message the API rejected with its error", async () => {
+        await recordOutboundMessage({
+            wamid: null,
+            recipient: "5491100000000",
+            kind: "reply",
+            body: { type: "text", text: { body: "hola" } },
+            error: "HTTP 400 — invalid recipient",
+        });
+
+        expect(argsOf("outbound_messages", "insert")[0][0])
+            .toMatchObject({ wamid: null, message_type: "text", status: "rejected", error: "HTTP 400 — invalid recipient" });
+    });
+
+    it("never fails the send when the log can't be written", async () => {
+        db.results.outbound_messages = [{ error: { message: "relation does not exist" } }];
+        const error = vi.spyOn(console, "error").mockImplementation(() => { });
+
+        await expect(recordOutboundMessage({ wamid: "wamid.1", recipient: "5491100000000", kind: "reply", body }))
+            .resolves.toBeUndefined();
+        expect(error).toHaveBeenCalled();
+    });
+});
+
+describe("recordDeliveryStatus", () => {
+    // 18 March 2026, 15:00 UTC
+    const status = (value: "sent" | "delivered" | "read" | "failed", extra: object = {}) => ({
+        id: "wamid.1",
+        status: value,
+        timestamp: "1773846000",
+        recipient_id: "5491100000000",
+        ...extra,
+    });
+
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+        vi.spyOn(console, "log").mockImplementation(() => { });
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+    });
+
+    it("stores the event and moves the message's status forward only", async () => {
+        db.results.message_status_events = [{ data: [{ id: "ev-1" }] }];
+        db.results.outbound_messages = [{}, {}, {}, { data: { wamid: "wamid.1", kind: "charge_reminder", status: "delivered" } }];
+
+        expect(await recordDeliveryStatus(status("delivered"))).toMatchObject({ status: "delivered" });
+
+        const [event, options] = argsOf("message_status_events", "upsert")[0];
+        expect(event).toEqual({
+            wamid: "wamid.1",
+            status: "delivered",
+            error_code: null,
+            error_title: null,
+            occurred_at: "2026-03-18T15:00:00.000Z",
+        });
+        expect(options).toEqual({ onConflict: "wamid,status", ignoreDuplicates: true });
+
+        // A "read" that arrived first keeps the message read
+        expect(argsOf("outbound_messages", "update")).toEqual([
+            [{ delivered_at: "2026-03-18T15:00:00.000Z" }],
+            [{ status: "delivered" }],
+        ]);
+        expect(argsOf("outbound_messages", "in")).toEqual([["status", ["accepted", "sent"]]]);
+    });
+
+    it("keeps the error code of a failed message", async () => {
+        db.results.message_status_events = [{ data: [{ id: "ev-1" }] }];
+
+        await recordDeliveryStatus(status("failed", { errors: [{ code: 131047, title: "Re-engagement message" }] }));
+
+        expect(argsOf("message_status_events", "upsert")[0][0])
+            .toMatchObject({ status: "failed", error_code: 131047, error_title: "Re-engagement message" });
+        expect(argsOf("outbound_messages", "update")[1])
+            .toEqual([{ status: "failed", error_code: 131047, error_title: "Re-engagement message" }]);
+        expect(argsOf("outbound_messages", "in")).toEqual([["status", ["accepted", "sent", "delivered", "read"]]]);
+    });
+
+    it("logs a status for a message that wasn't logged as unknown", async () => {
+        db.results.message_status_events = [{ data: [{ id: "ev-1" }] }];
+
+        await recordDeliveryStatus(status("sent"));
+
+        expect(argsOf("outbound_messages", "upsert")).toEqual([[
+            { wamid: "wamid.1", recipient: "5491100000000", kind: "unknown" },
+            { onConflict: "wamid", ignoreDuplicates: true },
+        ]]);
+    });
+
+    it("does nothing for an event already recorded", async () => {
+        db.results.message_status_events = [{ data: [] }];
+
+        expect(await recordDeliveryStatus(status("delivered"))).toBeNull();
+        expect(db.queries.map((q) => q.name)).toEqual(["message_status_events"]);
+    });
+
+    it("throws so the queue retries when the event can't be stored", async () => {
+        db.results.message_status_events = [{ error: { message: "connection reset" } }];
+        vi.spyOn(console, "error").mockImplementation(() => { });
+
+        await expect(recordDeliveryStatus(status("read"))).rejects.toThrow("Failed to store status event");
+    });
+});
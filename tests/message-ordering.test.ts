@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { code?: string; message: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each query takes the next scripted result
+const db = vi.hoisted(() => ({
+    results: [] as QueryResult[],
+    queries: [] as QueryCall[][],
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            const calls: QueryCall[] = [["from", [table]]];
+            db.queries.push(calls);
+            const result = { data: null, error: null, ...db.results.shift() };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "insert", "update", "delete", "eq", "neq", "lt", "gte", "or", "limit"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        },
+    }),
+}));
+
+const {
+    acquireUserLock,
+    deferralDelaySeconds,
+    hasEarlierPendingMessage,
+    releaseUserLock,
+} = await import("../src/services/message-ordering.js");
+
+const NOW = new Date("2026-03-18T15:00:00Z");
+const DUPLICATE = { error: { code: "23505", message: "duplicate key value" } };
+
+describe("hasEarlierPendingMessage", () => {
+    beforeEach(() => {
+        db.results = [];
+        db.queries = [];
+    });
+
+    it("looks for the user's earlier messages still processing or with retries left", async () => {
+        db.results = [{ data: [{ wamid: "wamid.0" }] }];
+
+        expect(await hasEarlierPendingMessage("541100000000", "wamid.1", NOW)).toBe(true);
+        expect(db.queries[0]).toEqual(expect.arrayContaining([
+            ["eq", ["user_phone", "541100000000"]],
+            ["neq", ["wamid", "wamid.1"]],
+            ["lt", ["message_at", "2026-03-18T15:00:00.000Z"]],
+            ["gte", ["message_at", "2026-03-18T14:50:00.000Z"]],
+            ["or", ["status.eq.processing,and(status.eq.failed,attempts.lt.4)"]],
+        ]));
+    });
+
+    it("lets the message go when nothing earlier is unfinished", async () => {
+        db.results = [{ data: [] }];
+
+        expect(await hasEarlierPendingMessage("541100000000", "wamid.1", NOW)).toBe(false);
+    });
+});
+
+describe("acquireUserLock", () => {
+    beforeEach(() => {
+        db.results = [];
+        db.queries = [];
+    });
+
+    it("takes a free lock for 90 seconds", async () => {
+        db.results = [{}];
+
+        expect(await acquireUserLock("541100000000", "wamid.1", NOW)).toBe(true);
+        expect(db.queries[0]).toContainEqual(["insert", [{
+            user_phone: "541100000000",
+            holder: "wamid.1",
+            locked_until: "2026-03-18T15:01:30.000Z",
+        }]]);
+    });
+
+    it("takes over a lock only once it expired", async () => {
+        db.results = [DUPLICATE, { data: [{ user_phone: "541100000000" }] }];
+        expect(await acquireUserLock("541100000000", "wamid.2", NOW)).toBe(true);
+        expect(db.queries[1]).toContainEqual(["lt", ["locked_until", NOW.toISOString()]]);
+
+        db.results = [DUPLICATE, { data: [] }];
+        expect(await acquireUserLock("541100000000", "wamid.2", NOW)).toBe(false);
+    });
+
+    it("throws on other errors so the queue retries", async () => {
+        db.results = [{ error: { code: "08006", message: "connection failure" } }];
+
+        await expect(acquireUserLock("541100000000", "wamid.1", NOW)).rejects.toThrow("User lock failed");
+    });
+});
+
+describe("releaseUserLock", () => {
+    it("releases only the lock this message holds", async () => {
+        db.results = [{}];
+        db.queries = [];
+
+        await releaseUserLock("541100000000", "wamid.1");
+
+        expect(db.queries[0]).toEqual([
+            ["from", ["user_message_locks"]],
+            ["delete", []],
+            ["eq", ["user_phone", "541100000000"]],
+            ["eq", ["holder", "wamid.1"]],
+        ]);
+    });
+});
+
+describe("deferralDelaySeconds", () => {
+    it("doubles the wait on each re-enqueue", () => {
+        expect([0, 1, 2, 3, 4].map(deferralDelaySeconds)).toEqual([2, 4, 8, 16, 32]);
+    });
+});
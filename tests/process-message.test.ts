@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+    idempotency: {
+        claimMessageId: vi.fn(),
+        releaseMessageClaim: vi.fn(),
+        markMessageProcessed: vi.fn(),
+        markMessageError: vi.fn(),
+    },
+    ordering: {
+        hasEarlierPendingMessage: vi.fn(),
+        acquireUserLock: vi.fn(),
+        releaseUserLock: vi.fn(),
+        deferralDelaySeconds: vi.fn(() => 5),
+        MAX_DEFERRALS: 5,
+    },
+    recordDeadLetter: vi.fn(),
+    recordInboundMessage: vi.fn(),
+    publish: vi.fn(),
+}));
+
+vi.mock("../src/utils/config.js", () => ({
+    loadConfig: () => ({ WHATSAPP_PHONE_NUMBER_ID: "phone-id", WHATSAPP_API_TOKEN: "token" }),
+}));
+vi.mock("../src/services/idempotency.js", async (importOriginal) => ({
+    MAX_MESSAGE_ATTEMPTS: (await importOriginal<typeof import("../src/services/idempotency.js")>()).MAX_MESSAGE_ATTEMPTS,
+    ...mocks.idempotency,
+}));
+vi.mock("../src/services/message-ordering.js", () => mocks.ordering);
+vi.mock("../src/services/dead-letters.js", () => ({ recordDeadLetter: mocks.recordDeadLetter }));
+vi.mock("../src/services/transaction-repository.js", () => ({ recordInboundMessage: mocks.recordInboundMessage }));
+vi.mock("../src/queue/message-queue.js", () => ({ getMessageQueue: () => ({ publish: mocks.publish }) }));
+
+// The pipeline modules log when they load
+vi.spyOn(console, "log").mockImplementation(() => { });
+
+const { handleMessageJob } = await import("../api/process-message.js");
+
+const payload = {
+    message: {
+        id: "wamid.1",
+        from: "5491100000000",
+        timestamp: "1773846000",
+        type: "text",
+        text: { body: "gasté 5000 en comida" },
+    },
+};
+
+describe("handleMessageJob", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+        vi.spyOn(console, "error").mockImplementation(() => { });
+        mocks.idempotency.claimMessageId.mockResolvedValue("claimed");
+        mocks.ordering.hasEarlierPendingMessage.mockResolvedValue(false);
+        mocks.ordering.acquireUserLock.mockResolvedValue(true);
+        mocks.recordInboundMessage.mockRejectedValue(new Error("connection reset"));
+    });
+
+    it("leaves a failed message to the queue's retry while attempts are left", async () => {
+        mocks.idempotency.markMessageError.mockResolvedValue(3);
+
+        const result = await handleMessageJob(payload as never, { retried: 2 });
+
+        expect(result.status).toBe(500);
+        expect(mocks.idempotency.markMessageError).toHaveBeenCalledWith("wamid.1", "connection reset");
+        expect(mocks.recordDeadLetter).not.toHaveBeenCalled();
+        expect(mocks.ordering.releaseUserLock).toHaveBeenCalledWith("541100000000", "wamid.1");
+    });
+
+    it("dead-letters the whole message on its 4th failed attempt", async () => {
+        mocks.idempotency.markMessageError.mockResolvedValue(4);
+
+        expect((await handleMessageJob(payload as never, { retried: 1 })).status).toBe(500);
+        expect(mocks.recordDeadLetter).toHaveBeenCalledWith({
+            payload,
+            userPhone: "541100000000",
+            stage: "session_window",
+            error: expect.objectContaining({ message: "connection reset" }),
+            attempts: 4,
+        });
+    });
+
+    it("dead-letters on the queue's last retry even with attempts left", async () => {
+        mocks.idempotency.markMessageError.mockResolvedValue(2);
+
+        await handleMessageJob(payload as never, { retried: 3 });
+
+        expect(mocks.recordDeadLetter).toHaveBeenCalledWith(expect.objectContaining({ attempts: 2 }));
+    });
+
+    it("doesn't dead-letter a message it never claimed", async () => {
+        mocks.idempotency.claimMessageId.mockRejectedValue(new Error("connection reset"));
+
+        expect((await handleMessageJob(payload as never, { retried: 3 })).status).toBe(500);
+        expect(mocks.idempotency.markMessageError).not.toHaveBeenCalled();
+        expect(mocks.recordDeadLetter).not.toHaveBeenCalled();
+    });
+});
+
+describe("handleMessageJob ordering", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+        vi.spyOn(console, "error").mockImplementation(() => { });
+        mocks.idempotency.claimMessageId.mockResolvedValue("claimed");
+        mocks.ordering.hasEarlierPendingMessage.mockResolvedValue(true);
+        mocks.ordering.acquireUserLock.mockResolvedValue(true);
+        mocks.recordInboundMessage.mockRejectedValue(new Error("connection reset"));
+    });
+
+    it("re-enqueues a message while an earlier one of the user is unfinished", async () => {
+        const result = await handleMessageJob({ ...payload, deferrals: 1 } as never, { retried: 0 });
+
+        expect(result).toEqual({ status: 202, body: { status: "deferred", wamid: "wamid.1", deferrals: 2 } });
+        expect(mocks.idempotency.releaseMessageClaim).toHaveBeenCalledWith("wamid.1");
+        expect(mocks.publish).toHaveBeenCalledWith({
+            topic: "message",
+            payload: { ...payload, deferrals: 2 },
+            delaySeconds: 5,
+            deduplicationId: "wamid.1:deferred:2",
+        });
+        expect(mocks.ordering.acquireUserLock).not.toHaveBeenCalled();
+        expect(mocks.recordInboundMessage).not.toHaveBeenCalled();
+    });
+
+    it("waits while another message holds the user's lock", async () => {
+        mocks.ordering.hasEarlierPendingMessage.mockResolvedValue(false);
+        mocks.ordering.acquireUserLock.mockResolvedValue(false);
+
+        expect((await handleMessageJob(payload as never, { retried: 0 })).status).toBe(202);
+        expect(mocks.ordering.releaseUserLock).not.toHaveBeenCalled();
+    });
+
+    it("goes ahead out of turn after the last deferral", async () => {
+        mocks.idempotency.markMessageError.mockResolvedValue(1);
+
+        await handleMessageJob({ ...payload, deferrals: 5 } as never, { retried: 0 });
+
+        expect(mocks.publish).not.toHaveBeenCalled();
+        expect(mocks.recordInboundMessage).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { resolveQueryPeriod } from "../src/services/query-engine.js";
+import type { ParsedQuery, QueryPeriod } from "../src/types/index.js";
+
+const q = (period: QueryPeriod, month: number | null = null, year: number | null = null): ParsedQuery => ({
+    topic: "summary",
+    period,
+    month,
+    year,
+    category: null,
+    type: null,
+});
+
+const range = (period: ReturnType<typeof resolveQueryPeriod>) => [
+    period.from.toISOString(),
+    period.to.toISOString(),
+];
+
+// Wednesday 18 March 2026, 12:00 in Buenos Aires (UTC-3)
+const NOW = new Date("2026-03-18T15:00:00Z");
+
+describe("resolveQueryPeriod", () => {
+    it("resolves days to local midnights", () => {
+        expect(range(resolveQueryPeriod(q("today"), NOW))).toEqual([
+            "2026-03-18T03:00:00.000Z",
+            "2026-03-19T03:00:00.000Z",
+        ]);
+        expect(range(resolveQueryPeriod(q("yesterday"), NOW))).toEqual([
+            "2026-03-17T03:00:00.000Z",
+            "2026-03-18T03:00:00.000Z",
+        ]);
+    });
+
+    it("starts weeks on Monday, also when asked on a Sunday", () => {
+        const thisWeek = ["2026-03-16T03:00:00.000Z", "2026-03-23T03:00:00.000Z"];
+        expect(range(resolveQueryPeriod(q("this_week"), NOW))).toEqual(thisWeek);
+        expect(range(resolveQueryPeriod(q("this_week"), new Date("2026-03-22T15:00:00Z")))).toEqual(thisWeek);
+        expect(range(resolveQueryPeriod(q("last_week"), NOW))).toEqual([
+            "2026-03-09T03:00:00.000Z",
+            "2026-03-16T03:00:00.000Z",
+        ]);
+    });
+
+    it("serves calendar months from the monthly view", () => {
+        const period = resolveQueryPeriod(q("this_month"), NOW);
+        expect(period.month).toEqual({ year: 2026, month: 3 });
+        expect(period.label).toBe("marzo 2026");
+        expect(range(period)).toEqual(["2026-03-01T03:00:00.000Z", "2026-04-01T03:00:00.000Z"]);
+        expect(resolveQueryPeriod(q("today"), NOW).month).toBeNull();
+    });
+
+    it("uses the local month when UTC is already in the next one", () => {
+        // 23:00 on 31 March in Buenos Aires
+        const period = resolveQueryPeriod(q("this_month"), new Date("2026-04-01T02:00:00Z"));
+        expect(period.month).toEqual({ year: 2026, month: 3 });
+    });
+
+    it("goes back a year for last month in January", () => {
+        const period = resolveQueryPeriod(q("last_month"), new Date("2026-01-10T15:00:00Z"));
+        expect(period.month).toEqual({ year: 2025, month: 12 });
+        expect(period.label).toBe("diciembre 2025");
+    });
+
+    it("takes a named month in the future as last year's", () => {
+        expect(resolveQueryPeriod(q("specific_month", 12), NOW).month).toEqual({ year: 2025, month: 12 });
+        expect(resolveQueryPeriod(q("specific_month", 2), NOW).month).toEqual({ year: 2026, month: 2 });
+        expect(resolveQueryPeriod(q("specific_month", 12, 2026), NOW).month).toEqual({ year: 2026, month: 12 });
+    });
+
+    it("falls back to this month for an invalid month number", () => {
+        expect(resolveQueryPeriod(q("specific_month", 13), NOW).month).toEqual({ year: 2026, month: 3 });
+    });
+
+    it("covers the whole local year", () => {
+        const period = resolveQueryPeriod(q("this_year"), NOW);
+        expect(period.label).toBe("2026");
+        expect(range(period)).toEqual(["2026-01-01T03:00:00.000Z", "2027-01-01T03:00:00.000Z"]);
+    });
+
+    it("follows DST changes inside the month", () => {
+        // Madrid moves from UTC+1 to UTC+2 on 29 March 2026
+        const period = resolveQueryPeriod(q("this_month"), NOW, "Europe/Madrid");
+        expect(range(period)).toEqual(["2026-02-28T23:00:00.000Z", "2026-03-31T22:00:00.000Z"]);
+    });
+});
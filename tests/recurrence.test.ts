@@ -0,0 +1,275 @@
+import { describe, expect, it } from "vitest";
+import {
+    addMonths,
+    daysInMonth,
+    isPastTerm,
+    monthsBetween,
+    nextOccurrence,
+    occurrenceOnOrAfter,
+    renewalDates,
+    termEndDate,
+} from "../src/utils/recurrence.js";
+import type { RenewableSubscription } from "../src/utils/recurrence.js";
+
+const d = (iso: string) => new Date(iso);
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+describe("daysInMonth", () => {
+    it("knows short months and leap years", () => {
+        expect(daysInMonth(2026, 1)).toBe(31);
+        expect(daysInMonth(2026, 2)).toBe(28);
+        expect(daysInMonth(2028, 2)).toBe(29);
+        expect(daysInMonth(2100, 2)).toBe(28);
+        expect(daysInMonth(2026, 4)).toBe(30);
+    });
+});
+
+describe("addMonths", () => {
+    it("keeps the day when the target month has it", () => {
+        expect(day(addMonths(d("2026-03-15"), 1))).toBe("2026-04-15");
+        expect(day(addMonths(d("2026-03-15"), 12))).toBe("2027-03-15");
+    });
+
+    it("clamps the 31st to the last day of shorter months", () => {
+        expect(day(addMonths(d("2026-01-31"), 1))).toBe("2026-02-28");
+        expect(day(addMonths(d("2028-01-31"), 1))).toBe("2028-02-29");
+        expect(day(addMonths(d("2026-03-31"), 1))).toBe("2026-04-30");
+    });
+
+    it("goes back to the anchor day when the month has it", () => {
+        expect(day(addMonths(d("2026-02-28"), 1, 31))).toBe("2026-03-31");
+        expect(day(addMonths(d("2026-04-30"), 1, 31))).toBe("2026-05-31");
+        expect(day(addMonths(d("2026-02-28"), 1, 30))).toBe("2026-03-30");
+    });
+
+    it("crosses year boundaries", () => {
+        expect(day(addMonths(d("2026-12-31"), 1))).toBe("2027-01-31");
+        expect(day(addMonths(d("2026-11-30"), 3, 31))).toBe("2027-02-28");
+    });
+
+    it("moves backwards with negative months", () => {
+        expect(day(addMonths(d("2026-03-31"), -1))).toBe("2026-02-28");
+    });
+
+    it("keeps the time of day", () => {
+        expect(addMonths(d("2026-01-31T15:30:00Z"), 1).toISOString()).toBe("2026-02-28T15:30:00.000Z");
+    });
+
+    it("does not mutate its input", () => {
+        const input = d("2026-01-31");
+        addMonths(input, 1);
+        expect(day(input)).toBe("2026-01-31");
+    });
+});
+
+describe("nextOccurrence", () => {
+    it("adds 7 days for weekly, across months", () => {
+        expect(day(nextOccurrence(d("2026-10-29"), "weekly"))).toBe("2026-11-05");
+        expect(day(nextOccurrence(d("2026-12-28"), "weekly"))).toBe("2027-01-04");
+    });
+
+    it("ignores the anchor day for weekly", () => {
+        expect(day(nextOccurrence(d("2026-10-29"), "weekly", 31))).toBe("2026-11-05");
+    });
+
+    it("adds one calendar month for monthly", () => {
+        expect(day(nextOccurrence(d("2026-01-15"), "monthly"))).toBe("2026-02-15");
+        expect(day(nextOccurrence(d("2026-01-31"), "monthly"))).toBe("2026-02-28");
+    });
+
+    it("adds one calendar year for annual", () => {
+        expect(day(nextOccurrence(d("2026-06-10"), "annual"))).toBe("2027-06-10");
+        expect(day(nextOccurrence(d("2028-02-29"), "annual"))).toBe("2029-02-28");
+        expect(day(nextOccurrence(d("2029-02-28"), "annual", 29))).toBe("2030-02-28");
+        expect(day(nextOccurrence(d("2031-02-28"), "annual", 29))).toBe("2032-02-29");
+    });
+
+    it("treats an unknown frequency as monthly", () => {
+        expect(day(nextOccurrence(d("2026-01-10"), "biweekly"))).toBe("2026-02-10");
+    });
+
+    it("does not drift when chained with the anchor day", () => {
+        const days: string[] = [];
+        let date = d("2026-01-31");
+        for (let i = 0; i < 4; i++) {
+            date = nextOccurrence(date, "monthly", 31);
+            days.push(day(date));
+        }
+        expect(days).toEqual(["2026-02-28", "2026-03-31", "2026-04-30", "2026-05-31"]);
+    });
+
+    it("drifts without the anchor day (why anchor_day is stored)", () => {
+        const feb = nextOccurrence(d("2026-01-31"), "monthly");
+        expect(day(nextOccurrence(feb, "monthly"))).toBe("2026-03-28");
+    });
+});
+
+describe("occurrenceOnOrAfter", () => {
+    it("returns the start when it is already on or after the target", () => {
+        expect(day(occurrenceOnOrAfter(d("2026-05-10"), d("2026-05-10"), "monthly"))).toBe("2026-05-10");
+        expect(day(occurrenceOnOrAfter(d("2026-06-10"), d("2026-05-10"), "monthly"))).toBe("2026-06-10");
+    });
+
+    it("steps forward until it reaches the target", () => {
+        expect(day(occurrenceOnOrAfter(d("2026-01-31"), d("2026-04-01"), "monthly", 31))).toBe("2026-04-30");
+        expect(day(occurrenceOnOrAfter(d("2026-10-01"), d("2026-10-20"), "weekly"))).toBe("2026-10-22");
+        expect(day(occurrenceOnOrAfter(d("2024-03-01"), d("2026-10-19"), "annual"))).toBe("2027-03-01");
+    });
+});
+
+describe("termEndDate", () => {
+    it("adds the term in calendar months", () => {
+        expect(day(termEndDate(d("2026-01-15"), 6))).toBe("2026-07-15");
+        expect(day(termEndDate(d("2026-08-31"), 6))).toBe("2027-02-28");
+        expect(day(termEndDate(d("2026-02-28"), 1, 31))).toBe("2026-03-31");
+    });
+});
+
+describe("isPastTerm", () => {
+    it("is never past the term without an end date", () => {
+        expect(isPastTerm(d("2099-01-01"), null)).toBe(false);
+        expect(isPastTerm(d("2099-01-01"), undefined)).toBe(false);
+    });
+
+    it("treats end_date as exclusive", () => {
+        expect(isPastTerm(d("2026-07-14"), "2026-07-15")).toBe(false);
+        expect(isPastTerm(d("2026-07-15"), "2026-07-15")).toBe(true);
+        expect(isPastTerm(d("2026-08-15"), d("2026-07-15"))).toBe(true);
+    });
+
+    it("charges exactly the months of a fixed term", () => {
+        const end = termEndDate(d("2026-01-15"), 6);
+        const charges: string[] = [];
+        for (let due = d("2026-01-15"); !isPastTerm(due, end); due = nextOccurrence(due, "monthly", 15)) {
+            charges.push(day(due));
+        }
+        expect(charges).toHaveLength(6);
+        expect(charges[5]).toBe("2026-06-15");
+    });
+});
+
+describe("monthsBetween", () => {
+    it("counts whole calendar months", () => {
+        expect(monthsBetween(d("2026-01-15"), d("2026-07-15"))).toBe(6);
+        expect(monthsBetween(d("2026-01-31"), d("2026-02-28"))).toBe(1);
+        expect(monthsBetween(d("2026-01-15"), d("2027-01-15"))).toBe(12);
+    });
+
+    it("rounds a partial month of 15 days or more up", () => {
+        expect(monthsBetween(d("2026-01-01"), d("2026-03-20"))).toBe(3);
+        expect(monthsBetween(d("2026-01-01"), d("2026-03-10"))).toBe(2);
+    });
+
+    it("does not overshoot when the end day is before the start day", () => {
+        expect(monthsBetween(d("2026-01-20"), d("2026-03-05"))).toBe(1);
+    });
+
+    it("is never negative", () => {
+        expect(monthsBetween(d("2026-05-01"), d("2026-04-01"))).toBe(0);
+    });
+});
+
+describe("renewalDates", () => {
+    const base: RenewableSubscription = {
+        frequency: "monthly",
+        next_payment_at: "2026-07-15T00:00:00.000Z",
+        end_date: "2026-07-15T00:00:00.000Z",
+        anchor_day: 15,
+        term_months: 6,
+        created_at: "2026-01-15T10:00:00.000Z",
+    };
+
+    describe("fixed-term", () => {
+        it("extends the term by the same calendar months when renewed in time", () => {
+            const renewed = renewalDates(base, d("2026-06-01"));
+            expect(day(renewed.endDate!)).toBe("2027-01-15");
+            expect(day(renewed.nextPaymentAt)).toBe("2026-07-15");
+        });
+
+        it("keeps the anchor day across short months", () => {
+            const renewed = renewalDates({
+                ...base,
+                next_payment_at: "2026-02-28T00:00:00.000Z",
+                end_date: "2026-02-28T00:00:00.000Z",
+                anchor_day: 31,
+                term_months: 1,
+            }, d("2026-02-20"));
+            expect(day(renewed.endDate!)).toBe("2026-03-31");
+        });
+
+        it("keeps the next charge when renewed before it", () => {
+            const renewed = renewalDates({ ...base, next_payment_at: "2026-06-15T00:00:00.000Z" }, d("2026-06-01"));
+            expect(day(renewed.nextPaymentAt)).toBe("2026-06-15");
+        });
+
+        it("starts the new term at the next occurrence when renewed late", () => {
+            const renewed = renewalDates(base, d("2026-10-01"));
+            expect(day(renewed.nextPaymentAt)).toBe("2026-10-15");
+            expect(day(renewed.endDate!)).toBe("2027-04-15");
+        });
+
+        it("works out the term from created_at when it wasn't stored", () => {
+            const renewed = renewalDates({ ...base, term_months: null }, d("2026-06-01"));
+            expect(day(renewed.endDate!)).toBe("2027-01-15");
+        });
+
+        it("renews weekly subscriptions by their term in months", () => {
+            const renewed = renewalDates({
+                ...base,
+                frequency: "weekly",
+                next_payment_at: "2026-07-16T00:00:00.000Z",
+                end_date: "2026-08-01T00:00:00.000Z",
+                anchor_day: 1,
+                term_months: 3,
+            }, d("2026-07-10"));
+            expect(day(renewed.endDate!)).toBe("2026-11-01");
+            expect(day(renewed.nextPaymentAt)).toBe("2026-07-16");
+        });
+
+        it("renews annual subscriptions on Feb 29 to Feb 28", () => {
+            const renewed = renewalDates({
+                ...base,
+                frequency: "annual",
+                next_payment_at: "2028-02-29T00:00:00.000Z",
+                end_date: "2028-02-29T00:00:00.000Z",
+                anchor_day: 29,
+                term_months: 12,
+            }, d("2028-01-10"));
+            expect(day(renewed.endDate!)).toBe("2029-02-28");
+        });
+    });
+
+    describe("open-ended", () => {
+        const open: RenewableSubscription = { ...base, end_date: null, term_months: null };
+
+        it("keeps a future next charge", () => {
+            const renewed = renewalDates({ ...open, next_payment_at: "2026-11-15T00:00:00.000Z" }, d("2026-10-19"));
+            expect(renewed.endDate).toBeNull();
+            expect(day(renewed.nextPaymentAt)).toBe("2026-11-15");
+        });
+
+        it("moves a past next charge to the first occurrence from now", () => {
+            const renewed = renewalDates(open, d("2026-10-19"));
+            expect(renewed.endDate).toBeNull();
+            expect(day(renewed.nextPaymentAt)).toBe("2026-11-15");
+        });
+
+        it("rolls weekly subscriptions forward week by week", () => {
+            const renewed = renewalDates({
+                ...open,
+                frequency: "weekly",
+                next_payment_at: "2026-10-01T00:00:00.000Z",
+            }, d("2026-10-19"));
+            expect(day(renewed.nextPaymentAt)).toBe("2026-10-22");
+        });
+
+        it("rolls a month-end anchor forward without drifting", () => {
+            const renewed = renewalDates({
+                ...open,
+                next_payment_at: "2026-01-31T00:00:00.000Z",
+                anchor_day: 31,
+            }, d("2026-04-05"));
+            expect(day(renewed.nextPaymentAt)).toBe("2026-04-30");
+        });
+    });
+});
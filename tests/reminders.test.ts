@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { message: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each query takes the next result scripted for its table
+const db = vi.hoisted(() => ({
+    results: {} as Record<string, QueryResult[]>,
+    queries: [] as Array<{ name: string; calls: QueryCall[] }>,
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            const calls: QueryCall[] = [["from", [table]]];
+            db.queries.push({ name: table, calls });
+            const result = { data: null, error: null, ...db.results[table]?.shift() };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "upsert", "eq", "is"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        },
+    }),
+}));
+
+const {
+    createDueReminders,
+    normalizeReminderDays,
+    reminderTime,
+    upcomingTarget,
+} = await import("../src/services/reminders.js");
+
+const TZ = "America/Argentina/Buenos_Aires";
+
+// Wednesday 18 March 2026, 12:00 in Buenos Aires
+const NOW = new Date("2026-03-18T15:00:00Z");
+
+// Friday 20 March, 00:00 UTC — still Thursday evening in Buenos Aires
+const CHARGE = "2026-03-20T00:00:00.000Z";
+
+describe("reminderTime", () => {
+    it("sends at 9:00 local time, N days before the local date", () => {
+        expect(reminderTime(new Date(CHARGE), 1, TZ).toISOString()).toBe("2026-03-18T12:00:00.000Z");
+        expect(reminderTime(new Date(CHARGE), 7, "Asia/Tokyo").toISOString()).toBe("2026-03-13T00:00:00.000Z");
+    });
+
+    it("never lands after the date it warns about", () => {
+        const early = new Date("2026-03-20T10:00:00Z"); // 7:00 in Buenos Aires
+        expect(reminderTime(early, 0, TZ).toISOString()).toBe("2026-03-20T09:00:00.000Z");
+    });
+});
+
+describe("normalizeReminderDays", () => {
+    it("keeps whole days in range, without repeats, farthest first", () => {
+        expect(normalizeReminderDays([1, 7, 0, 7, 1.4])).toEqual([7, 1, 0]);
+        expect(normalizeReminderDays([-1, 90, Number.NaN, 3])).toEqual([3]);
+    });
+
+    it("keeps at most five reminders", () => {
+        expect(normalizeReminderDays([1, 2, 3, 4, 5, 6, 7])).toEqual([7, 6, 5, 4, 3]);
+    });
+});
+
+describe("upcomingTarget", () => {
+    it("warns about the end of a fixed term when the next charge falls outside it", () => {
+        expect(upcomingTarget({ next_payment_at: CHARGE, end_date: "2026-03-20T00:00:00.000Z" }).kind).toBe("renewal");
+        expect(upcomingTarget({ next_payment_at: CHARGE, end_date: "2026-06-01T00:00:00.000Z" }).kind).toBe("charge");
+        expect(upcomingTarget({ next_payment_at: CHARGE, end_date: null, is_trial: true, trial_ends_at: CHARGE }).kind).toBe("trial");
+    });
+});
+
+describe("createDueReminders", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+        vi.spyOn(console, "log").mockImplementation(() => { });
+    });
+
+    const sub = (id: string, extra: object = {}) => ({
+        id,
+        user_id: "user-1",
+        next_payment_at: CHARGE,
+        end_date: null,
+        reminder_days: null,
+        is_trial: false,
+        trial_ends_at: null,
+        users: { reminder_days: [7, 1, 0], timezone: TZ },
+        ...extra,
+    });
+
+    const upserted = () => {
+        const upsert = db.queries.find((q) => q.calls.some(([m]) => m === "upsert"))!;
+        const [, [rows, options]] = upsert.calls.find(([m]) => m === "upsert")!;
+        return { rows: rows as Array<Record<string, unknown>>, options };
+    };
+
+    it("creates the reminders already due from the user's defaults, once each", async () => {
+        db.results.subscriptions = [{ data: [sub("sub-1")] }];
+        db.results.subscription_reminders = [{ data: [{ id: "r-1" }, { id: "r-2" }] }];
+
+        expect(await createDueReminders(NOW)).toBe(2);
+
+        // The day-of reminder (tomorrow 9:00) isn't due yet
+        const { rows, options } = upserted();
+        expect(rows.map((r) => [r.kind, r.days_before, r.remind_at])).toEqual([
+            ["charge", 7, "2026-03-12T12:00:00.000Z"],
+            ["charge", 1, "2026-03-18T12:00:00.000Z"],
+        ]);
+        expect(options).toEqual({ onConflict: "subscription_id,target_date,days_before", ignoreDuplicates: true });
+    });
+
+    it("uses the subscription's override, and a single reminder for a trial", async () => {
+        db.results.subscriptions = [{
+            data: [
+                sub("sub-1", { reminder_days: [2] }),
+                sub("sub-2", { is_trial: true, trial_ends_at: CHARGE }),
+            ],
+        }];
+        db.results.subscription_reminders = [{ data: [{ id: "r-1" }, { id: "r-2" }] }];
+
+        await createDueReminders(NOW);
+
+        expect(upserted().rows.map((r) => [r.subscription_id, r.kind, r.days_before])).toEqual([
+            ["sub-1", "charge", 2],
+            ["sub-2", "trial", 2],
+        ]);
+    });
+
+    it("writes nothing when no reminder is due", async () => {
+        db.results.subscriptions = [{ data: [sub("sub-1", { next_payment_at: "2026-05-20T00:00:00.000Z" })] }];
+
+        expect(await createDueReminders(NOW)).toBe(0);
+        expect(db.queries).toHaveLength(1);
+    });
+});
@@ -0,0 +1,205 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { message: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each query takes the next result scripted for its table
+const db = vi.hoisted(() => ({
+    results: {} as Record<string, QueryResult[]>,
+    queries: [] as Array<{ name: string; calls: QueryCall[] }>,
+}));
+
+const whatsapp = vi.hoisted(() => ({ sendSavingsNudge: vi.fn() }));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            const calls: QueryCall[] = [["from", [table]]];
+            db.queries.push({ name: table, calls });
+            const result = { data: null, error: null, ...db.results[table]?.shift() };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "insert", "update", "eq", "in", "is", "gte", "or", "order", "single"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        },
+    }),
+}));
+
+vi.mock("../src/services/transaction-repository.js", () => ({
+    getUserTimezone: async () => "America/Argentina/Buenos_Aires",
+}));
+vi.mock("../src/services/whatsapp.js", () => whatsapp);
+
+const {
+    findSavingsGoal,
+    processSavingsNudges,
+    resolveTargetDate,
+    upsertSavingsGoal,
+} = await import("../src/services/savings-goals.js");
+
+// Wednesday 18 March 2026, 12:00 in Buenos Aires
+const NOW = new Date("2026-03-18T15:00:00Z");
+const TZ = "America/Argentina/Buenos_Aires";
+
+const goal = (id: string, name: string, extra: object = {}) => ({
+    id,
+    user_id: "user-1",
+    name,
+    target_amount: 500000,
+    target_date: "2026-12-31",
+    achieved_at: null,
+    cancelled_at: null,
+    last_nudge_at: null,
+    created_at: "2026-01-10T12:00:00Z",
+    ...extra,
+});
+
+const queriesOn = (table: string, method: string) =>
+    db.queries.filter((q) => q.name === table && q.calls.some(([m]) => m === method));
+
+describe("resolveTargetDate", () => {
+    it("ends on the last day of the month given", () => {
+        expect(resolveTargetDate(12, null, TZ, NOW)).toBe("2026-12-31");
+        expect(resolveTargetDate(2, 2028, TZ, NOW)).toBe("2028-02-29");
+    });
+
+    it("takes a month already past as next year's", () => {
+        expect(resolveTargetDate(1, null, TZ, NOW)).toBe("2027-01-31");
+        expect(resolveTargetDate(3, null, TZ, NOW)).toBe("2026-03-31");
+    });
+
+    it("gives a year from now when there's no month", () => {
+        expect(resolveTargetDate(null, null, TZ, NOW)).toBe("2027-03-31");
+    });
+});
+
+describe("findSavingsGoal", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+    });
+
+    it("matches names regardless of accents, then partially", async () => {
+        const goals = [goal("g-1", "vacaciones"), goal("g-2", "auto")];
+
+        db.results.savings_goals = [{ data: goals }];
+        expect((await findSavingsGoal("user-1", "Vacaciónes "))?.id).toBe("g-1");
+
+        db.results.savings_goals = [{ data: goals }];
+        expect((await findSavingsGoal("user-1", "vaca"))?.id).toBe("g-1");
+
+        db.results.savings_goals = [{ data: goals }];
+        expect(await findSavingsGoal("user-1", "casa")).toBeNull();
+    });
+
+    it("uses the only goal when no name is given", async () => {
+        db.results.savings_goals = [{ data: [goal("g-1", "vacaciones")] }];
+        expect((await findSavingsGoal("user-1", null))?.id).toBe("g-1");
+
+        db.results.savings_goals = [{ data: [goal("g-1", "vacaciones"), goal("g-2", "auto")] }];
+        expect(await findSavingsGoal("user-1", null)).toBeNull();
+    });
+});
+
+describe("upsertSavingsGoal", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+        vi.spyOn(console, "log").mockImplementation(() => { });
+    });
+
+    it("creates a goal with the monthly amount needed to reach it", async () => {
+        db.results.savings_goals = [{ data: [] }, { data: goal("g-1", "vacaciones") }];
+        db.results.transactions = [{ data: [{ savings_goal_id: "g-1", amount: 20000, amount_base: 20000 }] }];
+
+        const progress = await upsertSavingsGoal(
+            "user-1",
+            { name: "Vacaciones", target_amount: 500000, target_month: 12, target_year: null },
+            NOW,
+        );
+
+        // March to December, both counted
+        expect(progress).toMatchObject({ saved: 20000, remaining: 480000, percent: 4, monthsLeft: 10, monthlyNeeded: 48000 });
+        expect(queriesOn("savings_goals", "insert")[0].calls).toContainEqual(["insert", [{
+            user_id: "user-1",
+            name: "vacaciones",
+            target_amount: 500000,
+            target_date: "2026-12-31",
+        }]]);
+    });
+
+    it("updates the target of a goal with the same name instead of adding another", async () => {
+        db.results.savings_goals = [
+            { data: [goal("g-1", "vacaciones")] },
+            { data: goal("g-1", "vacaciones", { target_amount: 800000 }) },
+        ];
+        db.results.transactions = [{ data: [] }];
+
+        await upsertSavingsGoal(
+            "user-1",
+            { name: "vacaciones", target_amount: 800000, target_month: 12, target_year: null },
+            NOW,
+        );
+
+        expect(queriesOn("savings_goals", "insert")).toEqual([]);
+        const [update] = queriesOn("savings_goals", "update");
+        expect(update.calls).toContainEqual(["update", [{ target_amount: 800000, target_date: "2026-12-31", achieved_at: null }]]);
+        expect(update.calls).toContainEqual(["eq", ["id", "g-1"]]);
+    });
+});
+
+describe("processSavingsNudges", () => {
+    const user = {
+        phone: "5491100000000",
+        subscription_status: "active",
+        timezone: TZ,
+        base_currency: "ARS",
+        last_inbound_at: null,
+    };
+
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+        whatsapp.sendSavingsNudge.mockReset();
+        vi.spyOn(console, "log").mockImplementation(() => { });
+    });
+
+    it("claims the nudge slot before sending", async () => {
+        db.results.savings_goals = [{ data: [goal("g-1", "vacaciones")] }, { data: [goal("g-1", "vacaciones")] }];
+        db.results.users = [{ data: user }];
+        db.results.transactions = [{ data: [] }];
+
+        expect(await processSavingsNudges("phone-id", "token", NOW)).toBe(1);
+
+        const [claim] = queriesOn("savings_goals", "update");
+        expect(claim.calls).toContainEqual(["update", [{ last_nudge_at: NOW.toISOString() }]]);
+        expect(claim.calls).toContainEqual(["or", ["last_nudge_at.is.null,last_nudge_at.lt.2026-02-16T15:00:00.000Z"]]);
+        expect(whatsapp.sendSavingsNudge).toHaveBeenCalledWith(expect.objectContaining({
+            to: "5491100000000",
+            progress: [expect.objectContaining({ remaining: 500000, monthlyNeeded: 50000 })],
+        }));
+    });
+
+    it("sends nothing when another run already claimed the slot", async () => {
+        db.results.savings_goals = [{ data: [goal("g-1", "vacaciones")] }, { data: [] }];
+        db.results.users = [{ data: user }];
+
+        expect(await processSavingsNudges("phone-id", "token", NOW)).toBe(0);
+        expect(whatsapp.sendSavingsNudge).not.toHaveBeenCalled();
+    });
+
+    it("skips users who aren't active", async () => {
+        db.results.savings_goals = [{ data: [goal("g-1", "vacaciones")] }];
+        db.results.users = [{ data: { ...user, subscription_status: "cancelled" } }];
+
+        expect(await processSavingsNudges("phone-id", "token", NOW)).toBe(0);
+        expect(queriesOn("savings_goals", "update")).toEqual([]);
+    });
+});
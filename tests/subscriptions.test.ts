@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryResult = { data?: unknown; error?: { message: string } | null };
+type QueryCall = [method: string, args: unknown[]];
+
+// Each query takes the next result scripted for its table
+const db = vi.hoisted(() => ({
+    results: {} as Record<string, QueryResult[]>,
+    queries: [] as Array<{ name: string; calls: QueryCall[] }>,
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => ({
+        from: (table: string) => {
+            const calls: QueryCall[] = [["from", [table]]];
+            db.queries.push({ name: table, calls });
+            const result = { data: null, error: null, ...db.results[table]?.shift() };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "update", "eq", "is", "order", "maybeSingle"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        },
+    }),
+}));
+
+vi.mock("../src/services/transaction-repository.js", () => ({
+    getUserBaseCurrency: async () => "ARS",
+}));
+
+// 1 USD = 1200 ARS; no quote for anything else
+vi.mock("../src/services/exchange-rates.js", () => ({
+    convertToBase: async (amount: number, currency: string) =>
+        currency === "ARS" ? { exchangeRate: 1, rateType: null, amountBase: amount }
+            : currency === "USD" ? { exchangeRate: 1200, rateType: "mep", amountBase: amount * 1200 }
+                : null,
+    pickRateType: () => "mep",
+}));
+
+const { getSubscriptionOverview, pauseSubscription } = await import("../src/services/subscriptions.js");
+
+const subscription = (id: string, extra: object = {}) => ({
+    id,
+    user_id: "user-1",
+    account_id: "acc-1",
+    service_name: id,
+    amount: 1000,
+    currency: "ARS",
+    frequency: "monthly",
+    next_payment_at: "2026-03-20T00:00:00.000Z",
+    anchor_day: 20,
+    cancelled_at: null,
+    paused_until: null,
+    ...extra,
+});
+
+describe("getSubscriptionOverview", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+    });
+
+    it("totals every subscription per month and per year in the base currency", async () => {
+        db.results.subscriptions = [{
+            data: [
+                { ...subscription("netflix", { amount: 12000 }), accounts: { type: "credit_card" } },
+                { ...subscription("gimnasio", { amount: 6000, frequency: "weekly" }), accounts: null },
+                { ...subscription("dominio", { amount: 12, currency: "USD", frequency: "annual" }), accounts: [{ type: "bank" }] },
+            ],
+        }];
+
+        const overview = await getSubscriptionOverview("user-1");
+
+        // 12000 + 6000 × 52/12 + 12 × 1200 / 12
+        expect(overview.items.map((i) => i.monthlyBase)).toEqual([12000, 26000, 1200]);
+        expect(overview).toMatchObject({ monthlyTotal: 39200, yearlyTotal: 470400, currency: "ARS", unconverted: [] });
+    });
+
+    it("lists a subscription without a quote but leaves it out of the totals", async () => {
+        db.results.subscriptions = [{
+            data: [
+                { ...subscription("netflix", { amount: 12000 }), accounts: null },
+                { ...subscription("spotify", { amount: 10, currency: "EUR" }), accounts: null },
+            ],
+        }];
+
+        const overview = await getSubscriptionOverview("user-1");
+
+        expect(overview.items).toHaveLength(2);
+        expect(overview).toMatchObject({ monthlyTotal: 12000, unconverted: ["spotify"] });
+    });
+});
+
+describe("pauseSubscription", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.queries = [];
+        vi.spyOn(console, "log").mockImplementation(() => { });
+    });
+
+    it("skips the charges inside the pause and resumes on the first one after it", async () => {
+        db.results.subscriptions = [{ data: subscription("netflix") }, { data: subscription("netflix") }];
+
+        await pauseSubscription("user-1", "netflix", new Date("2026-05-01T00:00:00Z"));
+
+        const update = db.queries.find((q) => q.calls.some(([m]) => m === "update"))!;
+        expect(update.calls).toContainEqual(["update", [{
+            paused_until: "2026-05-01T00:00:00.000Z",
+            next_payment_at: "2026-05-20T00:00:00.000Z",
+        }]]);
+        // Only the owner's subscription, and never a cancelled one
+        expect(update.calls).toContainEqual(["eq", ["user_id", "user-1"]]);
+        expect(update.calls).toContainEqual(["is", ["cancelled_at", null]]);
+    });
+
+    it("returns null for a subscription that isn't the user's", async () => {
+        db.results.subscriptions = [{ data: null }];
+
+        expect(await pauseSubscription("user-2", "netflix", new Date("2026-05-01T00:00:00Z"))).toBeNull();
+        expect(db.queries).toHaveLength(1);
+    });
+});
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type QueryCall = [method: string, args: unknown[]];
+
+// Every query resolves to the result scripted for its table (or rpc name)
+const db = vi.hoisted(() => ({
+    results: {} as Record<string, { data?: unknown; count?: number; error?: { message: string } | null }>,
+    calls: {} as Record<string, QueryCall[]>,
+}));
+
+vi.mock("../src/lib/supabase.js", () => ({
+    getSupabaseClient: () => {
+        const query = (name: string, first: QueryCall) => {
+            const calls: QueryCall[] = [first];
+            db.calls[name] = calls;
+            const result = { data: null, error: null, ...db.results[name] };
+            const chain: Record<string, unknown> = {
+                then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+                    Promise.resolve(result).then(resolve, reject),
+            };
+            for (const method of ["select", "eq", "gte", "lt", "is", "or", "single"]) {
+                chain[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return chain;
+                };
+            }
+            return chain;
+        };
+        return {
+            from: (table: string) => query(table, ["from", [table]]),
+            rpc: (fn: string, params: unknown) => query(fn, ["rpc", [params]]),
+        };
+    },
+}));
+
+const { getMonthlyTransactionCount, getPeriodSummary } = await import("../src/services/transaction-repository.js");
+
+const argsOf = (name: string, method: string) =>
+    db.calls[name].filter(([m]) => m === method).map(([, args]) => args);
+
+describe("getMonthlyTransactionCount", () => {
+    beforeEach(() => {
+        db.results = { transactions: { count: 7 } };
+        db.calls = {};
+    });
+
+    it("counts the current month of the user's timezone", async () => {
+        db.results.users = { data: { timezone: "America/Argentina/Buenos_Aires" } };
+
+        // 23:00 on 31 March in Buenos Aires, already April in UTC
+        expect(await getMonthlyTransactionCount("user-1", new Date("2026-04-01T02:00:00Z"))).toBe(7);
+        expect(argsOf("transactions", "gte")).toEqual([["occurred_at", "2026-03-01T03:00:00.000Z"]]);
+        expect(argsOf("transactions", "lt")).toEqual([["occurred_at", "2026-04-01T03:00:00.000Z"]]);
+    });
+
+    it("rolls December over into the next year", async () => {
+        db.results.users = { data: { timezone: "Europe/Madrid" } };
+
+        await getMonthlyTransactionCount("user-1", new Date("2026-12-15T12:00:00Z"));
+        expect(argsOf("transactions", "gte")).toEqual([["occurred_at", "2026-11-30T23:00:00.000Z"]]);
+        expect(argsOf("transactions", "lt")).toEqual([["occurred_at", "2026-12-31T23:00:00.000Z"]]);
+    });
+});
+
+describe("getPeriodSummary", () => {
+    beforeEach(() => {
+        db.results = {};
+        db.calls = {};
+    });
+
+    it("reads the totals summed in SQL and merges categories with the same name", async () => {
+        db.results.period_summary = {
+            data: [
+                { transaction_type: "expense", category_id: "global", category: "comida", transaction_count: 1200, total_amount: "950000.50" },
+                { transaction_type: "expense", category_id: "own", category: "comida", transaction_count: 3, total_amount: "4500" },
+                { transaction_type: "transfer", category_id: null, category: null, transaction_count: 2, total_amount: "10000" },
+            ],
+        };
+        const from = new Date("2026-01-01T03:00:00Z");
+        const to = new Date("2027-01-01T03:00:00Z");
+
+        expect(await getPeriodSummary("user-1", from, to)).toEqual([
+            { type: "expense", category: "comida", total: 954500.5, count: 1203 },
+            { type: "transfer", category: "sin categoría", total: 10000, count: 2 },
+        ]);
+        expect(argsOf("period_summary", "rpc")).toEqual([[{
+            p_user_id: "user-1",
+            p_from: from.toISOString(),
+            p_to: to.toISOString(),
+        }]]);
+    });
+
+    it("throws when the summary can't be read", async () => {
+        db.results.period_summary = { error: { message: "function does not exist" } };
+        vi.spyOn(console, "error").mockImplementation(() => { });
+
+        await expect(getPeriodSummary("user-1", new Date(), new Date())).rejects.toThrow("function does not exist");
+    });
+});
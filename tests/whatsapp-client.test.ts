@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const log = vi.hoisted(() => ({ recordOutboundMessage: vi.fn() }));
+
+vi.mock("../src/services/message-log.js", () => log);
+
+const { createCaptureTransport, createWhatsAppClient } = await import("../src/services/whatsapp-client.js");
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const sent = (wamid: string) => json({ messaging_product: "whatsapp", messages: [{ id: wamid }] });
+
+/** A transport answering each request with the next scripted response */
+function scriptedTransport(responses: Array<Response | Error>) {
+    const transport = vi.fn(async () => {
+        const next = responses.shift();
+        if (!next) throw new Error("No response scripted");
+        if (next instanceof Error) throw next;
+        return next;
+    });
+    return transport;
+}
+
+describe("createWhatsAppClient retries", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        log.recordOutboundMessage.mockReset();
+        vi.spyOn(console, "warn").mockImplementation(() => { });
+        vi.spyOn(console, "error").mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("retries rate limits and 5xx errors, then logs the wamid", async () => {
+        const transport = scriptedTransport([
+            json({ error: { code: 130429 } }, 429),
+            json({ error: { code: 1 } }, 503),
+            sent("wamid.1"),
+        ]);
+        const client = createWhatsAppClient({ phoneNumberId: "phone-id", apiToken: "token", transport });
+
+        const wamid = client.sendText("5491100000000", "hola", { kind: "reply" });
+        await vi.runAllTimersAsync();
+
+        expect(await wamid).toBe("wamid.1");
+        expect(transport).toHaveBeenCalledTimes(3);
+        expect(log.recordOutboundMessage).toHaveBeenCalledWith(expect.objectContaining({
+            wamid: "wamid.1",
+            recipient: "5491100000000",
+            kind: "reply",
+        }));
+    });
+
+    it("retries network errors too", async () => {
+        const transport = scriptedTransport([new TypeError("fetch failed"), sent("wamid.1")]);
+        const client = createWhatsAppClient({ phoneNumberId: "phone-id", apiToken: "token", transport });
+
+        const wamid = client.sendText("5491100000000", "hola");
+        await vi.runAllTimersAsync();
+
+        expect(await wamid).toBe("wamid.1");
+        expect(transport).toHaveBeenCalledTimes(2);
+    });
+
+    it("fails at once on other client errors and logs the rejection", async () => {
+        const transport = scriptedTransport([json({ error: { code: 131030, message: "Recipient not allowed" } }, 400)]);
+        const client = createWhatsAppClient({ phoneNumberId: "phone-id", apiToken: "token", transport });
+
+        await expect(client.sendText("5491100000000", "hola")).rejects.toThrow("HTTP 400");
+        expect(transport).toHaveBeenCalledTimes(1);
+        expect(log.recordOutboundMessage).toHaveBeenCalledWith(expect.objectContaining({
+            wamid: null,
+            error: expect.stringContaining("Recipient not allowed"),
+        }));
+    });
+
+    it("gives up after the last retry", async () => {
+        const transport = scriptedTransport([500, 500, 502, 500].map((status) => json({}, status)));
+        const client = createWhatsAppClient({ phoneNumberId: "phone-id", apiToken: "token", transport });
+
+        const failed = expect(client.sendText("5491100000000", "hola")).rejects.toThrow("HTTP 500");
+        await vi.runAllTimersAsync();
+        await failed;
+
+        expect(transport).toHaveBeenCalledTimes(4);
+        expect(log.recordOutboundMessage).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("createCaptureTransport", () => {
+    beforeEach(() => {
+        log.recordOutboundMessage.mockReset();
+        vi.spyOn(console, "log").mockImplementation(() => { });
+    });
+
+    it("captures the messages sent instead of calling Meta", async () => {
+        const { transport, requests } = createCaptureTransport();
+        const client = createWhatsAppClient({ phoneNumberId: "phone-id", apiToken: "token", transport });
+
+        const wamid = await client.sendButtons("5491100000000", "¿Confirmás?", [
+            { id: "confirm_1", title: "✅ Sí" },
+            { id: "cancel_1", title: "❌ No" },
+        ]);
+        await client.markAsRead("wamid.inbound");
+
+        expect(wamid).toBe(requests[0].wamid);
+        expect(requests.map((r) => [r.method, r.url])).toEqual([
+            ["POST", "https://graph.facebook.com/v21.0/phone-id/messages"],
+            ["POST", "https://graph.facebook.com/v21.0/phone-id/messages"],
+        ]);
+        expect(requests[0].body).toMatchObject({
+            messaging_product: "whatsapp",
+            to: "5491100000000",
+            interactive: { action: { buttons: [{ reply: { id: "confirm_1" } }, { reply: { id: "cancel_1" } }] } },
+        });
+
+        // Marking as read isn't a message: nothing to log
+        expect(log.recordOutboundMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("serves uploaded and preloaded media", async () => {
+        const media = new Map([["media-1", { data: Buffer.from("audio"), mimeType: "audio/ogg" }]]);
+        const { transport } = createCaptureTransport({ media });
+        const client = createWhatsAppClient({ phoneNumberId: "phone-id", apiToken: "token", transport });
+
+        expect(await client.uploadMedia(Buffer.from("pdf"), "application/pdf")).toMatch(/^media\.local\./);
+
+        const file = await client.downloadMedia("media-1");
+        expect(file.mimeType).toBe("audio/ogg");
+        expect(file.data.toString()).toBe("audio");
+    });
+});
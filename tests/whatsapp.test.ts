@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/services/message-log.js", () => ({ recordOutboundMessage: vi.fn() }));
+
+const { createCaptureTransport, setWhatsAppTransport } = await import("../src/services/whatsapp-client.js");
+const { isSessionOpen, sendSubscriptionCharged, sendTemplateMessage } = await import("../src/services/whatsapp.js");
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("isSessionOpen", () => {
+    const now = new Date("2026-03-18T15:00:00Z");
+
+    it("is open for 24 hours after the user's last message", () => {
+        expect(isSessionOpen("2026-03-17T15:00:01Z", now)).toBe(true);
+        expect(isSessionOpen("2026-03-17T15:00:00Z", now)).toBe(false);
+    });
+
+    it("is closed for a user who never wrote", () => {
+        expect(isSessionOpen(null, now)).toBe(false);
+        expect(isSessionOpen(undefined, now)).toBe(false);
+    });
+});
+
+describe("session window fallback", () => {
+    let capture: ReturnType<typeof createCaptureTransport>;
+
+    const charged = (lastInboundAt: string | null) => ({
+        to: "5491100000000",
+        phoneNumberId: "phone-id",
+        apiToken: "token",
+        transactionId: "tx-1",
+        serviceName: "Netflix",
+        amount: 8000,
+        currency: "ARS" as const,
+        chargedAt: "2026-03-15T00:00:00.000Z",
+        nextPaymentAt: "2026-04-15T00:00:00.000Z",
+        lastInboundAt,
+    });
+
+    beforeEach(() => {
+        capture = createCaptureTransport();
+        setWhatsAppTransport(capture.transport);
+        vi.spyOn(console, "log").mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        setWhatsAppTransport(null);
+    });
+
+    it("sends the interactive message while the window is open", async () => {
+        await sendSubscriptionCharged(charged(new Date(Date.now() - HOUR_MS).toISOString()));
+
+        const [request] = capture.requests;
+        expect(request.body).toMatchObject({ to: "5491100000000", type: "interactive" });
+    });
+
+    it("falls back to the approved template once the window closed", async () => {
+        await sendSubscriptionCharged(charged(new Date(Date.now() - 25 * HOUR_MS).toISOString()));
+        await sendSubscriptionCharged(charged(null));
+
+        expect(capture.requests).toHaveLength(2);
+        for (const request of capture.requests) {
+            expect(request.body).toMatchObject({
+                type: "template",
+                template: { name: "suma_subscription_charged", language: { code: "es_AR" } },
+            });
+        }
+
+        // Same button ID as the interactive version, so "Deshacer" lands in the same handler
+        const { components } = capture.requests[0].body!.template as { components: Array<Record<string, unknown>> };
+        expect(components).toContainEqual({
+            type: "button",
+            sub_type: "quick_reply",
+            index: "0",
+            parameters: [{ type: "payload", payload: "undo_tx-1" }],
+        });
+    });
+});
+
+describe("sendTemplateMessage", () => {
+    let capture: ReturnType<typeof createCaptureTransport>;
+
+    const target = { to: "5491100000000", phoneNumberId: "phone-id", apiToken: "token" };
+
+    beforeEach(() => {
+        capture = createCaptureTransport();
+        setWhatsAppTransport(capture.transport);
+    });
+
+    afterEach(() => {
+        setWhatsAppTransport(null);
+    });
+
+    it("fills the named parameters, cleaning what Meta rejects", async () => {
+        await sendTemplateMessage({
+            ...target,
+            key: "spending_digest",
+            params: { period: "marzo 2026", expenses: "$ 50.000\n(12 gastos)", income: "$ 0" },
+            language: "es",
+        });
+
+        expect(capture.requests[0].body!.template).toEqual({
+            name: "suma_spending_digest",
+            language: { code: "es" },
+            components: [{
+                type: "body",
+                parameters: [
+                    { type: "text", parameter_name: "period", text: "marzo 2026" },
+                    { type: "text", parameter_name: "expenses", text: "$ 50.000 (12 gastos)" },
+                    { type: "text", parameter_name: "income", text: "$ 0" },
+                ],
+            }],
+        });
+    });
+
+    it("uses the default locale for one the template isn't approved in", async () => {
+        await sendTemplateMessage({ ...target, key: "savings_nudge", params: { goals: "vacaciones" }, language: "en_US" });
+
+        expect(capture.requests[0].body!.template).toMatchObject({ language: { code: "es_AR" } });
+    });
+
+    it("refuses to send with a parameter or button missing", async () => {
+        await expect(sendTemplateMessage({ ...target, key: "savings_nudge", params: {} }))
+            .rejects.toThrow("missing parameters: goals");
+        await expect(sendTemplateMessage({
+            ...target,
+            key: "renewal_reminder",
+            params: { service_name: "Netflix", end_date: "31/03" },
+            buttonPayloads: ["renew_sub-1"],
+        })).rejects.toThrow("needs 2 button payloads, got 1");
+
+        expect(capture.requests).toEqual([]);
+    });
+});